@@ -2,9 +2,16 @@
 
 import type { MapCenter } from "@/types"
 
+// How precisely Google placed the address, from exact rooftop down to approximate
+export type GeocodePrecision = "ROOFTOP" | "RANGE_INTERPOLATED" | "GEOMETRIC_CENTER" | "APPROXIMATE"
+
 export async function geocodeAddress(address: string): Promise<{
   success: boolean
   data?: MapCenter
+  formattedAddress?: string
+  precision?: GeocodePrecision
+  // Set when Google matched only part of the address
+  partialMatch?: boolean
   error?: string
 }> {
   try {
@@ -29,8 +36,15 @@ export async function geocodeAddress(address: string): Promise<{
       }
     }
 
-    const { lat, lng } = data.results[0].geometry.location
-    return { success: true, data: { lat, lng } }
+    const [result] = data.results
+    const { lat, lng } = result.geometry.location
+    return {
+      success: true,
+      data: { lat, lng },
+      formattedAddress: result.formatted_address,
+      precision: result.geometry.location_type,
+      partialMatch: Boolean(result.partial_match),
+    }
   } catch (error) {
     console.error("Geocoding error:", error)
     return {
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { DEFAULT_BRANDING, getBranding, saveBranding, validateBranding } from "@/lib/branding-service"
+
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  return NextResponse.json(await getBranding(context.workspace.id))
+}
+
+export async function PUT(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageBranding")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageBranding") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    const input = {
+      companyName: String(body.companyName ?? DEFAULT_BRANDING.companyName).trim(),
+      logoUrl: body.logoUrl ? String(body.logoUrl).trim() : null,
+      primaryColor: String(body.primaryColor ?? DEFAULT_BRANDING.primaryColor),
+      footerText: String(body.footerText ?? ""),
+      rankColors: Array.isArray(body.rankColors) ? body.rankColors.map(String) : DEFAULT_BRANDING.rankColors,
+    }
+
+    const validationError = validateBranding(input)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    return NextResponse.json(await saveBranding(context.workspace.id, input))
+  } catch (error) {
+    console.error("Error saving branding:", error)
+    return NextResponse.json({ error: "Failed to save branding" }, { status: 500 })
+  }
+}
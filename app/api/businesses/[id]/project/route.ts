@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { assignBusinessToProject } from "@/lib/client-service"
+
+// File the business and all of its scans under a project, or unassign it with null
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageClients")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageClients") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const projectId = body.projectId ? String(body.projectId) : null
+
+    const assigned = await assignBusinessToProject(context.workspace.id, params.id, projectId)
+    if (!assigned) {
+      return NextResponse.json({ error: "Business or project not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, id: params.id, projectId })
+  } catch (error) {
+    console.error("Error assigning business to project:", error)
+    return NextResponse.json({ error: "Failed to assign business" }, { status: 500 })
+  }
+}
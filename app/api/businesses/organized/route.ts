@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getOrganizedBusinesses } from "@/lib/client-service"
+
+// Every business in the workspace with the project it is filed under
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const businesses = await getOrganizedBusinesses(context.workspace.id)
+    return NextResponse.json(businesses)
+  } catch (error) {
+    console.error("Error fetching businesses:", error)
+    return NextResponse.json({ error: "Failed to fetch businesses" }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { getBusinesses, saveBusiness } from "@/lib/geogrid-service"
+
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const businesses = await getBusinesses(context.workspace.id)
+    return NextResponse.json(businesses)
+  } catch (error) {
+    console.error("Error fetching businesses:", error)
+    return NextResponse.json({ error: "Failed to fetch businesses" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "runScans")) {
+    return NextResponse.json({ error: permissionDeniedMessage("runScans") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    if (!body.name || !body.location) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    }
+
+    const id = await saveBusiness(context.workspace.id, {
+      name: body.name,
+      address: body.address || "",
+      location: {
+        lat: Number(body.location.lat),
+        lng: Number(body.location.lng),
+      },
+      category: body.category,
+      placeId: body.placeId,
+    })
+    return NextResponse.json({ id }, { status: 201 })
+  } catch (error) {
+    console.error("Error saving business:", error)
+    return NextResponse.json({ error: "Failed to save business" }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { createProject, validateFolderName } from "@/lib/client-service"
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageClients")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageClients") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const name = String(body.name ?? "")
+
+    const validationError = validateFolderName(name)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const project = await createProject(context.workspace.id, params.id, name)
+    if (!project) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(project, { status: 201 })
+  } catch (error) {
+    console.error("Error creating project:", error)
+    return NextResponse.json({ error: "Failed to create project" }, { status: 500 })
+  }
+}
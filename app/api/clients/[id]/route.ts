@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { deleteClient, getClientDashboard, renameClient, validateFolderName } from "@/lib/client-service"
+
+// The client's dashboard: roll-up metrics, projects, scans and schedules
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const dashboard = await getClientDashboard(context.workspace.id, params.id)
+
+    if (!dashboard) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(dashboard)
+  } catch (error) {
+    console.error("Error building client dashboard:", error)
+    return NextResponse.json({ error: "Failed to load client" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageClients")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageClients") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const name = String(body.name ?? "")
+
+    const validationError = validateFolderName(name)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const client = await renameClient(context.workspace.id, params.id, name)
+    if (!client) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(client)
+  } catch (error) {
+    console.error("Error renaming client:", error)
+    return NextResponse.json({ error: "Failed to rename client" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageClients")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageClients") }, { status: 403 })
+  }
+
+  const deleted = await deleteClient(context.workspace.id, params.id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Failed to delete client" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, id: params.id })
+}
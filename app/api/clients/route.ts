@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { createClient, getClients, validateFolderName } from "@/lib/client-service"
+
+// Clients with their projects
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const clients = await getClients(context.workspace.id)
+    return NextResponse.json(clients)
+  } catch (error) {
+    console.error("Error fetching clients:", error)
+    return NextResponse.json({ error: "Failed to fetch clients" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageClients")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageClients") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const name = String(body.name ?? "")
+
+    const validationError = validateFolderName(name)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const client = await createClient(context.workspace.id, name)
+    return NextResponse.json(client, { status: 201 })
+  } catch (error) {
+    console.error("Error creating client:", error)
+    return NextResponse.json({ error: "Failed to create client" }, { status: 500 })
+  }
+}
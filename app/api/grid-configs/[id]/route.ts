@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { deleteGridConfig, getGridConfigById, updateGridConfig, validateGridConfig } from "@/lib/grid-config-service"
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const config = await getGridConfigById(context.workspace.id, params.id)
+
+  if (!config) {
+    return NextResponse.json({ error: "Grid configuration not found" }, { status: 404 })
+  }
+
+  return NextResponse.json(config)
+}
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageConfigs")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageConfigs") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    const input = {
+      name: body.name !== undefined ? String(body.name).trim() : undefined,
+      description: body.description,
+      gridSize: body.gridSize,
+      distanceKm: body.distanceKm !== undefined ? Number(body.distanceKm) : undefined,
+      googleRegion: body.googleRegion,
+      shape: body.shape,
+      polygon: body.polygon,
+      keywords: Array.isArray(body.keywords) ? body.keywords : undefined,
+      businessInfo: body.businessInfo,
+    }
+
+    const validationError = validateGridConfig(input)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const config = await updateGridConfig(context.workspace.id, params.id, input)
+
+    if (!config) {
+      return NextResponse.json({ error: "Grid configuration not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(config)
+  } catch (error) {
+    console.error("Error updating grid configuration:", error)
+    return NextResponse.json({ error: "Failed to update grid configuration" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageConfigs")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageConfigs") }, { status: 403 })
+  }
+
+  const deleted = await deleteGridConfig(context.workspace.id, params.id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Failed to delete grid configuration" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, id: params.id })
+}
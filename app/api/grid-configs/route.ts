@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { createGridConfig, getGridConfigs, validateGridConfig } from "@/lib/grid-config-service"
+
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const configs = await getGridConfigs(context.workspace.id)
+    return NextResponse.json(configs)
+  } catch (error) {
+    console.error("Error fetching grid configurations:", error)
+    return NextResponse.json({ error: "Failed to fetch grid configurations" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageConfigs")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageConfigs") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    if (!body.name || !body.gridSize || !body.distanceKm) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    }
+
+    const input = {
+      name: String(body.name).trim(),
+      description: body.description || null,
+      gridSize: body.gridSize,
+      distanceKm: Number(body.distanceKm),
+      googleRegion: body.googleRegion || "global",
+      shape: body.shape || "square",
+      polygon: body.polygon || null,
+      keywords: Array.isArray(body.keywords) ? body.keywords : [],
+      businessInfo: body.businessInfo || null,
+    }
+
+    const validationError = validateGridConfig(input)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const config = await createGridConfig(context.workspace.id, input)
+    return NextResponse.json(config, { status: 201 })
+  } catch (error) {
+    console.error("Error creating grid configuration:", error)
+    return NextResponse.json({ error: "Failed to create grid configuration" }, { status: 500 })
+  }
+}
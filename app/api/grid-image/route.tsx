@@ -0,0 +1,179 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { ImageResponse } from "next/og"
+import { brandLogoDataUri, fetchBrandLogo } from "@/lib/brand-logo"
+import { DEFAULT_BRANDING, getBranding } from "@/lib/branding-service"
+import { getGridResultById } from "@/lib/geogrid-service"
+import {
+  DEFAULT_GRID_IMAGE_OPTIONS,
+  layoutGridImage,
+  renderGridImageSvg,
+  validateGridImageOptions,
+  type GridImageLayout,
+  type GridImageOptions,
+} from "@/lib/grid-image"
+
+// Kept short so branding changes show up soon
+const CACHE_CONTROL = "public, max-age=300"
+
+function GridImage({ layout }: { layout: GridImageLayout }) {
+  const { padding, headerHeight, footerHeight, titleSize, subtitleSize, metricWidth, colors } = layout
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        position: "relative",
+        width: layout.width,
+        height: layout.height,
+        backgroundColor: colors.background,
+        color: colors.text,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          position: "absolute",
+          left: padding,
+          top: padding,
+          right: padding,
+          height: headerHeight - padding,
+          justifyContent: "space-between",
+          borderBottom: `2px solid ${layout.primaryColor}`,
+        }}
+      >
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div style={{ fontSize: titleSize, fontWeight: 700 }}>{layout.title}</div>
+          <div style={{ fontSize: subtitleSize, color: colors.muted, marginTop: subtitleSize * 0.4 }}>{layout.subtitle}</div>
+        </div>
+        <div style={{ display: "flex" }}>
+          {layout.metrics.map((metric) => (
+            <div
+              key={metric.label}
+              style={{ display: "flex", flexDirection: "column", alignItems: "flex-end", width: metricWidth }}
+            >
+              <div style={{ fontSize: titleSize, fontWeight: 700 }}>{metric.value}</div>
+              <div style={{ fontSize: subtitleSize, color: colors.muted, marginTop: subtitleSize * 0.4 }}>{metric.label}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {layout.cells.map((cell, index) => {
+        if (layout.style === "bubbles" && !cell.label) return null
+
+        const bubble = layout.style === "bubbles"
+        const side = bubble ? cell.size * 0.84 : cell.size - 1
+        const inset = bubble ? (cell.size - side) / 2 : 0
+
+        return (
+          <div
+            key={index}
+            style={{
+              display: "flex",
+              position: "absolute",
+              left: cell.x + inset,
+              top: cell.y + inset,
+              width: side,
+              height: side,
+              alignItems: "center",
+              justifyContent: "center",
+              backgroundColor: cell.color,
+              borderRadius: bubble ? side / 2 : 0,
+              color: "#ffffff",
+              fontSize: cell.size * (cell.label && cell.label.length > 2 ? 0.28 : 0.36),
+              fontWeight: 700,
+            }}
+          >
+            {cell.label}
+          </div>
+        )
+      })}
+
+      {footerHeight > 0 && (
+        <div
+          style={{
+            display: "flex",
+            position: "absolute",
+            left: padding,
+            right: padding,
+            bottom: 0,
+            height: footerHeight,
+            alignItems: "center",
+            justifyContent: "space-between",
+            fontSize: subtitleSize,
+            color: colors.muted,
+          }}
+        >
+          <div>{layout.footerText}</div>
+          {layout.logoSrc && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={layout.logoSrc}
+              alt=""
+              width={footerHeight * 3}
+              height={footerHeight * 0.7}
+              style={{ objectFit: "contain", objectPosition: "right" }}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Image of a saved grid result, rendered entirely on the server. Takes `format`
+// (png or svg), `width` in pixels, `style` (bubbles or squares) and `theme`
+// (light or dark). The saved branding is applied unless `branding=false`.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const id = searchParams.get("id")
+
+  if (!id) {
+    return new NextResponse("Missing grid ID", { status: 400 })
+  }
+
+  const options: GridImageOptions = {
+    format: (searchParams.get("format") as GridImageOptions["format"]) || DEFAULT_GRID_IMAGE_OPTIONS.format,
+    width: searchParams.has("width") ? Number(searchParams.get("width")) : DEFAULT_GRID_IMAGE_OPTIONS.width,
+    style: (searchParams.get("style") as GridImageOptions["style"]) || DEFAULT_GRID_IMAGE_OPTIONS.style,
+    theme: (searchParams.get("theme") as GridImageOptions["theme"]) || DEFAULT_GRID_IMAGE_OPTIONS.theme,
+  }
+
+  const validationError = validateGridImageOptions(options)
+  if (validationError) {
+    return new NextResponse(validationError, { status: 400 })
+  }
+
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return new NextResponse("Unauthorized", { status: 401 })
+  }
+
+  try {
+    const gridResult = await getGridResultById(context.workspace.id, id)
+
+    if (!gridResult) {
+      return new NextResponse("Grid not found", { status: 404 })
+    }
+
+    const branding = searchParams.get("branding") === "false" ? DEFAULT_BRANDING : await getBranding(context.workspace.id)
+    const logoSrc = brandLogoDataUri(await fetchBrandLogo(branding))
+    const layout = layoutGridImage(gridResult, options, branding, logoSrc)
+
+    if (options.format === "svg") {
+      return new NextResponse(renderGridImageSvg(layout), {
+        headers: { "Content-Type": "image/svg+xml", "Cache-Control": CACHE_CONTROL },
+      })
+    }
+
+    return new ImageResponse(<GridImage layout={layout} />, {
+      width: layout.width,
+      height: layout.height,
+      headers: { "Cache-Control": CACHE_CONTROL },
+    })
+  } catch (error) {
+    console.error("Error generating grid image:", error)
+    return new NextResponse("Internal server error", { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getCompetitorGrids } from "@/lib/competitor-grid-service"
+
+// Every business seen in the scan with its own rank grid, sorted by SoLV
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const competitors = await getCompetitorGrids(context.workspace.id, params.id)
+
+    if (!competitors) {
+      return NextResponse.json({ error: "Grid result not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(competitors)
+  } catch (error) {
+    console.error("Error building competitor grids:", error)
+    return NextResponse.json({ error: "Failed to build competitor grids" }, { status: 500 })
+  }
+}
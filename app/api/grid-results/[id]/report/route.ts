@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { REPORT_SECTIONS, validateReportSections, type ReportSection } from "@/lib/report-builder"
+import { getGridReport } from "@/lib/report-service"
+import { renderReportCsv, renderReportPdf } from "@/lib/report-renderer"
+
+// Download a report of the scan. `?sections=` takes a comma-separated list of
+// report sections and defaults to all of them; `?format=csv` returns the same
+// sections as CSV tables instead of a PDF. The saved branding is applied unless
+// `?branding=false`.
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const format = searchParams.get("format") || "pdf"
+  const sectionsParam = searchParams.get("sections")
+  const branded = searchParams.get("branding") !== "false"
+  const sections = sectionsParam !== null ? sectionsParam.split(",").filter(Boolean) : REPORT_SECTIONS
+
+  if (format !== "pdf" && format !== "csv") {
+    return NextResponse.json({ error: "Invalid format. Must be pdf or csv" }, { status: 400 })
+  }
+
+  const validationError = validateReportSections(sections)
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 })
+  }
+
+  try {
+    const report = await getGridReport(context.workspace.id, params.id, sections as ReportSection[], branded)
+
+    if (!report) {
+      return NextResponse.json({ error: "Grid result not found" }, { status: 404 })
+    }
+
+    const filename = `report-${report.result.businessInfo.name}-${report.result.searchTerm}`
+      .replace(/[^a-z0-9]+/gi, "-")
+      .toLowerCase()
+
+    if (format === "csv") {
+      return new NextResponse(renderReportCsv(report), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        },
+      })
+    }
+
+    return new NextResponse(await renderReportPdf(report), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}.pdf"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error generating report:", error)
+    return NextResponse.json({ error: "Failed to generate report" }, { status: 500 })
+  }
+}
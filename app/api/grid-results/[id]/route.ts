@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { deleteGridResult } from "@/lib/geogrid-service"
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "deleteScans")) {
+    return NextResponse.json({ error: permissionDeniedMessage("deleteScans") }, { status: 403 })
+  }
+
+  const deleted = await deleteGridResult(context.workspace.id, params.id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Failed to delete grid result" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, id: params.id })
+}
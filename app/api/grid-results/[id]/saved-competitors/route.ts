@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getCompetitors } from "@/lib/geogrid-service"
+
+// Nearby places stored alongside the grid result when it was saved
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const competitors = await getCompetitors(context.workspace.id, params.id)
+  return NextResponse.json(competitors)
+}
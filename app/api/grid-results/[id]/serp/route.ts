@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getGridResultById } from "@/lib/geogrid-service"
+import { getSerpSnapshot } from "@/lib/serp-snapshot-service"
+
+// Stored search results for a grid result, optionally for a single point (?point=<index>)
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const gridResult = await getGridResultById(context.workspace.id, params.id)
+    if (!gridResult) {
+      return NextResponse.json({ error: "Grid result not found" }, { status: 404 })
+    }
+
+    const url = new URL(request.url)
+    const point = url.searchParams.get("point")
+
+    const snapshot = await getSerpSnapshot(params.id, point !== null ? Number.parseInt(point) : undefined)
+    return NextResponse.json(snapshot)
+  } catch (error) {
+    console.error("Error fetching SERP snapshot:", error)
+    return NextResponse.json({ error: "Failed to fetch search results snapshot" }, { status: 500 })
+  }
+}
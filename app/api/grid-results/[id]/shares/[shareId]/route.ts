@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { revokeShare } from "@/lib/share-service"
+
+// Revoke a share link; it stops working immediately
+export async function DELETE(_request: Request, { params }: { params: { id: string; shareId: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageShares")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageShares") }, { status: 403 })
+  }
+
+  const revoked = await revokeShare(context.workspace.id, params.id, params.shareId)
+
+  if (!revoked) {
+    return NextResponse.json({ error: "Share link not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { getGridResultById } from "@/lib/geogrid-service"
+import { createShare, getActiveShares, validateShareInput } from "@/lib/share-service"
+
+// Share links of the result that haven't expired or been revoked
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  return NextResponse.json(await getActiveShares(context.workspace.id, params.id))
+}
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageShares")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageShares") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    const input = {
+      expiresInDays: body.expiresInDays != null ? Number(body.expiresInDays) : null,
+      password: body.password ? String(body.password) : null,
+    }
+
+    const validationError = validateShareInput(input)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const gridResult = await getGridResultById(context.workspace.id, params.id)
+    if (!gridResult) {
+      return NextResponse.json({ error: "Grid result not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(await createShare(context.workspace.id, params.id, input), { status: 201 })
+  } catch (error) {
+    console.error("Error creating grid share:", error)
+    return NextResponse.json({ error: "Failed to create share link" }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getBranding } from "@/lib/branding-service"
+import { getTimelapse } from "@/lib/timelapse-service"
+import { renderTimelapseGif, renderTimelapseStrip } from "@/lib/timelapse-renderer"
+
+// Every scan of the result's keyword on the same grid, oldest first. `?format=gif`
+// downloads them as an animated GIF and `?format=strip` as an SVG frame strip.
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const format = new URL(request.url).searchParams.get("format") || "json"
+
+  if (!["json", "gif", "strip"].includes(format)) {
+    return NextResponse.json({ error: "Invalid format. Must be json, gif or strip" }, { status: 400 })
+  }
+
+  try {
+    const timelapse = await getTimelapse(context.workspace.id, params.id)
+
+    if (!timelapse) {
+      return NextResponse.json({ error: "Grid result not found" }, { status: 404 })
+    }
+
+    const { result, gridSize, frames } = timelapse
+
+    if (format === "json") {
+      return NextResponse.json({ gridSize, frames })
+    }
+
+    if (frames.length === 0) {
+      return NextResponse.json({ error: "No scans to render" }, { status: 404 })
+    }
+
+    const { rankColors } = await getBranding(context.workspace.id)
+    const filename = `timelapse-${result.searchTerm.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}`
+
+    if (format === "gif") {
+      return new NextResponse(renderTimelapseGif(frames, gridSize, rankColors), {
+        headers: {
+          "Content-Type": "image/gif",
+          "Content-Disposition": `attachment; filename="${filename}.gif"`,
+        },
+      })
+    }
+
+    return new NextResponse(renderTimelapseStrip(frames, gridSize, rankColors), {
+      headers: {
+        "Content-Type": "image/svg+xml",
+        "Content-Disposition": `attachment; filename="${filename}.svg"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error building timelapse:", error)
+    return NextResponse.json({ error: "Failed to build timelapse" }, { status: 500 })
+  }
+}
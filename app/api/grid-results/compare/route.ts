@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getGridComparison } from "@/lib/grid-comparison-service"
+
+// Point-by-point comparison of two scans of the same grid
+export async function GET(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const base = searchParams.get("base")
+  const compare = searchParams.get("compare")
+
+  if (!base || !compare) {
+    return NextResponse.json({ error: "Missing required parameters: base and compare" }, { status: 400 })
+  }
+
+  try {
+    const comparison = await getGridComparison(context.workspace.id, base, compare)
+
+    if (!comparison) {
+      return NextResponse.json({ error: "Grid result not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(comparison)
+  } catch (error) {
+    console.error("Error comparing grid results:", error)
+    const message = error instanceof Error ? error.message : "Failed to compare grid results"
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+}
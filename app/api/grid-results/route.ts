@@ -1,19 +1,25 @@
 import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
 import { getGridResults, getGridResultById } from "@/lib/geogrid-service"
 
 export async function GET(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
   try {
     const url = new URL(request.url)
     const id = url.searchParams.get("id")
 
     if (id) {
-      const result = await getGridResultById(id)
+      const result = await getGridResultById(context.workspace.id, id)
       if (!result) {
         return NextResponse.json({ error: "Grid result not found" }, { status: 404 })
       }
       return NextResponse.json(result)
     } else {
-      const results = await getGridResults()
+      const results = await getGridResults(context.workspace.id)
       return NextResponse.json(results)
     }
   } catch (error) {
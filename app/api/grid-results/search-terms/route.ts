@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getRecentSearchTerms } from "@/lib/geogrid-service"
+
+// Search terms used by the workspace's recent scans, most recent first
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const terms = await getRecentSearchTerms(context.workspace.id)
+  return NextResponse.json(terms)
+}
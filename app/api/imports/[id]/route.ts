@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getScanImport } from "@/lib/scan-import-service"
+
+// Status and progress of every scan set launched by the import
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const scanImport = await getScanImport(context.workspace.id, params.id)
+
+    if (!scanImport) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(scanImport)
+  } catch (error) {
+    console.error("Error fetching scan import:", error)
+    return NextResponse.json({ error: "Failed to fetch import" }, { status: 500 })
+  }
+}
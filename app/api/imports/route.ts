@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { MAX_IMPORT_ROWS } from "@/lib/bulk-import"
+import { getGridConfigs, validateGridConfig, type GridConfigProfile } from "@/lib/grid-config-service"
+import { createScanImport, getScanImports } from "@/lib/scan-import-service"
+import { MAX_SCAN_SET_KEYWORDS, normalizeKeywords, type CreateScanSetInput } from "@/lib/scan-set-service"
+
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const imports = await getScanImports(context.workspace.id)
+    return NextResponse.json(imports)
+  } catch (error) {
+    console.error("Error fetching scan imports:", error)
+    return NextResponse.json({ error: "Failed to fetch imports" }, { status: 500 })
+  }
+}
+
+// Enqueue a scan set for every resolved spreadsheet row, with a scan job per keyword,
+// for the cron's job runner to work through. Each row uses its own saved grid
+// configuration, or the import's configuration or custom grid settings.
+export async function POST(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "runScans")) {
+    return NextResponse.json({ error: permissionDeniedMessage("runScans") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    if (!Array.isArray(body.scans) || body.scans.length === 0) {
+      return NextResponse.json({ error: "There are no rows to scan" }, { status: 400 })
+    }
+    if (body.scans.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: `An import can contain at most ${MAX_IMPORT_ROWS} rows` }, { status: 400 })
+    }
+
+    const configs = new Map<string, GridConfigProfile>(
+      (await getGridConfigs(context.workspace.id)).map((config) => [config.id, config])
+    )
+
+    const defaultConfigId: string | null = body.configId || null
+    const customSettings = {
+      gridSize: String(body.gridSize || ""),
+      distanceKm: Number(body.distanceKm),
+      googleRegion: body.googleRegion || "global",
+    }
+    if (!defaultConfigId && body.scans.some((scan: { configId?: string }) => !scan.configId)) {
+      const settingsError = validateGridConfig(customSettings)
+      if (settingsError) {
+        return NextResponse.json({ error: settingsError }, { status: 400 })
+      }
+    }
+
+    const scans: Omit<CreateScanSetInput, "importId">[] = []
+    for (const scan of body.scans) {
+      const row = scan.rowNumber ? `Row ${scan.rowNumber}: ` : ""
+      const lat = Number(scan.businessInfo?.location?.lat)
+      const lng = Number(scan.businessInfo?.location?.lng)
+      if (!scan.businessInfo?.name || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+        return NextResponse.json({ error: `${row}A resolved business location is required` }, { status: 400 })
+      }
+
+      const keywords = normalizeKeywords(Array.isArray(scan.keywords) ? scan.keywords.map(String) : [])
+      if (keywords.length === 0 || keywords.length > MAX_SCAN_SET_KEYWORDS) {
+        return NextResponse.json(
+          { error: `${row}Between 1 and ${MAX_SCAN_SET_KEYWORDS} keywords are required` },
+          { status: 400 }
+        )
+      }
+
+      const configId: string | null = scan.configId || defaultConfigId
+      const config = configId ? configs.get(configId) : undefined
+      if (configId && !config) {
+        return NextResponse.json({ error: `${row}Grid configuration not found` }, { status: 400 })
+      }
+      // A service area is drawn around one business, so it can't be reused for others
+      if (config?.shape === "polygon") {
+        return NextResponse.json(
+          { error: `${row}Service area configurations can't be used for imports` },
+          { status: 400 }
+        )
+      }
+
+      scans.push({
+        businessInfo: {
+          name: scan.businessInfo.name,
+          address: scan.businessInfo.address || "",
+          location: { lat, lng },
+          placeId: scan.businessInfo.placeId,
+          category: scan.businessInfo.category,
+        },
+        keywords,
+        gridSize: config ? config.gridSize : customSettings.gridSize,
+        distanceKm: config ? config.distanceKm : customSettings.distanceKm,
+        googleRegion: config ? config.googleRegion : customSettings.googleRegion,
+        shape: config ? config.shape : "square",
+        polygon: null,
+      })
+    }
+
+    const fileName = String(body.fileName || "Import").slice(0, 200)
+    const scanImport = await createScanImport(context.workspace.id, fileName, scans)
+
+    return NextResponse.json(scanImport, { status: 202 })
+  } catch (error) {
+    console.error("Error creating scan import:", error)
+    return NextResponse.json({ error: "Failed to create import" }, { status: 500 })
+  }
+}
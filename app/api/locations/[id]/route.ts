@@ -1,37 +1,160 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceContext } from '@/lib/auth';
+import { hasPermission, permissionDeniedMessage } from '@/lib/workspace-roles';
+import { geocodeAddress } from '@/app/actions/geocode';
+import {
+  LOCATION_ADDRESS_FIELDS,
+  businessExists,
+  deleteLocation,
+  formatLocationAddress,
+  getLocationById,
+  getLocationScans,
+  updateLocation,
+  validateLocationInput,
+  type LocationFields,
+} from '@/lib/location-service';
 
-// Get locations reference - in a real app this would be a database connection
-// For now, we import directly from the parent file's in-memory storage
-import { locations, Location } from '../route';
+// GET a location with the scans of its business
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const context = await getWorkspaceContext();
+  if (!context) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
 
-// DELETE a specific location
-export async function DELETE(
+  try {
+    const location = await getLocationById(context.workspace.id, params.id);
+    if (!location) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    const scans = await getLocationScans(context.workspace.id, location);
+    return NextResponse.json({ ...location, scans });
+  } catch (error) {
+    console.error('Error fetching location:', error);
+    return NextResponse.json({ error: 'Failed to fetch location' }, { status: 500 });
+  }
+}
+
+// PUT replaces every field of a location: optional fields left out are cleared
+// and isPrimary is false unless sent. The linked business stays unless sent.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return saveLocation(request, params.id, false);
+}
+
+// PATCH changes only the fields sent
+export async function PATCH(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  const id = params.id;
-  
-  // Find the location index
-  const locationIndex = locations.findIndex((loc: Location) => loc.id === id);
-  
-  // If location not found
-  if (locationIndex === -1) {
-    return NextResponse.json(
-      { error: 'Location not found' },
-      { status: 404 }
-    );
-  }
-  
-  // Delete the location from the array
-  const deletedLocation = locations[locationIndex];
-  locations.splice(locationIndex, 1);
-  
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
+  return saveLocation(request, params.id, true);
+}
+
+async function saveLocation(request: NextRequest, id: string, partial: boolean) {
+  const context = await getWorkspaceContext();
+  if (!context) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!hasPermission(context.role, 'manageLocations')) {
+    return NextResponse.json({ error: permissionDeniedMessage('manageLocations') }, { status: 403 });
+  }
+
+  try {
+    const body = partial
+      ? await request.json()
+      : { isPrimary: false, neighborhood: '', keyword: '', profileName: null, ...(await request.json()) };
+
+    const validationError = validateLocationInput(body, partial);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const existing = await getLocationById(context.workspace.id, id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    // A workspace always keeps a primary location, so it can only move to another one
+    if (existing.isPrimary && body.isPrimary === false) {
+      return NextResponse.json(
+        { error: 'Make another location primary instead of unsetting the primary location' },
+        { status: 400 }
+      );
+    }
+
+    const changes: Partial<LocationFields> = {};
+    for (const field of ['name', ...LOCATION_ADDRESS_FIELDS] as const) {
+      if (body[field] !== undefined) changes[field] = body[field];
+    }
+    if (body.isPrimary !== undefined) changes.isPrimary = body.isPrimary;
+    if (body.neighborhood !== undefined) changes.neighborhood = body.neighborhood;
+    if (body.keyword !== undefined) changes.keyword = body.keyword;
+    if (body.profileName !== undefined) changes.profileName = body.profileName || null;
+
+    const merged = { ...existing, ...changes };
+    if (LOCATION_ADDRESS_FIELDS.some((field) => merged[field].trim() !== existing[field])) {
+      const geocoded = await geocodeAddress(formatLocationAddress(merged));
+      if (!geocoded.success || !geocoded.data) {
+        return NextResponse.json(
+          { error: `Couldn't find the address on the map: ${geocoded.error || 'no results'}` },
+          { status: 422 }
+        );
+      }
+      changes.latitude = geocoded.data.lat;
+      changes.longitude = geocoded.data.lng;
+    }
+
+    // The linked business, and so the scan history, stays unless another one is chosen
+    if (body.businessId !== undefined && body.businessId !== existing.businessId) {
+      if (body.businessId !== null && !(await businessExists(context.workspace.id, String(body.businessId)))) {
+        return NextResponse.json({ error: 'Business not found' }, { status: 400 });
+      }
+      changes.businessId = body.businessId === null ? null : String(body.businessId);
+    }
+
+    const location = await updateLocation(context.workspace.id, id, changes);
+    if (!location) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(location);
+  } catch (error) {
+    console.error('Error updating location:', error);
+    return NextResponse.json({ error: 'Failed to update location' }, { status: 500 });
+  }
+}
+
+// DELETE a specific location; the oldest remaining location becomes primary if it was
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const context = await getWorkspaceContext();
+  if (!context) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!hasPermission(context.role, 'manageLocations')) {
+    return NextResponse.json({ error: permissionDeniedMessage('manageLocations') }, { status: 403 });
+  }
+
+  const location = await getLocationById(context.workspace.id, params.id);
+  if (!location) {
+    return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+  }
+
+  const deleted = await deleteLocation(context.workspace.id, params.id);
+  if (!deleted) {
+    return NextResponse.json({ error: 'Failed to delete location' }, { status: 500 });
+  }
+
   return NextResponse.json({
     success: true,
-    id,
-    deleted: deletedLocation
+    id: params.id,
+    deleted: location
   });
-} 
\ No newline at end of file
+}
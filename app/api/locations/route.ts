@@ -1,94 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { v4 as uuidv4 } from 'uuid';
+import { getWorkspaceContext } from '@/lib/auth';
+import { hasPermission, permissionDeniedMessage } from '@/lib/workspace-roles';
+import { geocodeAddress } from '@/app/actions/geocode';
+import {
+  businessExists,
+  createLocation,
+  formatLocationAddress,
+  getLocations,
+  saveLocationBusiness,
+  validateLocationInput,
+  type LocationInput,
+} from '@/lib/location-service';
 
-// Define the location interface
-export interface Location {
-  id: string;
-  name: string;
-  address: string;
-  city: string;
-  state: string;
-  zipCode: string;
-  latitude: number;
-  longitude: number;
-  isPrimary: boolean;
-}
-
-// In-memory storage for locations
-// In a real app, this would be stored in a database
-export let locations: Location[] = [
-  {
-    id: uuidv4(),
-    name: 'Main Office',
-    address: '123 Main St',
-    city: 'San Francisco',
-    state: 'CA',
-    zipCode: '94105',
-    latitude: 37.7749,
-    longitude: -122.4194,
-    isPrimary: true
-  },
-  {
-    id: uuidv4(),
-    name: 'Downtown Branch',
-    address: '456 Market St',
-    city: 'San Francisco',
-    state: 'CA',
-    zipCode: '94103',
-    latitude: 37.7785,
-    longitude: -122.4212,
-    isPrimary: false
+// GET the workspace's locations, primary first
+export async function GET() {
+  const context = await getWorkspaceContext();
+  if (!context) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
-];
 
-// GET all locations
-export async function GET() {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  return NextResponse.json(locations);
+  try {
+    const locations = await getLocations(context.workspace.id);
+    return NextResponse.json(locations);
+  } catch (error) {
+    console.error('Error fetching locations:', error);
+    return NextResponse.json({ error: 'Failed to fetch locations' }, { status: 500 });
+  }
 }
 
-// POST a new location
+// POST a new location. The address is geocoded, and the location is linked to
+// the business given by businessId or to one saved for its name and address.
 export async function POST(request: NextRequest) {
-  const body = await request.json();
-  
-  // Validate required fields
-  if (!body.name || !body.address || !body.city || !body.state || !body.zipCode) {
-    return NextResponse.json(
-      { error: 'Missing required fields' },
-      { status: 400 }
-    );
+  const context = await getWorkspaceContext();
+  if (!context) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
-  
-  // In a real app, we would validate the data more thoroughly
-  
-  // Create new location with either provided ID or generate one
-  const newLocation: Location = {
-    id: body.id || uuidv4(),
-    name: body.name,
-    address: body.address,
-    city: body.city,
-    state: body.state,
-    zipCode: body.zipCode,
-    latitude: body.latitude || 37.7749 + (Math.random() - 0.5) * 0.1,
-    longitude: body.longitude || -122.4194 + (Math.random() - 0.5) * 0.1,
-    isPrimary: body.isPrimary || false
-  };
-  
-  // If this is marked as primary, update the other locations
-  if (newLocation.isPrimary) {
-    locations = locations.map(loc => ({
-      ...loc,
-      isPrimary: false
-    }));
+  if (!hasPermission(context.role, 'manageLocations')) {
+    return NextResponse.json({ error: permissionDeniedMessage('manageLocations') }, { status: 403 });
   }
-  
-  // Add to locations
-  locations.push(newLocation);
-  
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  return NextResponse.json(newLocation);
-} 
\ No newline at end of file
+
+  try {
+    const body = await request.json();
+
+    const validationError = validateLocationInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const input: LocationInput = {
+      name: body.name,
+      address: body.address,
+      city: body.city,
+      state: body.state,
+      zipCode: body.zipCode,
+      isPrimary: body.isPrimary ?? false,
+      neighborhood: body.neighborhood ?? '',
+      keyword: body.keyword ?? '',
+      profileName: body.profileName || null,
+    };
+
+    const geocoded = await geocodeAddress(formatLocationAddress(input));
+    if (!geocoded.success || !geocoded.data) {
+      return NextResponse.json(
+        { error: `Couldn't find the address on the map: ${geocoded.error || 'no results'}` },
+        { status: 422 }
+      );
+    }
+    const coordinates = { latitude: geocoded.data.lat, longitude: geocoded.data.lng };
+
+    let businessId: string;
+    if (body.businessId) {
+      businessId = String(body.businessId);
+      if (!(await businessExists(context.workspace.id, businessId))) {
+        return NextResponse.json({ error: 'Business not found' }, { status: 400 });
+      }
+    } else {
+      businessId = await saveLocationBusiness(context.workspace.id, { ...input, ...coordinates });
+    }
+
+    const location = await createLocation(context.workspace.id, { ...input, ...coordinates, businessId });
+    return NextResponse.json(location);
+  } catch (error) {
+    console.error('Error creating location:', error);
+    return NextResponse.json({ error: 'Failed to create location' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceContext } from '@/lib/auth';
+import { hasPermission, permissionDeniedMessage } from '@/lib/workspace-roles';
+import { getPostById, publishPostNow } from '@/lib/post-service';
+import { getPostTransport } from '@/lib/post-publisher';
+
+// POST to publish a scheduled or failed post now. A failure to publish is
+// saved on the post, which is returned either way.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const context = await getWorkspaceContext();
+  if (!context) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!hasPermission(context.role, 'managePosts')) {
+    return NextResponse.json({ error: permissionDeniedMessage('managePosts') }, { status: 403 });
+  }
+
+  try {
+    const existing = await getPostById(context.workspace.id, params.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+    if (existing.status === 'published' || existing.status === 'publishing') {
+      return NextResponse.json({ error: 'The post has already been published' }, { status: 409 });
+    }
+
+    const post = await publishPostNow(context.workspace.id, params.id, getPostTransport());
+    if (!post) {
+      return NextResponse.json({ error: 'The post has already been published' }, { status: 409 });
+    }
+
+    return NextResponse.json(post);
+  } catch (error) {
+    console.error('Error publishing post:', error);
+    return NextResponse.json({ error: 'Failed to publish post' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceContext } from '@/lib/auth';
+import { hasPermission, permissionDeniedMessage } from '@/lib/workspace-roles';
+import { deletePost, getPostById, updatePost } from '@/lib/post-service';
+import { findTemplateVariables, validateRenderedPost } from '@/lib/business-posts';
+
+// PATCH a post that hasn't been published: its title, text or scheduled time
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const context = await getWorkspaceContext();
+  if (!context) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!hasPermission(context.role, 'managePosts')) {
+    return NextResponse.json({ error: permissionDeniedMessage('managePosts') }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+
+    const existing = await getPostById(context.workspace.id, params.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+    if (existing.status === 'published' || existing.status === 'publishing') {
+      return NextResponse.json({ error: "Published posts can't be changed" }, { status: 409 });
+    }
+
+    const changes: { title?: string; summary?: string; scheduledAt?: string } = {};
+    if (body.title !== undefined && existing.type !== 'update') changes.title = String(body.title);
+    if (body.summary !== undefined) changes.summary = String(body.summary);
+    if (body.scheduledAt !== undefined) {
+      if (Number.isNaN(Date.parse(body.scheduledAt))) {
+        return NextResponse.json({ error: 'Choose when to publish' }, { status: 400 });
+      }
+      changes.scheduledAt = body.scheduledAt;
+    }
+
+    const title = changes.title ?? existing.title ?? '';
+    const summary = changes.summary ?? existing.summary;
+    if (!summary.trim() || (existing.type !== 'update' && !title.trim())) {
+      return NextResponse.json({ error: 'Post text and title are required' }, { status: 400 });
+    }
+    if (findTemplateVariables(`${title} ${summary}`).length > 0) {
+      // Saved posts are already filled in for their location
+      return NextResponse.json({ error: "Scheduled posts can't contain variables" }, { status: 400 });
+    }
+    const validationError = validateRenderedPost(title, summary);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const post = await updatePost(context.workspace.id, params.id, changes);
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(post);
+  } catch (error) {
+    console.error('Error updating post:', error);
+    return NextResponse.json({ error: 'Failed to update post' }, { status: 500 });
+  }
+}
+
+// DELETE a post that hasn't been published
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const context = await getWorkspaceContext();
+  if (!context) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!hasPermission(context.role, 'managePosts')) {
+    return NextResponse.json({ error: permissionDeniedMessage('managePosts') }, { status: 403 });
+  }
+
+  const post = await getPostById(context.workspace.id, params.id);
+  if (!post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+  if (post.status === 'published' || post.status === 'publishing') {
+    return NextResponse.json({ error: "Published posts can't be deleted" }, { status: 409 });
+  }
+
+  const deleted = await deletePost(context.workspace.id, params.id);
+  if (!deleted) {
+    return NextResponse.json({ error: 'Failed to delete post' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, id: params.id });
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceContext } from '@/lib/auth';
+import { hasPermission, permissionDeniedMessage } from '@/lib/workspace-roles';
+import { getLocations } from '@/lib/location-service';
+import { createPosts, getPosts } from '@/lib/post-service';
+import {
+  locationPostVariables,
+  renderPostForLocation,
+  validatePostDraft,
+  type PostDraft,
+} from '@/lib/business-posts';
+
+// GET the posts scheduled between ?from and ?to, by default the current month
+export async function GET(request: NextRequest) {
+  const context = await getWorkspaceContext();
+  if (!context) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const now = new Date();
+  const from = new Date(request.nextUrl.searchParams.get('from') || new Date(now.getFullYear(), now.getMonth(), 1));
+  const to = new Date(request.nextUrl.searchParams.get('to') || new Date(now.getFullYear(), now.getMonth() + 1, 1));
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    return NextResponse.json({ error: 'from and to must be dates' }, { status: 400 });
+  }
+
+  try {
+    const posts = await getPosts(context.workspace.id, from, to);
+    return NextResponse.json(posts);
+  } catch (error) {
+    console.error('Error fetching posts:', error);
+    return NextResponse.json({ error: 'Failed to fetch posts' }, { status: 500 });
+  }
+}
+
+// POST a post composed for several locations. It's saved once per location
+// with the location's values filled into the template.
+export async function POST(request: NextRequest) {
+  const context = await getWorkspaceContext();
+  if (!context) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!hasPermission(context.role, 'managePosts')) {
+    return NextResponse.json({ error: permissionDeniedMessage('managePosts') }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+
+    const draft: PostDraft = {
+      type: body.type,
+      title: String(body.title || ''),
+      template: String(body.template || ''),
+      callToAction: body.callToAction || null,
+      startsAt: body.startsAt || null,
+      endsAt: body.endsAt || null,
+      timeZone: String(body.timeZone || 'UTC'),
+      couponCode: String(body.couponCode || ''),
+      redeemUrl: String(body.redeemUrl || ''),
+      terms: String(body.terms || ''),
+      scheduledAt: String(body.scheduledAt || ''),
+    };
+
+    const validationError = validatePostDraft(draft);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const locationIds: string[] = Array.isArray(body.locationIds) ? body.locationIds.map(String) : [];
+    if (locationIds.length === 0) {
+      return NextResponse.json({ error: 'Choose at least one location' }, { status: 400 });
+    }
+
+    const locations = (await getLocations(context.workspace.id)).filter((location) =>
+      locationIds.includes(location.id)
+    );
+    if (locations.length !== new Set(locationIds).size) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 400 });
+    }
+
+    for (const location of locations) {
+      const { error } = renderPostForLocation(draft, locationPostVariables(location));
+      if (error) {
+        return NextResponse.json({ error: `${location.name}: ${error}` }, { status: 400 });
+      }
+    }
+
+    const posts = await createPosts(context.workspace.id, draft, locations);
+    return NextResponse.json(posts);
+  } catch (error) {
+    console.error('Error creating posts:', error);
+    return NextResponse.json({ error: 'Failed to schedule posts' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { after, NextResponse } from "next/server"
+import { claimDuePosts, publishPosts } from "@/lib/post-service"
+import { getPostTransport } from "@/lib/post-publisher"
+
+// Called by an external cron (e.g. every 15 minutes) to publish the posts that are due,
+// POSTS_PER_RUN at a time.
+// The caller must send CRON_SECRET as a bearer token; without one configured nobody can.
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not set; refusing to run the cron job")
+    return NextResponse.json({ error: "Cron is not configured" }, { status: 500 })
+  }
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    // Fails before claiming anything when publishing isn't configured
+    const transport = getPostTransport()
+    const posts = await claimDuePosts()
+
+    after(async () => {
+      await publishPosts(posts, transport)
+    })
+
+    return NextResponse.json({ claimed: posts.length, posts: posts.map(({ post }) => post.id) })
+  } catch (error) {
+    console.error("Error publishing due posts:", error)
+    return NextResponse.json({ error: "Failed to publish posts" }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { deleteProject, renameProject, validateFolderName } from "@/lib/client-service"
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageClients")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageClients") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const name = String(body.name ?? "")
+
+    const validationError = validateFolderName(name)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const project = await renameProject(context.workspace.id, params.id, name)
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(project)
+  } catch (error) {
+    console.error("Error renaming project:", error)
+    return NextResponse.json({ error: "Failed to rename project" }, { status: 500 })
+  }
+}
+
+// Deleting a project leaves its businesses and scans unassigned
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageClients")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageClients") }, { status: 403 })
+  }
+
+  const deleted = await deleteProject(context.workspace.id, params.id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Failed to delete project" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, id: params.id })
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getRankingHistory, validateRankingHistoryQuery, type RankingHistoryQuery } from "@/lib/ranking-history-service"
+
+// AGR, ATGR, SoLV and rank distribution of every stored scan of a business for a keyword
+export async function GET(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const query: RankingHistoryQuery = {
+      placeId: searchParams.get("placeId") || undefined,
+      name: searchParams.get("name") || undefined,
+      address: searchParams.get("address") || undefined,
+      keyword: searchParams.get("keyword") || "",
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+      timeZone: searchParams.get("timeZone") || undefined,
+    }
+
+    const validationError = validateRankingHistoryQuery(query)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const history = await getRankingHistory(context.workspace.id, query)
+    return NextResponse.json({ history })
+  } catch (error) {
+    console.error("Error fetching ranking history:", error)
+    return NextResponse.json({ error: "Failed to fetch ranking history" }, { status: 500 })
+  }
+}
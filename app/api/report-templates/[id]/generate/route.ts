@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { generateReport, getReportTemplateById } from "@/lib/report-template-service"
+
+// Generate the template's report from the scans available now and archive it
+// as the template's next version
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageReports")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageReports") }, { status: 403 })
+  }
+
+  try {
+    const template = await getReportTemplateById(context.workspace.id, params.id)
+    if (!template) {
+      return NextResponse.json({ error: "Report template not found" }, { status: 404 })
+    }
+
+    const report = await generateReport(context.workspace.id, template.name, template.parameters, template.id)
+    if (!report) {
+      return NextResponse.json({ error: "No scans match the template's businesses, keywords and date range" }, { status: 422 })
+    }
+
+    return NextResponse.json(report, { status: 201 })
+  } catch (error) {
+    console.error("Error generating report:", error)
+    return NextResponse.json({ error: "Failed to generate report" }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { toReportParameters, validateReportParameters } from "@/lib/report-builder"
+import { deleteReportTemplate, getReportTemplateById, updateReportTemplate } from "@/lib/report-template-service"
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const template = await getReportTemplateById(context.workspace.id, params.id)
+
+  if (!template) {
+    return NextResponse.json({ error: "Report template not found" }, { status: 404 })
+  }
+
+  return NextResponse.json(template)
+}
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageReports")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageReports") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const changes: Parameters<typeof updateReportTemplate>[2] = {}
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== "string" || !body.name.trim()) {
+        return NextResponse.json({ error: "Template name is required" }, { status: 400 })
+      }
+      changes.name = body.name
+    }
+
+    if (body.parameters !== undefined) {
+      const parameters = toReportParameters(body.parameters)
+      const validationError = validateReportParameters(parameters)
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 })
+      }
+      changes.parameters = parameters
+    }
+
+    const template = await updateReportTemplate(context.workspace.id, params.id, changes)
+
+    if (!template) {
+      return NextResponse.json({ error: "Report template not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(template)
+  } catch (error) {
+    console.error("Error updating report template:", error)
+    return NextResponse.json({ error: "Failed to update report template" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageReports")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageReports") }, { status: 403 })
+  }
+
+  const deleted = await deleteReportTemplate(context.workspace.id, params.id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Failed to delete report template" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, id: params.id })
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { toReportParameters, validateReportParameters } from "@/lib/report-builder"
+import { createReportTemplate, getReportTemplates } from "@/lib/report-template-service"
+
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const templates = await getReportTemplates(context.workspace.id)
+    return NextResponse.json(templates)
+  } catch (error) {
+    console.error("Error fetching report templates:", error)
+    return NextResponse.json({ error: "Failed to fetch report templates" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageReports")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageReports") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return NextResponse.json({ error: "Template name is required" }, { status: 400 })
+    }
+
+    const parameters = toReportParameters(body.parameters)
+    const validationError = validateReportParameters(parameters)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const template = await createReportTemplate(context.workspace.id, body.name, parameters)
+    return NextResponse.json(template, { status: 201 })
+  } catch (error) {
+    console.error("Error creating report template:", error)
+    return NextResponse.json({ error: "Failed to create report template" }, { status: 500 })
+  }
+}
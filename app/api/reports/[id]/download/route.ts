@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getGeneratedReportById, getGeneratedReportFile } from "@/lib/report-template-service"
+
+// Download an archived report as it was rendered when it was generated.
+// `?format=csv` returns CSV tables instead of a PDF.
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const format = new URL(request.url).searchParams.get("format") || "pdf"
+  if (format !== "pdf" && format !== "csv") {
+    return NextResponse.json({ error: "Invalid format. Must be pdf or csv" }, { status: 400 })
+  }
+
+  try {
+    const generated = await getGeneratedReportById(context.workspace.id, params.id)
+    if (!generated) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 })
+    }
+
+    const file = await getGeneratedReportFile(context.workspace.id, generated.id, format)
+    if (file === null) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 })
+    }
+
+    const filename = `report-${generated.name}-v${generated.version}`.replace(/[^a-z0-9]+/gi, "-").toLowerCase()
+
+    if (format === "csv") {
+      return new NextResponse(file, {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        },
+      })
+    }
+
+    return new NextResponse(file, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}.pdf"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error downloading report:", error)
+    return NextResponse.json({ error: "Failed to download report" }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { deleteGeneratedReport, getGeneratedReportById } from "@/lib/report-template-service"
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const report = await getGeneratedReportById(context.workspace.id, params.id)
+
+  if (!report) {
+    return NextResponse.json({ error: "Report not found" }, { status: 404 })
+  }
+
+  return NextResponse.json(report)
+}
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageReports")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageReports") }, { status: 403 })
+  }
+
+  const deleted = await deleteGeneratedReport(context.workspace.id, params.id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Failed to delete report" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, id: params.id })
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { toReportParameters, validateReportParameters } from "@/lib/report-builder"
+import { generateReport, getGeneratedReports } from "@/lib/report-template-service"
+
+// Archived reports, newest first. `?templateId=` limits them to one template's versions.
+export async function GET(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const templateId = new URL(request.url).searchParams.get("templateId") || undefined
+
+  try {
+    const reports = await getGeneratedReports(context.workspace.id, templateId)
+    return NextResponse.json(reports)
+  } catch (error) {
+    console.error("Error fetching generated reports:", error)
+    return NextResponse.json({ error: "Failed to fetch generated reports" }, { status: 500 })
+  }
+}
+
+// Generate a one-off report from parameters that weren't saved as a template
+export async function POST(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageReports")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageReports") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return NextResponse.json({ error: "Report name is required" }, { status: 400 })
+    }
+
+    const parameters = toReportParameters(body.parameters)
+    const validationError = validateReportParameters(parameters)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const report = await generateReport(context.workspace.id, body.name, parameters)
+    if (!report) {
+      return NextResponse.json({ error: "No scans match the selected businesses, keywords and date range" }, { status: 422 })
+    }
+
+    return NextResponse.json(report, { status: 201 })
+  } catch (error) {
+    console.error("Error generating report:", error)
+    return NextResponse.json({ error: "Failed to generate report" }, { status: 500 })
+  }
+}
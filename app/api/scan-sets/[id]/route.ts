@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getScanSet, getScanSetRankingData } from "@/lib/scan-set-service"
+
+// Status of every keyword scan in the set plus the rankings of the finished ones
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const scanSet = await getScanSet(context.workspace.id, params.id)
+
+    if (!scanSet) {
+      return NextResponse.json({ error: "Scan set not found" }, { status: 404 })
+    }
+
+    const rankingData = await getScanSetRankingData(scanSet)
+    return NextResponse.json({ ...scanSet, rankingData })
+  } catch (error) {
+    console.error("Error fetching scan set:", error)
+    return NextResponse.json({ error: "Failed to fetch scan set" }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { after, NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { validateGridConfig } from "@/lib/grid-config-service"
+import { createScanSet, MAX_SCAN_SET_KEYWORDS, normalizeKeywords, runScanSet } from "@/lib/scan-set-service"
+
+// Enqueue one geogrid scan per keyword for a business and execute them in the background
+export async function POST(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "runScans")) {
+    return NextResponse.json({ error: permissionDeniedMessage("runScans") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    if (!body.businessInfo?.location || !Array.isArray(body.keywords) || !body.gridSize) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    }
+
+    const keywords = normalizeKeywords(body.keywords.map(String))
+    if (keywords.length === 0) {
+      return NextResponse.json({ error: "At least one keyword is required" }, { status: 400 })
+    }
+    if (keywords.length > MAX_SCAN_SET_KEYWORDS) {
+      return NextResponse.json(
+        { error: `A scan set can contain at most ${MAX_SCAN_SET_KEYWORDS} keywords` },
+        { status: 400 }
+      )
+    }
+
+    const gridSize = String(body.gridSize)
+    const distanceKm = Number(body.distanceKm)
+    const shape = body.shape || "square"
+    // Bounds the number of points every keyword's scan searches
+    const settingsError = validateGridConfig({ gridSize, distanceKm, shape, polygon: body.polygon })
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 })
+    }
+
+    const scanSet = await createScanSet(context.workspace.id, {
+      businessInfo: {
+        name: body.businessInfo.name,
+        address: body.businessInfo.address,
+        location: {
+          lat: Number(body.businessInfo.location.lat),
+          lng: Number(body.businessInfo.location.lng),
+        },
+        placeId: body.businessInfo.placeId,
+        category: body.businessInfo.category,
+      },
+      keywords,
+      gridSize,
+      distanceKm,
+      googleRegion: body.googleRegion || "global",
+      shape,
+      polygon: body.polygon || null,
+    })
+
+    after(async () => {
+      await runScanSet(context.workspace.id, scanSet.id)
+    })
+
+    return NextResponse.json(scanSet, { status: 202 })
+  } catch (error) {
+    console.error("Error creating scan set:", error)
+    return NextResponse.json({ error: "Failed to create scan set" }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { getScanJob } from "@/lib/scan-job-service"
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const job = await getScanJob(context.workspace.id, params.id)
+
+    if (!job) {
+      return NextResponse.json({ error: "Scan job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error("Error fetching scan job:", error)
+    return NextResponse.json({ error: "Failed to fetch scan job" }, { status: 500 })
+  }
+}
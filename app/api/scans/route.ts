@@ -0,0 +1,62 @@
+import { after, NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { validateGridConfig } from "@/lib/grid-config-service"
+import { createScanJob, runScanJob } from "@/lib/scan-job-service"
+
+// Enqueue a geogrid scan and execute it in the background
+export async function POST(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "runScans")) {
+    return NextResponse.json({ error: permissionDeniedMessage("runScans") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    if (!body.businessInfo?.location || !body.searchTerm || !body.gridSize) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    }
+
+    const gridSize = String(body.gridSize)
+    const distanceKm = Number(body.distanceKm)
+    const shape = body.shape || "square"
+    // Bounds the number of points, each of which costs Places API searches
+    const settingsError = validateGridConfig({ gridSize, distanceKm, shape, polygon: body.polygon })
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 })
+    }
+
+    const job = await createScanJob(context.workspace.id, {
+      businessInfo: {
+        name: body.businessInfo.name,
+        address: body.businessInfo.address,
+        location: {
+          lat: Number(body.businessInfo.location.lat),
+          lng: Number(body.businessInfo.location.lng),
+        },
+        placeId: body.businessInfo.placeId,
+        category: body.businessInfo.category,
+      },
+      searchTerm: body.searchTerm,
+      gridSize,
+      distanceKm,
+      googleRegion: body.googleRegion || "global",
+      shape,
+      polygon: body.polygon || null,
+    })
+
+    // Keep scanning after the response is sent, independent of the client connection
+    after(async () => {
+      await runScanJob(job.id)
+    })
+
+    return NextResponse.json(job, { status: 202 })
+  } catch (error) {
+    console.error("Error creating scan job:", error)
+    return NextResponse.json({ error: "Failed to create scan job" }, { status: 500 })
+  }
+}
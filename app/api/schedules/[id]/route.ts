@@ -0,0 +1,95 @@
+import { after, NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { getGridConfigById } from "@/lib/grid-config-service"
+import { deleteSchedule, getScheduleById, triggerSchedule, updateSchedule, validateSchedule } from "@/lib/schedule-service"
+import { runScanJob } from "@/lib/scan-job-service"
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "runScans")) {
+    return NextResponse.json({ error: permissionDeniedMessage("runScans") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    const validationError = validateSchedule(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (body.configId && !(await getGridConfigById(context.workspace.id, body.configId))) {
+      return NextResponse.json({ error: "Grid configuration not found" }, { status: 400 })
+    }
+
+    const schedule = await updateSchedule(context.workspace.id, params.id, {
+      configId: body.configId,
+      frequency: body.frequency,
+      dayOfWeek: body.dayOfWeek,
+      dayOfMonth: body.dayOfMonth,
+      timeOfDay: body.timeOfDay,
+      timeZone: body.timeZone,
+      enabled: body.enabled,
+    })
+
+    if (!schedule) {
+      return NextResponse.json({ error: "Scan schedule not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(schedule)
+  } catch (error) {
+    console.error("Error updating scan schedule:", error)
+    return NextResponse.json({ error: "Failed to update scan schedule" }, { status: 500 })
+  }
+}
+
+// Run a schedule immediately, outside its regular recurrence
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "runScans")) {
+    return NextResponse.json({ error: permissionDeniedMessage("runScans") }, { status: 403 })
+  }
+
+  try {
+    const schedule = await getScheduleById(context.workspace.id, params.id)
+
+    if (!schedule) {
+      return NextResponse.json({ error: "Scan schedule not found" }, { status: 404 })
+    }
+
+    const job = await triggerSchedule(schedule)
+    after(async () => {
+      await runScanJob(job.id)
+    })
+
+    return NextResponse.json(job, { status: 202 })
+  } catch (error) {
+    console.error("Error running scan schedule:", error)
+    return NextResponse.json({ error: "Failed to run scan schedule" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "runScans")) {
+    return NextResponse.json({ error: permissionDeniedMessage("runScans") }, { status: 403 })
+  }
+
+  const deleted = await deleteSchedule(context.workspace.id, params.id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Failed to delete scan schedule" }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, id: params.id })
+}
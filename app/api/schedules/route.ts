@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { getGridConfigById } from "@/lib/grid-config-service"
+import { createSchedule, getSchedules, validateSchedule } from "@/lib/schedule-service"
+
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const schedules = await getSchedules(context.workspace.id)
+    return NextResponse.json(schedules)
+  } catch (error) {
+    console.error("Error fetching scan schedules:", error)
+    return NextResponse.json({ error: "Failed to fetch scan schedules" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "runScans")) {
+    return NextResponse.json({ error: permissionDeniedMessage("runScans") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+
+    if (!body.businessInfo?.location || !body.searchTerm || !body.gridSize || !body.distanceKm || !body.frequency) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
+    }
+
+    const input = {
+      businessInfo: body.businessInfo,
+      searchTerm: body.searchTerm,
+      gridSize: body.gridSize,
+      distanceKm: Number(body.distanceKm),
+      googleRegion: body.googleRegion || "global",
+      shape: body.shape || "square",
+      polygon: body.polygon || null,
+      configId: body.configId || null,
+      frequency: body.frequency,
+      dayOfWeek: body.frequency === "weekly" ? Number(body.dayOfWeek) : null,
+      dayOfMonth: body.frequency === "monthly" ? Number(body.dayOfMonth) : null,
+      timeOfDay: body.timeOfDay || "09:00",
+      timeZone: body.timeZone || "UTC",
+      enabled: body.enabled ?? true,
+    }
+
+    const validationError = validateSchedule(input)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (input.configId && !(await getGridConfigById(context.workspace.id, input.configId))) {
+      return NextResponse.json({ error: "Grid configuration not found" }, { status: 400 })
+    }
+
+    const schedule = await createSchedule(context.workspace.id, input)
+    return NextResponse.json(schedule, { status: 201 })
+  } catch (error) {
+    console.error("Error creating scan schedule:", error)
+    return NextResponse.json({ error: "Failed to create scan schedule" }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { after, NextResponse } from "next/server"
+import { triggerDueSchedules } from "@/lib/schedule-service"
+import { claimRunnableScanJobs, runScanJobsInOrder } from "@/lib/scan-job-service"
+
+// Called by an external cron (e.g. every 15 minutes) to start every scan that is due
+// and work through queued scans, such as those of bulk imports, and interrupted ones.
+// The caller must send CRON_SECRET as a bearer token; without one configured nobody can.
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not set; refusing to run the cron job")
+    return NextResponse.json({ error: "Cron is not configured" }, { status: 500 })
+  }
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const jobs = await triggerDueSchedules()
+    const waitingJobs = await claimRunnableScanJobs()
+
+    // Run the scans one after another to stay within the Places API rate limits.
+    // Interrupted jobs only query the points they hadn't finished.
+    after(async () => {
+      await runScanJobsInOrder([...jobs, ...waitingJobs].map((job) => job.id))
+    })
+
+    return NextResponse.json({
+      triggered: jobs.length,
+      claimed: waitingJobs.length,
+      jobs: [...jobs, ...waitingJobs].map((job) => job.id),
+    })
+  } catch (error) {
+    console.error("Error running due scan schedules:", error)
+    return NextResponse.json({ error: "Failed to run scan schedules" }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import {
+  checkSharePassword,
+  resolveShareToken,
+  shareUnlockCookieName,
+  shareUnlockCookieValue,
+} from "@/lib/share-service"
+
+// How long an unlocked share stays open in the browser
+const UNLOCK_MAX_AGE = 24 * 60 * 60
+
+// Check the password of a protected share link and remember it in a cookie
+export async function POST(request: Request, { params }: { params: { token: string } }) {
+  try {
+    const { password } = await request.json()
+    const { status, share, passwordHash } = await resolveShareToken(params.token)
+
+    if (status !== "ok" || !share) {
+      return NextResponse.json({ error: "This share link is no longer available" }, { status: 404 })
+    }
+
+    if (passwordHash && !checkSharePassword(String(password ?? ""), passwordHash)) {
+      return NextResponse.json({ error: "Incorrect password" }, { status: 401 })
+    }
+
+    const response = NextResponse.json({ success: true })
+    if (passwordHash) {
+      response.cookies.set(shareUnlockCookieName(share.id), shareUnlockCookieValue(share.id, passwordHash), {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/share",
+        maxAge: UNLOCK_MAX_AGE,
+      })
+    }
+    return response
+  } catch (error) {
+    console.error("Error unlocking grid share:", error)
+    return NextResponse.json({ error: "Failed to unlock share link" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { cancelInvitation } from "@/lib/workspace-service"
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageMembers")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageMembers") }, { status: 403 })
+  }
+
+  const cancelled = await cancelInvitation(context.workspace.id, params.id)
+  if (!cancelled) {
+    return NextResponse.json({ error: "Invitation not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { canAssignRole, hasPermission, isWorkspaceRole, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { getWorkspaceMembers, removeWorkspaceMember, updateMemberRole } from "@/lib/workspace-service"
+
+// Change a member's role
+export async function PATCH(request: Request, { params }: { params: { userId: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageMembers")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageMembers") }, { status: 403 })
+  }
+
+  try {
+    const { role } = await request.json()
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 })
+    }
+
+    const members = await getWorkspaceMembers(context.workspace.id)
+    const member = members.find((candidate) => candidate.userId === params.userId)
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 })
+    }
+
+    if (!canAssignRole(context.role, member.role) || !canAssignRole(context.role, role)) {
+      return NextResponse.json({ error: "Only owners can change who is an owner" }, { status: 403 })
+    }
+
+    // A workspace without an owner could never be renamed or handed over again
+    if (member.role === "owner" && role !== "owner" && members.filter((m) => m.role === "owner").length <= 1) {
+      return NextResponse.json({ error: "A workspace needs at least one owner" }, { status: 400 })
+    }
+
+    const updated = await updateMemberRole(context.workspace.id, params.userId, role)
+    if (!updated) {
+      return NextResponse.json({ error: "Failed to update member role" }, { status: 500 })
+    }
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error("Error updating workspace member role:", error)
+    return NextResponse.json({ error: "Failed to update member role" }, { status: 500 })
+  }
+}
+
+// Remove a member; anyone may leave a workspace on their own
+export async function DELETE(_request: Request, { params }: { params: { userId: string } }) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const leaving = params.userId === context.userId
+  if (!leaving && !hasPermission(context.role, "manageMembers")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageMembers") }, { status: 403 })
+  }
+
+  const members = await getWorkspaceMembers(context.workspace.id)
+  const member = members.find((candidate) => candidate.userId === params.userId)
+  if (!member) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 })
+  }
+
+  if (!leaving && !canAssignRole(context.role, member.role)) {
+    return NextResponse.json({ error: "Only owners can remove owners" }, { status: 403 })
+  }
+
+  if (member.role === "owner" && members.filter((m) => m.role === "owner").length <= 1) {
+    return NextResponse.json({ error: "A workspace needs at least one owner" }, { status: 400 })
+  }
+
+  const removed = await removeWorkspaceMember(context.workspace.id, params.userId)
+  if (!removed) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
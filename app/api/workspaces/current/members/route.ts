@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext } from "@/lib/auth"
+import { canAssignRole, hasPermission, isWorkspaceRole, permissionDeniedMessage } from "@/lib/workspace-roles"
+import {
+  getWorkspaceInvitations,
+  getWorkspaceMembers,
+  inviteToWorkspace,
+  validateInvitationEmail,
+} from "@/lib/workspace-service"
+
+// Members of the open workspace and the people invited to it
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const [members, invitations] = await Promise.all([
+    getWorkspaceMembers(context.workspace.id),
+    getWorkspaceInvitations(context.workspace.id),
+  ])
+
+  return NextResponse.json({ members, invitations })
+}
+
+// Invite someone by email; they join with the given role the next time they sign in
+export async function POST(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageMembers")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageMembers") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const email = String(body.email ?? "").trim()
+
+    const validationError = validateInvitationEmail(email)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const role = body.role ?? "viewer"
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 })
+    }
+    if (!canAssignRole(context.role, role)) {
+      return NextResponse.json({ error: "Only owners can invite owners" }, { status: 403 })
+    }
+
+    return NextResponse.json(await inviteToWorkspace(context.workspace.id, email, role), { status: 201 })
+  } catch (error) {
+    console.error("Error inviting to workspace:", error)
+    return NextResponse.json({ error: "Failed to send invitation" }, { status: 500 })
+  }
+}
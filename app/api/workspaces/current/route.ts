@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { getWorkspaceContext, WORKSPACE_COOKIE } from "@/lib/auth"
+import { hasPermission, permissionDeniedMessage } from "@/lib/workspace-roles"
+import { renameWorkspace, validateWorkspaceName } from "@/lib/workspace-service"
+
+// Switch to another of the user's workspaces
+export async function PUT(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { workspaceId } = await request.json()
+    const workspace = context.workspaces.find((candidate) => candidate.id === workspaceId)
+
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 })
+    }
+
+    const response = NextResponse.json(workspace)
+    response.cookies.set(WORKSPACE_COOKIE, workspace.id, { path: "/", sameSite: "lax" })
+    return response
+  } catch (error) {
+    console.error("Error switching workspace:", error)
+    return NextResponse.json({ error: "Failed to switch workspace" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request) {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  if (!hasPermission(context.role, "manageWorkspace")) {
+    return NextResponse.json({ error: permissionDeniedMessage("manageWorkspace") }, { status: 403 })
+  }
+
+  try {
+    const body = await request.json()
+    const name = String(body.name ?? "")
+
+    const validationError = validateWorkspaceName(name)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const workspace = await renameWorkspace(context.workspace.id, name)
+    if (!workspace) {
+      return NextResponse.json({ error: "Failed to rename workspace" }, { status: 500 })
+    }
+
+    return NextResponse.json(workspace)
+  } catch (error) {
+    console.error("Error renaming workspace:", error)
+    return NextResponse.json({ error: "Failed to rename workspace" }, { status: 500 })
+  }
+}
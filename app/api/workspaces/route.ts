@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { getCurrentUser, getWorkspaceContext, WORKSPACE_COOKIE } from "@/lib/auth"
+import { createWorkspace, validateWorkspaceName } from "@/lib/workspace-service"
+
+// The signed-in user's workspaces and the one that is open
+export async function GET() {
+  const context = await getWorkspaceContext()
+  if (!context) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  return NextResponse.json({
+    userId: context.userId,
+    email: context.email,
+    currentWorkspaceId: context.workspace.id,
+    workspaces: context.workspaces,
+  })
+}
+
+// Create a workspace owned by the signed-in user and switch to it
+export async function POST(request: Request) {
+  const user = await getCurrentUser()
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const name = String(body.name ?? "")
+
+    const validationError = validateWorkspaceName(name)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const workspace = await createWorkspace(name, user)
+    const response = NextResponse.json(workspace, { status: 201 })
+    response.cookies.set(WORKSPACE_COOKIE, workspace.id, { path: "/", sameSite: "lax" })
+    return response
+  } catch (error) {
+    console.error("Error creating workspace:", error)
+    return NextResponse.json({ error: "Failed to create workspace" }, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { createSupabaseServerClient, safeRedirectPath } from "@/lib/auth"
+
+// Where the confirmation email sends new accounts; swaps the code for a session
+export async function GET(request: Request) {
+  const { searchParams, origin } = new URL(request.url)
+  const code = searchParams.get("code")
+  const next = safeRedirectPath(searchParams.get("next"))
+
+  if (code) {
+    const supabase = await createSupabaseServerClient()
+    const { error } = await supabase.auth.exchangeCodeForSession(code)
+    if (error) {
+      console.error("Error confirming sign-in:", error)
+      return NextResponse.redirect(`${origin}/login?error=confirmation`)
+    }
+  }
+
+  return NextResponse.redirect(`${origin}${next}`)
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { createSupabaseServerClient, WORKSPACE_COOKIE } from "@/lib/auth"
+
+export async function POST(request: Request) {
+  const supabase = await createSupabaseServerClient()
+  await supabase.auth.signOut()
+
+  const response = NextResponse.redirect(new URL("/login", request.url), { status: 303 })
+  response.cookies.delete(WORKSPACE_COOKIE)
+  return response
+}
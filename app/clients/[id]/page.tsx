@@ -0,0 +1,5 @@
+import { ClientDashboard } from "@/components/client-dashboard"
+
+export default function ClientDashboardPage({ params }: { params: { id: string } }) {
+  return <ClientDashboard clientId={params.id} />
+}
@@ -0,0 +1,5 @@
+import { ClientsPage } from "@/components/clients-page"
+
+export default function Clients() {
+  return <ClientsPage />
+}
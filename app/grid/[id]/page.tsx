@@ -1,9 +1,11 @@
+import { getWorkspaceContext } from "@/lib/auth"
 import { getGridResultById } from "@/lib/geogrid-service"
 import { DetailedGridView } from "@/components/detailed-grid-view"
 import { notFound } from "next/navigation"
 
 export default async function GridDetailPage({ params }: { params: { id: string } }) {
-  const gridResult = await getGridResultById(params.id)
+  const context = await getWorkspaceContext()
+  const gridResult = context ? await getGridResultById(context.workspace.id, params.id) : null
 
   if (!gridResult) {
     notFound()
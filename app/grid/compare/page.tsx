@@ -0,0 +1,10 @@
+import { notFound } from "next/navigation"
+import { GridComparisonView } from "@/components/grid-comparison-view"
+
+export default function GridComparePage({ searchParams }: { searchParams: { base?: string; compare?: string } }) {
+  if (!searchParams.base || !searchParams.compare) {
+    notFound()
+  }
+
+  return <GridComparisonView baseId={searchParams.base} compareId={searchParams.compare} />
+}
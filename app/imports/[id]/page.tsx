@@ -0,0 +1,5 @@
+import { ImportProgressBoard } from "@/components/import-progress-board"
+
+export default function ImportPage({ params }: { params: { id: string } }) {
+  return <ImportProgressBoard importId={params.id} />
+}
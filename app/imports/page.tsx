@@ -0,0 +1,5 @@
+import { BulkImportPage } from "@/components/bulk-import-page"
+
+export default function Imports() {
+  return <BulkImportPage />
+}
@@ -0,0 +1,9 @@
+import { LoginForm } from "@/components/login-form"
+import { safeRedirectPath } from "@/lib/auth"
+
+export default function LoginPage({ searchParams }: { searchParams: { next?: string } }) {
+  // Only return to paths on this site after signing in
+  const next = safeRedirectPath(searchParams.next)
+
+  return <LoginForm next={next} />
+}
@@ -0,0 +1,5 @@
+import { ScanSetReport } from "@/components/scan-set-report"
+
+export default function ScanSetPage({ params }: { params: { id: string } }) {
+  return <ScanSetReport scanSetId={params.id} />
+}
@@ -0,0 +1,5 @@
+import { SchedulesPage } from "@/components/schedules-page"
+
+export default function Schedules() {
+  return <SchedulesPage />
+}
@@ -0,0 +1,5 @@
+import { BrandingSettings } from "@/components/branding-settings"
+
+export default function BrandingSettingsPage() {
+  return <BrandingSettings />
+}
@@ -0,0 +1,5 @@
+import { WorkspaceSettings } from "@/components/workspace-settings"
+
+export default function WorkspaceSettingsPage() {
+  return <WorkspaceSettings />
+}
@@ -0,0 +1,91 @@
+import { cookies } from "next/headers"
+import { notFound } from "next/navigation"
+import { brandLogoDataUri, fetchBrandLogo } from "@/lib/brand-logo"
+import { getBranding } from "@/lib/branding-service"
+import { getGridResultById } from "@/lib/geogrid-service"
+import { DEFAULT_GRID_IMAGE_OPTIONS, layoutGridImage, renderGridImageSvg } from "@/lib/grid-image"
+import { isShareUnlocked, resolveShareToken, shareUnlockCookieName } from "@/lib/share-service"
+import { SharePasswordForm } from "@/components/share-password-form"
+
+export const metadata = {
+  title: "Shared GeoGrid Results",
+  robots: { index: false, follow: false },
+}
+
+// Read-only grid result opened from a share link; nothing in it reveals the result's id
+export default async function SharedGridPage({ params }: { params: { token: string } }) {
+  const { status, share, passwordHash } = await resolveShareToken(params.token)
+
+  if (status === "invalid" || !share) {
+    notFound()
+  }
+
+  if (status !== "ok") {
+    return (
+      <div className="container mx-auto p-6 py-24 text-center">
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">
+          {status === "expired" ? "This link has expired" : "This link is no longer available"}
+        </h1>
+        <p className="text-gray-500">Ask the person who shared it with you for a new link.</p>
+      </div>
+    )
+  }
+
+  if (passwordHash) {
+    const cookieStore = await cookies()
+    const unlocked = isShareUnlocked(share.id, passwordHash, cookieStore.get(shareUnlockCookieName(share.id))?.value)
+    if (!unlocked) {
+      return <SharePasswordForm token={params.token} />
+    }
+  }
+
+  const [gridResult, branding] = await Promise.all([
+    getGridResultById(share.workspaceId, share.gridResultId),
+    getBranding(share.workspaceId),
+  ])
+
+  if (!gridResult) {
+    notFound()
+  }
+
+  // The logo is embedded from the server's copy and the SVG is shown as an image,
+  // so nothing saved with the workspace becomes markup on this public page
+  const logoSrc = brandLogoDataUri(await fetchBrandLogo(branding))
+  const svg = renderGridImageSvg(layoutGridImage(gridResult, DEFAULT_GRID_IMAGE_OPTIONS, branding, logoSrc))
+  const svgSrc = `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`
+
+  return (
+    <div className="container mx-auto p-6 max-w-3xl">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold" style={{ color: branding.primaryColor }}>
+          {branding.companyName}
+        </h1>
+        {share.expiresAt && (
+          <span className="text-sm text-gray-500">
+            Available until {new Date(share.expiresAt).toLocaleDateString("en-US", { dateStyle: "medium" })}
+          </span>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={svgSrc} alt={`Ranking grid for ${gridResult.businessInfo.name}`} className="w-full h-auto" />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mt-6 text-center">
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <div className="text-sm font-medium text-gray-800">{gridResult.businessInfo.address}</div>
+          <div className="text-sm text-gray-500">Business</div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <div className="text-2xl font-bold text-gray-800">{gridResult.gridSize}</div>
+          <div className="text-sm text-gray-500">Grid</div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <div className="text-2xl font-bold text-gray-800">{gridResult.distanceKm} km</div>
+          <div className="text-sm text-gray-500">Distance between points</div>
+        </div>
+      </div>
+    </div>
+  )
+}
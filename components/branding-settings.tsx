@@ -0,0 +1,169 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2 } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { DEFAULT_BRANDING, type Branding } from "@/lib/branding-service"
+import { RANK_BAND_LABELS } from "@/lib/rank-colors"
+import { useWorkspace } from "@/hooks/use-workspace"
+
+export function BrandingSettings() {
+  const [branding, setBranding] = useState<Branding>(DEFAULT_BRANDING)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+
+  useEffect(() => {
+    const loadBranding = async () => {
+      try {
+        const response = await fetch("/api/branding")
+        if (!response.ok) {
+          throw new Error(`Error fetching branding: ${response.status}`)
+        }
+        setBranding(await response.json())
+      } catch (error) {
+        console.error("Error loading branding:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadBranding()
+  }, [])
+
+  const setRankColor = (index: number, color: string) => {
+    setBranding((prev) => ({ ...prev, rankColors: prev.rankColors.map((value, i) => (i === index ? color : value)) }))
+  }
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/branding", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(branding),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error saving branding: ${response.status}`)
+      }
+      setBranding(data)
+      toast({ title: "Branding saved", description: "Reports, images and exports now use the new branding." })
+    } catch (error) {
+      console.error("Error saving branding:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save branding.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 py-12 text-center">
+        <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+        <p className="text-gray-500">Loading branding...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-2xl">
+      <h1 className="text-3xl font-bold text-gray-800 mb-2">Branding</h1>
+      <p className="text-gray-500 mb-6">
+        Applied to PDF reports, grid images, CSV exports and the grid pages you share with clients.
+      </p>
+
+      <form onSubmit={handleSave} className="bg-white rounded-lg border border-gray-200 p-6 space-y-5">
+        <div className="space-y-2">
+          <Label htmlFor="company-name">Company name</Label>
+          <Input
+            id="company-name"
+            value={branding.companyName}
+            onChange={(e) => setBranding({ ...branding, companyName: e.target.value })}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="logo-url">Logo URL</Label>
+          <Input
+            id="logo-url"
+            type="url"
+            placeholder="https://example.com/logo.png"
+            value={branding.logoUrl ?? ""}
+            onChange={(e) => setBranding({ ...branding, logoUrl: e.target.value || null })}
+          />
+          <p className="text-xs text-gray-500">A PNG or JPEG image at an https address.</p>
+          {branding.logoUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={branding.logoUrl} alt="Logo preview" className="h-10 object-contain" />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="primary-color">Primary color</Label>
+          <div className="flex items-center gap-3">
+            <input
+              id="primary-color"
+              type="color"
+              className="h-9 w-12 rounded border border-gray-200"
+              value={branding.primaryColor}
+              onChange={(e) => setBranding({ ...branding, primaryColor: e.target.value })}
+            />
+            <span className="text-sm text-gray-600">{branding.primaryColor}</span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="footer-text">Footer text</Label>
+          <Input
+            id="footer-text"
+            maxLength={200}
+            value={branding.footerText}
+            onChange={(e) => setBranding({ ...branding, footerText: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Rank colors</Label>
+          <div className="flex flex-wrap gap-4">
+            {branding.rankColors.map((color, index) => (
+              <label key={index} className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="color"
+                  className="h-8 w-10 rounded border border-gray-200"
+                  value={color}
+                  onChange={(e) => setRankColor(index, e.target.value)}
+                />
+                {RANK_BAND_LABELS[index]}
+              </label>
+            ))}
+          </div>
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:underline"
+            onClick={() => setBranding({ ...branding, rankColors: DEFAULT_BRANDING.rankColors })}
+          >
+            Reset to default colors
+          </button>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={isSaving || !can("manageBranding")}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save branding
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
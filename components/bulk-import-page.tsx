@@ -0,0 +1,445 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { readSheet } from "read-excel-file/browser"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, FileSpreadsheet, Loader2, Upload } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useWorkspace } from "@/hooks/use-workspace"
+import { geocodeAddress } from "@/app/actions/geocode"
+import {
+  geocodeConfidence,
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  placeConfidence,
+  readImportSpreadsheet,
+  type ImportMatchConfidence,
+  type ImportRow,
+} from "@/lib/bulk-import"
+import type { GridConfigProfile } from "@/lib/grid-config-service"
+import type { GridResult } from "@/lib/geogrid-service"
+import type { ScanImportSummary } from "@/lib/scan-import-service"
+
+// Select value for custom grid settings instead of a saved configuration
+const CUSTOM_SETTINGS = "custom"
+// Rows looked up against Google at the same time
+const RESOLVE_CONCURRENCY = 4
+
+const CONFIDENCE_LABELS: Record<ImportMatchConfidence, string> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+}
+
+const CONFIDENCE_CLASSES: Record<ImportMatchConfidence, string> = {
+  high: "bg-green-100 text-green-700",
+  medium: "bg-amber-100 text-amber-700",
+  low: "bg-red-100 text-red-700",
+}
+
+interface PreviewRow extends ImportRow {
+  status: "resolving" | "resolved" | "failed";
+  businessInfo?: GridResult["businessInfo"];
+  confidence?: ImportMatchConfidence;
+  // Why the match isn't certain, or why it failed
+  note?: string;
+  selected: boolean;
+}
+
+// Look a row up by its Place ID, or else geocode its address
+async function resolveRow(row: ImportRow): Promise<Partial<PreviewRow>> {
+  if (row.placeId) {
+    const response = await fetch("/api/place-details", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ placeId: row.placeId }),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      return { status: "failed", note: data.error || "Place not found" }
+    }
+
+    const { place } = data
+    const confidence = placeConfidence(row.name, place.name)
+    return {
+      status: "resolved",
+      businessInfo: {
+        name: place.name,
+        address: place.formatted_address,
+        location: { lat: place.geometry.location.lat, lng: place.geometry.location.lng },
+        placeId: place.place_id,
+        category: place.types?.[0],
+      },
+      confidence,
+      note: confidence === "high" ? undefined : `Google lists this place as "${place.name}"`,
+    }
+  }
+
+  const result = await geocodeAddress(row.address)
+  if (!result.success || !result.data) {
+    return { status: "failed", note: result.error || "Address not found" }
+  }
+
+  const confidence = geocodeConfidence(result.precision, Boolean(result.partialMatch))
+  return {
+    status: "resolved",
+    businessInfo: {
+      name: row.name,
+      address: result.formattedAddress || row.address,
+      location: result.data,
+    },
+    confidence,
+    note:
+      confidence === "high"
+        ? undefined
+        : result.partialMatch
+          ? "Only part of the address matched"
+          : "Only an approximate position was found; add a place ID for an exact match",
+  }
+}
+
+export function BulkImportPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+  const [configs, setConfigs] = useState<GridConfigProfile[]>([])
+  const [recentImports, setRecentImports] = useState<ScanImportSummary[]>([])
+  const [fileName, setFileName] = useState("")
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [rows, setRows] = useState<PreviewRow[]>([])
+  const [configId, setConfigId] = useState(CUSTOM_SETTINGS)
+  const [gridSize, setGridSize] = useState("7x7")
+  const [distanceKm, setDistanceKm] = useState("1")
+  const [isReading, setIsReading] = useState(false)
+  const [isLaunching, setIsLaunching] = useState(false)
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [configsResponse, importsResponse] = await Promise.all([fetch("/api/grid-configs"), fetch("/api/imports")])
+        if (configsResponse.ok) setConfigs(await configsResponse.json())
+        if (importsResponse.ok) setRecentImports(await importsResponse.json())
+      } catch (error) {
+        console.error("Error loading import settings:", error)
+      }
+    }
+
+    loadData()
+  }, [])
+
+  // Service areas are drawn around one business, so they can't be applied to a whole file
+  const importableConfigs = configs.filter((config) => config.shape !== "polygon")
+  const configByName = (name: string) =>
+    importableConfigs.find((config) => config.name.trim().toLowerCase() === name.trim().toLowerCase())
+
+  const updateRow = (rowNumber: number, changes: Partial<PreviewRow>) => {
+    setRows((prev) => prev.map((row) => (row.rowNumber === rowNumber ? { ...row, ...changes } : row)))
+  }
+
+  const resolveRows = async (pending: ImportRow[]) => {
+    let next = 0
+    const lanes = Array.from({ length: Math.min(RESOLVE_CONCURRENCY, pending.length) }, async () => {
+      while (next < pending.length) {
+        const row = pending[next++]
+        try {
+          const resolved = await resolveRow(row)
+          updateRow(row.rowNumber, { ...resolved, selected: resolved.status === "resolved" && resolved.confidence !== "low" })
+        } catch (error) {
+          console.error(`Error resolving row ${row.rowNumber}:`, error)
+          updateRow(row.rowNumber, { status: "failed", note: "Lookup failed" })
+        }
+      }
+    })
+    await Promise.all(lanes)
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    setFileName(file.name)
+    setFileError(null)
+    setRows([])
+    setIsReading(true)
+
+    try {
+      let table: unknown[][]
+      if (/\.xlsx$/i.test(file.name)) {
+        table = await readSheet(file)
+      } else if (/\.(csv|txt)$/i.test(file.name)) {
+        table = parseCsv(await file.text())
+      } else {
+        setFileError("Upload a .csv or .xlsx file")
+        return
+      }
+
+      const spreadsheet = readImportSpreadsheet(
+        table,
+        importableConfigs.map((config) => config.name)
+      )
+      if (spreadsheet.error) {
+        setFileError(spreadsheet.error)
+        return
+      }
+
+      setRows(
+        spreadsheet.rows.map((row) => ({
+          ...row,
+          status: row.errors.length > 0 ? "failed" : "resolving",
+          selected: false,
+        }))
+      )
+      setIsReading(false)
+      await resolveRows(spreadsheet.rows.filter((row) => row.errors.length === 0))
+    } catch (error) {
+      console.error("Error reading import file:", error)
+      setFileError("The file couldn't be read. Check that it is a valid CSV or Excel file.")
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const selectedRows = rows.filter((row) => row.selected && row.status === "resolved")
+  const isResolving = rows.some((row) => row.status === "resolving")
+
+  const handleLaunch = async () => {
+    setIsLaunching(true)
+    try {
+      const response = await fetch("/api/imports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          fileName,
+          configId: configId === CUSTOM_SETTINGS ? null : configId,
+          gridSize,
+          distanceKm: Number(distanceKm),
+          scans: selectedRows.map((row) => ({
+            rowNumber: row.rowNumber,
+            businessInfo: row.businessInfo,
+            keywords: row.keywords,
+            configId: row.gridConfig ? configByName(row.gridConfig)?.id : null,
+          })),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error launching import: ${response.status}`)
+      }
+
+      router.push(`/imports/${data.id}`)
+    } catch (error) {
+      console.error("Error launching import:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to launch the scans.",
+        variant: "destructive",
+      })
+      setIsLaunching(false)
+    }
+  }
+
+  const counts = {
+    ready: rows.filter((row) => row.status === "resolved" && row.confidence !== "low").length,
+    review: rows.filter((row) => row.status === "resolved" && row.confidence === "low").length,
+    failed: rows.filter((row) => row.status === "failed").length,
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Bulk Import</h1>
+        <p className="text-gray-500">
+          Launch scans for a spreadsheet of businesses. The file needs a <code>name</code> column, an{" "}
+          <code>address</code> (or <code>city</code>, <code>state</code>, <code>zip</code>) or <code>place_id</code>{" "}
+          column and a <code>keywords</code> column with keywords separated by semicolons. An optional{" "}
+          <code>grid_config</code> column names a saved configuration for the row. Up to {MAX_IMPORT_ROWS} rows.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 p-6 grid gap-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="import-file">Spreadsheet</Label>
+          <label
+            htmlFor="import-file"
+            className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg py-8 cursor-pointer hover:bg-gray-50"
+          >
+            {isReading ? (
+              <Loader2 className="h-8 w-8 text-blue-600 animate-spin mb-2" />
+            ) : (
+              <Upload className="h-8 w-8 text-gray-400 mb-2" />
+            )}
+            <span className="text-sm text-gray-600">{fileName || "Choose a .csv or .xlsx file"}</span>
+          </label>
+          <input id="import-file" type="file" accept=".csv,.txt,.xlsx" className="hidden" onChange={handleFile} />
+          {fileError && (
+            <p className="text-sm text-red-600 flex items-center">
+              <AlertCircle className="h-4 w-4 mr-1" />
+              {fileError}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Grid settings for rows without a grid_config</Label>
+            <Select value={configId} onValueChange={setConfigId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CUSTOM_SETTINGS}>Custom settings</SelectItem>
+                {importableConfigs.map((config) => (
+                  <SelectItem key={config.id} value={config.id}>
+                    {config.name} ({config.gridSize}, {config.distanceKm}km)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {configId === CUSTOM_SETTINGS && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-grid-size">Grid Size</Label>
+                <Select value={gridSize} onValueChange={setGridSize}>
+                  <SelectTrigger id="import-grid-size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {["3x3", "5x5", "7x7", "9x9", "11x11", "13x13"].map((size) => (
+                      <SelectItem key={size} value={size}>
+                        {size}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-distance">Distance (km)</Label>
+                <Input
+                  id="import-distance"
+                  type="number"
+                  min="0.1"
+                  max="25"
+                  step="0.1"
+                  value={distanceKm}
+                  onChange={(e) => setDistanceKm(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+          <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+                <FileSpreadsheet className="h-5 w-5 mr-2 text-gray-500" />
+                Preview
+              </h2>
+              <p className="text-sm text-gray-500">
+                {counts.ready} ready, {counts.review} low-confidence matches to review, {counts.failed} with errors.
+                Low-confidence matches are left out unless you select them.
+              </p>
+            </div>
+            <Button
+              className="bg-blue-600 hover:bg-blue-700"
+              onClick={handleLaunch}
+              disabled={!can("runScans") || isResolving || isLaunching || selectedRows.length === 0}
+            >
+              {(isResolving || isLaunching) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isResolving ? "Resolving..." : `Scan ${selectedRows.length} businesses`}
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead className="w-14">Row</TableHead>
+                <TableHead>Business</TableHead>
+                <TableHead>Keywords</TableHead>
+                <TableHead>Grid</TableHead>
+                <TableHead>Match</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.rowNumber} className={row.status === "failed" ? "bg-red-50/50" : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      checked={row.selected}
+                      disabled={row.status !== "resolved"}
+                      onCheckedChange={(checked) => updateRow(row.rowNumber, { selected: checked === true })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-gray-500">{row.rowNumber}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{row.businessInfo?.name || row.name || "—"}</div>
+                    <div className="text-xs text-gray-500">
+                      {row.businessInfo?.address || row.address || `Place ID ${row.placeId}`}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">{row.keywords.join(", ")}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{row.gridConfig || "Default"}</TableCell>
+                  <TableCell>
+                    {row.status === "resolving" && <Loader2 className="h-4 w-4 animate-spin text-blue-600" />}
+                    {row.confidence && (
+                      <Badge variant="outline" className={`border-transparent ${CONFIDENCE_CLASSES[row.confidence]}`}>
+                        {CONFIDENCE_LABELS[row.confidence]}
+                      </Badge>
+                    )}
+                    {row.status === "failed" && (
+                      <Badge variant="outline" className="border-transparent bg-red-100 text-red-700">
+                        Error
+                      </Badge>
+                    )}
+                    {[...row.errors, row.note].filter(Boolean).map((message) => (
+                      <div key={message} className={`text-xs mt-1 ${row.status === "failed" ? "text-red-600" : "text-gray-500"}`}>
+                        {message}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">Recent Imports</h2>
+        </div>
+        {recentImports.length === 0 ? (
+          <p className="py-8 text-center text-gray-500">No imports yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {recentImports.map((scanImport) => (
+              <li key={scanImport.id} className="flex items-center justify-between px-4 py-3">
+                <Link href={`/imports/${scanImport.id}`} className="font-medium text-blue-600 hover:underline">
+                  {scanImport.fileName}
+                </Link>
+                <span className="text-sm text-gray-500">
+                  {scanImport.scanSetCount} businesses &middot; {new Date(scanImport.createdAt).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,401 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { AlertCircle, Loader2, Megaphone } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useWorkspace } from "@/hooks/use-workspace"
+import { PostCalendar, toDateTimeInput } from "@/components/post-calendar"
+import {
+  CALL_TO_ACTION_LABELS,
+  CALL_TO_ACTION_TYPES,
+  MAX_SUMMARY_LENGTH,
+  MAX_TITLE_LENGTH,
+  POST_TYPE_LABELS,
+  POST_TYPES,
+  POST_VARIABLES,
+  locationPostVariables,
+  renderPostForLocation,
+  validatePostDraft,
+  type CallToActionType,
+  type PostDraft,
+  type PostType,
+} from "@/lib/business-posts"
+import type { Location } from "@/lib/location-service"
+
+// Select value for a post without a button
+const NO_BUTTON = "none"
+
+// datetime-local values are in the browser's time zone; the API takes ISO strings
+function toIsoString(value: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
+
 export function BulkPostingPage() {
-  return (
-    <div className="container mx-auto p-6">
-      <h1 className="text-3xl font-bold text-gray-800 mb-6">Bulk Posting</h1>
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+  const templateRef = useRef<HTMLTextAreaElement>(null)
+  const [locations, setLocations] = useState<Location[]>([])
+  const [isLoadingLocations, setIsLoadingLocations] = useState(true)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [previewId, setPreviewId] = useState<string | null>(null)
+  const [type, setType] = useState<PostType>("update")
+  const [title, setTitle] = useState("")
+  const [template, setTemplate] = useState("")
+  const [buttonType, setButtonType] = useState<CallToActionType | typeof NO_BUTTON>(NO_BUTTON)
+  const [buttonUrl, setButtonUrl] = useState("")
+  const [startsAt, setStartsAt] = useState("")
+  const [endsAt, setEndsAt] = useState("")
+  const [couponCode, setCouponCode] = useState("")
+  const [redeemUrl, setRedeemUrl] = useState("")
+  const [terms, setTerms] = useState("")
+  const [scheduledAt, setScheduledAt] = useState(() => toDateTimeInput(new Date(Date.now() + 60 * 60 * 1000)))
+  const [isScheduling, setIsScheduling] = useState(false)
+  const [calendarKey, setCalendarKey] = useState(0)
+
+  useEffect(() => {
+    const loadLocations = async () => {
+      try {
+        const response = await fetch("/api/locations")
+        if (response.ok) setLocations(await response.json())
+      } catch (error) {
+        console.error("Error loading locations:", error)
+      } finally {
+        setIsLoadingLocations(false)
+      }
+    }
+
+    loadLocations()
+  }, [])
+
+  const draft: PostDraft = {
+    type,
+    title,
+    template,
+    // Offers link to their redeem URL instead of a button
+    callToAction:
+      type === "offer" || buttonType === NO_BUTTON ? null : { actionType: buttonType, url: buttonUrl.trim() || undefined },
+    startsAt: toIsoString(startsAt),
+    endsAt: toIsoString(endsAt),
+    // Offers and events show the times as entered here
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+    couponCode,
+    redeemUrl,
+    terms,
+    scheduledAt: toIsoString(scheduledAt) || "",
+  }
+
+  const selectedLocations = locations.filter((location) => selectedIds.includes(location.id))
+  const rendered = new Map(
+    selectedLocations.map((location) => [location.id, renderPostForLocation(draft, locationPostVariables(location))])
+  )
+  const previewLocation = selectedLocations.find((location) => location.id === previewId) || selectedLocations[0]
+  const preview = previewLocation ? rendered.get(previewLocation.id) : undefined
+  const draftError = template.trim() ? validatePostDraft(draft) : null
+  const locationErrors = [...rendered.values()].filter((result) => result.error).length
+
+  const toggleLocation = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((selectedId) => selectedId !== id)))
+  }
+
+  // Insert a variable at the cursor, or at the end if the text box isn't focused
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`
+    const textarea = templateRef.current
+    if (!textarea || document.activeElement !== textarea) {
+      setTemplate((prev) => prev + placeholder)
+      return
+    }
+
+    const { selectionStart, selectionEnd } = textarea
+    setTemplate((prev) => prev.slice(0, selectionStart) + placeholder + prev.slice(selectionEnd))
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length)
+    })
+  }
+
+  const resetComposer = () => {
+    setTitle("")
+    setTemplate("")
+    setButtonType(NO_BUTTON)
+    setButtonUrl("")
+    setStartsAt("")
+    setEndsAt("")
+    setCouponCode("")
+    setRedeemUrl("")
+    setTerms("")
+  }
+
+  const handleSchedule = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsScheduling(true)
 
-      <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
-        Bulk posting functionality will be implemented in a future update.
+    try {
+      const response = await fetch("/api/posts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...draft, locationIds: selectedIds }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error scheduling posts: ${response.status}`)
+      }
+
+      toast({
+        title: "Posts scheduled",
+        description: `${data.length} posts will be published ${new Date(draft.scheduledAt).toLocaleString()}.`,
+      })
+      resetComposer()
+      setCalendarKey((key) => key + 1)
+    } catch (error) {
+      console.error("Error scheduling posts:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to schedule the posts.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsScheduling(false)
+    }
+  }
+
+  const canSchedule =
+    can("managePosts") &&
+    !isScheduling &&
+    template.trim() !== "" &&
+    !draftError &&
+    selectedLocations.length > 0 &&
+    locationErrors === 0
+
+  return (
+    <div className="container mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Bulk Posting</h1>
+        <p className="text-gray-500">
+          Write one update, offer or event and schedule it to the Business Profiles of many locations. Variables like{" "}
+          <code>{"{{city}}"}</code> are filled in from each location; set a location&apos;s neighborhood, keyword and
+          Business Profile on the <Link href="/locations" className="text-blue-600 hover:underline">Locations</Link> page.
+        </p>
       </div>
+
+      <form onSubmit={handleSchedule} className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 bg-white rounded-lg border border-gray-200 p-6 space-y-5">
+          <Tabs value={type} onValueChange={(value) => setType(value as PostType)}>
+            <TabsList>
+              {POST_TYPES.map((postType) => (
+                <TabsTrigger key={postType} value={postType}>
+                  {POST_TYPE_LABELS[postType]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {type !== "update" && (
+            <div className="space-y-2">
+              <Label htmlFor="post-title">Title</Label>
+              <Input
+                id="post-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder={type === "offer" ? "20% off in {{city}}" : "Open house in {{neighborhood}}"}
+              />
+              <p className="text-xs text-gray-500">Up to {MAX_TITLE_LENGTH} characters once variables are filled in.</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="post-template">Post text</Label>
+              <div className="flex gap-1">
+                {POST_VARIABLES.map((name) => (
+                  <Button key={name} type="button" variant="outline" size="sm" onClick={() => insertVariable(name)}>
+                    {`{{${name}}}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <Textarea
+              id="post-template"
+              ref={templateRef}
+              rows={6}
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              placeholder="The best {{keyword}} in {{city}} is now open late in {{neighborhood}}."
+            />
+            <p className="text-xs text-gray-500">Up to {MAX_SUMMARY_LENGTH} characters once variables are filled in.</p>
+          </div>
+
+          {type !== "update" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="post-starts-at">Starts</Label>
+                <Input id="post-starts-at" type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="post-ends-at">Ends</Label>
+                <Input id="post-ends-at" type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          {type === "offer" ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="post-coupon">Coupon code</Label>
+                <Input id="post-coupon" value={couponCode} onChange={(e) => setCouponCode(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="post-redeem-url">Redeem online link</Label>
+                <Input
+                  id="post-redeem-url"
+                  value={redeemUrl}
+                  onChange={(e) => setRedeemUrl(e.target.value)}
+                  placeholder="https://"
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="post-terms">Terms and conditions</Label>
+                <Textarea id="post-terms" rows={2} value={terms} onChange={(e) => setTerms(e.target.value)} />
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Button</Label>
+                <Select value={buttonType} onValueChange={(value) => setButtonType(value as CallToActionType | typeof NO_BUTTON)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_BUTTON}>No button</SelectItem>
+                    {CALL_TO_ACTION_TYPES.map((actionType) => (
+                      <SelectItem key={actionType} value={actionType}>
+                        {CALL_TO_ACTION_LABELS[actionType]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {buttonType !== NO_BUTTON && buttonType !== "CALL" && (
+                <div className="space-y-2">
+                  <Label htmlFor="post-button-url">Button link</Label>
+                  <Input
+                    id="post-button-url"
+                    value={buttonUrl}
+                    onChange={(e) => setButtonUrl(e.target.value)}
+                    placeholder="https://"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="post-scheduled-at">Publish at</Label>
+            <Input
+              id="post-scheduled-at"
+              type="datetime-local"
+              value={scheduledAt}
+              onChange={(e) => setScheduledAt(e.target.value)}
+              required
+            />
+          </div>
+
+          {draftError && (
+            <p className="text-sm text-red-600 flex items-center">
+              <AlertCircle className="h-4 w-4 mr-1" />
+              {draftError}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <div className="p-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-800">Locations</h2>
+              <p className="text-sm text-gray-500">{selectedLocations.length} selected</p>
+            </div>
+            {isLoadingLocations ? (
+              <div className="py-8 text-center">
+                <Loader2 className="h-6 w-6 mx-auto animate-spin text-blue-600" />
+              </div>
+            ) : locations.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">
+                No locations yet. <Link href="/locations" className="text-blue-600 hover:underline">Add a location</Link> to post to it.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+                {locations.map((location) => {
+                  const result = rendered.get(location.id)
+                  return (
+                    <li key={location.id} className="flex items-start gap-3 px-4 py-3">
+                      <Checkbox
+                        id={`post-location-${location.id}`}
+                        checked={selectedIds.includes(location.id)}
+                        onCheckedChange={(checked) => toggleLocation(location.id, checked === true)}
+                        className="mt-0.5"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <label htmlFor={`post-location-${location.id}`} className="font-medium text-sm cursor-pointer">
+                          {location.name}
+                        </label>
+                        <div className="text-xs text-gray-500 truncate">
+                          {[location.city, location.neighborhood, location.keyword].filter(Boolean).join(" · ")}
+                        </div>
+                        {!location.profileName && (
+                          <div className="text-xs text-amber-600">No Business Profile connected</div>
+                        )}
+                        {result?.error && <div className="text-xs text-red-600">{result.error}</div>}
+                      </div>
+                      {result && (
+                        <button
+                          type="button"
+                          className="text-xs text-blue-600 hover:underline"
+                          onClick={() => setPreviewId(location.id)}
+                        >
+                          Preview
+                        </button>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-2">
+            <h2 className="text-lg font-semibold text-gray-800">Preview</h2>
+            {previewLocation && preview ? (
+              <>
+                <p className="text-xs text-gray-500">{previewLocation.name}</p>
+                {preview.title && <p className="font-medium text-gray-900">{preview.title}</p>}
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{preview.summary || "Start writing the post."}</p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Select a location to see its post.</p>
+            )}
+          </div>
+
+          <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={!canSchedule}>
+            {isScheduling ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Megaphone className="h-4 w-4 mr-2" />}
+            Schedule {selectedLocations.length || ""} posts
+          </Button>
+          {!can("managePosts") && (
+            <p className="text-xs text-gray-500 text-center">Your role can view the calendar but not schedule posts.</p>
+          )}
+        </div>
+      </form>
+
+      <PostCalendar refreshKey={calendarKey} />
     </div>
   )
 }
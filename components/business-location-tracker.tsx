@@ -6,22 +6,24 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { PlusCircle, MapPin, Trash2, Building, Loader2 } from "lucide-react"
-import { v4 as uuidv4 } from "uuid"
-import { fetchLocations, addLocation, deleteLocation } from "@/lib/api-service"
+import Link from "next/link"
+import { PlusCircle, MapPin, Trash2, Building, Loader2, Edit, Star, History } from "lucide-react"
+import { fetchLocations, fetchLocation, addLocation, updateLocation, deleteLocation } from "@/lib/api-service"
+import type { Location, LocationWithScans } from "@/lib/location-service"
+import { useWorkspace } from "@/hooks/use-workspace"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 
-interface Location {
-  id: string
-  name: string
-  address: string
-  city: string
-  state: string
-  zipCode: string
-  latitude: number
-  longitude: number
-  isPrimary: boolean
+const EMPTY_LOCATION = {
+  name: '',
+  address: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  isPrimary: false,
+  neighborhood: '',
+  keyword: '',
+  profileName: ''
 }
 
 export function BusinessLocationTracker() {
@@ -31,16 +33,21 @@ export function BusinessLocationTracker() {
   const [isAdding, setIsAdding] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   const [addDialogOpen, setAddDialogOpen] = useState(false)
+  // Location being edited in the dialog, or null when adding one
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [scansLocation, setScansLocation] = useState<LocationWithScans | null>(null)
+  const [loadingScansId, setLoadingScansId] = useState<string | null>(null)
+  const { can } = useWorkspace()
+  const canManageLocations = can('manageLocations')
   
   // Form state
-  const [newLocation, setNewLocation] = useState({
-    name: '',
-    address: '',
-    city: '',
-    state: '',
-    zipCode: '',
-    isPrimary: false
-  })
+  const [newLocation, setNewLocation] = useState(EMPTY_LOCATION)
+
+  // Saving one location can change which one is primary, so the list is reloaded after changes
+  const loadLocations = async () => {
+    setLocations(await fetchLocations())
+  }
 
   // Load locations
   useEffect(() => {
@@ -49,8 +56,7 @@ export function BusinessLocationTracker() {
       setError(null)
       
       try {
-        const data = await fetchLocations()
-        setLocations(data)
+        await loadLocations()
       } catch (err) {
         console.error("Error fetching locations:", err)
         setError("Failed to load locations. Please try again later.")
@@ -62,6 +68,9 @@ export function BusinessLocationTracker() {
     getLocations()
   }, [])
 
+  // The primary location can't be unset, only replaced by making another location primary
+  const editingPrimary = locations.some(loc => loc.id === editingId && loc.isPrimary)
+
   // Handle form input changes
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target
@@ -71,50 +80,89 @@ export function BusinessLocationTracker() {
     })
   }
 
-  // Handle location addition
+  const openAddDialog = () => {
+    setEditingId(null)
+    setNewLocation(EMPTY_LOCATION)
+    setAddDialogOpen(true)
+  }
+
+  const openEditDialog = (location: Location) => {
+    setEditingId(location.id)
+    setNewLocation({
+      name: location.name,
+      address: location.address,
+      city: location.city,
+      state: location.state,
+      zipCode: location.zipCode,
+      isPrimary: location.isPrimary,
+      neighborhood: location.neighborhood,
+      keyword: location.keyword,
+      profileName: location.profileName || ''
+    })
+    setAddDialogOpen(true)
+  }
+
+  // Handle location addition and editing. The server geocodes the address.
   const handleAddLocation = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsAdding(true)
     setError(null)
     
     try {
-      // In a real scenario we would use an API to geocode the address
-      // For demo, we'll use random coordinates near San Francisco
-      const latitude = 37.7749 + (Math.random() - 0.5) * 0.1
-      const longitude = -122.4194 + (Math.random() - 0.5) * 0.1
-      
-      const locationData = {
-        id: uuidv4(),
-        ...newLocation,
-        latitude,
-        longitude
+      if (editingId) {
+        await updateLocation(editingId, newLocation)
+      } else {
+        await addLocation(newLocation)
       }
-      
-      const addedLocation = await addLocation(locationData)
-      
-      // Update locations list
-      setLocations([...locations, addedLocation])
+      await loadLocations()
       
       // Reset form
-      setNewLocation({
-        name: '',
-        address: '',
-        city: '',
-        state: '',
-        zipCode: '',
-        isPrimary: false
-      })
+      setNewLocation(EMPTY_LOCATION)
+      setEditingId(null)
       
       // Close dialog
       setAddDialogOpen(false)
     } catch (err) {
-      console.error("Error adding location:", err)
-      setError("Failed to add location. Please try again.")
+      console.error("Error saving location:", err)
+      setError(err instanceof Error ? err.message : "Failed to save location. Please try again.")
     } finally {
       setIsAdding(false)
     }
   }
 
+  const handleMakePrimary = async (id: string) => {
+    setUpdatingId(id)
+    setError(null)
+    
+    try {
+      await updateLocation(id, { isPrimary: true })
+      await loadLocations()
+    } catch (err) {
+      console.error("Error updating location:", err)
+      setError(err instanceof Error ? err.message : "Failed to update location. Please try again.")
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  // Show or hide the scans of a location's business
+  const handleToggleScans = async (id: string) => {
+    if (scansLocation?.id === id) {
+      setScansLocation(null)
+      return
+    }
+    
+    setLoadingScansId(id)
+    try {
+      setScansLocation(await fetchLocation(id))
+    } catch (err) {
+      console.error("Error fetching location scans:", err)
+      setError("Failed to load scans for this location.")
+    } finally {
+      setLoadingScansId(null)
+    }
+  }
+
   // Handle location deletion
   const handleDeleteLocation = async (id: string) => {
     if (window.confirm("Are you sure you want to delete this location?")) {
@@ -124,8 +172,8 @@ export function BusinessLocationTracker() {
       try {
         await deleteLocation(id)
         
-        // Update locations list
-        setLocations(locations.filter(loc => loc.id !== id))
+        // Another location may have become primary
+        await loadLocations()
       } catch (err) {
         console.error("Error deleting location:", err)
         setError("Failed to delete location. Please try again.")
@@ -167,7 +215,8 @@ export function BusinessLocationTracker() {
             <DialogTrigger asChild>
               <Button 
                 className="flex items-center gap-2"
-                onClick={() => setAddDialogOpen(true)}
+                onClick={openAddDialog}
+                disabled={!canManageLocations}
               >
                 <PlusCircle className="h-4 w-4" />
                 Add Location
@@ -175,9 +224,11 @@ export function BusinessLocationTracker() {
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Add New Location</DialogTitle>
+                <DialogTitle>{editingId ? 'Edit Location' : 'Add New Location'}</DialogTitle>
                 <DialogDescription>
-                  Enter the details for your new business location
+                  {editingId
+                    ? 'Changing the address looks up its coordinates again'
+                    : 'Enter the details for your new business location. Its coordinates are looked up from the address.'}
                 </DialogDescription>
               </DialogHeader>
               
@@ -253,6 +304,48 @@ export function BusinessLocationTracker() {
                     />
                   </div>
                   
+                  <div className="grid grid-cols-4 items-center gap-2">
+                    <Label htmlFor="neighborhood" className="text-right">
+                      Neighborhood
+                    </Label>
+                    <Input
+                      id="neighborhood"
+                      name="neighborhood"
+                      value={newLocation.neighborhood}
+                      onChange={handleInputChange}
+                      placeholder="Optional, used in posts"
+                      className="col-span-3"
+                    />
+                  </div>
+                  
+                  <div className="grid grid-cols-4 items-center gap-2">
+                    <Label htmlFor="keyword" className="text-right">
+                      Keyword
+                    </Label>
+                    <Input
+                      id="keyword"
+                      name="keyword"
+                      value={newLocation.keyword}
+                      onChange={handleInputChange}
+                      placeholder="Optional, used in posts"
+                      className="col-span-3"
+                    />
+                  </div>
+                  
+                  <div className="grid grid-cols-4 items-center gap-2">
+                    <Label htmlFor="profileName" className="text-right">
+                      Business Profile
+                    </Label>
+                    <Input
+                      id="profileName"
+                      name="profileName"
+                      value={newLocation.profileName}
+                      onChange={handleInputChange}
+                      placeholder="accounts/123/locations/456"
+                      className="col-span-3"
+                    />
+                  </div>
+                  
                   <div className="grid grid-cols-4 items-center gap-2">
                     <Label htmlFor="isPrimary" className="text-right">
                       Primary Location
@@ -264,11 +357,16 @@ export function BusinessLocationTracker() {
                         name="isPrimary"
                         checked={newLocation.isPrimary}
                         onChange={handleInputChange}
+                        disabled={editingPrimary}
                         className="mr-2 h-4 w-4"
                       />
                       <Label htmlFor="isPrimary">Set as primary location</Label>
                     </div>
                   </div>
+                  
+                  {error && addDialogOpen && (
+                    <p className="text-sm text-red-600">{error}</p>
+                  )}
                 </div>
                 
                 <DialogFooter>
@@ -286,10 +384,10 @@ export function BusinessLocationTracker() {
                     {isAdding ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Adding...
+                        {editingId ? 'Saving...' : 'Adding...'}
                       </>
                     ) : (
-                      'Add Location'
+                      editingId ? 'Save Location' : 'Add Location'
                     )}
                   </Button>
                 </DialogFooter>
@@ -300,7 +398,7 @@ export function BusinessLocationTracker() {
       </CardHeader>
       
       <CardContent>
-        {error && (
+        {error && !addDialogOpen && (
           <Alert variant="destructive" className="mb-6">
             <AlertTitle>Error</AlertTitle>
             <AlertDescription>{error}</AlertDescription>
@@ -322,8 +420,9 @@ export function BusinessLocationTracker() {
                   Add your business locations to track their performance and compare local rankings across different areas.
                 </p>
                 <Button 
-                  onClick={() => setAddDialogOpen(true)}
+                  onClick={openAddDialog}
                   className="flex items-center gap-2 mx-auto"
+                  disabled={!canManageLocations}
                 >
                   <PlusCircle className="h-4 w-4" />
                   Add Your First Location
@@ -332,50 +431,102 @@ export function BusinessLocationTracker() {
             ) : (
               <div className="space-y-4">
                 {locations.map((location) => (
-                  <div 
-                    key={location.id}
-                    className="p-4 border rounded-lg flex flex-col md:flex-row justify-between gap-4 hover:bg-gray-50"
-                  >
-                    <div className="space-y-1">
+                  <div key={location.id} className="border rounded-lg hover:bg-gray-50">
+                    <div className="p-4 flex flex-col md:flex-row justify-between gap-4">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-medium">
+                            {location.name}
+                          </h3>
+                          {location.isPrimary && (
+                            <span className="px-2 py-0.5 text-xs bg-blue-100 text-blue-800 rounded-full">
+                              Primary
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {location.address}, {location.city}, {location.state} {location.zipCode}
+                        </p>
+                        <p className="text-xs text-gray-400">
+                          Lat: {location.latitude.toFixed(5)}, Lng: {location.longitude.toFixed(5)}
+                        </p>
+                      </div>
+                    
                       <div className="flex items-center gap-2">
-                        <h3 className="font-medium">
-                          {location.name}
-                        </h3>
-                        {location.isPrimary && (
-                          <span className="px-2 py-0.5 text-xs bg-blue-100 text-blue-800 rounded-full">
-                            Primary
-                          </span>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          className="flex items-center gap-1"
+                          onClick={() => window.open(`https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`, '_blank')}
+                        >
+                          <MapPin className="h-3.5 w-3.5" />
+                          View on Map
+                        </Button>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          className="flex items-center gap-1"
+                          onClick={() => handleToggleScans(location.id)}
+                          disabled={loadingScansId === location.id}
+                        >
+                          <History className="h-3.5 w-3.5" />
+                          Scans
+                        </Button>
+                        {!location.isPrimary && (
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            className="flex items-center gap-1"
+                            onClick={() => handleMakePrimary(location.id)}
+                            disabled={updatingId === location.id || !canManageLocations}
+                          >
+                            <Star className="h-3.5 w-3.5" />
+                            Make Primary
+                          </Button>
                         )}
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          className="flex items-center gap-1"
+                          onClick={() => openEditDialog(location)}
+                          disabled={!canManageLocations}
+                        >
+                          <Edit className="h-3.5 w-3.5" />
+                          Edit
+                        </Button>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          className="flex items-center gap-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => handleDeleteLocation(location.id)}
+                          disabled={isDeleting || !canManageLocations}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                          {isDeleting ? 'Deleting...' : 'Delete'}
+                        </Button>
                       </div>
-                      <p className="text-sm text-gray-500">
-                        {location.address}, {location.city}, {location.state} {location.zipCode}
-                      </p>
-                      <p className="text-xs text-gray-400">
-                        Lat: {location.latitude.toFixed(5)}, Lng: {location.longitude.toFixed(5)}
-                      </p>
-                    </div>
-                    
-                    <div className="flex items-center gap-2">
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        className="flex items-center gap-1"
-                        onClick={() => window.open(`https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`, '_blank')}
-                      >
-                        <MapPin className="h-3.5 w-3.5" />
-                        View on Map
-                      </Button>
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        className="flex items-center gap-1 text-red-600 hover:text-red-700 hover:bg-red-50"
-                        onClick={() => handleDeleteLocation(location.id)}
-                        disabled={isDeleting}
-                      >
-                        <Trash2 className="h-3.5 w-3.5" />
-                        {isDeleting ? 'Deleting...' : 'Delete'}
-                      </Button>
                     </div>
+                  
+                    {scansLocation?.id === location.id && (
+                      <div className="border-t px-4 py-3">
+                        {scansLocation.scans.length === 0 ? (
+                          <p className="text-sm text-gray-500">No scans of this location yet.</p>
+                        ) : (
+                          <ul className="space-y-1">
+                            {scansLocation.scans.map((scan) => (
+                              <li key={scan.id} className="flex items-center justify-between text-sm">
+                                <Link href={`/grid/${scan.id}`} className="text-blue-600 hover:underline">
+                                  {scan.searchTerm} · {scan.gridSize}
+                                </Link>
+                                <span className="text-gray-500">
+                                  Avg. rank {scan.metrics.agr.toFixed(1)} · {new Date(scan.createdAt).toLocaleDateString()}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
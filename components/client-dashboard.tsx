@@ -0,0 +1,251 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowLeft, BarChart2, CalendarClock, FileText, Grid, Loader2, MapPin, Search, TrendingUp } from "lucide-react"
+import { describeSchedule } from "@/components/schedule-scan-dialog"
+import type { ClientDashboard as ClientDashboardData, ScanRollup } from "@/lib/client-service"
+
+// Number of scans listed under the projects
+const RECENT_SCAN_LIMIT = 20
+
+function formatRank(value: number | null): string {
+  return value === null ? "—" : value.toFixed(1)
+}
+
+function formatVisibility(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value)}%`
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return "Never"
+  return new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+}
+
+export function ClientDashboard({ clientId }: { clientId: string }) {
+  const [dashboard, setDashboard] = useState<ClientDashboardData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+
+  useEffect(() => {
+    const loadDashboard = async () => {
+      try {
+        const response = await fetch(`/api/clients/${clientId}`)
+        if (response.status === 404) {
+          setNotFound(true)
+          return
+        }
+        if (!response.ok) {
+          throw new Error(`Error fetching client: ${response.status}`)
+        }
+        setDashboard(await response.json())
+      } catch (error) {
+        console.error("Error loading client dashboard:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadDashboard()
+  }, [clientId])
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 py-12 text-center">
+        <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+        <p className="text-gray-500">Loading client...</p>
+      </div>
+    )
+  }
+
+  if (notFound || !dashboard) {
+    return (
+      <div className="container mx-auto p-6 py-12 text-center">
+        <p className="text-gray-500 mb-4">{notFound ? "This client doesn't exist." : "Failed to load the client."}</p>
+        <Link href="/clients" className="text-blue-600 hover:underline">
+          Back to clients
+        </Link>
+      </div>
+    )
+  }
+
+  const { client, rollup, projects, scans, schedules } = dashboard
+
+  return (
+    <div className="container mx-auto p-6 space-y-8">
+      <div>
+        <Link href="/clients" className="text-sm text-gray-500 hover:text-gray-700 flex items-center mb-2">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Clients
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-800">{client.name}</h1>
+        <p className="text-gray-500">
+          Averages use the latest scan of every business and keyword. Last scan {formatDate(rollup.lastScanAt)}.
+        </p>
+      </div>
+
+      <RollupTiles rollup={rollup} />
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">Projects</h2>
+        </div>
+        {projects.length === 0 ? (
+          <p className="py-8 text-center text-gray-500">
+            This client has no projects yet. Add them on the{" "}
+            <Link href="/clients" className="text-blue-600 hover:underline">
+              clients page
+            </Link>
+            .
+          </p>
+        ) : (
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>Project</TableHead>
+                <TableHead>Businesses</TableHead>
+                <TableHead className="text-right">Keywords</TableHead>
+                <TableHead className="text-right">Scans</TableHead>
+                <TableHead className="text-right">Avg. Rank</TableHead>
+                <TableHead className="text-right">Visibility</TableHead>
+                <TableHead>Last Scan</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {projects.map(({ project, businesses, rollup: projectRollup }) => (
+                <TableRow key={project.id}>
+                  <TableCell className="font-medium">{project.name}</TableCell>
+                  <TableCell className="text-gray-600">
+                    {businesses.length === 0 ? "—" : businesses.map((business) => business.name).join(", ")}
+                  </TableCell>
+                  <TableCell className="text-right">{projectRollup.keywordCount}</TableCell>
+                  <TableCell className="text-right">{projectRollup.scanCount}</TableCell>
+                  <TableCell className="text-right">{formatRank(projectRollup.averageRank)}</TableCell>
+                  <TableCell className="text-right">{formatVisibility(projectRollup.visibilityPercentage)}</TableCell>
+                  <TableCell>{formatDate(projectRollup.lastScanAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">Recent Scans</h2>
+        </div>
+        {scans.length === 0 ? (
+          <p className="py-8 text-center text-gray-500">No scans of this client&apos;s businesses yet.</p>
+        ) : (
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>Business</TableHead>
+                <TableHead>Project</TableHead>
+                <TableHead>Search Term</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Avg. Rank</TableHead>
+                <TableHead className="text-right">SoLV</TableHead>
+                <TableHead className="text-right">Report</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {scans.slice(0, RECENT_SCAN_LIMIT).map((scan) => (
+                <TableRow key={scan.id}>
+                  <TableCell>
+                    <Link href={`/grid/${scan.id}`} className="font-medium text-blue-600 hover:underline">
+                      {scan.businessInfo.name}
+                    </Link>
+                    <div className="text-xs text-gray-500 flex items-center">
+                      <MapPin className="h-3 w-3 mr-1" />
+                      {scan.businessInfo.address}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    {projects.find(({ project }) => project.id === scan.projectId)?.project.name}
+                  </TableCell>
+                  <TableCell>{scan.searchTerm}</TableCell>
+                  <TableCell>{formatDate(scan.createdAt)}</TableCell>
+                  <TableCell className="text-right">{scan.metrics.agr.toFixed(1)}</TableCell>
+                  <TableCell className="text-right">{scan.metrics.solv}</TableCell>
+                  <TableCell className="text-right">
+                    <a
+                      href={`/api/grid-results/${scan.id}/report`}
+                      className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+                    >
+                      <FileText className="h-4 w-4 mr-1" />
+                      PDF
+                    </a>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-800">Schedules</h2>
+          <Link href="/schedules" className="text-sm text-blue-600 hover:underline">
+            All schedules
+          </Link>
+        </div>
+        {schedules.length === 0 ? (
+          <p className="py-8 text-center text-gray-500">No scheduled scans for this client&apos;s businesses.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {schedules.map((schedule) => (
+              <li key={schedule.id} className="flex items-center justify-between px-4 py-3">
+                <div className="flex items-center">
+                  <CalendarClock className="h-4 w-4 mr-3 text-gray-400" />
+                  <div>
+                    <div className="font-medium text-gray-800">
+                      {schedule.businessInfo.name} · {schedule.searchTerm}
+                    </div>
+                    <div className="text-xs text-gray-500">{describeSchedule(schedule)}</div>
+                  </div>
+                </div>
+                <span className="text-sm text-gray-500">
+                  {schedule.enabled ? `Next: ${formatDate(schedule.nextRunAt)}` : "Paused"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function RollupTiles({ rollup }: { rollup: ScanRollup }) {
+  const tiles = [
+    { label: "Scans", value: String(rollup.scanCount), icon: Grid, color: "text-blue-600 bg-blue-50" },
+    { label: "Businesses", value: String(rollup.businessCount), icon: MapPin, color: "text-teal-600 bg-teal-50" },
+    { label: "Keywords", value: String(rollup.keywordCount), icon: Search, color: "text-indigo-600 bg-indigo-50" },
+    { label: "Avg. Rank", value: formatRank(rollup.averageRank), icon: TrendingUp, color: "text-green-600 bg-green-50" },
+    {
+      label: "Visibility %",
+      value: formatVisibility(rollup.visibilityPercentage),
+      icon: BarChart2,
+      color: "text-purple-600 bg-purple-50",
+    },
+  ]
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+      {tiles.map((tile) => (
+        <div key={tile.label} className="bg-white p-4 rounded-lg border border-gray-200 flex items-center justify-between">
+          <div>
+            <p className="text-sm text-gray-500">{tile.label}</p>
+            <h3 className="text-2xl font-bold text-gray-900">{tile.value}</h3>
+          </div>
+          <div className={`p-2 rounded-full ${tile.color}`}>
+            <tile.icon className="h-5 w-5" />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,381 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Edit, FolderOpen, Loader2, Plus, Trash2 } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useWorkspace } from "@/hooks/use-workspace"
+import type { Client, OrganizedBusiness, Project } from "@/lib/client-service"
+
+// Select value for businesses outside any project; Select items can't have an empty value
+const UNASSIGNED = "unassigned"
+
+export function ClientsPage() {
+  const [clients, setClients] = useState<Client[]>([])
+  const [businesses, setBusinesses] = useState<OrganizedBusiness[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [newClientName, setNewClientName] = useState("")
+  const [newProjectNames, setNewProjectNames] = useState<Record<string, string>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+  const canManage = can("manageClients")
+
+  const loadData = async () => {
+    try {
+      const [clientsResponse, businessesResponse] = await Promise.all([
+        fetch("/api/clients"),
+        fetch("/api/businesses/organized"),
+      ])
+      if (!clientsResponse.ok || !businessesResponse.ok) {
+        throw new Error(`Error fetching clients: ${clientsResponse.status}`)
+      }
+      setClients(await clientsResponse.json())
+      setBusinesses(await businessesResponse.json())
+    } catch (error) {
+      console.error("Error loading clients:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  // Sends a JSON request and returns the parsed body, throwing the API's error message on failure
+  const send = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed: ${response.status}`)
+    }
+    return data
+  }
+
+  const run = async (id: string, action: () => Promise<void>, failure: string) => {
+    setBusyId(id)
+    try {
+      await action()
+    } catch (error) {
+      console.error(failure, error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCreateClient = (event: React.FormEvent) => {
+    event.preventDefault()
+    run(
+      "new-client",
+      async () => {
+        const client: Client = await send("/api/clients", "POST", { name: newClientName })
+        setClients((prev) => [...prev, client].sort((a, b) => a.name.localeCompare(b.name)))
+        setNewClientName("")
+      },
+      "Failed to create client."
+    )
+  }
+
+  const handleRenameClient = (client: Client) => {
+    const name = window.prompt("Client name", client.name)
+    if (!name || name === client.name) return
+
+    run(
+      client.id,
+      async () => {
+        const renamed: Client = await send(`/api/clients/${client.id}`, "PATCH", { name })
+        setClients((prev) => prev.map((item) => (item.id === client.id ? renamed : item)))
+      },
+      "Failed to rename client."
+    )
+  }
+
+  const handleDeleteClient = (client: Client) => {
+    if (!window.confirm(`Delete "${client.name}" and its projects? Their businesses and scans are kept but unassigned.`)) {
+      return
+    }
+
+    run(
+      client.id,
+      async () => {
+        await send(`/api/clients/${client.id}`, "DELETE")
+        await loadData()
+      },
+      "Failed to delete client."
+    )
+  }
+
+  const handleCreateProject = (event: React.FormEvent, client: Client) => {
+    event.preventDefault()
+    run(
+      client.id,
+      async () => {
+        const project: Project = await send(`/api/clients/${client.id}/projects`, "POST", {
+          name: newProjectNames[client.id] ?? "",
+        })
+        setClients((prev) =>
+          prev.map((item) =>
+            item.id === client.id
+              ? { ...item, projects: [...item.projects, project].sort((a, b) => a.name.localeCompare(b.name)) }
+              : item
+          )
+        )
+        setNewProjectNames((prev) => ({ ...prev, [client.id]: "" }))
+      },
+      "Failed to create project."
+    )
+  }
+
+  const handleRenameProject = (project: Project) => {
+    const name = window.prompt("Project name", project.name)
+    if (!name || name === project.name) return
+
+    run(
+      project.id,
+      async () => {
+        const renamed: Project = await send(`/api/projects/${project.id}`, "PATCH", { name })
+        setClients((prev) =>
+          prev.map((client) => ({
+            ...client,
+            projects: client.projects.map((item) => (item.id === project.id ? renamed : item)),
+          }))
+        )
+      },
+      "Failed to rename project."
+    )
+  }
+
+  const handleDeleteProject = (project: Project) => {
+    if (!window.confirm(`Delete the project "${project.name}"? Its businesses and scans are kept but unassigned.`)) {
+      return
+    }
+
+    run(
+      project.id,
+      async () => {
+        await send(`/api/projects/${project.id}`, "DELETE")
+        await loadData()
+      },
+      "Failed to delete project."
+    )
+  }
+
+  const handleAssign = (business: OrganizedBusiness, value: string) => {
+    const projectId = value === UNASSIGNED ? null : value
+
+    run(
+      business.id,
+      async () => {
+        await send(`/api/businesses/${business.id}/project`, "PUT", { projectId })
+        setBusinesses((prev) => prev.map((item) => (item.id === business.id ? { ...item, projectId } : item)))
+      },
+      "Failed to move business."
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 py-12 text-center">
+        <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+        <p className="text-gray-500">Loading clients...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">Clients</h1>
+          <p className="text-gray-500">
+            File businesses under a client&apos;s projects to group their scans, schedules and reports.
+          </p>
+        </div>
+        {canManage && (
+          <form onSubmit={handleCreateClient} className="flex gap-2">
+            <Input
+              placeholder="New client name"
+              maxLength={100}
+              value={newClientName}
+              onChange={(e) => setNewClientName(e.target.value)}
+              required
+            />
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={busyId === "new-client"}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Client
+            </Button>
+          </form>
+        )}
+      </div>
+
+      {clients.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 py-12 text-center">
+          <FolderOpen className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+          <h4 className="text-lg font-medium text-gray-700 mb-2">No clients yet</h4>
+          <p className="text-gray-500">Add a client, give it projects and file your businesses under them.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {clients.map((client) => (
+            <div key={client.id} className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <Link href={`/clients/${client.id}`} className="text-lg font-semibold text-blue-600 hover:underline">
+                  {client.name}
+                </Link>
+                {canManage && (
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      title="Rename"
+                      disabled={busyId === client.id}
+                      onClick={() => handleRenameClient(client)}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-red-500"
+                      title="Delete"
+                      disabled={busyId === client.id}
+                      onClick={() => handleDeleteClient(client)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {client.projects.length === 0 ? (
+                <p className="text-sm text-gray-500">No projects yet</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {client.projects.map((project) => (
+                    <li key={project.id} className="flex items-center justify-between py-1.5">
+                      <span className="text-sm text-gray-700">
+                        {project.name}{" "}
+                        <span className="text-xs text-gray-400">
+                          ({businesses.filter((business) => business.projectId === project.id).length} businesses)
+                        </span>
+                      </span>
+                      {canManage && (
+                        <div className="flex space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            title="Rename"
+                            disabled={busyId === project.id}
+                            onClick={() => handleRenameProject(project)}
+                          >
+                            <Edit className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-red-500"
+                            title="Delete"
+                            disabled={busyId === project.id}
+                            onClick={() => handleDeleteProject(project)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {canManage && (
+                <form onSubmit={(event) => handleCreateProject(event, client)} className="flex gap-2">
+                  <Input
+                    placeholder="New project"
+                    maxLength={100}
+                    className="h-8"
+                    value={newProjectNames[client.id] ?? ""}
+                    onChange={(e) => setNewProjectNames((prev) => ({ ...prev, [client.id]: e.target.value }))}
+                    required
+                  />
+                  <Button type="submit" size="sm" variant="outline" disabled={busyId === client.id}>
+                    Add
+                  </Button>
+                </form>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">Businesses</h2>
+          <p className="text-sm text-gray-500">Moving a business moves all of its scans with it.</p>
+        </div>
+        {businesses.length === 0 ? (
+          <p className="py-8 text-center text-gray-500">Businesses appear here once they have been scanned.</p>
+        ) : (
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>Business</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead className="w-72">Project</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {businesses.map((business) => (
+                <TableRow key={business.id}>
+                  <TableCell className="font-medium">{business.name}</TableCell>
+                  <TableCell className="text-gray-500">{business.address}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={business.projectId ?? UNASSIGNED}
+                      onValueChange={(value) => handleAssign(business, value)}
+                      disabled={!canManage || busyId === business.id}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                        {clients
+                          .filter((client) => client.projects.length > 0)
+                          .map((client) => (
+                            <SelectGroup key={client.id}>
+                              <SelectLabel>{client.name}</SelectLabel>
+                              {client.projects.map((project) => (
+                                <SelectItem key={project.id} value={project.id}>
+                                  {project.name}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -10,7 +10,9 @@ import { Label } from "@/components/ui/label"
 import { PlusCircle, Search, X, MapPin, Calendar, BarChart2, TrendingUp, Filter, Grid, Loader2, Star, LineChart, MapIcon, User, LayersIcon } from "lucide-react"
 import { GridImageGenerator } from "./grid-image-generator"
 import { DetailedGridView } from "./detailed-grid-view"
-import { type GridResult, deleteGridResult } from "@/lib/geogrid-service"
+import type { GridResult } from "@/lib/geogrid-service"
+import type { Client } from "@/lib/client-service"
+import { useWorkspace } from "@/hooks/use-workspace"
 import { AdvancedCompetitorAnalysis } from "./advanced-competitor-analysis"
 import { GeoKeywordTrends } from "./geo-keyword-trends"
 import { BusinessLocationTracker } from "./business-location-tracker"
@@ -30,6 +32,9 @@ interface GridResultDisplay extends Omit<GridResult, 'gridSize' | 'metrics'> {
 
 export function DashboardHome() {
   const [gridResults, setGridResults] = useState<GridResult[]>([])
+  const [clients, setClients] = useState<Client[]>([])
+  const [clientFilter, setClientFilter] = useState("All")
+  const [projectFilter, setProjectFilter] = useState("All")
   const [businessFilter, setBusinessFilter] = useState("All")
   const [categoryFilter, setCategoryFilter] = useState("All")
   const [tagFilter, setTagFilter] = useState("All")
@@ -40,6 +45,7 @@ export function DashboardHome() {
   const [showFilters, setShowFilters] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [isDeleting, setIsDeleting] = useState(false)
+  const { can } = useWorkspace()
   const [activeTab, setActiveTab] = useState("grid-results")
 
   // Load grid results
@@ -68,6 +74,29 @@ export function DashboardHome() {
     loadData()
   }, [])
 
+  // Load clients and projects for the filters
+  useEffect(() => {
+    fetch("/api/clients")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setClients)
+      .catch((error) => console.error("Error loading clients:", error))
+  }, [])
+
+  // Client and project every project ID is filed under
+  const projectFolders = new Map(
+    clients.flatMap((client) => client.projects.map((project) => [project.id, { client, project }] as const))
+  )
+
+  // Projects offered in the project filter: the selected client's, or every client's
+  const projectOptions = clients
+    .filter((client) => clientFilter === "All" || client.id === clientFilter)
+    .flatMap((client) =>
+      client.projects.map((project) => ({
+        id: project.id,
+        label: clientFilter === "All" ? `${client.name} / ${project.name}` : project.name,
+      }))
+    )
+
   // Get unique business names for filter
   const businessNames = ["All", ...new Set(gridResults.map((result) => result.businessInfo.name))]
 
@@ -79,6 +108,10 @@ export function DashboardHome() {
 
   // Filter results
   const filteredResults = gridResults.filter((result) => {
+    const folder = result.projectId ? projectFolders.get(result.projectId) : undefined
+    if (clientFilter === "Unassigned" && folder) return false
+    if (clientFilter !== "All" && clientFilter !== "Unassigned" && folder?.client.id !== clientFilter) return false
+    if (projectFilter !== "All" && result.projectId !== projectFilter) return false
     if (businessFilter !== "All" && result.businessInfo.name !== businessFilter) return false
     if (categoryFilter !== "All" && result.businessInfo.category !== categoryFilter) return false
     if (gridSizeFilter !== "All" && result.gridSize !== gridSizeFilter) return false
@@ -100,8 +133,8 @@ export function DashboardHome() {
     if (window.confirm("Are you sure you want to delete this grid result?")) {
       setIsDeleting(true)
       try {
-        const deleted = await deleteGridResult(id)
-        if (deleted) {
+        const deleteResponse = await fetch(`/api/grid-results/${id}`, { method: "DELETE" })
+        if (deleteResponse.ok) {
           // Refresh the grid results after deletion
           const response = await fetch("/api/grid-results")
           if (!response.ok) {
@@ -121,6 +154,8 @@ export function DashboardHome() {
 
   // Clear filters
   const clearFilters = () => {
+    setClientFilter("All")
+    setProjectFilter("All")
     setBusinessFilter("All")
     setCategoryFilter("All")
     setTagFilter("All")
@@ -268,6 +303,51 @@ export function DashboardHome() {
 
             {showFilters && (
               <div className="p-4 border-t border-gray-200 bg-gray-50 flex flex-wrap gap-4">
+                <div className="w-full md:w-auto">
+                  <Label htmlFor="client-filter" className="text-xs font-medium block mb-1">Client</Label>
+                  <Select
+                    value={clientFilter}
+                    onValueChange={(value) => {
+                      setClientFilter(value)
+                      setProjectFilter("All")
+                    }}
+                  >
+                    <SelectTrigger id="client-filter" className="w-full md:w-52">
+                      <SelectValue placeholder="All clients" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="All">All clients</SelectItem>
+                      {clients.map((client) => (
+                        <SelectItem key={client.id} value={client.id}>
+                          {client.name}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="Unassigned">Unassigned</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="w-full md:w-auto">
+                  <Label htmlFor="project-filter" className="text-xs font-medium block mb-1">Project</Label>
+                  <Select
+                    value={projectFilter}
+                    onValueChange={setProjectFilter}
+                    disabled={clientFilter === "Unassigned"}
+                  >
+                    <SelectTrigger id="project-filter" className="w-full md:w-52">
+                      <SelectValue placeholder="All projects" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="All">All projects</SelectItem>
+                      {projectOptions.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="w-full md:w-auto">
                   <Label htmlFor="business-filter" className="text-xs font-medium block mb-1">Business</Label>
                   <Select
@@ -410,6 +490,15 @@ export function DashboardHome() {
                             <MapPin className="h-3 w-3 mr-1 inline text-gray-400" />
                             {result.businessInfo.address}
                           </div>
+                          {result.projectId && projectFolders.has(result.projectId) && (
+                            <Link
+                              href={`/clients/${projectFolders.get(result.projectId)!.client.id}`}
+                              className="text-xs text-gray-500 hover:text-blue-600 flex items-center mt-0.5"
+                            >
+                              <LayersIcon className="h-3 w-3 mr-1 inline text-gray-400" />
+                              {projectFolders.get(result.projectId)!.client.name} / {projectFolders.get(result.projectId)!.project.name}
+                            </Link>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -454,15 +543,17 @@ export function DashboardHome() {
                           >
                             View
                           </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="border-red-200 text-red-600 hover:text-red-700 hover:bg-red-50"
-                            onClick={() => handleDelete(result.id)}
-                            disabled={isDeleting}
-                          >
-                            {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Delete"}
-                          </Button>
+                          {can("deleteScans") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="border-red-200 text-red-600 hover:text-red-700 hover:bg-red-50"
+                              onClick={() => handleDelete(result.id)}
+                              disabled={isDeleting}
+                            >
+                              {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Delete"}
+                            </Button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -7,7 +7,6 @@ import { ResultsPanel } from "./results-panel"
 import { FallbackMap } from "./fallback-map"
 import { useGoogleMaps } from "@/hooks/use-google-maps"
 import type { BusinessInfo, GridPoint, MapCenter } from "@/types"
-import { saveGridResult } from "@/lib/geogrid-service"
 import { useRouter } from "next/navigation"
 
 interface DashboardProps {
@@ -89,25 +88,29 @@ export function Dashboard({ businessInfo }: DashboardProps) {
       })
 
       // Save the result
-      const result = saveGridResult({
-        businessInfo: {
-          ...businessInfo,
-          location: typeof businessInfo.location === 'object' ? businessInfo.location : { lat: mapCenter.lat, lng: mapCenter.lng }
-        },
-        searchTerm,
-        createdAt: new Date().toISOString(),
-        gridSize: `${gridSize}x${gridSize}`,
-        gridData,
-        metrics: {
-          agr: avgRanking,
-          atgr: avgTopRanking,
-          solv: `${solvPercentage}%`,
-          averageRank: avgRanking,
-          visibilityPercentage: solvPercentage,
-          top20AverageRank: avgTopRanking
-        },
-        googleRegion: "global",
-        distanceKm: distance,
+      await fetch("/api/geogrids", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          businessInfo: {
+            ...businessInfo,
+            location: typeof businessInfo.location === 'object' ? businessInfo.location : { lat: mapCenter.lat, lng: mapCenter.lng }
+          },
+          searchTerm,
+          createdAt: new Date().toISOString(),
+          gridSize: `${gridSize}x${gridSize}`,
+          gridData,
+          metrics: {
+            agr: avgRanking,
+            atgr: avgTopRanking,
+            solv: `${solvPercentage}%`,
+            averageRank: avgRanking,
+            visibilityPercentage: solvPercentage,
+            top20AverageRank: avgTopRanking
+          },
+          googleRegion: "global",
+          distanceKm: distance,
+        }),
       })
 
       // Wait a bit to show results before redirecting
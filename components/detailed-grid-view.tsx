@@ -3,20 +3,37 @@
 import { useState, useEffect, useRef, useMemo } from "react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, Repeat, Download, Share2, Trash2, Users } from "lucide-react"
+import { ArrowLeft, FileText, Film, GitCompare, Repeat, Download, Share2, Trash2, Users } from "lucide-react"
 import { loadGoogleMaps } from "@/lib/google-maps-loader"
-import { deleteGridResult, getCompetitors, type GridResult } from "@/lib/geogrid-service"
-import { useRouter } from "next/navigation"
+import type { GridResult } from "@/lib/geogrid-service"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { ScheduleScanDialog } from "@/components/schedule-scan-dialog"
+import { ShareGridDialog } from "@/components/share-grid-dialog"
+import { useWorkspace } from "@/hooks/use-workspace"
+import type { MatchStrategy } from "@/services/ranking-service"
+import type { SerpSnapshotPoint } from "@/lib/serp-snapshot-service"
+import type { CompetitorGrid } from "@/lib/competitor-grid-service"
+import { GRID_SHAPE_LABELS, OUTSIDE_SHAPE, type GridShape, type ServiceAreaPolygon } from "@/lib/grid-shapes"
+import { generateGeoGrid, haversineDistanceKm, type GeoGridPoint } from "@/lib/geo-grid"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { useRankingHistory } from "@/hooks/use-ranking-history"
+import { useBranding } from "@/hooks/use-branding"
+import { rankColor } from "@/lib/rank-colors"
+import { TimelapsePlayer } from "@/components/timelapse-player"
+import type { TimelapseFrame } from "@/lib/timelapse-renderer"
 
 interface GridResultType {
   id: string;
   gridSize: number;
   distanceKm: number;
   gridData: number[][];
+  matchStrategies?: MatchStrategy[][];
+  shape?: GridShape;
+  polygon?: ServiceAreaPolygon | null;
+  points?: GeoGridPoint[];
   businessInfo: {
     name: string;
     location: {
@@ -50,6 +67,12 @@ interface CompetitorBase {
     lat: number;
     lng: number;
   };
+  // Only set for leaderboard entries built from the scan's stored results
+  solv?: number;
+  agr?: number;
+  atgr?: number;
+  gridData?: number[][];
+  isTarget?: boolean;
 }
 
 interface Competitor extends CompetitorBase {
@@ -70,28 +93,68 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
   const [mapError, setMapError] = useState<string | null>(null)
   const [competitors, setCompetitors] = useState<Competitor[]>([])
   const [isDeleting, setIsDeleting] = useState(false)
+  const { can } = useWorkspace()
   const [competitorsModalOpen, setCompetitorsModalOpen] = useState(false)
   const [competitorsLoading, setCompetitorsLoading] = useState(false)
   const mapRef = useRef<HTMLDivElement>(null)
   const mapInstanceRef = useRef<any>(null)
+  // Markers and outline drawn for the grid, removed before it is redrawn
+  const gridOverlaysRef = useRef<Array<google.maps.Marker | google.maps.Polygon>>([])
   const placesServiceRef = useRef<any>(null)
-  const router = useRouter()
   const [competitorSearch, setCompetitorSearch] = useState("")
   const [compSortKey, setCompSortKey] = useState<keyof Competitor>('name')
   const [compSortOrder, setCompSortOrder] = useState<'asc' | 'desc'>('asc')
-
-  // Parse grid size and distance as numbers with fallbacks
-  const gridSize = Number(gridResult.gridSize) || 13  // Default to 13 if NaN
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false)
+  const [shareDialogOpen, setShareDialogOpen] = useState(false)
+  const [competitorGrids, setCompetitorGrids] = useState<CompetitorGrid[] | null>(null)
+  const [heatmapCompetitor, setHeatmapCompetitor] = useState<Competitor | null>(null)
+  const [timelapseOpen, setTimelapseOpen] = useState(false)
+  // Earlier scan shown on the map by the timelapse player, instead of this one
+  const [timelapseFrame, setTimelapseFrame] = useState<TimelapseFrame | null>(null)
+
+  // Parse grid size and distance as numbers with fallbacks ("13x13" and 13 are both accepted)
+  const gridSize = Number.parseInt(String(gridResult.gridSize)) || 13  // Default to 13 if NaN
   const distance = Number(gridResult.distanceKm) || 2.5  // Default to 2.5 if NaN
 
   // Ensure gridData is properly typed and has fallback
   const gridData = Array.isArray(gridResult.gridData) ? gridResult.gridData : []
+  const mapGridData = timelapseFrame?.gridData ?? gridData
+
+  // Ranks attributed by a fuzzy name/address/location match are less certain than place_id hits
+  const matchStrategies = gridResult.matchStrategies
+  const fuzzyMatchCount = matchStrategies ? matchStrategies.flat().filter((strategy) => strategy === "fuzzy").length : 0
+
+  // Parse location coordinates with fallbacks, keeping the same object while they don't change
+  const locationLat = Number(gridResult.businessInfo?.location?.lat) || 0
+  const locationLng = Number(gridResult.businessInfo?.location?.lng) || 0
+  const location = useMemo(() => ({ lat: locationLat, lng: locationLng }), [locationLat, locationLng])
+
+  // Map position of every scanned cell. Results store the exact points they queried;
+  // older ones are regenerated from their grid settings.
+  const shape = gridResult.shape || "square"
+  const gridPoints = useMemo<GeoGridPoint[]>(() => {
+    if (gridResult.points && gridResult.points.length > 0) {
+      return gridResult.points
+    }
+    try {
+      return generateGeoGrid({ center: location, gridSize, spacingKm: distance, shape, polygon: gridResult.polygon })
+    } catch (error) {
+      console.error("Error generating grid points:", error)
+      return []
+    }
+  }, [gridResult.points, shape, gridResult.polygon, gridSize, distance, location])
 
-  // Parse location coordinates with fallbacks
-  const location = {
-    lat: Number(gridResult.businessInfo?.location?.lat) || 0,
-    lng: Number(gridResult.businessInfo?.location?.lng) || 0
-  }
+  const branding = useBranding()
+
+  // Other scans of the same business and keyword this one can be compared against
+  const { history: scanHistory } = useRankingHistory(gridResult.businessInfo, gridResult.searchTerm, { range: "all" })
+  const comparableScans = scanHistory.filter((entry) => entry.gridResultId !== gridResult.id).reverse()
+
+  // Number of points actually scanned, which is less than gridSize² for shaped grids
+  const scannedPointCount = gridData.flat().filter((ranking) => ranking !== OUTSIDE_SHAPE).length
+
+  // The competitors dialog shows a SoLV leaderboard when the scan's results were stored
+  const isLeaderboard = competitors.some((comp) => comp.gridData)
 
   const filteredCompetitors = useMemo(() => {
     return competitors
@@ -270,7 +333,11 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
   useEffect(() => {
     const loadCompetitors = async () => {
       try {
-        const data = await getCompetitors(gridResult.id)
+        const response = await fetch(`/api/grid-results/${gridResult.id}/saved-competitors`)
+        if (!response.ok) {
+          throw new Error(`API error: ${response.status}`)
+        }
+        const data = await response.json()
         const typedCompetitors: Competitor[] = data.map((comp: any) => ({
           id: comp.id || '',
           name: comp.name || '',
@@ -294,13 +361,9 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
   }, [gridResult.id])
 
   // Helper function to get color based on ranking
+  // Colors come from the branded rank palette
   function getRankingColor(ranking: number): string {
-    if (ranking <= 3) return "#059669" // emerald-600 for top 3
-    if (ranking <= 7) return "#10b981" // green-500 for 4-7
-    if (ranking <= 10) return "#f59e0b" // amber-500 for 8-10 
-    if (ranking <= 15) return "#f97316" // orange-500 for 11-15
-    if (ranking >= 16) return "#ef4444" // red-500 for 16 and above (including 20+)
-    return "#ef4444" // fallback to red-500
+    return rankColor(ranking, branding.rankColors)
   }
 
   // Helper function to format ranking label
@@ -311,131 +374,14 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
     return ranking.toString();
   }
 
-  // Handle repeat search
+  // Handle repeat search - offer to run this scan on a recurring schedule
   const handleRepeatSearch = () => {
-    const searchUrl = `/new-search?business=${encodeURIComponent(gridResult.businessInfo.name)}&searchTerm=${encodeURIComponent(
-      gridResult.searchTerm,
-    )}`;
-    router.push(searchUrl);
+    setScheduleDialogOpen(true);
   }
 
-  // Handle PNG download
+  // Open a server-rendered image of the grid
   const handleOpenPNG = () => {
-    // Create loading element
-    const loadingEl = document.createElement('div');
-    loadingEl.style.position = 'fixed';
-    loadingEl.style.top = '0';
-    loadingEl.style.left = '0';
-    loadingEl.style.width = '100%';
-    loadingEl.style.height = '100%';
-    loadingEl.style.display = 'flex';
-    loadingEl.style.alignItems = 'center';
-    loadingEl.style.justifyContent = 'center';
-    loadingEl.style.backgroundColor = 'rgba(0,0,0,0.5)';
-    loadingEl.style.zIndex = '9999';
-    loadingEl.innerHTML = `
-      <div style="background: white; padding: 20px; border-radius: 8px; text-align: center;">
-        <div style="margin-bottom: 10px;">Generating map image...</div>
-        <div style="display: inline-block; width: 40px; height: 40px; border: 4px solid #f3f3f3; border-top: 4px solid #3498db; border-radius: 50%; animation: spin 1s linear infinite;"></div>
-        <style>@keyframes spin { 0% { transform: rotate(0deg); } 100% { transform: rotate(360deg); }}</style>
-      </div>
-    `;
-    document.body.appendChild(loadingEl);
-    
-    // Get the map element and its dimensions
-    const mapElement = mapRef.current;
-    if (!mapElement) {
-      document.body.removeChild(loadingEl);
-      alert("Map element not found");
-      return;
-    }
-    
-    const width = mapElement.clientWidth;
-    const height = mapElement.clientHeight;
-    
-    // Load html2canvas from CDN
-    const script = document.createElement('script');
-    script.src = 'https://cdnjs.cloudflare.com/ajax/libs/html2canvas/1.4.1/html2canvas.min.js';
-    script.onload = () => {
-      // Once loaded, use the global html2canvas function
-      (window as any).html2canvas(mapElement, {
-        useCORS: true,
-        allowTaint: true,
-        scale: 2, // Higher resolution
-        width: width,
-        height: height,
-        backgroundColor: null,
-        logging: true,
-        windowWidth: document.documentElement.offsetWidth,
-        windowHeight: document.documentElement.offsetHeight
-      }).then((canvas: HTMLCanvasElement) => {
-        // Create a complete canvas with header
-        const finalCanvas = document.createElement('canvas');
-        const ctx = finalCanvas.getContext('2d');
-        
-        // Set dimensions with space for header
-        const headerHeight = 120; // Height for the business info header
-        finalCanvas.width = canvas.width;
-        finalCanvas.height = canvas.height + headerHeight;
-
-      if (!ctx) {
-          document.body.removeChild(loadingEl);
-          alert("Could not get canvas context");
-        return;
-      }
-
-        // Draw white background for the header
-        ctx.fillStyle = 'white';
-        ctx.fillRect(0, 0, finalCanvas.width, headerHeight);
-        
-        // Draw the map image below the header
-        ctx.drawImage(canvas, 0, headerHeight);
-        
-        // Add header content
-        ctx.fillStyle = '#1a202c';
-        ctx.font = 'bold 16px Arial';
-        ctx.fillText(`Business: ${gridResult.businessInfo.name}`, 20, 30);
-        
-        ctx.font = '14px Arial';
-        ctx.fillText(`Address: ${gridResult.businessInfo.address || 'N/A'}`, 20, 55);
-        ctx.fillText(`Search Term: ${gridResult.searchTerm}`, 20, 80);
-        
-        // Add metrics on the right side
-        ctx.textAlign = 'right';
-        ctx.fillText(`AGR: ${gridResult.metrics.agr.toFixed(2)}`, width - 20, 30);
-        ctx.fillText(`ATGR: ${gridResult.metrics.atgr.toFixed(2)}`, width - 20, 55);
-        ctx.fillText(`SoLV: ${Number(gridResult.metrics.solv).toFixed(2)}%`, width - 20, 80);
-        
-        // Reset text alignment
-        ctx.textAlign = 'left';
-        
-        // Add timestamp and powered by
-        ctx.font = '12px Arial';
-        ctx.fillText(`Generated: ${new Date().toLocaleString()}`, 20, 105);
-        ctx.textAlign = 'right';
-        ctx.fillText('Powered by GeoGrid', width - 20, 105);
-        
-        // Open the image in a new tab
-        finalCanvas.toBlob(function(blob) {
-          if (blob) {
-            const url = URL.createObjectURL(blob);
-            window.open(url, '_blank');
-          }
-          document.body.removeChild(loadingEl);
-        });
-      }).catch((error: Error) => {
-        console.error("Error generating image:", error);
-        document.body.removeChild(loadingEl);
-        alert("Error generating image. Please try again.");
-      });
-    };
-    
-    script.onerror = () => {
-      document.body.removeChild(loadingEl);
-      alert("Failed to load html2canvas library");
-    };
-    
-    document.body.appendChild(script);
+    window.open(`/api/grid-image?id=${gridResult.id}`, '_blank');
   };
 
   // Handle CSV download
@@ -445,34 +391,24 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
       let csvContent = "";
 
       // Add header row with business info
-      csvContent += `"GeoGrid Results for ${gridResult.businessInfo.name}"\n`;
+      csvContent += `"${branding.companyName} Results for ${gridResult.businessInfo.name}"\n`;
       csvContent += `"Search Term: ${gridResult.searchTerm}"\n`;
-      csvContent += `"Date: ${new Date(gridResult.createdAt).toLocaleString()}"\n\n`;
+      csvContent += `"Date: ${new Date(gridResult.createdAt).toLocaleString()}"\n`;
+      if (branding.footerText) {
+        csvContent += `"${branding.footerText.replace(/"/g, '""')}"\n`;
+      }
+      csvContent += `\n`;
 
       // Add grid data header
-      csvContent += "Row,Column,Latitude,Longitude,Ranking\n";
-
-      // Calculate grid coordinates
-      const gridSize = Number(gridResult.gridSize) || 13;
-      const distance = Number(gridResult.distanceKm) || 2.5; // km
-      const latKmRatio = 1 / 110.574; // approx km per degree of latitude
-      const lngKmRatio = 1 / (111.32 * Math.cos((location.lat * Math.PI) / 180)); // approx km per degree of longitude
-
-      const startLat = location.lat - (distance * latKmRatio * (gridSize - 1)) / 2;
-      const startLng = location.lng - (distance * lngKmRatio * (gridSize - 1)) / 2;
+      csvContent += "Point,Row,Column,Latitude,Longitude,Ranking,Match\n";
 
       // Add grid data rows
-      if (Array.isArray(gridData)) {
-        gridData.forEach((row: number[], rowIndex: number) => {
-          if (Array.isArray(row)) {
-            row.forEach((ranking: number, colIndex: number) => {
-              const lat = startLat + rowIndex * distance * latKmRatio;
-              const lng = startLng + colIndex * distance * lngKmRatio;
-              csvContent += `${rowIndex + 1},${colIndex + 1},${lat.toFixed(6)},${lng.toFixed(6)},${ranking}\n`;
-            });
-          }
-        });
-      }
+      gridPoints.forEach(({ id, lat, lng, row: rowIndex, col: colIndex }) => {
+        const ranking = gridData[rowIndex]?.[colIndex];
+        if (ranking === undefined || ranking === OUTSIDE_SHAPE) return;
+        const match = matchStrategies?.[rowIndex]?.[colIndex] ?? "unknown";
+        csvContent += `${id},${rowIndex + 1},${colIndex + 1},${lat.toFixed(6)},${lng.toFixed(6)},${ranking},${match}\n`;
+      });
 
       // Add metrics
       csvContent += `\n"Metrics:"\n`;
@@ -507,60 +443,14 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
     }
   }
 
-  // Handle share
-  const handleShare = () => {
-    try {
-      // Create a shareable link
-      const shareUrl = `${window.location.origin}/grid/${gridResult.id}`;
-
-      // Check if Web Share API is available
-      if (navigator && navigator.share) {
-        navigator
-          .share({
-            title: `GeoGrid Results for ${gridResult.businessInfo.name}`,
-            text: `Check out the GeoGrid results for "${gridResult.businessInfo.name}" searching for "${gridResult.searchTerm}"`,
-            url: shareUrl,
-          })
-          .catch((error) => {
-            console.log("Error sharing:", error);
-            fallbackShare(shareUrl);
-          });
-      } else {
-        fallbackShare(shareUrl);
-      }
-    } catch (error) {
-      console.error("Error sharing:", error);
-      fallbackShare(`${window.location.origin}/grid/${gridResult.id}`);
-    }
-  };
-
-  // Add this helper function for sharing
-  const fallbackShare = (url: string) => {
-    try {
-      // Create a temporary input to copy the URL
-      const input = document.createElement("input");
-      input.value = url;
-      document.body.appendChild(input);
-      input.select();
-      document.execCommand("copy");
-      document.body.removeChild(input);
-
-      // Show toast notification
-      alert("Link copied to clipboard!");
-    } catch (error) {
-      console.error("Error copying to clipboard:", error);
-      alert("Failed to copy link. The shareable URL is: " + url);
-    }
-  };
-
   // Handle delete
   const handleDelete = async () => {
     if (window.confirm(`Are you sure you want to delete this grid result for "${gridResult.businessInfo.name}"?`)) {
       try {
         setIsDeleting(true)
-        const success = await deleteGridResult(gridResult.id)
+        const response = await fetch(`/api/grid-results/${gridResult.id}`, { method: "DELETE" })
 
-        if (success) {
+        if (response.ok) {
           onDelete()
           onClose()
         } else {
@@ -575,12 +465,87 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
     }
   }
 
+  // Results Google returned at a grid point when the scan ran, in the same shape as live
+  // competitor results. Returns null for scans made before snapshots were stored.
+  const fetchPointSnapshot = async (pointIndex: number, origin: { lat: number; lng: number }) => {
+    try {
+      const response = await fetch(`/api/grid-results/${gridResult.id}/serp?point=${pointIndex}`);
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+
+      const snapshot: SerpSnapshotPoint[] = await response.json();
+      const entries = snapshot[0]?.results || [];
+      if (entries.length === 0) return null;
+
+      return entries.map((entry) => ({
+        id: entry.placeId,
+        name: entry.name,
+        address: entry.vicinity || 'Address unavailable',
+        rating: entry.rating ?? undefined,
+        userRatingsTotal: entry.userRatingsTotal || 0,
+        distance: entry.location ? haversineDistanceKm(origin, entry.location) : 0,
+        location: entry.location || origin,
+        ranking: entry.position,
+        category: entry.types.length > 0
+          ? entry.types[0].replace(/_/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase())
+          : 'Business',
+        photoUrl: undefined,
+        photos: [],
+      }));
+    } catch (error) {
+      console.error("Error fetching search results snapshot:", error);
+      return null;
+    }
+  }
+
+  // Rank grids for every business in the scan, fetched once per result
+  const loadCompetitorGrids = async (): Promise<CompetitorGrid[]> => {
+    if (competitorGrids) return competitorGrids;
+
+    try {
+      const response = await fetch(`/api/grid-results/${gridResult.id}/competitors`);
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+      const grids: CompetitorGrid[] = await response.json();
+      setCompetitorGrids(grids);
+      return grids;
+    } catch (error) {
+      console.error("Error fetching competitor grids:", error);
+      return [];
+    }
+  }
+
   // Handle competitors view
   const handleCompetitorsView = async () => {
     try {
       // Show loading state in the dialog
       setCompetitorsLoading(true);
     setCompetitorsModalOpen(true);
+
+      // Prefer a leaderboard of everyone ranked anywhere in the scan; older scans fall back to a live search
+      const grids = await loadCompetitorGrids();
+      if (grids.length > 0) {
+        setCompetitors(grids.map((grid, index) => ({
+          id: grid.placeId,
+          name: grid.name,
+          address: grid.vicinity || 'Address unavailable',
+          rating: grid.rating ?? undefined,
+          userRatingsTotal: grid.userRatingsTotal || 0,
+          distance: grid.location ? haversineDistanceKm(location, grid.location) : 0,
+          location: grid.location || undefined,
+          ranking: index + 1,
+          solv: grid.metrics.visibilityPercentage,
+          agr: grid.metrics.agr,
+          atgr: grid.metrics.atgr,
+          gridData: grid.gridData,
+          isTarget: grid.isTarget,
+        })));
+        setCompSortKey('ranking');
+        setCompSortOrder('asc');
+        return;
+      }
       
       // First, determine the business type if we don't already have it
       let businessType = gridResult.businessInfo.businessType || "";
@@ -713,95 +678,76 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
       const mapInstance = mapInstanceRef.current;
       
       // Clear any existing overlays
-      if (window.google && window.google.maps) {
-        // Add grid markers
-        const latKmRatio = 1 / 110.574; // approx km per degree of latitude
-        const lngKmRatio = 1 / (111.32 * Math.cos((location.lat * Math.PI) / 180)); // approx km per degree of longitude
-
-        const startLat = location.lat - (distance * latKmRatio * (gridSize - 1)) / 2;
-        const startLng = location.lng - (distance * lngKmRatio * (gridSize - 1)) / 2;
+      gridOverlaysRef.current.forEach((overlay) => overlay.setMap(null));
+      gridOverlaysRef.current = [];
 
+      if (window.google && window.google.maps) {
         // Create bounds to fit all markers
         const bounds = new window.google.maps.LatLngBounds();
-        
-        // Draw grid lines for visualization
-        const gridLines: any[] = [];
-        const gridCells: any[] = [];
-        
-        console.log(`Drawing grid: ${gridSize}x${gridSize}, ${distance}km spacing`);
-        
-        // Create grid cells (rectangles)
-        for (let i = 0; i < gridSize; i++) {
-          for (let j = 0; j < gridSize; j++) {
-            const cellNorthLat = startLat + i * distance * latKmRatio;
-            const cellWestLng = startLng + j * distance * lngKmRatio;
-            const cellSouthLat = cellNorthLat + distance * latKmRatio;
-            const cellEastLng = cellWestLng + distance * lngKmRatio;
-            
-            // Create rectangle for this cell
-            const cellBounds = {
-              north: cellNorthLat,
-              south: cellSouthLat,
-              east: cellEastLng,
-              west: cellWestLng
-            };
-            
-            // Check for ranking to determine fill color
-            const ranking = gridData && gridData[i] && gridData[i][j] ? gridData[i][j] : 0;
 
-            
-            bounds.extend({lat: cellNorthLat, lng: cellWestLng});
-            bounds.extend({lat: cellSouthLat, lng: cellEastLng});
-          }
+        console.log(`Drawing ${shape} grid: ${gridSize}x${gridSize}, ${distance}km`);
+
+        // Outline the service area of polygon grids
+        if (shape === "polygon" && gridResult.polygon) {
+          const [outerRing] = gridResult.polygon.coordinates;
+          const outline = new window.google.maps.Polygon({
+            paths: outerRing.map(([lng, lat]) => ({ lat, lng })),
+            map: mapInstance,
+            strokeColor: "#2563EB",
+            strokeOpacity: 0.8,
+            strokeWeight: 2,
+            fillColor: "#2563EB",
+            fillOpacity: 0.05,
+            clickable: false,
+          });
+          gridOverlaysRef.current.push(outline);
         }
-        
 
-
-        
         // Add ranking markers
-        for (let i = 0; i < gridSize; i++) {
-          for (let j = 0; j < gridSize; j++) {
-            const lat = startLat + i * distance * latKmRatio;
-            const lng = startLng + j * distance * lngKmRatio;
+        gridPoints.forEach(({ lat, lng, row: i, col: j }) => {
+          bounds.extend({ lat, lng });
 
-            // Get ranking from grid data - make sure grid data exists
-            if (!gridData || !gridData[i] || typeof gridData[i][j] === 'undefined') continue;
-            const ranking = gridData[i][j];
+          // Get ranking from grid data - make sure grid data exists
+          if (!mapGridData || !mapGridData[i] || typeof mapGridData[i][j] === 'undefined') return;
+          const ranking = mapGridData[i][j];
 
-            // Skip if ranking is 0 (no data)
-            if (ranking === 0) continue;
+          // Skip if ranking is 0 (no data, or outside the grid's shape)
+          if (ranking === OUTSIDE_SHAPE) return;
 
-            // Use rank icons instead of rectangles
-            const marker = new window.google.maps.Marker({
-              position: { lat, lng },
-              map: mapInstance,
-              icon: {
-                url: ranking <= 20 
-                  ? `/images/rank-icons/${ranking}.png` 
-                  : `/images/rank-icons/X.png`,
-                scaledSize: new window.google.maps.Size(32, 32),
-                anchor: new window.google.maps.Point(16, 16)
-              },
-              title: ranking.toString(),
-              zIndex: 100 - (i * gridSize + j), // Higher rankings appear above lower ones
-            });
+          // Use rank icons instead of rectangles
+          const marker = new window.google.maps.Marker({
+            position: { lat, lng },
+            map: mapInstance,
+            icon: {
+              url: ranking <= 20 
+                ? `/images/rank-icons/${ranking}.png` 
+                : `/images/rank-icons/X.png`,
+              scaledSize: new window.google.maps.Size(32, 32),
+              anchor: new window.google.maps.Point(16, 16)
+            },
+            title: matchStrategies?.[i]?.[j] === "fuzzy" ? `${ranking} (approximate match)` : ranking.toString(),
+            zIndex: 100 - (i * gridSize + j), // Higher rankings appear above lower ones
+          });
+          gridOverlaysRef.current.push(marker);
+          
+          // Add click listener to show nearby competitors
+          marker.addListener('click', () => {
+            // Build temporary data for this grid point
+            const gridPointData = {
+              lat: lat,
+              lng: lng,
+              ranking: ranking,
+              pointIndex: i * gridSize + j
+            };
             
-            // Add click listener to show nearby competitors
-            marker.addListener('click', () => {
-              // Build temporary data for this grid point
-              const gridPointData = {
-                lat: lat,
-                lng: lng,
-                ranking: ranking,
-                pointIndex: i * gridSize + j
-              };
-              
-              // Show the competitors view for this point
-              showCompetitorsForGridPoint(gridPointData);
-            });
-          }
-        }
+            // Show the competitors view for this point
+            showCompetitorsForGridPoint(gridPointData);
+          });
+        });
         
+        // Keep the viewport still while the timelapse steps through scans
+        if (timelapseFrame) return;
+
         // Fit map to include all markers with some padding
         mapInstance.fitBounds(bounds, 40); // 40 pixels padding
 
@@ -816,7 +762,7 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
     } catch (error) {
       console.error("Error drawing grid:", error);
     }
-  }, [mapLoaded, mapError, gridSize, distance, location, gridData, gridResult.businessInfo.name]);
+  }, [mapLoaded, mapError, gridSize, distance, location, mapGridData, timelapseFrame, gridPoints, shape, gridResult.polygon, matchStrategies, gridResult.businessInfo.name]);
 
   // Function to show competitors for a specific grid point
   const showCompetitorsForGridPoint = async (gridPoint: { lat: number; lng: number; ranking: number; pointIndex: number }) => {
@@ -844,13 +790,18 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
       `;
       loadingModal.appendChild(loadingContent);
       document.body.appendChild(loadingModal);
+
+      // Prefer the results stored when the scan ran; older scans fall back to a live search
+      const snapshotResults = await fetchPointSnapshot(gridPoint.pointIndex, gridPoint);
+      const gridsByPlaceId = new Map(
+        (snapshotResults ? await loadCompetitorGrids() : []).map((grid) => [grid.placeId, grid])
+      );
       
       // First, determine the business type if we don't already have it
       let businessType = "";
-      let searchTerm = "";
 
       // Check if we need to fetch the business type
-      if (!gridResult.businessInfo.businessType) {
+      if (!snapshotResults && !gridResult.businessInfo.businessType) {
         try {
           // We'll need to fetch the business type from the Google Places API
           if (gridResult.businessInfo.placeId) {
@@ -880,99 +831,103 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
           console.error("Error fetching business type:", error);
         }
       } else {
-        businessType = gridResult.businessInfo.businessType;
+        businessType = gridResult.businessInfo.businessType || "";
       }
       
       // If we couldn't determine the type, use the search term as a keyword
       const searchQuery = businessType || gridResult.searchTerm;
       
       // Fetch competitors using the places-search API
-      let results = [];
-      try {
-        // Call the places-search API directly
-        const response = await fetch('/api/places-search', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            // Use the business type or search term to find related businesses
-            query: searchQuery,
-            location: { lat: gridPoint.lat, lng: gridPoint.lng },
-            type: businessType || "",  // Use the business type if available
-            rankBy: 'distance', // Rank by distance instead of prominence
-          }),
-        });
+      let results: Competitor[] = snapshotResults || [];
+      if (snapshotResults) {
+        setCompetitors(snapshotResults);
+      } else {
+        try {
+          // Call the places-search API directly
+          const response = await fetch('/api/places-search', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              // Use the business type or search term to find related businesses
+              query: searchQuery,
+              location: { lat: gridPoint.lat, lng: gridPoint.lng },
+              type: businessType || "",  // Use the business type if available
+              rankBy: 'distance', // Rank by distance instead of prominence
+            }),
+          });
 
-        if (!response.ok) {
-          throw new Error(`API error: ${response.status}`);
-        }
+          if (!response.ok) {
+            throw new Error(`API error: ${response.status}`);
+          }
 
-        const data = await response.json();
-        const competitorResults = data.results || [];
+          const data = await response.json();
+          const competitorResults = data.results || [];
 
-        // Process the results
-        results = competitorResults.map((place: any, index: number) => {
-          // Calculate distance
-          const R = 6371; // Radius of the earth in km
-          const compLat = place.geometry?.location?.lat || 0;
-          const compLng = place.geometry?.location?.lng || 0;
+          // Process the results
+          results = competitorResults.map((place: any, index: number) => {
+            // Calculate distance
+            const R = 6371; // Radius of the earth in km
+            const compLat = place.geometry?.location?.lat || 0;
+            const compLng = place.geometry?.location?.lng || 0;
           
-          const dLat = ((compLat - gridPoint.lat) * Math.PI) / 180;
-          const dLon = ((compLng - gridPoint.lng) * Math.PI) / 180;
-          const a =
-            Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-            Math.cos((gridPoint.lat * Math.PI) / 180) *
-              Math.cos((compLat * Math.PI) / 180) *
-              Math.sin(dLon / 2) *
-              Math.sin(dLon / 2);
-          const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-          const distance = R * c; // Distance in km
+            const dLat = ((compLat - gridPoint.lat) * Math.PI) / 180;
+            const dLon = ((compLng - gridPoint.lng) * Math.PI) / 180;
+            const a =
+              Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+              Math.cos((gridPoint.lat * Math.PI) / 180) *
+                Math.cos((compLat * Math.PI) / 180) *
+                Math.sin(dLon / 2) *
+                Math.sin(dLon / 2);
+            const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+            const distance = R * c; // Distance in km
           
-          // Get photo URL if available
-          let photoUrl = null;
+            // Get photo URL if available
+            let photoUrl = null;
           
-          // If place has photos and we have a reference, prepare to use Google Places Photos API
-          if (place.photos && place.photos.length > 0 && place.photos[0].photo_reference) {
-            photoUrl = `/api/place-photo?reference=${place.photos[0].photo_reference}&maxwidth=120&maxheight=120`;
-          }
+            // If place has photos and we have a reference, prepare to use Google Places Photos API
+            if (place.photos && place.photos.length > 0 && place.photos[0].photo_reference) {
+              photoUrl = `/api/place-photo?reference=${place.photos[0].photo_reference}&maxwidth=120&maxheight=120`;
+            }
           
-          return {
-            id: place.place_id,
-            name: place.name,
-            address: place.vicinity || 'Address unavailable',
-            rating: place.rating || null,
-            userRatingsTotal: place.user_ratings_total || 0,
-            distance: distance,
-            location: {
-              lat: compLat,
-              lng: compLng
-            },
-            // Add a ranking based on the order of results
-            ranking: index + 1,
-            // Business category
-            category: place.types && place.types.length > 0 
-              ? place.types[0].replace(/_/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase())
-              : 'Business',
-            // Use Google Places Photos API if available, fallback to UI Avatars
-            photoUrl: place.photos && place.photos.length > 0 && place.photos[0].photo_reference
-              ? `/api/place-photo?reference=${place.photos[0].photo_reference}&maxwidth=120&maxheight=120`
-              : null,
-            // Keep a reference to all photos
-            photos: place.photos || []
-          };
-        });
+            return {
+              id: place.place_id,
+              name: place.name,
+              address: place.vicinity || 'Address unavailable',
+              rating: place.rating || null,
+              userRatingsTotal: place.user_ratings_total || 0,
+              distance: distance,
+              location: {
+                lat: compLat,
+                lng: compLng
+              },
+              // Add a ranking based on the order of results
+              ranking: index + 1,
+              // Business category
+              category: place.types && place.types.length > 0 
+                ? place.types[0].replace(/_/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase())
+                : 'Business',
+              // Use Google Places Photos API if available, fallback to UI Avatars
+              photoUrl: place.photos && place.photos.length > 0 && place.photos[0].photo_reference
+                ? `/api/place-photo?reference=${place.photos[0].photo_reference}&maxwidth=120&maxheight=120`
+                : null,
+              // Keep a reference to all photos
+              photos: place.photos || []
+            };
+          });
         
-        // Sort by ranking
-        let sortedResults = [...results].sort((a: any, b: any) => a.ranking - b.ranking);
+          // Sort by ranking
+          let sortedResults = [...results].sort((a: any, b: any) => a.ranking - b.ranking);
         
-        // Take top 20
-        const topResults = sortedResults.slice(0, 20);
+          // Take top 20
+          const topResults = sortedResults.slice(0, 20);
         
-        // Set the competitors
-        setCompetitors(topResults);
-      } catch (error) {
-        console.error("Error fetching competitors:", error);
+          // Set the competitors
+          setCompetitors(topResults);
+        } catch (error) {
+          console.error("Error fetching competitors:", error);
+        }
       }
       
       // Remove loading state
@@ -1019,9 +974,11 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
       // Add title for the popup in the middle
       const popupTitle = document.createElement("div");
       // Format business type for display (replace underscores with spaces and capitalize)
-      let businessTypeDisplay = businessType 
-        ? businessType.replace(/_/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase()) 
-        : "Related Businesses";
+      let businessTypeDisplay = snapshotResults
+        ? `"${gridResult.searchTerm}" Results`
+        : businessType
+          ? businessType.replace(/_/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase())
+          : "Related Businesses";
       
       popupTitle.textContent = `${businessTypeDisplay} at Grid Point (Rank ${gridPoint.ranking})`;
       popupTitle.style.fontSize = "18px";
@@ -1206,13 +1163,15 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
         listHeader.style.zIndex = "1";
         
         const listTitle = document.createElement("h3");
-        listTitle.textContent = "Nearby Businesses";
+        listTitle.textContent = snapshotResults ? "Search Results" : "Nearby Businesses";
         listTitle.style.margin = "0";
         listTitle.style.fontSize = "16px";
         listTitle.style.fontWeight = "600";
         
         const listSubtitle = document.createElement("p");
-        listSubtitle.textContent = `${results.length} businesses found`;
+        listSubtitle.textContent = snapshotResults
+          ? `${results.length} results on ${new Date(gridResult.createdAt).toLocaleDateString()}`
+          : `${results.length} businesses found`;
         listSubtitle.style.margin = "4px 0 0 0";
         listSubtitle.style.fontSize = "14px";
         listSubtitle.style.color = "#6b7280";
@@ -1347,7 +1306,8 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
           agrBadge.style.padding = "2px 8px";
           agrBadge.style.borderRadius = "9999px";
           agrBadge.style.backgroundColor = "#f3f4f6";
-          agrBadge.textContent = `AGR: ${business.metrics?.agr || 'N/A'}`;
+          const competitorGrid = gridsByPlaceId.get(business.id);
+          agrBadge.textContent = `AGR: ${competitorGrid ? competitorGrid.metrics.agr.toFixed(1) : 'N/A'}`;
           
           // SoV badge
           const sovBadge = document.createElement("div");
@@ -1355,7 +1315,7 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
           sovBadge.style.padding = "2px 8px";
           sovBadge.style.borderRadius = "9999px";
           sovBadge.style.backgroundColor = "#f3f4f6";
-          sovBadge.textContent = `SoV: ${business.metrics?.solv || 'N/A'}`;
+          sovBadge.textContent = `SoLV: ${competitorGrid ? competitorGrid.metrics.solv : 'N/A'}`;
           
           // Distance badge
           const distanceBadge = document.createElement("div");
@@ -1373,90 +1333,40 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
           businessDetails.appendChild(businessAddress);
           businessDetails.appendChild(metricsBadges);
           
-          // Add small grid visualization similar to the example image
-          const visualizationContainer = document.createElement("div");
-          visualizationContainer.style.display = "flex";
-          visualizationContainer.style.marginTop = "8px";
-          visualizationContainer.style.alignItems = "center";
-          visualizationContainer.style.justifyContent = "space-between";
-          
-          // Create grid visualization matching exactly the image but using real data
-          const gridSize = 13; // Match the standard grid size
-          const gridViz = document.createElement("div");
-          gridViz.style.display = "grid";
-          gridViz.style.gridTemplateColumns = `repeat(${gridSize}, 1fr)`;
-          gridViz.style.gridTemplateRows = `repeat(${gridSize}, 1fr)`;
-          gridViz.style.gap = "0px";
-          gridViz.style.width = "80px";
-          gridViz.style.height = "80px";
-          gridViz.style.overflow = "hidden";
-          gridViz.style.borderRadius = "8px"; // Rounded corners like in the image
-          
-          // Use same color function as the dashboard
-          const getRankingColorFn = function(ranking: number) {
-            if (ranking <= 3) return "#059669"; // emerald-600 for top 3
-            if (ranking <= 7) return "#10b981"; // green-500 for 4-7
-            if (ranking <= 10) return "#f59e0b"; // amber-500 for 8-10 
-            if (ranking <= 15) return "#f97316"; // orange-500 for 11-15
-            if (ranking >= 16) return "#ef4444"; // red-500 for 16+
-            return "#F3F4F6"; // gray for no ranking
-          };
-          
-          // Calculate the center of the grid
-          const centerRow = Math.floor(gridSize / 2);
-          const centerCol = Math.floor(gridSize / 2);
-          
-          // Starting ranking (the business's actual ranking)
-          const baseRanking = business.ranking || 1;
-          
-          // Create cells in the grid - no borders between cells to match image
-          for (let i = 0; i < gridSize; i++) {
-            for (let j = 0; j < gridSize; j++) {
-              const cell = document.createElement("div");
-              cell.style.width = "100%";
-              cell.style.height = "100%";
-              cell.style.border = "0.5px solid rgba(255, 255, 255, 0.3)"; // Add subtle white grid lines
-              
-              // Calculate real ranking based on distance from center
-              // Euclidean distance for a more natural gradient
-              const distanceFromCenter = Math.sqrt(
-                Math.pow(i - centerRow, 2) + Math.pow(j - centerCol, 2)
-              );
-              
-              // Calculate the ranking - higher distance = worse ranking
-              let cellRanking = baseRanking;
-              
-              if (distanceFromCenter > 0) {
-                // Add a penalty based on distance from center
-                // Use a non-linear formula to create a natural gradient
-                const distanceFactor = Math.pow(distanceFromCenter, 1.2);
-                
-                // Adjust ranking based on distance
-                if (baseRanking <= 3) {
-                  // For top-ranked businesses, rankings degrade faster with distance
-                  cellRanking = Math.min(20, Math.round(baseRanking + distanceFactor * 1.5));
-                } else if (baseRanking <= 10) {
-                  // For middle-ranked businesses, moderate degradation
-                  cellRanking = Math.min(20, Math.round(baseRanking + distanceFactor));
-          } else {
-                  // For poorly-ranked businesses, slight degradation
-                  cellRanking = Math.min(20, Math.round(baseRanking + distanceFactor * 0.5));
-                }
-                
-                // Add subtle variation for more organic look
-                const variation = (Math.random() < 0.3) ? Math.floor(Math.random() * 2) : 0;
-                cellRanking = Math.min(20, cellRanking + variation);
-              }
-              
-              cell.style.backgroundColor = getRankingColorFn(cellRanking);
-              gridViz.appendChild(cell);
-            }
+          // Small rank grid for this business, built from the same scan
+          if (competitorGrid) {
+            const visualizationContainer = document.createElement("div");
+            visualizationContainer.style.display = "flex";
+            visualizationContainer.style.marginTop = "8px";
+            visualizationContainer.style.alignItems = "center";
+            visualizationContainer.style.justifyContent = "space-between";
+
+            const gridViz = document.createElement("div");
+            gridViz.style.display = "grid";
+            gridViz.style.gridTemplateColumns = `repeat(${gridSize}, 1fr)`;
+            gridViz.style.gridTemplateRows = `repeat(${gridSize}, 1fr)`;
+            gridViz.style.gap = "0px";
+            gridViz.style.width = "80px";
+            gridViz.style.height = "80px";
+            gridViz.style.overflow = "hidden";
+            gridViz.style.borderRadius = "8px";
+            gridViz.title = `${business.name} ranked at ${competitorGrid.appearances} of ${scannedPointCount} points`;
+
+            competitorGrid.gridData.forEach((row) => {
+              row.forEach((cellRanking) => {
+                const cell = document.createElement("div");
+                cell.style.width = "100%";
+                cell.style.height = "100%";
+                cell.style.border = "0.5px solid rgba(255, 255, 255, 0.3)"; // Add subtle white grid lines
+                cell.style.backgroundColor = getRankingColor(cellRanking);
+                gridViz.appendChild(cell);
+              });
+            });
+
+            visualizationContainer.appendChild(gridViz);
+            businessDetails.appendChild(visualizationContainer);
           }
           
-          visualizationContainer.appendChild(gridViz);
-          
-          businessDetails.appendChild(visualizationContainer);
-          
           listItem.appendChild(rankAndImage);
           listItem.appendChild(businessDetails);
           
@@ -1565,7 +1475,7 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
                     : ''}
                   <div style="display: flex; gap: 4px; margin-top: 8px;">
                     <span style="font-size: 11px; padding: 1px 6px; border-radius: 9999px; background-color: #3b82f6; color: white;">Rank: ${business.ranking}</span>
-                    <span style="font-size: 11px; padding: 1px 6px; border-radius: 9999px; background-color: #f3f4f6;">AGR: ${business.metrics?.agr || 'N/A'}</span>
+                    <span style="font-size: 11px; padding: 1px 6px; border-radius: 9999px; background-color: #f3f4f6;">AGR: ${gridsByPlaceId.get(business.id)?.metrics.agr.toFixed(1) ?? 'N/A'}</span>
                     <span style="font-size: 11px; padding: 1px 6px; border-radius: 9999px; background-color: #f3f4f6;">${business.distance.toFixed(1)} km</span>
                   </div>
                 </div>
@@ -1677,8 +1587,12 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
         </button>
       </div>
 
+            {branding.logoUrl && (
+              <img src={branding.logoUrl} alt={branding.companyName} className="h-10 w-auto max-w-full object-contain" />
+            )}
+
             <div>
-              <h1 className="text-xl font-bold text-blue-600 mb-1">{gridResult.businessInfo.name}</h1>
+              <h1 className="text-xl font-bold mb-1" style={{ color: branding.primaryColor }}>{gridResult.businessInfo.name}</h1>
               <p className="text-gray-600">{gridResult.businessInfo.address || "Not available"}</p>
             </div>
 
@@ -1734,6 +1648,12 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
                   )}
                 </div>
               </div>
+              {fuzzyMatchCount > 0 && (
+                <div className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded px-2 py-1">
+                  {fuzzyMatchCount} of {gridData.flat().length} ranks were matched by name and location instead of
+                  Place ID and may be less accurate.
+                </div>
+              )}
             </div>
 
             {gridResult.businessInfo.placeId && (
@@ -1769,6 +1689,8 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
                 </div>
               </div>
             </div>
+
+            {branding.footerText && <p className="text-xs text-gray-400">{branding.footerText}</p>}
           </div>
         </div>
 
@@ -1778,15 +1700,17 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
             {/* Action buttons on top of map */}
             <div className="absolute top-4 left-4 z-10">
               <div className="flex gap-1">
-                <button 
-                  onClick={handleRepeatSearch} 
-                  className="flex items-center bg-white border-0 rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] text-[#77838f] text-[14px] tracking-[0] py-[4px] px-[8px]"
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                  </svg>
-                  Repeat
-                </button>
+                {can("runScans") && (
+                  <button 
+                    onClick={handleRepeatSearch} 
+                    className="flex items-center bg-white border-0 rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] text-[#77838f] text-[14px] tracking-[0] py-[4px] px-[8px]"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                    Repeat
+                  </button>
+                )}
                 <button 
                   onClick={handleOpenPNG} 
                   className="flex items-center bg-white border-0 rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] text-[#77838f] text-[14px] tracking-[0] py-[4px] px-[8px]"
@@ -1805,24 +1729,64 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
                   </svg>
                   CSV
                 </button>
-                <button 
-                  onClick={handleShare} 
+                <a 
+                  href={`/api/grid-results/${gridResult.id}/report`} 
                   className="flex items-center bg-white border-0 rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] text-[#77838f] text-[14px] tracking-[0] py-[4px] px-[8px]"
                 >
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
-                  </svg>
-                Share
-                </button>
+                  <FileText className="h-3 w-3 mr-1" />
+                  PDF Report
+                </a>
+                {can("manageShares") && (
+                  <button 
+                    onClick={() => setShareDialogOpen(true)} 
+                    className="flex items-center bg-white border-0 rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] text-[#77838f] text-[14px] tracking-[0] py-[4px] px-[8px]"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                    </svg>
+                  Share
+                  </button>
+                )}
+                {can("deleteScans") && (
+                  <button 
+                  onClick={handleDelete}
+                  disabled={isDeleting}
+                    className="flex items-center bg-white border-0 rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] text-red-600 text-[14px] tracking-[0] py-[4px] px-[8px]"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  {isDeleting ? "Deleting..." : "Delete"}
+                  </button>
+                )}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button className="flex items-center bg-white border-0 rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] text-[#77838f] text-[14px] tracking-[0] py-[4px] px-[8px]">
+                      <GitCompare className="h-3 w-3 mr-1" />
+                      Compare
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+                    <DropdownMenuLabel>Compare with another scan</DropdownMenuLabel>
+                    {comparableScans.length === 0 ? (
+                      <DropdownMenuItem disabled>No other scans of this keyword</DropdownMenuItem>
+                    ) : (
+                      comparableScans.map((entry) => (
+                        <DropdownMenuItem key={entry.gridResultId} asChild>
+                          <Link href={`/grid/compare?base=${entry.gridResultId}&compare=${gridResult.id}`}>
+                            {new Date(entry.createdAt).toLocaleDateString()} &middot; AGR {entry.agr.toFixed(1)}
+                          </Link>
+                        </DropdownMenuItem>
+                      ))
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <button 
-                onClick={handleDelete}
-                disabled={isDeleting}
-                  className="flex items-center bg-white border-0 rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] text-red-600 text-[14px] tracking-[0] py-[4px] px-[8px]"
-              >
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                {isDeleting ? "Deleting..." : "Delete"}
+                  onClick={() => setTimelapseOpen(!timelapseOpen)} 
+                  className="flex items-center bg-white border-0 rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] text-[#77838f] text-[14px] tracking-[0] py-[4px] px-[8px]"
+                >
+                  <Film className="h-3 w-3 mr-1" />
+                  Timelapse
                 </button>
                 <button 
                   onClick={handleCompetitorsView} 
@@ -1904,6 +1868,16 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
               style={{ display: mapError || !mapLoaded ? 'none' : 'block' }}
             />
               
+              {mapLoaded && !mapError && timelapseOpen && (
+                <div className="absolute top-4 right-4 z-50">
+                  <TimelapsePlayer
+                    gridResultId={gridResult.id}
+                    onFrameChange={setTimelapseFrame}
+                    onClose={() => setTimelapseOpen(false)}
+                  />
+                </div>
+              )}
+
               {/* Metrics overlay directly on map */}
               {mapLoaded && !mapError && (
                 <div className="absolute bottom-4 left-4 z-50 flex gap-1">
@@ -1953,6 +1927,7 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
                 <div className="text-xs font-medium text-gray-500 mb-1">Grid:</div>
               <div>
                   {isNaN(gridResult.gridSize) ? "13" : gridResult.gridSize}x{isNaN(gridResult.gridSize) ? "13" : gridResult.gridSize}, {isNaN(gridResult.distanceKm) ? "2.5" : gridResult.distanceKm}km
+                  {shape !== "square" && ` (${GRID_SHAPE_LABELS[shape]}, ${scannedPointCount} points)`}
                 </div>
               </div>
             </div>
@@ -1960,13 +1935,39 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
         </div>
       </div>
 
+      <ShareGridDialog open={shareDialogOpen} onOpenChange={setShareDialogOpen} gridResultId={gridResult.id} />
+
+      <ScheduleScanDialog
+        open={scheduleDialogOpen}
+        onOpenChange={setScheduleDialogOpen}
+        scan={{
+          businessInfo: {
+            name: gridResult.businessInfo.name,
+            address: gridResult.businessInfo.address || "",
+            location,
+            placeId: gridResult.businessInfo.placeId,
+          },
+          searchTerm: gridResult.searchTerm,
+          gridSize: `${gridSize}x${gridSize}`,
+          distanceKm: distance,
+          googleRegion: gridResult.googleRegion,
+          shape: gridResult.shape,
+          polygon: gridResult.polygon,
+        }}
+        onSaved={(schedule) => alert(`Schedule saved. Next scan: ${new Date(schedule.nextRunAt).toLocaleString()}`)}
+      />
+
       {/* Competitors Dialog - Revamped with shadcn/ui */}
       <Dialog open={competitorsModalOpen} onOpenChange={setCompetitorsModalOpen}>
         <DialogContent className="w-screen h-screen max-w-full p-0 overflow-hidden flex flex-col sm:max-w-[90vw] sm:h-[90vh] sm:rounded-lg">
           <DialogHeader className="p-4 sm:p-6 border-b flex flex-row justify-between items-center space-y-0">
             <div>
-              <DialogTitle>Competitors</DialogTitle>
-              <DialogDescription className="text-xs sm:text-sm text-gray-500 mt-1">Nearby businesses for "{gridResult.businessInfo.name}"</DialogDescription>
+              <DialogTitle>{isLeaderboard ? "Competitor Leaderboard" : "Competitors"}</DialogTitle>
+              <DialogDescription className="text-xs sm:text-sm text-gray-500 mt-1">
+                {isLeaderboard
+                  ? `Every business ranked for "${gridResult.searchTerm}" in this scan, by Share of Local Voice`
+                  : `Nearby businesses for "${gridResult.businessInfo.name}"`}
+              </DialogDescription>
             </div>
             <div className="w-1/2 sm:w-1/3">
               <Input
@@ -1991,7 +1992,7 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
                   <TableHeader className="sticky top-0 bg-gray-50 z-10">
                     <TableRow>
                       <TableHead className="w-16 sm:w-20">Image</TableHead>
-                      {['name','ranking','distance','rating'].map(key => (
+                      {(isLeaderboard ? ['name','ranking','solv','agr','distance','rating'] : ['name','ranking','distance','rating']).map(key => (
                         <TableHead
                           key={key}
                           className="cursor-pointer hover:bg-gray-100 transition-colors"
@@ -2000,7 +2001,7 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
                             else { setCompSortKey(key as keyof Competitor); setCompSortOrder('asc') }
                           }}
                         >
-                          {key.charAt(0).toUpperCase() + key.slice(1)} {/* Capitalize */}
+                          {key === 'solv' ? 'SoLV' : key === 'agr' ? 'AGR' : key === 'ranking' && isLeaderboard ? 'Position' : key.charAt(0).toUpperCase() + key.slice(1)}
                           {compSortKey === key && (compSortOrder === 'asc' ? <span className="ml-1">▲</span> : <span className="ml-1">▼</span>)}
                         </TableHead>
                       ))}
@@ -2009,7 +2010,7 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
                   </TableHeader>
                   <TableBody>
                     {filteredCompetitors.map(comp => (
-                      <TableRow key={comp.id}>
+                      <TableRow key={comp.id} className={comp.isTarget ? "bg-blue-50" : undefined}>
                         <TableCell>
                           <img 
                             src={comp.photoUrl ?? `https://ui-avatars.com/api/?name=${encodeURIComponent(comp.name.substring(0, 2))}&background=random&color=fff&size=60&bold=true`}
@@ -2023,43 +2024,46 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
                             }}
                           />
                         </TableCell>
-                        <TableCell className="font-medium">{comp.name}</TableCell>
+                        <TableCell className="font-medium">
+                          {comp.name}
+                          {comp.isTarget && <span className="ml-2 text-xs text-blue-600">(this business)</span>}
+                        </TableCell>
                         <TableCell>{comp.ranking}</TableCell>
+                        {isLeaderboard && (
+                          <>
+                            <TableCell>{comp.solv !== undefined ? `${comp.solv}%` : '–'}</TableCell>
+                            <TableCell>{comp.agr !== undefined ? comp.agr.toFixed(2) : '–'}</TableCell>
+                          </>
+                        )}
                         <TableCell>{comp.distance.toFixed(1)} km</TableCell>
                         <TableCell>{comp.rating ? <span className="flex items-center">{comp.rating.toFixed(1)} <span className="text-yellow-500 ml-1">★</span></span> : '–'}</TableCell>
                         <TableCell className="flex justify-center items-center">
-                          <div 
-                            className="w-12 h-12 sm:w-16 sm:h-16 rounded-md overflow-hidden border border-gray-300"
-                            style={{
-                              display: "grid",
-                              gridTemplateColumns: "repeat(13, 1fr)",
-                              gridTemplateRows: "repeat(13, 1fr)",
-                              gap: "0px"
-                            }}
-                            title={`Simulated ranking grid for ${comp.name}`}
-                          >
-                            {Array.from({ length: 169 }).map((_, index) => {
-                              const i = Math.floor(index / 13);
-                              const j = index % 13;
-                              const centerRow = 6;
-                              const centerCol = 6;
-                              const distanceFromCenter = Math.sqrt(Math.pow(i - centerRow, 2) + Math.pow(j - centerCol, 2));
-                              let cellRanking = comp.ranking || 20;
-                              if (distanceFromCenter > 0) {
-                                const distanceFactor = Math.pow(distanceFromCenter, 1.2);
-                                cellRanking = Math.min(20, Math.round(cellRanking + distanceFactor * 1.5)); 
-                              }
-                              return (
-                                <div 
+                          {comp.gridData ? (
+                            <button
+                              type="button"
+                              className="w-12 h-12 sm:w-16 sm:h-16 rounded-md overflow-hidden border border-gray-300 hover:ring-2 hover:ring-blue-400"
+                              style={{
+                                display: "grid",
+                                gridTemplateColumns: `repeat(${gridSize}, 1fr)`,
+                                gridTemplateRows: `repeat(${gridSize}, 1fr)`,
+                                gap: "0px"
+                              }}
+                              title={`Open the ranking grid for ${comp.name}`}
+                              onClick={() => setHeatmapCompetitor(comp)}
+                            >
+                              {comp.gridData.flatMap((row, i) => row.map((cellRanking, j) => (
+                                <div
                                   key={`${comp.id}-grid-${i}-${j}`}
-                                  style={{ 
+                                  style={{
                                     backgroundColor: getRankingColor(cellRanking),
-                                    border: "0.5px solid rgba(255, 255, 255, 0.2)" 
+                                    border: "0.5px solid rgba(255, 255, 255, 0.2)"
                                   }}
                                 />
-                              );
-                            })}
-                      </div>
+                              )))}
+                            </button>
+                          ) : (
+                            <span className="text-gray-400">–</span>
+                          )}
                         </TableCell>
                       </TableRow>
                 ))}
@@ -2070,6 +2074,57 @@ export function DetailedGridView({ gridResult, isOpen = true, onClose, onDelete
           </ScrollArea>
         </DialogContent>
       </Dialog>
+
+      {/* Full-size rank grid for a single competitor */}
+      <Dialog open={heatmapCompetitor !== null} onOpenChange={(open) => !open && setHeatmapCompetitor(null)}>
+        <DialogContent className="max-w-2xl">
+          {heatmapCompetitor?.gridData && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{heatmapCompetitor.name}</DialogTitle>
+                <DialogDescription>
+                  Rankings for &quot;{gridResult.searchTerm}&quot; on {new Date(gridResult.createdAt).toLocaleDateString()}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex gap-6 text-sm">
+                <div>
+                  <div className="text-xs font-medium text-gray-500">AGR</div>
+                  <div className="font-medium">{heatmapCompetitor.agr?.toFixed(2)}</div>
+                </div>
+                <div>
+                  <div className="text-xs font-medium text-gray-500">ATGR</div>
+                  <div className="font-medium">{heatmapCompetitor.atgr?.toFixed(2)}</div>
+                </div>
+                <div>
+                  <div className="text-xs font-medium text-gray-500">SoLV</div>
+                  <div className="font-medium">{heatmapCompetitor.solv}%</div>
+                </div>
+              </div>
+              <div
+                className="w-full aspect-square rounded-md overflow-hidden border border-gray-300"
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: `repeat(${gridSize}, 1fr)`,
+                  gridTemplateRows: `repeat(${gridSize}, 1fr)`,
+                }}
+              >
+                {heatmapCompetitor.gridData.flatMap((row, i) => row.map((cellRanking, j) => (
+                  <div
+                    key={`heatmap-${i}-${j}`}
+                    className="flex items-center justify-center text-white text-xs font-semibold"
+                    style={{
+                      backgroundColor: getRankingColor(cellRanking),
+                      border: "0.5px solid rgba(255, 255, 255, 0.3)"
+                    }}
+                  >
+                    {formatRankingLabel(cellRanking)}
+                  </div>
+                )))}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
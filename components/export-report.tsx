@@ -1,37 +1,67 @@
 "use client"
 
 import { useState } from "react"
+import Link from "next/link"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
-import { Download, FileText, ImageIcon, Table } from "lucide-react"
+import { Download, FileText, ImageIcon, Loader2, Table } from "lucide-react"
 import type { BusinessInfo } from "@/types/business-info"
+import { useRankingHistory } from "@/hooks/use-ranking-history"
+import type { ReportSection } from "@/lib/report-builder"
 
 interface ExportReportProps {
   businessInfo: BusinessInfo
+  // The report covers the latest scan of this keyword
+  keyword: string
 }
 
-export function ExportReport({ businessInfo }: ExportReportProps) {
+export function ExportReport({ businessInfo, keyword }: ExportReportProps) {
   const [exportOptions, setExportOptions] = useState({
     includeRankingMap: true,
     includeCompetitiveAnalysis: true,
     includeHistoricalData: true,
     includeRecommendations: true,
+    applyBranding: true,
     format: "pdf" as "pdf" | "csv" | "image",
   })
 
+  const { history, isLoading } = useRankingHistory(businessInfo, keyword, { range: "all" })
+  const latestScan = history[history.length - 1]
+
+  const selectedSections: ReportSection[] = [
+    exportOptions.includeRankingMap && "rankingMap",
+    exportOptions.includeCompetitiveAnalysis && "competitiveAnalysis",
+    exportOptions.includeHistoricalData && "historicalData",
+    exportOptions.includeRecommendations && "recommendations",
+  ].filter((section): section is ReportSection => Boolean(section))
+
   const handleExport = () => {
-    // In a real implementation, this would generate and download the report
-    // For now, we'll just show an alert
-    alert(`Exporting report for ${businessInfo.businessName} with options: ${JSON.stringify(exportOptions)}`)
+    if (!latestScan) return
+
+    const branding = exportOptions.applyBranding ? "true" : "false"
+
+    if (exportOptions.format === "image") {
+      window.open(`/api/grid-image?id=${latestScan.gridResultId}&branding=${branding}`, "_blank")
+      return
+    }
+
+    const params = new URLSearchParams({ format: exportOptions.format, sections: selectedSections.join(","), branding })
+    window.location.href = `/api/grid-results/${latestScan.gridResultId}/report?${params}`
   }
 
   return (
     <Card>
       <CardHeader>
         <CardTitle>Export Report</CardTitle>
-        <CardDescription>Generate a shareable report of your GeoGrid analysis</CardDescription>
+        <CardDescription>
+          {isLoading
+            ? "Looking for the latest scan..."
+            : latestScan
+              ? `Generate a shareable report of the ${new Date(latestScan.createdAt).toLocaleDateString()} scan of "${keyword}"`
+              : `Run a scan of "${keyword}" to generate a report`}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
@@ -81,6 +111,21 @@ export function ExportReport({ businessInfo }: ExportReportProps) {
             </div>
           </div>
 
+          <div>
+            <h3 className="text-sm font-medium mb-2">Branding</h3>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="apply-branding"
+                checked={exportOptions.applyBranding}
+                onCheckedChange={(checked) => setExportOptions({ ...exportOptions, applyBranding: checked as boolean })}
+              />
+              <Label htmlFor="apply-branding">Apply workspace branding</Label>
+            </div>
+            <Link href="/settings/branding" className="text-xs text-blue-600 hover:underline ml-6">
+              Edit logo, colors and footer
+            </Link>
+          </div>
+
           <div>
             <h3 className="text-sm font-medium mb-2">Export Format</h3>
             <div className="grid grid-cols-3 gap-2">
@@ -113,8 +158,12 @@ export function ExportReport({ businessInfo }: ExportReportProps) {
         </div>
       </CardContent>
       <CardFooter>
-        <Button className="w-full" onClick={handleExport}>
-          <Download className="mr-2 h-4 w-4" />
+        <Button
+          className="w-full"
+          onClick={handleExport}
+          disabled={!latestScan || (exportOptions.format !== "image" && selectedSections.length === 0)}
+        >
+          {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
           Export Report
         </Button>
       </CardFooter>
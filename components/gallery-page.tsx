@@ -1,11 +1,462 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ChevronLeft, ChevronRight, Columns, Download, ImageIcon, Loader2, X } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  MAX_COMPARE_ITEMS,
+  PHOTOS_PER_BUSINESS,
+  buildGalleryZip,
+  filterGridResults,
+  gridGalleryItem,
+  imageExtension,
+  photoGalleryItem,
+  type GalleryFilters,
+  type GalleryItem,
+  type PlacePhoto,
+} from "@/lib/gallery"
+import type { GridResult } from "@/lib/geogrid-service"
+
+// Select value for no filter
+const ALL = "all"
+
+const EMPTY_FILTERS: GalleryFilters = { business: "", keyword: "", from: "", to: "" }
+
+// Shows every image of a list in a dialog, one at a time, with arrow key navigation
+function Lightbox({
+  items,
+  index,
+  onIndexChange,
+  onClose,
+}: {
+  items: GalleryItem[]
+  index: number | null
+  onIndexChange: (index: number) => void
+  onClose: () => void
+}) {
+  const item = index === null ? null : items[index]
+
+  useEffect(() => {
+    if (index === null) return
+
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "ArrowLeft" && index > 0) onIndexChange(index - 1)
+      if (event.key === "ArrowRight" && index < items.length - 1) onIndexChange(index + 1)
+    }
+
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [index, items.length, onIndexChange])
+
+  return (
+    <Dialog open={item !== null} onOpenChange={(open) => !open && onClose()}>
+      {item && index !== null && (
+        <DialogContent className="sm:max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>{item.title}</DialogTitle>
+            <DialogDescription>
+              {item.subtitle} &middot; {index + 1} of {items.length}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="relative flex items-center justify-center bg-gray-50 rounded-md min-h-[300px]">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={item.fullUrl} alt={`${item.title} ${item.subtitle}`} className="max-h-[70vh] w-auto object-contain" />
+            <Button
+              variant="outline"
+              size="icon"
+              className="absolute left-2"
+              onClick={() => onIndexChange(index - 1)}
+              disabled={index === 0}
+              aria-label="Previous image"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="absolute right-2"
+              onClick={() => onIndexChange(index + 1)}
+              disabled={index === items.length - 1}
+              aria-label="Next image"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{item.credits?.length ? `Photo by ${item.credits.join(", ")}` : ""}</span>
+            <a href={item.fullUrl} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+              Open full size
+            </a>
+          </div>
+        </DialogContent>
+      )}
+    </Dialog>
+  )
+}
+
+function GalleryCard({
+  item,
+  selected,
+  onSelect,
+  onOpen,
+}: {
+  item: GalleryItem
+  selected: boolean
+  onSelect: (selected: boolean) => void
+  onOpen: () => void
+}) {
+  return (
+    <div
+      className={`group relative bg-white rounded-lg border overflow-hidden ${selected ? "border-blue-500 ring-2 ring-blue-200" : "border-gray-200"}`}
+    >
+      <button type="button" onClick={onOpen} className="block w-full aspect-square bg-gray-50">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={item.thumbnailUrl} alt={`${item.title} ${item.subtitle}`} loading="lazy" className="h-full w-full object-contain" />
+      </button>
+      <div className="absolute top-2 left-2 bg-white/90 rounded p-1">
+        <Checkbox
+          checked={selected}
+          onCheckedChange={(checked) => onSelect(checked === true)}
+          aria-label={`Select ${item.title} ${item.subtitle}`}
+        />
+      </div>
+      <div className="p-3">
+        <div className="font-medium text-sm text-gray-900 truncate">{item.title}</div>
+        <div className="text-xs text-gray-500 truncate">{item.subtitle}</div>
+      </div>
+    </div>
+  )
+}
+
 export function GalleryPage() {
+  const { toast } = useToast()
+  const [gridResults, setGridResults] = useState<GridResult[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [filters, setFilters] = useState<GalleryFilters>(EMPTY_FILTERS)
+  const [tab, setTab] = useState("grids")
+  // Photos by Place ID, loaded the first time the photos tab is opened
+  const [photosByPlace, setPhotosByPlace] = useState<Record<string, PlacePhoto[]> | null>(null)
+  const [isLoadingPhotos, setIsLoadingPhotos] = useState(false)
+  const [selected, setSelected] = useState<GalleryItem[]>([])
+  const [lightbox, setLightbox] = useState<{ items: GalleryItem[]; index: number } | null>(null)
+  const [compareOpen, setCompareOpen] = useState(false)
+  const [isZipping, setIsZipping] = useState(false)
+
+  useEffect(() => {
+    const loadResults = async () => {
+      try {
+        const response = await fetch("/api/grid-results")
+        if (!response.ok) {
+          throw new Error(`Error fetching grid results: ${response.status}`)
+        }
+        setGridResults(await response.json())
+      } catch (error) {
+        console.error("Error loading gallery:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadResults()
+  }, [])
+
+  // One entry per scanned business with a Place ID
+  const places = [
+    ...new Map(
+      gridResults
+        .filter((result) => result.businessInfo.placeId)
+        .map((result) => [result.businessInfo.placeId!, result.businessInfo.name])
+    ),
+  ]
+
+  useEffect(() => {
+    if (tab !== "photos" || photosByPlace !== null || isLoading || isLoadingPhotos) return
+
+    const loadPhotos = async () => {
+      setIsLoadingPhotos(true)
+      const loaded: Record<string, PlacePhoto[]> = {}
+      const placeIds = new Set(gridResults.flatMap((result) => result.businessInfo.placeId || []))
+      for (const placeId of placeIds) {
+        try {
+          const response = await fetch("/api/place-details", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ placeId }),
+          })
+          if (!response.ok) continue
+          const { place } = await response.json()
+          loaded[placeId] = (place.photos || []).slice(0, PHOTOS_PER_BUSINESS)
+        } catch (error) {
+          console.error(`Error loading photos for ${placeId}:`, error)
+        }
+      }
+      setPhotosByPlace(loaded)
+      setIsLoadingPhotos(false)
+    }
+
+    loadPhotos()
+  }, [tab, photosByPlace, isLoading, isLoadingPhotos, gridResults])
+
+  const businesses = [...new Set(gridResults.map((result) => result.businessInfo.name))].sort()
+  const keywords = [...new Set(gridResults.map((result) => result.searchTerm))].sort()
+
+  const gridItems = filterGridResults(gridResults, filters).map(gridGalleryItem)
+  const photoItems = places
+    .filter(([, name]) => !filters.business || name === filters.business)
+    .flatMap(([placeId, name]) =>
+      (photosByPlace?.[placeId] || []).map((photo, index) => photoGalleryItem(name, photo, index))
+    )
+
+  const isSelected = (item: GalleryItem) => selected.some((selectedItem) => selectedItem.key === item.key)
+  const toggleItem = (item: GalleryItem, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, item] : prev.filter((selectedItem) => selectedItem.key !== item.key)))
+  }
+
+  const closeLightbox = useCallback(() => setLightbox(null), [])
+  const changeLightboxIndex = useCallback(
+    (index: number) => setLightbox((prev) => (prev ? { ...prev, index } : prev)),
+    []
+  )
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true)
+    try {
+      const files = []
+      let skipped = 0
+      for (const item of selected) {
+        const response = await fetch(item.fullUrl)
+        const contentType = response.headers.get("content-type")
+        if (!response.ok || !contentType?.startsWith("image/")) {
+          skipped++
+          continue
+        }
+        files.push({ item, data: new Uint8Array(await response.arrayBuffer()), extension: imageExtension(contentType) })
+      }
+
+      if (files.length === 0) {
+        throw new Error("None of the selected images could be downloaded")
+      }
+
+      const blob = new Blob([buildGalleryZip(files)], { type: "application/zip" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `gallery-${new Date().toISOString().slice(0, 10)}.zip`
+      document.body.appendChild(link)
+      link.click()
+      setTimeout(() => {
+        document.body.removeChild(link)
+        URL.revokeObjectURL(url)
+      }, 100)
+
+      if (skipped > 0) {
+        toast({ title: "Some images were left out", description: `${skipped} images couldn't be downloaded.` })
+      }
+    } catch (error) {
+      console.error("Error building gallery ZIP:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to download the images.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsZipping(false)
+    }
+  }
+
+  const renderItems = (items: GalleryItem[]) => (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+      {items.map((item, index) => (
+        <GalleryCard
+          key={item.key}
+          item={item}
+          selected={isSelected(item)}
+          onSelect={(checked) => toggleItem(item, checked)}
+          onOpen={() => setLightbox({ items, index })}
+        />
+      ))}
+    </div>
+  )
+
+  const emptyState = (message: string) => (
+    <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
+      <ImageIcon className="h-10 w-10 mx-auto text-gray-300 mb-3" />
+      {message}
+    </div>
+  )
+
   return (
-    <div className="container mx-auto p-6">
-      <h1 className="text-3xl font-bold text-gray-800 mb-6">Gallery</h1>
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Gallery</h1>
+        <p className="text-gray-500">
+          Grid images of every saved scan and photos of the scanned businesses. Select images to compare them side by
+          side or download them as a ZIP.
+        </p>
+      </div>
 
-      <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
-        Gallery functionality will be implemented in a future update.
+      <div className="bg-white rounded-lg border border-gray-200 p-4 grid gap-4 md:grid-cols-4">
+        <div className="space-y-2">
+          <Label>Business</Label>
+          <Select
+            value={filters.business || ALL}
+            onValueChange={(value) => setFilters({ ...filters, business: value === ALL ? "" : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All businesses</SelectItem>
+              {businesses.map((business) => (
+                <SelectItem key={business} value={business}>
+                  {business}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Keyword</Label>
+          <Select
+            value={filters.keyword || ALL}
+            onValueChange={(value) => setFilters({ ...filters, keyword: value === ALL ? "" : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All keywords</SelectItem>
+              {keywords.map((keyword) => (
+                <SelectItem key={keyword} value={keyword}>
+                  {keyword}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="gallery-from">From</Label>
+          <Input
+            id="gallery-from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="gallery-to">To</Label>
+          <Input id="gallery-to" type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+        </div>
       </div>
+
+      {selected.length > 0 && (
+        <div className="sticky top-16 z-10 bg-blue-50 border border-blue-200 rounded-lg p-3 flex flex-wrap items-center justify-between gap-3">
+          <span className="text-sm text-blue-800">{selected.length} selected</span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCompareOpen(true)}
+              disabled={selected.length < 2 || selected.length > MAX_COMPARE_ITEMS}
+              title={selected.length > MAX_COMPARE_ITEMS ? `Compare up to ${MAX_COMPARE_ITEMS} images` : undefined}
+            >
+              <Columns className="h-4 w-4 mr-2" />
+              Compare
+            </Button>
+            <Button size="sm" className="bg-blue-600 hover:bg-blue-700" onClick={handleDownloadZip} disabled={isZipping}>
+              {isZipping ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Download ZIP
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setSelected([])}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="grids">Grid Snapshots ({gridItems.length})</TabsTrigger>
+          <TabsTrigger value="photos">Place Photos</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="grids" className="mt-4">
+          {isLoading ? (
+            <div className="py-12 text-center">
+              <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+              <p className="text-gray-500">Loading scans...</p>
+            </div>
+          ) : gridResults.length === 0 ? (
+            <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
+              No saved scans yet.{" "}
+              <Link href="/new-search" className="text-blue-600 hover:underline">
+                Run a scan
+              </Link>{" "}
+              to see its grid here.
+            </div>
+          ) : gridItems.length === 0 ? (
+            emptyState("No scans match the filters.")
+          ) : (
+            renderItems(gridItems)
+          )}
+        </TabsContent>
+
+        <TabsContent value="photos" className="mt-4">
+          {isLoading || isLoadingPhotos ? (
+            <div className="py-12 text-center">
+              <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+              <p className="text-gray-500">Loading photos...</p>
+            </div>
+          ) : photoItems.length === 0 ? (
+            emptyState(
+              places.length === 0
+                ? "Photos are shown for businesses scanned with a Google place, and there are none yet."
+                : "No photos found for these businesses."
+            )
+          ) : (
+            renderItems(photoItems)
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <Lightbox
+        items={lightbox?.items || []}
+        index={lightbox?.index ?? null}
+        onIndexChange={changeLightboxIndex}
+        onClose={closeLightbox}
+      />
+
+      <Dialog open={compareOpen} onOpenChange={setCompareOpen}>
+        <DialogContent className="sm:max-w-6xl">
+          <DialogHeader>
+            <DialogTitle>Compare</DialogTitle>
+            <DialogDescription>{selected.length} images side by side</DialogDescription>
+          </DialogHeader>
+          <div className={`grid gap-4 ${selected.length > 2 ? "md:grid-cols-2 lg:grid-cols-4" : "md:grid-cols-2"}`}>
+            {selected.map((item) => (
+              <div key={item.key} className="space-y-2">
+                <div className="bg-gray-50 rounded-md flex items-center justify-center">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={item.fullUrl} alt={`${item.title} ${item.subtitle}`} className="max-h-[60vh] w-full object-contain" />
+                </div>
+                <div>
+                  <div className="font-medium text-sm text-gray-900">{item.title}</div>
+                  <div className="text-xs text-gray-500">{item.subtitle}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
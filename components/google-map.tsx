@@ -5,6 +5,7 @@ import { useEffect, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { AlertCircle, RefreshCw } from "lucide-react"
 import { loadGoogleMapsApi } from "@/utils/google-maps-loader"
+import { generateGeoGrid } from "@/lib/geo-grid"
 import { CompetitorsByPoint } from "./competitors-by-point"
 
 interface GoogleMapProps {
@@ -107,19 +108,8 @@ export function GoogleMap({
           zIndex: 1
         })
 
-        // Generate grid points
-        const points: { lat: number; lng: number }[] = []
-        const offset = Math.floor(gridSize / 2)
-
-        for (let i = 0; i < gridSize; i++) {
-          for (let j = 0; j < gridSize; j++) {
-            // Calculate lat/lng for this grid point
-            const lat = center.lat + ((i - offset) * pointDistance) / 69 // Approximate miles to degrees latitude
-            const lng = center.lng + ((j - offset) * pointDistance) / (69 * Math.cos(center.lat * (Math.PI / 180))) // Adjust for longitude
-
-            points.push({ lat, lng })
-          }
-        }
+        // Generate grid points; pointDistance is the spacing between points, in miles
+        const points = generateGeoGrid({ center, gridSize, spacingKm: pointDistance * 1.609344 })
 
         // Add markers for grid points if we have ranking data
         if (gridData && gridData.length > 0) {
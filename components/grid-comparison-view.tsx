@@ -0,0 +1,223 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, ArrowDown, ArrowUp, ChevronLeft, Loader2, Minus } from "lucide-react"
+import type { CompetitorMovement, GridComparison, MetricDelta, PointDelta } from "@/lib/grid-comparison-service"
+
+// Position change at which a cell reaches full color intensity
+const FULL_INTENSITY_DELTA = 10
+
+interface GridComparisonViewProps {
+  baseId: string
+  compareId: string
+}
+
+const formatScanDate = (createdAt: string) =>
+  new Date(createdAt).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+
+function deltaColor(point: PointDelta | undefined): string {
+  if (!point) return "#F3F4F6"
+  if (point.delta === 0) return "#E5E7EB"
+
+  const intensity = 0.25 + 0.75 * Math.min(1, Math.abs(point.delta) / FULL_INTENSITY_DELTA)
+  return point.delta > 0 ? `rgba(16, 185, 129, ${intensity})` : `rgba(239, 68, 68, ${intensity})`
+}
+
+function MetricDeltaCard({ label, metric, suffix = "" }: { label: string; metric: MetricDelta; suffix?: string }) {
+  const Icon = metric.delta > 0 ? ArrowUp : metric.delta < 0 ? ArrowDown : Minus
+  const color = metric.delta > 0 ? "text-green-600" : metric.delta < 0 ? "text-red-600" : "text-gray-500"
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="text-sm font-medium text-gray-500">{label}</div>
+      <div className="mt-1 text-lg font-semibold text-gray-800">
+        {metric.before}
+        {suffix} &rarr; {metric.after}
+        {suffix}
+      </div>
+      <div className={`mt-1 flex items-center text-sm ${color}`}>
+        <Icon className="h-4 w-4 mr-1" />
+        {metric.delta > 0 ? "Improved" : metric.delta < 0 ? "Declined" : "No change"}
+        {metric.delta !== 0 && ` by ${Math.abs(metric.delta)}${suffix}`}
+      </div>
+    </div>
+  )
+}
+
+function CompetitorMovementTable({ title, movements }: { title: string; movements: CompetitorMovement[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {movements.length === 0 ? (
+          <p className="text-sm text-gray-500">None</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Competitor</TableHead>
+                <TableHead className="text-right">Points up</TableHead>
+                <TableHead className="text-right">Points down</TableHead>
+                <TableHead className="text-right">Net positions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map((movement) => (
+                <TableRow key={movement.placeId}>
+                  <TableCell>
+                    <div className="font-medium">{movement.name}</div>
+                    {movement.vicinity && <div className="text-xs text-gray-500">{movement.vicinity}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{movement.pointsGained}</TableCell>
+                  <TableCell className="text-right">{movement.pointsLost}</TableCell>
+                  <TableCell className={`text-right font-medium ${movement.netChange > 0 ? "text-green-600" : "text-red-600"}`}>
+                    {movement.netChange > 0 ? `+${movement.netChange}` : movement.netChange}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function GridComparisonView({ baseId, compareId }: GridComparisonViewProps) {
+  const [comparison, setComparison] = useState<GridComparison | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const params = new URLSearchParams({ base: baseId, compare: compareId })
+        const response = await fetch(`/api/grid-results/compare?${params}`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || `Error comparing scans: ${response.status}`)
+        }
+        if (!cancelled) setComparison(data)
+      } catch (loadError) {
+        console.error("Error loading grid comparison:", loadError)
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to compare scans")
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [baseId, compareId])
+
+  if (error) {
+    return (
+      <div className="container mx-auto p-6 text-center">
+        <AlertCircle className="h-12 w-12 mx-auto text-red-400 mb-4" />
+        <p className="text-gray-700 mb-6">{error}</p>
+        <Button asChild variant="outline">
+          <Link href={`/grid/${compareId}`}>Back to scan</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (!comparison) {
+    return (
+      <div className="container mx-auto p-6 py-12 text-center">
+        <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+        <p className="text-gray-500">Comparing scans...</p>
+      </div>
+    )
+  }
+
+  const { base, compare, gridSize, points, summary, metrics } = comparison
+  const pointsByCell = new Map(points.map((point) => [`${point.row}-${point.col}`, point]))
+  // Row 0 is the southernmost row, so rows are drawn from the top down in reverse
+  const rows = Array.from({ length: gridSize }, (_, index) => gridSize - 1 - index)
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <Link href={`/grid/${compare.id}`} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Back to scan
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-800">{compare.businessInfo.name}</h1>
+        <p className="text-gray-500">
+          &ldquo;{compare.searchTerm}&rdquo; &middot; {formatScanDate(base.createdAt)} &rarr; {formatScanDate(compare.createdAt)}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <MetricDeltaCard label="AGR (Average Grid Ranking)" metric={metrics.agr} />
+        <MetricDeltaCard label="ATGR (Average Top Grid Ranking)" metric={metrics.atgr} />
+        <MetricDeltaCard label="SoLV (Share of Local Voice)" metric={metrics.solv} suffix="%" />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Point-by-Point Change</CardTitle>
+          <CardDescription>
+            {summary.improved} improved, {summary.declined} declined and {summary.unchanged} unchanged of{" "}
+            {points.length} points. Darker cells moved further.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div
+            className="grid gap-[2px] mx-auto max-w-2xl"
+            style={{ gridTemplateColumns: `repeat(${gridSize}, minmax(0, 1fr))` }}
+          >
+            {rows.map((row) =>
+              Array.from({ length: gridSize }, (_, col) => {
+                const point = pointsByCell.get(`${row}-${col}`)
+                return (
+                  <div
+                    key={`${row}-${col}`}
+                    className="aspect-square rounded-sm flex items-center justify-center text-[10px] font-medium text-gray-900"
+                    style={{ backgroundColor: deltaColor(point) }}
+                    title={point ? `#${point.before} → #${point.after} (${point.lat.toFixed(5)}, ${point.lng.toFixed(5)})` : undefined}
+                  >
+                    {point && point.delta !== 0 && (point.delta > 0 ? `+${point.delta}` : point.delta)}
+                  </div>
+                )
+              })
+            )}
+          </div>
+          <div className="flex justify-center gap-4 mt-4 text-xs text-gray-600">
+            <span className="flex items-center">
+              <span className="inline-block w-3 h-3 rounded-sm mr-1 bg-emerald-500" /> Moved up
+            </span>
+            <span className="flex items-center">
+              <span className="inline-block w-3 h-3 rounded-sm mr-1 bg-gray-200" /> Unchanged
+            </span>
+            <span className="flex items-center">
+              <span className="inline-block w-3 h-3 rounded-sm mr-1 bg-red-500" /> Moved down
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {comparison.hasCompetitorData ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <CompetitorMovementTable title="Competitors that gained at changed points" movements={comparison.competitorsGained} />
+          <CompetitorMovementTable title="Competitors that lost at changed points" movements={comparison.competitorsLost} />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 text-center">
+          Competitor movement is only available when both scans stored their search results.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, ChevronLeft, Loader2 } from "lucide-react"
+import { useScanImport } from "@/hooks/use-scan-import"
+import type { ScanJobStatus } from "@/lib/scan-job-service"
+
+const STATUS_LABELS: Record<ScanJobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  completed: "Completed",
+  failed: "Failed",
+}
+
+const STATUS_CLASSES: Record<ScanJobStatus, string> = {
+  queued: "bg-gray-100 text-gray-700",
+  running: "bg-blue-100 text-blue-700",
+  completed: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+}
+
+interface ImportProgressBoardProps {
+  importId: string
+}
+
+export function ImportProgressBoard({ importId }: ImportProgressBoardProps) {
+  const { scanImport, error } = useScanImport(importId)
+
+  if (error && !scanImport) {
+    return (
+      <div className="container mx-auto p-6 text-center">
+        <AlertCircle className="h-12 w-12 mx-auto text-red-400 mb-4" />
+        <p className="text-gray-700 mb-6">{error}</p>
+        <Button asChild variant="outline">
+          <Link href="/imports">Back to Bulk Import</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (!scanImport) {
+    return (
+      <div className="container mx-auto p-6 py-12 text-center">
+        <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+        <p className="text-gray-500">Loading import...</p>
+      </div>
+    )
+  }
+
+  const isRunning = scanImport.status === "queued" || scanImport.status === "running"
+  const countByStatus = (status: ScanJobStatus) =>
+    scanImport.scanSets.filter((scanSet) => scanSet.status === status).length
+  const scanCount = scanImport.scanSets.reduce((sum, scanSet) => sum + scanSet.jobs.length, 0)
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <Link href="/imports" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Bulk Import
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-800">{scanImport.fileName}</h1>
+        <p className="text-gray-500">
+          {scanImport.scanSetCount} businesses, {scanCount} keyword scans &middot;{" "}
+          {new Date(scanImport.createdAt).toLocaleString()}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(["queued", "running", "completed", "failed"] as const).map((status) => (
+          <div key={status} className="bg-white p-4 rounded-lg border border-gray-200">
+            <p className="text-sm text-gray-500">{STATUS_LABELS[status]}</p>
+            <h3 className="text-2xl font-bold text-gray-900">{countByStatus(status)}</h3>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+            <span className="flex items-center">
+              {isRunning && <Loader2 className="h-4 w-4 mr-2 animate-spin text-blue-600" />}
+              {isRunning ? "Scanning businesses one at a time..." : STATUS_LABELS[scanImport.status]}
+            </span>
+            <span>{scanImport.progress}%</span>
+          </div>
+          <Progress value={scanImport.progress} />
+        </div>
+        <Table>
+          <TableHeader className="bg-gray-50">
+            <TableRow>
+              <TableHead>Business</TableHead>
+              <TableHead>Keywords</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-48">Progress</TableHead>
+              <TableHead className="text-right">Results</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {scanImport.scanSets.map((scanSet) => {
+              const failedJobs = scanSet.jobs.filter((job) => job.status === "failed").length
+
+              return (
+                <TableRow key={scanSet.id}>
+                  <TableCell>
+                    <div className="font-medium">{scanSet.businessInfo.name}</div>
+                    <div className="text-xs text-gray-500">{scanSet.businessInfo.address}</div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">{scanSet.keywords.join(", ")}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={`border-transparent ${STATUS_CLASSES[scanSet.status]}`}>
+                      {STATUS_LABELS[scanSet.status]}
+                    </Badge>
+                    {failedJobs > 0 && scanSet.status !== "failed" && (
+                      <div className="text-xs text-red-600 mt-1">{failedJobs} keyword scans failed</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Progress value={scanSet.progress} className="h-2" />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button asChild variant="ghost" size="sm">
+                      <Link href={`/scan-sets/${scanSet.id}`}>View</Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { createBrowserClient } from "@supabase/ssr"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2 } from "lucide-react"
+
+export function LoginForm({ next }: { next: string }) {
+  const router = useRouter()
+  const [mode, setMode] = useState<"signIn" | "signUp">("signIn")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+    setMessage(null)
+
+    const supabase = createBrowserClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!)
+
+    try {
+      if (mode === "signUp") {
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { emailRedirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(next)}` },
+        })
+        if (error) throw error
+        if (!data.session) {
+          setMessage("Check your email for a link to confirm your account.")
+          return
+        }
+      } else {
+        const { error } = await supabase.auth.signInWithPassword({ email, password })
+        if (error) throw error
+      }
+
+      router.push(next)
+      router.refresh()
+    } catch (authError) {
+      console.error("Error signing in:", authError)
+      setError(authError instanceof Error ? authError.message : "Failed to sign in")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto p-6 py-24 max-w-sm">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+        <h1 className="text-2xl font-bold text-gray-800 text-center">
+          {mode === "signIn" ? "Sign in to GeoGrid" : "Create your account"}
+        </h1>
+
+        <div className="space-y-2">
+          <Label htmlFor="login-email">Email</Label>
+          <Input
+            id="login-email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="login-password">Password</Label>
+          <Input
+            id="login-password"
+            type="password"
+            autoComplete={mode === "signIn" ? "current-password" : "new-password"}
+            minLength={6}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-700">{message}</p>}
+
+        <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {mode === "signIn" ? "Sign In" : "Sign Up"}
+        </Button>
+
+        <p className="text-sm text-center text-gray-500">
+          {mode === "signIn" ? "New to GeoGrid?" : "Already have an account?"}{" "}
+          <button
+            type="button"
+            className="text-blue-600 hover:underline"
+            onClick={() => setMode(mode === "signIn" ? "signUp" : "signIn")}
+          >
+            {mode === "signIn" ? "Create an account" : "Sign in"}
+          </button>
+        </p>
+      </form>
+    </div>
+  )
+}
@@ -3,13 +3,23 @@
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { cn } from "@/lib/utils"
-import { FileText, Search, Settings, Home, User, HelpCircle, BarChart2, MapPin } from "lucide-react"
+import { FileText, Search, Settings, Home, User, HelpCircle, BarChart2, MapPin, CalendarClock, Check, ChevronDown, FolderOpen, Images, LogOut, Megaphone, Upload, Users } from "lucide-react"
 import { useState, useEffect } from "react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useWorkspace } from "@/hooks/use-workspace"
 
 export function MainNav() {
   const pathname = usePathname()
   const [scrolled, setScrolled] = useState(false)
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
+  const { email, currentWorkspace, workspaces, switchWorkspace } = useWorkspace()
 
   // Add scroll effect for the navigation
   useEffect(() => {
@@ -31,9 +41,45 @@ export function MainNav() {
       name: "GeoGrid Search",
       href: "/new-search",
       icon: Search,
+    },
+    {
+      name: "Bulk Import",
+      href: "/imports",
+      icon: Upload,
+    },
+    {
+      name: "Clients",
+      href: "/clients",
+      icon: FolderOpen,
+    },
+    {
+      name: "Schedules",
+      href: "/schedules",
+      icon: CalendarClock,
+    },
+    {
+      name: "Reports",
+      href: "/reports",
+      icon: FileText,
+    },
+    {
+      name: "Gallery",
+      href: "/gallery",
+      icon: Images,
+    },
+    {
+      name: "Bulk Posting",
+      href: "/bulk-posting",
+      icon: Megaphone,
     }
   ]
 
+  // Shared links are opened by people outside the app, and the sign-in page by
+  // people who aren't in it yet
+  if (pathname.startsWith("/share/") || pathname === "/login") {
+    return null
+  }
+
   return (
     <>
     <nav
@@ -90,11 +136,44 @@ export function MainNav() {
             </button>
             
             <div className="hidden md:block">
-              <button
-                className="lv-button"
-              >
-                Sign In
-              </button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button className="flex items-center h-10 px-4 text-sm font-medium rounded-full bg-white/10 text-white hover:bg-white/20 transition-all">
+                    <Users className="w-4 h-4 mr-2" />
+                    <span className="max-w-[160px] truncate">{currentWorkspace?.name ?? "Workspace"}</span>
+                    <ChevronDown className="w-4 h-4 ml-1" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-64">
+                  {email && <DropdownMenuLabel className="font-normal text-slate-500 truncate">{email}</DropdownMenuLabel>}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+                  {workspaces.map((workspace) => (
+                    <DropdownMenuItem
+                      key={workspace.id}
+                      onSelect={() => workspace.id !== currentWorkspace?.id && switchWorkspace(workspace.id)}
+                    >
+                      <span className="flex-1 truncate">{workspace.name}</span>
+                      {workspace.id === currentWorkspace?.id && <Check className="w-4 h-4" />}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem asChild>
+                    <Link href="/settings/workspace">
+                      <Settings className="w-4 h-4 mr-2" />
+                      Workspace settings
+                    </Link>
+                  </DropdownMenuItem>
+                  <form action="/auth/signout" method="post">
+                    <DropdownMenuItem asChild>
+                      <button type="submit" className="w-full">
+                        <LogOut className="w-4 h-4 mr-2" />
+                        Sign out
+                      </button>
+                    </DropdownMenuItem>
+                  </form>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
             
             <button
@@ -104,11 +183,13 @@ export function MainNav() {
               <User className="w-5 h-5" />
             </button>
             
-            <button
+            <Link
+              href="/settings/branding"
+              title="Branding settings"
               className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition-all hover:shadow-md hover:-translate-y-0.5"
           >
             <Settings className="w-5 h-5" />
-          </button>
+          </Link>
           </div>
         </div>
       </nav>
@@ -145,11 +226,40 @@ export function MainNav() {
                 )
               })}
             </div>
-            <div className="p-4 border-t border-slate-100">
-              <button className="lv-button w-full">
-                Sign In
-          </button>
-        </div>
+            <div className="py-3 px-4 border-t border-slate-100">
+              <p className="text-sm font-medium text-slate-400">Workspaces</p>
+            </div>
+            <div className="pb-2">
+              {workspaces.map((workspace) => (
+                <button
+                  key={workspace.id}
+                  className={cn(
+                    "flex items-center w-full py-3 px-4 text-sm text-left transition-all",
+                    workspace.id === currentWorkspace?.id
+                      ? "bg-blue-50 text-primary font-medium"
+                      : "text-slate-700 hover:bg-slate-50"
+                  )}
+                  onClick={() => workspace.id !== currentWorkspace?.id && switchWorkspace(workspace.id)}
+                >
+                  <Users className="w-4 h-4 mr-3" />
+                  <span className="truncate">{workspace.name}</span>
+                </button>
+              ))}
+              <Link
+                href="/settings/workspace"
+                className="flex items-center py-3 px-4 text-sm text-slate-700 hover:bg-slate-50"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                <Settings className="w-4 h-4 mr-3" />
+                Workspace settings
+              </Link>
+            </div>
+            <form action="/auth/signout" method="post" className="p-4 border-t border-slate-100">
+              {email && <p className="text-xs text-slate-500 mb-2 truncate">{email}</p>}
+              <button type="submit" className="lv-button w-full">
+                Sign Out
+              </button>
+            </form>
       </div>
         </div>
       )}
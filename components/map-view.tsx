@@ -7,7 +7,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
 import { AlertCircle, RefreshCw } from "lucide-react"
 import { loadGoogleMaps } from "@/lib/google-maps-loader"
-import { generateGridPoints } from "@/lib/utils"
+import { generateGeoGrid } from "@/lib/geo-grid"
 import { FallbackMap } from "@/components/fallback-map"
 
 // Helper function to get color based on ranking
@@ -109,7 +109,8 @@ export function MapView({
 
   // Generate grid points
   useEffect(() => {
-    const points = generateGridPoints(mapCenter, gridSize, pointDistance)
+    // This view treats its distance as the reach of the grid from the center
+    const points = generateGeoGrid({ center: mapCenter, gridSize, radiusKm: pointDistance })
     setGridPoints(points)
     onGridPointsUpdate(points)
   }, [mapCenter, gridSize, pointDistance, onGridPointsUpdate])
@@ -14,7 +14,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { InfoIcon } from "lucide-react"
 import type { BusinessInfo } from "@/types/business-info"
 import { geocodeAddress as geocodeAddressAction } from "@/app/actions/geocode"
-import { fetchRankingData } from "@/services/ranking-service"
+import { fetchRankingData, toBusinessIdentity, toRankingMatrix } from "@/services/ranking-service"
 import { loadGoogleMapsApi } from "@/utils/google-maps-loader"
 
 interface ModernDashboardProps {
@@ -104,11 +104,8 @@ export function ModernDashboard({ businessInfo }: ModernDashboardProps) {
 
           // Fetch data for each keyword
           for (const keyword of businessInfo.keywords) {
-            const locationParam = typeof businessInfo.location === 'string' 
-              ? businessInfo.location 
-              : businessInfo.location ? `${businessInfo.location.lat},${businessInfo.location.lng}` : '';
-            const keywordData = await fetchRankingData(keyword, locationParam, gridPoints)
-            data[keyword] = keywordData
+            const { rankings } = await fetchRankingData(keyword, toBusinessIdentity(businessInfo), gridPoints)
+            data[keyword] = toRankingMatrix(rankings, gridSize)
           }
 
           setRankingData(data)
@@ -123,7 +120,7 @@ export function ModernDashboard({ businessInfo }: ModernDashboardProps) {
 
       fetchData()
     }
-  }, [shouldFetchData, gridPoints, businessInfo.keywords, businessInfo.location, isLoading])
+  }, [shouldFetchData, gridPoints, gridSize, businessInfo, isLoading])
 
   // Disable heatmap if visualization is not supported
   useEffect(() => {
@@ -228,7 +225,7 @@ export function ModernDashboard({ businessInfo }: ModernDashboardProps) {
       case "recommendations":
         return <StrategicRecommendations businessInfo={businessInfo} />
       case "export":
-        return <ExportReport businessInfo={businessInfo} />
+        return <ExportReport businessInfo={businessInfo} keyword={selectedKeyword} />
       default:
         return null
     }
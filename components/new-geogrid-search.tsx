@@ -30,9 +30,11 @@ import {
   AlertCircle,
   Check,
   ChevronRight,
+  Hexagon,
+  Upload,
 } from "lucide-react"
 import { loadGoogleMaps } from "@/lib/google-maps-loader"
-import { saveGridResult, getGridResults, initDatabase } from "@/lib/geogrid-service"
+import { initDatabase, type GridResult } from "@/lib/geogrid-service"
 import type { BusinessInfo } from "@/types"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Checkbox } from "@/components/ui/checkbox"
@@ -46,19 +48,26 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-import { createClient } from "@supabase/supabase-js"
 import { debounce } from "lodash"
 import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { useToast } from "@/components/ui/use-toast"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
-import { generateGridPoints } from "@/lib/utils"
-import { fetchRankingData } from "@/services/ranking-service"
+import { ScheduleScanDialog, type ScheduledScanConfig } from "@/components/schedule-scan-dialog"
+import { useWorkspace } from "@/hooks/use-workspace"
+import type { GridConfigProfile } from "@/lib/grid-config-service"
+import { generateGeoGrid, type GeoGridPoint } from "@/lib/geo-grid"
+import {
+  GRID_SHAPE_LABELS,
+  GRID_SHAPES,
+  parseServiceAreaGeoJson,
+  polygonFromPath,
+  type GridShape,
+  type ServiceAreaPolygon,
+} from "@/lib/grid-shapes"
 
-// Create a single Supabase client for interacting with your database
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-const supabase = createClient(supabaseUrl, supabaseKey)
+// How often a running scan job is polled for progress
+const SCAN_POLL_INTERVAL_MS = 2000
 
 // Map Styles
 const silverStyle = [
@@ -531,6 +540,9 @@ export function NewGeoGridSearch() {
   const [isSearchingBusiness, setIsSearchingBusiness] = useState(false)
   const [gridSize, setGridSize] = useState("13x13")
   const [gridDistance, setGridDistance] = useState("2.5")
+  const [gridShape, setGridShape] = useState<GridShape>("square")
+  const [serviceArea, setServiceArea] = useState<ServiceAreaPolygon | null>(null)
+  const [isDrawingArea, setIsDrawingArea] = useState(false)
   const [googleRegion, setGoogleRegion] = useState("global")
   const [mapLoaded, setMapLoaded] = useState(false)
   const [mapError, setMapError] = useState<string | null>(null)
@@ -541,8 +553,14 @@ export function NewGeoGridSearch() {
   const [loadingStep, setLoadingStep] = useState("")
   const [businessSource, setBusinessSource] = useState("google-search")
   const [historyResults, setHistoryResults] = useState<any[]>([])
+  const [scheduleTarget, setScheduleTarget] = useState<ScheduledScanConfig | null>(null)
+  const [gridConfigs, setGridConfigs] = useState<GridConfigProfile[]>([])
   const [selectedConfig, setSelectedConfig] = useState<string | null>(null)
+  const [editingConfigId, setEditingConfigId] = useState<string | null>(null)
   const [configName, setConfigName] = useState("")
+  const [configKeywords, setConfigKeywords] = useState("")
+  const [configIncludeBusiness, setConfigIncludeBusiness] = useState(false)
+  const [isSavingConfig, setIsSavingConfig] = useState(false)
   const [noResultsFound, setNoResultsFound] = useState(false)
   const [isLoadingHistory, setIsLoadingHistory] = useState(false)
   const [placeIdInput, setPlaceIdInput] = useState("")
@@ -559,7 +577,6 @@ export function NewGeoGridSearch() {
   const [centerMarker, setCenterMarker] = useState<google.maps.Marker | null>(null);
   const GRID_SIZE = 13; // 13x13 grid
   const GRID_DISTANCE = 2.5; // 2.5km between points
-  const EARTH_RADIUS = 111.32; // km per degree at equator
   const [showLocationDialog, setShowLocationDialog] = useState(true)
   const [locationPermissionRequested, setLocationPermissionRequested] = useState(false)
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
@@ -578,9 +595,12 @@ export function NewGeoGridSearch() {
   const mapRef = useRef<HTMLDivElement>(null)
   const mapInstanceRef = useRef<any>(null)
   const markersRef = useRef<any[]>([])
+  const serviceAreaPolygonRef = useRef<google.maps.Polygon | null>(null)
+  const geoJsonInputRef = useRef<HTMLInputElement>(null)
   const placesServiceRef = useRef<any>(null)
   const router = useRouter()
   const { toast } = useToast()
+  const { can } = useWorkspace()
 
   // Add this useEffect hook after the other useEffect declarations
   useEffect(() => {
@@ -600,15 +620,27 @@ export function NewGeoGridSearch() {
     const markers: google.maps.Marker[] = [];
     const currentGridSize = Number.parseInt(gridSize.split("x")[0]);
     const currentGridDistance = Number.parseFloat(gridDistance);
-    const offset = ((currentGridSize - 1) / 2) * (currentGridDistance / EARTH_RADIUS);
-
-    // Calculate bounds
     const centerLat = center.lat();
     const centerLng = center.lng();
-    const north = centerLat + offset;
-    const south = centerLat - offset;
-    const east = centerLng + offset / Math.cos(centerLat * Math.PI / 180);
-    const west = centerLng - offset / Math.cos(centerLat * Math.PI / 180);
+
+    // Preview point positions, laid out exactly as the scan will query them. Service area
+    // grids are laid over the drawn polygon instead of the business.
+    const generatePreviewPoints = (previewCenter: { lat: number; lng: number }): GeoGridPoint[] => {
+      if (gridShape === "polygon" && !serviceArea) return [];
+      try {
+        return generateGeoGrid({
+          center: previewCenter,
+          gridSize: currentGridSize,
+          spacingKm: currentGridDistance,
+          shape: gridShape,
+          polygon: serviceArea,
+        });
+      } catch (error) {
+        console.error("Error generating grid preview:", error);
+        return [];
+      }
+    };
+    const previewPoints = generatePreviewPoints({ lat: centerLat, lng: centerLng });
 
     // Create center marker first
     const centerMarker = new google.maps.Marker({
@@ -648,23 +680,19 @@ export function NewGeoGridSearch() {
       lastUpdate = now;
 
       const newCenter = centerMarker.getPosition();
-      if (!newCenter) return;
-
-      // Update all marker positions relative to the new center
-      const centerLat = newCenter.lat();
-      const centerLng = newCenter.lng();
-      const offset = ((currentGridSize - 1) / 2) * (currentGridDistance / EARTH_RADIUS);
-      const latStep = (offset * 2) / (currentGridSize - 1);
-      const lngStep = (offset * 2) / (currentGridSize - 1) / Math.cos(centerLat * Math.PI / 180);
-
-      for (let i = 0; i < currentGridSize; i++) {
-        for (let j = 0; j < currentGridSize; j++) {
-          if (i === Math.floor(currentGridSize / 2) && j === Math.floor(currentGridSize / 2)) continue; // Skip center
-          const lat = centerLat - offset + (i * latStep);
-          const lng = centerLng - offset + (j * lngStep);
-          markers[i * currentGridSize + j].setPosition({ lat, lng });
+      // A service area grid stays on its polygon wherever the business marker is
+      if (!newCenter || gridShape === "polygon") return;
+
+      // Re-lay the grid around the new center
+      const positions = new Map(
+        generatePreviewPoints({ lat: newCenter.lat(), lng: newCenter.lng() }).map((point) => [point.index, point])
+      );
+      markers.forEach((marker) => {
+        const position = positions.get((marker as any).gridIndex);
+        if (position) {
+          marker.setPosition({ lat: position.lat, lng: position.lng });
         }
-      }
+      });
     });
 
     // Create a single info window to reuse for all grid points
@@ -744,13 +772,15 @@ export function NewGeoGridSearch() {
     };
 
     // Create grid points (excluding center)
+    const previewPointsByIndex = new Map(previewPoints.map((point) => [point.index, point]));
     for (let i = 0; i < currentGridSize; i++) {
       for (let j = 0; j < currentGridSize; j++) {
-        if (i === Math.floor(currentGridSize / 2) && j === Math.floor(currentGridSize / 2)) continue; // Skip center
+        if (gridShape !== "polygon" && i === Math.floor(currentGridSize / 2) && j === Math.floor(currentGridSize / 2)) continue; // Skip center
 
-        const lat = south + (i * (north - south) / (currentGridSize - 1));
-        const lng = west + (j * (east - west) / (currentGridSize - 1));
         const gridIndex = i * currentGridSize + j;
+        const point = previewPointsByIndex.get(gridIndex);
+        if (!point) continue; // Outside the grid's shape
+        const { lat, lng } = point;
 
         // Create simple marker for the initial grid preview
         const svgMarker = {
@@ -1095,7 +1125,7 @@ export function NewGeoGridSearch() {
     setGridOverlay(markers);
   };
 
-  // Effect to recreate grid when grid size or distance changes
+  // Effect to recreate grid when grid size, distance or shape changes
   useEffect(() => {
     if (mapInstanceRef.current && centerMarker) {
       const center = centerMarker.getPosition();
@@ -1103,7 +1133,108 @@ export function NewGeoGridSearch() {
         createGridOverlay(center);
       }
     }
-  }, [gridSize, gridDistance]);
+  }, [gridSize, gridDistance, gridShape, serviceArea]);
+
+  const drawClickListenerRef = useRef<google.maps.MapsEventListener | null>(null)
+
+  // Show the service area of polygon grids on the map
+  useEffect(() => {
+    if (!mapLoaded || !mapInstanceRef.current || isDrawingArea) return
+
+    serviceAreaPolygonRef.current?.setMap(null)
+    serviceAreaPolygonRef.current = null
+
+    if (gridShape !== "polygon" || !serviceArea) return
+
+    const [outerRing] = serviceArea.coordinates
+    const path = outerRing.map(([lng, lat]) => ({ lat, lng }))
+    serviceAreaPolygonRef.current = new google.maps.Polygon({
+      paths: path,
+      map: mapInstanceRef.current,
+      strokeColor: "#2563EB",
+      strokeOpacity: 0.8,
+      strokeWeight: 2,
+      fillColor: "#2563EB",
+      fillOpacity: 0.08,
+      clickable: false,
+    })
+
+    const bounds = new google.maps.LatLngBounds()
+    path.forEach((point) => bounds.extend(point))
+    mapInstanceRef.current.fitBounds(bounds, 40)
+  }, [mapLoaded, gridShape, serviceArea, isDrawingArea])
+
+  // Let the user click corners of a service area onto the map
+  const startDrawingArea = () => {
+    if (!mapInstanceRef.current) return
+
+    serviceAreaPolygonRef.current?.setMap(null)
+    const polygon = new google.maps.Polygon({
+      paths: [],
+      map: mapInstanceRef.current,
+      editable: true,
+      strokeColor: "#2563EB",
+      strokeWeight: 2,
+      fillColor: "#2563EB",
+      fillOpacity: 0.08,
+    })
+    serviceAreaPolygonRef.current = polygon
+
+    drawClickListenerRef.current?.remove()
+    drawClickListenerRef.current = mapInstanceRef.current.addListener("click", (event: google.maps.MapMouseEvent) => {
+      if (event.latLng) {
+        polygon.getPath().push(event.latLng)
+      }
+    })
+    setIsDrawingArea(true)
+  }
+
+  const stopDrawingArea = () => {
+    drawClickListenerRef.current?.remove()
+    drawClickListenerRef.current = null
+    setIsDrawingArea(false)
+  }
+
+  const finishDrawingArea = () => {
+    const path = serviceAreaPolygonRef.current?.getPath().getArray() ?? []
+    if (path.length < 3) {
+      alert("Click at least three points on the map to outline the service area")
+      return
+    }
+
+    setServiceArea(polygonFromPath(path.map((point) => ({ lat: point.lat(), lng: point.lng() }))))
+    setGridShape("polygon")
+    stopDrawingArea()
+  }
+
+  const cancelDrawingArea = () => {
+    // The display effect restores the previous service area, if any
+    stopDrawingArea()
+  }
+
+  // Load a service area from a GeoJSON file (Polygon, Feature or FeatureCollection)
+  const handleGeoJsonImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const polygon = parseServiceAreaGeoJson(JSON.parse(await file.text()))
+      if (!polygon) {
+        throw new Error("The file doesn't contain a GeoJSON polygon")
+      }
+
+      setServiceArea(polygon)
+      setGridShape("polygon")
+    } catch (error) {
+      console.error("Error importing service area:", error)
+      toast({
+        title: "Import failed",
+        description: error instanceof Error && !(error instanceof SyntaxError) ? error.message : "The file is not valid GeoJSON.",
+        variant: "destructive",
+      })
+    }
+  }
 
   // Initialize map function
   const initMap = async () => {
@@ -1223,7 +1354,11 @@ export function NewGeoGridSearch() {
       const loadHistoryData = async () => {
         setIsLoadingHistory(true)
         try {
-          const results = await getGridResults()
+          const response = await fetch("/api/grid-results")
+          if (!response.ok) {
+            throw new Error(`Error fetching grid results: ${response.status}`)
+          }
+          const results = await response.json()
           setHistoryResults(results || []) // Ensure we always set an array
         } catch (error) {
           console.error("Error loading history results:", error)
@@ -1429,48 +1564,23 @@ export function NewGeoGridSearch() {
 
           // Save review data to Supabase
           try {
-            // First check if the business exists in our database
-            const { data: existingBusinesses, error: queryError } = await supabase
-              .from('businesses')
-              .select('id')
-              .eq('place_id', place.place_id || prediction.place_id);
-
-            let businessId: number | null = null;
-
-            if (queryError) {
-              throw new Error(`Error checking for existing business: ${queryError.message}`);
-            }
-
-            if (!existingBusinesses || existingBusinesses.length === 0) {
-              // Create a new business record
-              const businessData = {
+            const response = await fetch("/api/businesses", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
                 name: place.name || 'Unknown Business',
                 address: place.formatted_address || 'No address available',
-                place_id: place.place_id || prediction.place_id,
-                lat: place.geometry?.location?.lat() || 0,
-                lng: place.geometry?.location?.lng() || 0,
-                category: place.types?.[0] || null,
-              };
-
-              // Insert the business
-              const { data: insertedBusiness, error: insertError } = await supabase
-                .from('businesses')
-                .insert(businessData)
-                .select('id')
-                .single();
-
-              if (insertError) {
-                throw new Error(`Error creating business: ${insertError.message}`);
-              }
-
-              businessId = insertedBusiness?.id || null;
-            } else {
-              // Use the first matching business
-              businessId = existingBusinesses[0].id;
-            }
+                placeId: place.place_id || prediction.place_id,
+                location: {
+                  lat: place.geometry?.location?.lat() || 0,
+                  lng: place.geometry?.location?.lng() || 0,
+                },
+                category: place.types?.[0],
+              }),
+            });
 
-            if (!businessId) {
-              throw new Error('Failed to get or create business ID');
+            if (!response.ok) {
+              throw new Error(`Error saving business: ${response.status}`);
             }
 
             toast({
@@ -1498,19 +1608,13 @@ export function NewGeoGridSearch() {
       // Get real search terms from Supabase
       const fetchSearchTerms = async () => {
         try {
-          const { data, error } = await supabase
-            .from("grid_results")
-            .select("search_term")
-            .order("created_at", { ascending: false })
-            .limit(20)
-
-          if (error) {
-            console.error("Error fetching search terms:", error)
+          const response = await fetch("/api/grid-results/search-terms")
+          if (!response.ok) {
+            console.error("Error fetching search terms:", response.status)
             return
           }
 
-          // Extract unique search terms
-          const terms = [...new Set(data.map((item) => item.search_term))]
+          const terms: string[] = await response.json()
 
           if (terms.length > 0) {
             // Filter terms based on business category if available
@@ -1539,7 +1643,7 @@ export function NewGeoGridSearch() {
 
       fetchSearchTerms()
     }
-  }, [selectedBusiness, searchTerm, supabase])
+  }, [selectedBusiness, searchTerm])
 
   // Search for businesses using Google Places API
   const searchBusinesses = async () => {
@@ -1836,23 +1940,19 @@ export function NewGeoGridSearch() {
     setIsLoadingGbp(true)
     try {
       // Fetch real business listings from Supabase
-      const { data, error } = await supabase.from("businesses").select("*").order("id", { ascending: false }).limit(10)
-
-      if (error) {
-        console.error("Error fetching GBP listings:", error)
-        throw error
+      const response = await fetch("/api/businesses")
+      if (!response.ok) {
+        throw new Error(`Error fetching GBP listings: ${response.status}`)
       }
+      const data: GridResult["businessInfo"][] = await response.json()
 
       if (data && data.length > 0) {
         // Convert to BusinessInfo format
         const listings: BusinessInfo[] = data.map((business) => ({
           name: business.name,
           address: business.address,
-          placeId: business.place_id,
-          location: {
-            lat: Number(business.lat),
-            lng: Number(business.lng),
-          },
+          placeId: business.placeId,
+          location: business.location,
           category: business.category,
           verified: true, // Assume all businesses in our database are verified
           keywords: [], // Add missing required properties
@@ -1949,174 +2049,98 @@ export function NewGeoGridSearch() {
       return
     }
 
+    if (gridShape === "polygon" && !serviceArea) {
+      alert("Please draw or import a service area for the grid")
+      return
+    }
+
+    // Several comma separated keywords are scanned together as one scan set
+    const keywords = searchTerm.split(",").map((keyword) => keyword.trim()).filter(Boolean)
+    if (keywords.length > 1) {
+      await startScanSet(keywords)
+      return
+    }
+
     setIsSearching(true)
     setSearchProgress(0)
     setLoadingStep("Initializing search...")
 
     try {
-      // Simulate search progress
-      const updateProgress = () => {
-        setSearchProgress((prev) => {
-          const newProgress = prev + Math.random() * 15
-          return newProgress > 100 ? 100 : newProgress
-        })
-      }
-
-      // Step 1: Initialize
-      updateProgress()
-      await new Promise((resolve) => setTimeout(resolve, 800))
-      setLoadingStep("Analyzing business location...")
-
-      // Step 2: Analyze location
-      updateProgress()
-      await new Promise((resolve) => setTimeout(resolve, 1000))
-      setLoadingStep("Generating grid points...")
-
-      // Step 3: Generate grid
-      updateProgress()
-      await new Promise((resolve) => setTimeout(resolve, 1200))
-      setLoadingStep("Fetching search rankings...")
-
-      // Generate grid points
       const currentGridSize = Number.parseInt(gridSize.split("x")[0])
-      const gridPoints = generateGridPoints(
-        typeof selectedBusiness.location === 'object' ? selectedBusiness.location : { lat: 47.6062, lng: -122.3321 },
-        currentGridSize,
-        Number.parseFloat(gridDistance)
-      )
 
-      // Ensure gridPoints is not undefined before using it
-      if (!gridPoints || gridPoints.length === 0) {
-        throw new Error("Failed to generate grid points");
+      // Enqueue the scan on the server so it keeps running if this tab is closed
+      const response = await fetch("/api/scans", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          businessInfo: {
+            name: selectedBusiness.name,
+            address: selectedBusiness.address,
+            location: typeof selectedBusiness.location === 'object' ? selectedBusiness.location : { lat: 47.6062, lng: -122.3321 },
+            placeId: selectedBusiness.placeId,
+            category: selectedBusiness.category
+          },
+          searchTerm,
+          gridSize,
+          distanceKm: Number.parseFloat(gridDistance),
+          googleRegion,
+          shape: gridShape,
+          polygon: gridShape === "polygon" ? serviceArea : null,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
       }
 
-      // Step 4: Fetch real rankings
-      updateProgress()
-      const rankings = await fetchRankingData(
-        searchTerm,
-        selectedBusiness.name,
-        gridPoints
-      )
+      let job = await response.json()
 
-      // Convert rankings to grid format
-      const gridData = Array(currentGridSize)
-        .fill(0)
-        .map((_, rowIndex) =>
-          Array(currentGridSize)
-            .fill(0)
-            .map((_, colIndex) => {
-              const index = rowIndex * currentGridSize + colIndex
-              return rankings[index] || 21
-            })
+      // Poll the job for real progress until every grid point has been scanned
+      while (job.status === "queued" || job.status === "running") {
+        setSearchProgress(job.progress)
+        setLoadingStep(
+          job.status === "queued"
+            ? "Waiting for the scan to start..."
+            : `Fetching search rankings (${job.completedPoints + job.failedPoints} of ${job.totalPoints} points)...`
         )
 
-      // Step 5: Calculate metrics
-      updateProgress()
-      setLoadingStep("Calculating metrics...")
-      await new Promise((resolve) => setTimeout(resolve, 1000))
-
-      // Calculate metrics
-      const flattenedValues = gridData.flat()
-      const avgRanking = flattenedValues.reduce((sum, val) => sum + (val > 20 ? 21 : val), 0) / flattenedValues.length
-      const topRankings = flattenedValues.filter((val) => val <= 20)
-      const avgTopRanking =
-        topRankings.length > 0 ? topRankings.reduce((sum, val) => sum + val, 0) / topRankings.length : 0
-      
-      // Standard SoLV calculation - percentage of places where business appears in top 10 results
-      const solvPercentage = Math.round(
-        (flattenedValues.filter((val) => val <= 10).length / flattenedValues.length) * 100
-      );
-
-      // Function to fetch and display nearby businesses for a grid point
-      const showNearbyBusinesses = async (lat: number, lng: number, gridIndex: number) => {
-        try {
-          const response = await fetch('/api/places-search', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              query: searchTerm || 'restaurant', // Use current search term or default
-              location: { lat, lng },
-              radius: 1000, // 1km radius to show nearby businesses
-            }),
-          });
-
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-
-          const data = await response.json();
-          if (!data.results || data.results.length === 0) {
-            return `<div class="p-3">
-              <h3 class="font-bold">Grid Location</h3>
-              <p class="text-sm mt-1">No businesses found for "${searchTerm || 'restaurant'}"</p>
-              <p class="text-xs mt-2">Coordinates: ${lat.toFixed(5)}, ${lng.toFixed(5)}</p>
-              <p class="text-xs">Distance: ${gridDistance}km from center</p>
-            </div>`;
-          }
-
-          // Find the selected business in the results
-          const businessIndex = data.results.findIndex(
-            (result: any) => selectedBusiness && result.name.toLowerCase().includes(selectedBusiness.name.toLowerCase())
-          );
+        await new Promise((resolve) => setTimeout(resolve, SCAN_POLL_INTERVAL_MS))
 
-          let content = `<div class="p-3">
-            <h3 class="font-bold">Grid Location</h3>
-            <p class="text-sm mt-1">Search: "${searchTerm || 'restaurant'}"</p>
-            <p class="text-xs mb-2">Coordinates: ${lat.toFixed(5)}, ${lng.toFixed(5)}</p>
-            <div class="border-t pt-2">
-              <h4 class="font-bold text-sm">Top Results:</h4>
-              <ul class="mt-1 space-y-1 text-xs">`;
-
-          // Show top 5 results
-          const topResults = data.results.slice(0, 5);
-          topResults.forEach((place: any, idx: number) => {
-            const isTarget = selectedBusiness && place.name.toLowerCase().includes(selectedBusiness.name.toLowerCase());
-            content += `<li class="${isTarget ? 'font-bold text-blue-600' : ''}">${idx + 1}. ${place.name} ${isTarget ? '(Your Business)' : ''}</li>`;
-          });
+        const statusResponse = await fetch(`/api/scans/${job.id}`)
+        if (!statusResponse.ok) {
+          throw new Error(`HTTP error! status: ${statusResponse.status}`)
+        }
+        job = await statusResponse.json()
+      }
 
-          content += `</ul>`;
+      if (job.status !== "completed" || !job.gridResultId) {
+        throw new Error(job.error || "Scan did not complete")
+      }
 
-          // Add business ranking info
-          if (selectedBusiness) {
-            if (businessIndex >= 0) {
-              content += `<p class="mt-2 font-bold text-sm">${selectedBusiness.name} ranks #${businessIndex + 1} here</p>`;
-            } else {
-              content += `<p class="mt-2 text-sm">${selectedBusiness.name} not found in top 20 results</p>`;
-            }
-          }
+      setSearchProgress(100)
+      setLoadingStep("Loading results...")
 
-          content += `</div>`;
-          return content;
+      const resultResponse = await fetch(`/api/grid-results?id=${job.gridResultId}`)
+      if (!resultResponse.ok) {
+        throw new Error(`HTTP error! status: ${resultResponse.status}`)
+      }
 
-        } catch (error) {
-          console.error('Error fetching nearby businesses:', error);
-          return `<div class="p-3">
-            <h3 class="font-bold">Grid Location</h3>
-            <p class="text-sm text-red-600">Error loading data</p>
-            <p class="text-xs mt-2">Coordinates: ${lat.toFixed(5)}, ${lng.toFixed(5)}</p>
-          </div>`;
-        }
-      };
+      const result = await resultResponse.json()
+      const gridData: number[][] = result.gridData
 
       // Update the grid markers with ranking information
       if (gridOverlay && gridOverlay.length > 0) {
-        let markerIndex = 0;
+        const markersByIndex = new Map(gridOverlay.map((marker) => [(marker as any).gridIndex, marker]));
         for (let i = 0; i < currentGridSize; i++) {
           for (let j = 0; j < currentGridSize; j++) {
-            // Skip center marker
-            if (i === Math.floor(currentGridSize / 2) && j === Math.floor(currentGridSize / 2)) {
-              markerIndex++;
-              continue;
-            }
-            
-            // Get the marker and ranking
-            const marker = gridOverlay[markerIndex];
-            const ranking = gridData[i][j];
+            // Get the marker and ranking; the center marker and cells outside the shape have none
+            const marker = markersByIndex.get(i * currentGridSize + j);
+            const ranking = gridData[i]?.[j];
             
             // Update marker appearance based on ranking
-            if (marker) {
+            if (marker && ranking) {
               // Use rank icon images instead of generating styles
               let iconFile;
               let size = 32; // Default size for the icon images
@@ -2153,42 +2177,10 @@ export function NewGeoGridSearch() {
               // Add custom data to each marker to store its ranking
               (marker as any).businessRanking = ranking;
             }
-            
-            markerIndex++;
           }
         }
       }
 
-      // Save the result to database
-      if (!selectedBusiness?.location) {
-        throw new Error("Business location is required");
-      }
-      
-      // Create the result object
-      const result = await saveGridResult({
-        businessInfo: {
-          name: selectedBusiness.name,
-          address: selectedBusiness.address,
-          location: typeof selectedBusiness.location === 'object' ? selectedBusiness.location : { lat: 47.6062, lng: -122.3321 },
-          placeId: selectedBusiness.placeId,
-          category: selectedBusiness.category
-        },
-        searchTerm,
-        createdAt: new Date().toISOString(),
-        gridSize: gridSize,
-        gridData,
-        metrics: {
-          agr: avgRanking,
-          atgr: avgTopRanking,
-          solv: `${solvPercentage}%`,
-          averageRank: avgRanking,
-          visibilityPercentage: solvPercentage,
-          top20AverageRank: avgTopRanking
-        },
-        googleRegion,
-        distanceKm: Number.parseFloat(gridDistance)
-      });
-      
       // Reset the search term after successful search completion
       setSearchTerm("");
       
@@ -2216,16 +2208,199 @@ export function NewGeoGridSearch() {
     }
   }
 
+  // Enqueue one scan per keyword and open the scan set report, which follows its progress
+  const startScanSet = async (keywords: string[]) => {
+    if (!selectedBusiness?.location || typeof selectedBusiness.location !== "object") return
+
+    setIsSearching(true)
+    setLoadingStep("Starting keyword scans...")
+
+    try {
+      const response = await fetch("/api/scan-sets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          businessInfo: {
+            name: selectedBusiness.name,
+            address: selectedBusiness.address,
+            location: selectedBusiness.location,
+            placeId: selectedBusiness.placeId,
+            category: selectedBusiness.category,
+          },
+          keywords,
+          gridSize,
+          distanceKm: Number.parseFloat(gridDistance),
+          googleRegion,
+          shape: gridShape,
+          polygon: gridShape === "polygon" ? serviceArea : null,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`)
+      }
+
+      setSearchTerm("")
+      router.push(`/scan-sets/${data.id}`)
+    } catch (error) {
+      console.error("Error starting scan set:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start the keyword scans.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const loadGridConfigs = async () => {
+    try {
+      const response = await fetch("/api/grid-configs")
+      if (!response.ok) {
+        throw new Error(`Error fetching grid configurations: ${response.status}`)
+      }
+      setGridConfigs(await response.json())
+    } catch (error) {
+      console.error("Error loading grid configurations:", error)
+      setGridConfigs([])
+    }
+  }
+
+  useEffect(() => {
+    loadGridConfigs()
+  }, [])
+
+  // Copy a saved configuration into the search form
+  const applyConfig = (config: GridConfigProfile) => {
+    setSelectedConfig(config.id)
+    setGridSize(config.gridSize)
+    setGridDistance(String(config.distanceKm))
+    setGoogleRegion(config.googleRegion)
+    setGridShape(config.shape)
+    setServiceArea(config.polygon)
+    if (config.keywords.length > 0) {
+      setSearchTerm(config.keywords.join(", "))
+    }
+    if (config.businessInfo) {
+      setSelectedBusiness({
+        ...config.businessInfo,
+        keywords: config.keywords,
+        businessType: config.businessInfo.category || "local business",
+        serviceRadius: 50,
+      })
+      setBusinessSearchQuery(config.businessInfo.name)
+    }
+  }
+
+  // Open the configuration editor, pre-filled from `config` or from the current search form
+  const openConfigEditor = (config?: GridConfigProfile) => {
+    setEditingConfigId(config?.id ?? null)
+    setConfigName(config?.name ?? "")
+    setConfigKeywords((config?.keywords ?? (searchTerm ? [searchTerm] : [])).join(", "))
+    setConfigIncludeBusiness(Boolean(config?.businessInfo))
+    if (config) {
+      setGridSize(config.gridSize)
+      setGridDistance(String(config.distanceKm))
+      setGoogleRegion(config.googleRegion)
+      setGridShape(config.shape)
+      setServiceArea(config.polygon)
+    }
+    setActiveTab("edit-config")
+  }
+
   // Save config
-  const saveConfig = () => {
+  const saveConfig = async () => {
     if (!configName.trim()) {
       alert("Please enter a configuration name")
       return
     }
 
-    alert(`Configuration "${configName}" saved successfully!`)
-    setConfigName("")
-    setShowSettingsDialog(false)
+    const existing = gridConfigs.find((config) => config.id === editingConfigId)
+    const businessInfo =
+      configIncludeBusiness && selectedBusiness && typeof selectedBusiness.location === "object"
+        ? {
+            name: selectedBusiness.name,
+            address: selectedBusiness.address,
+            location: selectedBusiness.location,
+            placeId: selectedBusiness.placeId,
+            category: selectedBusiness.category,
+          }
+        : configIncludeBusiness
+          ? existing?.businessInfo ?? null
+          : null
+
+    setIsSavingConfig(true)
+    try {
+      const response = await fetch(editingConfigId ? `/api/grid-configs/${editingConfigId}` : "/api/grid-configs", {
+        method: editingConfigId ? "PATCH" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: configName,
+          gridSize,
+          distanceKm: Number.parseFloat(gridDistance),
+          googleRegion,
+          shape: gridShape,
+          polygon: gridShape === "polygon" ? serviceArea : null,
+          keywords: configKeywords
+            .split(",")
+            .map((keyword) => keyword.trim())
+            .filter(Boolean),
+          businessInfo,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error saving grid configuration: ${response.status}`)
+      }
+
+      setGridConfigs((prev) =>
+        editingConfigId ? prev.map((config) => (config.id === data.id ? data : config)) : [...prev, data]
+      )
+      setSelectedConfig(data.id)
+      toast({
+        title: "Configuration saved",
+        description: `"${data.name}" is available when launching a scan.`,
+      })
+      setConfigName("")
+      setEditingConfigId(null)
+      setActiveTab("config-geogrids")
+    } catch (error) {
+      console.error("Error saving grid configuration:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the configuration.",
+        variant: "destructive"
+      })
+    } finally {
+      setIsSavingConfig(false)
+    }
+  }
+
+  const deleteConfig = async (config: GridConfigProfile) => {
+    if (!window.confirm(`Delete the configuration "${config.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/grid-configs/${config.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error(`Error deleting grid configuration: ${response.status}`)
+      }
+      setGridConfigs((prev) => prev.filter((item) => item.id !== config.id))
+      if (selectedConfig === config.id) {
+        setSelectedConfig(null)
+      }
+    } catch (error) {
+      console.error("Error deleting grid configuration:", error)
+      toast({
+        title: "Error",
+        description: "Failed to delete the configuration.",
+        variant: "destructive"
+      })
+    }
   }
 
   // Render different business source inputs based on selection
@@ -2815,7 +2990,7 @@ export function NewGeoGridSearch() {
                   )}
 
                   <Input
-                    placeholder="Enter a search term (e.g. 'Pizza', 'Plumber', 'Coffee shop')"
+                    placeholder="Enter a search term, or several separated by commas (e.g. 'Pizza, Pizza delivery')"
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="shadow-sm"
@@ -2841,15 +3016,50 @@ export function NewGeoGridSearch() {
                   </RadioGroup>
                 </div>
 
+                <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-md gradient-border">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center">
+                      <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center mr-3">
+                        <Settings className="h-4 w-4 text-blue-600" />
+                      </div>
+                      <h3 className="text-lg font-semibold">Configuration</h3>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => setActiveTab("config-geogrids")}>
+                      Manage
+                    </Button>
+                  </div>
+                  <Select
+                    value={selectedConfig ?? ""}
+                    onValueChange={(value) => {
+                      const config = gridConfigs.find((item) => item.id === value)
+                      if (config) applyConfig(config)
+                    }}
+                  >
+                    <SelectTrigger className="w-full border border-gray-300 shadow-sm">
+                      <SelectValue placeholder={gridConfigs.length > 0 ? "Use a saved configuration" : "No saved configurations"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {gridConfigs.map((config) => (
+                        <SelectItem key={config.id} value={config.id}>
+                          {config.name} ({config.gridSize}, {config.distanceKm}km)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <Button
                   className="w-full bg-blue-600 hover:bg-blue-700 border border-blue-700"
                   size="lg"
                   onClick={startGeoGridSearch}
-                  disabled={!selectedBusiness || !searchTerm}
+                  disabled={!can("runScans") || !selectedBusiness || !searchTerm || (gridShape === "polygon" && !serviceArea)}
                 >
                   <Search className="mr-2 h-4 w-4" />
                   Search
                 </Button>
+                {!can("runScans") && (
+                  <p className="text-xs text-gray-500 text-center">Your role in this workspace can view scans but not run them.</p>
+                )}
               </div>
 
               <div className="lg:col-span-2">
@@ -2930,7 +3140,51 @@ export function NewGeoGridSearch() {
                             ))}
                           </DropdownMenuContent>
                         </DropdownMenu>
+
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="bg-white/90 backdrop-blur-sm border border-gray-200 shadow-sm"
+                            >
+                              <Hexagon className="h-4 w-4 mr-2" />
+                              Shape: {GRID_SHAPE_LABELS[gridShape]}
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent className="w-56">
+                            {GRID_SHAPES.filter((shape) => shape !== "polygon" || serviceArea).map((shape) => (
+                              <DropdownMenuItem
+                                key={shape}
+                                onClick={() => setGridShape(shape)}
+                                className="flex items-center justify-between"
+                              >
+                                {GRID_SHAPE_LABELS[shape]}
+                                {gridShape === shape && <Check className="h-4 w-4 text-blue-500" />}
+                              </DropdownMenuItem>
+                            ))}
+                            <DropdownMenuItem onClick={startDrawingArea} disabled={!mapLoaded}>
+                              <Edit className="h-4 w-4 mr-2" />
+                              Draw service area
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => geoJsonInputRef.current?.click()}>
+                              <Upload className="h-4 w-4 mr-2" />
+                              Import GeoJSON boundary
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                       </div>
+                      {isDrawingArea && (
+                        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-white rounded-md border border-gray-200 shadow-md p-3 flex items-center gap-3">
+                          <span className="text-sm text-gray-700">Click the map to add corners, drag them to adjust.</span>
+                          <Button size="sm" variant="outline" onClick={cancelDrawingArea}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" className="bg-blue-600 hover:bg-blue-700" onClick={finishDrawingArea}>
+                            Done
+                          </Button>
+                        </div>
+                      )}
                       <div ref={mapRef} className="w-full h-full" />
                     </>
                   )}
@@ -3018,15 +3272,35 @@ export function NewGeoGridSearch() {
                         View Details
                       </Button>
                       <div className="flex space-x-1">
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                          <Repeat className="h-4 w-4" />
-                        </Button>
+                        {can("runScans") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            title="Repeat on a schedule"
+                            onClick={() =>
+                              setScheduleTarget({
+                                businessInfo: result.businessInfo,
+                                searchTerm: result.searchTerm,
+                                gridSize: result.gridSize,
+                                distanceKm: result.distanceKm,
+                                googleRegion: result.googleRegion,
+                                shape: result.shape,
+                                polygon: result.polygon,
+                              })
+                            }
+                          >
+                            <Repeat className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
                           <Download className="h-4 w-4" />
                         </Button>
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-red-500">
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {can("deleteScans") && (
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-red-500">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </CardFooter>
                   </Card>
@@ -3045,112 +3319,113 @@ export function NewGeoGridSearch() {
                 </div>
                 <h3 className="text-xl font-semibold">Saved Configurations</h3>
               </div>
-              <Button className="bg-blue-600 hover:bg-blue-700 border border-blue-700">
-                <Plus className="h-4 w-4 mr-2" />
-                New Configuration
-              </Button>
+              {can("manageConfigs") && (
+                <Button
+                  className="bg-blue-600 hover:bg-blue-700 border border-blue-700"
+                  onClick={() => openConfigEditor()}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Configuration
+                </Button>
+              )}
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {/* Default Configuration */}
-              <Card className={`border ${selectedConfig === "default" ? "border-blue-500" : "border-gray-200"}`}>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-lg">Default Configuration</CardTitle>
-                  <CardDescription>Standard 13x13 grid with 2.5km spacing</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Grid Size:</span>
-                      <span className="font-medium">13x13</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Distance:</span>
-                      <span className="font-medium">2.5 km</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Region:</span>
-                      <span className="font-medium">Global</span>
-                    </div>
-                  </div>
-                </CardContent>
-                <CardFooter className="pt-0">
-                  <Button
-                    variant="outline"
-                    className="w-full border border-blue-200"
-                    onClick={() => setSelectedConfig("default")}
-                  >
-                    {selectedConfig === "default" ? "Selected" : "Select"}
-                  </Button>
-                </CardFooter>
-              </Card>
-
-              {/* Custom Configuration 1 */}
-              <Card className={`border ${selectedConfig === "custom1" ? "border-blue-500" : "border-gray-200"}`}>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-lg">Dense Grid</CardTitle>
-                  <CardDescription>High-density 21x21 grid with 1km spacing</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Grid Size:</span>
-                      <span className="font-medium">21x21</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Distance:</span>
-                      <span className="font-medium">1 km</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Region:</span>
-                      <span className="font-medium">Local</span>
-                    </div>
-                  </div>
-                </CardContent>
-                <CardFooter className="pt-0">
-                  <Button
-                    variant="outline"
-                    className="w-full border border-blue-200"
-                    onClick={() => setSelectedConfig("custom1")}
-                  >
-                    {selectedConfig === "custom1" ? "Selected" : "Select"}
-                  </Button>
-                </CardFooter>
-              </Card>
-
-              {/* Custom Configuration 2 */}
-              <Card className={`border ${selectedConfig === "custom2" ? "border-blue-500" : "border-gray-200"}`}>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-lg">Wide Area</CardTitle>
-                  <CardDescription>9x9 grid with 5km spacing for broader coverage</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Grid Size:</span>
-                      <span className="font-medium">9x9</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Distance:</span>
-                      <span className="font-medium">5 km</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Region:</span>
-                      <span className="font-medium">Global</span>
-                    </div>
-                  </div>
-                </CardContent>
-                <CardFooter className="pt-0">
-                  <Button
-                    variant="outline"
-                    className="w-full border border-blue-200"
-                    onClick={() => setSelectedConfig("custom2")}
+            {gridConfigs.length === 0 ? (
+              <div className="text-center py-12">
+                <Settings className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+                <h4 className="text-lg font-medium text-gray-700 mb-2">No saved configurations yet</h4>
+                <p className="text-gray-500">
+                  Save a grid size, distance, region and keyword set to reuse them for scans and schedules
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {gridConfigs.map((config) => (
+                  <Card
+                    key={config.id}
+                    className={`border ${selectedConfig === config.id ? "border-blue-500" : "border-gray-200"}`}
                   >
-                    {selectedConfig === "custom2" ? "Selected" : "Select"}
-                  </Button>
-                </CardFooter>
-              </Card>
-            </div>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-start justify-between">
+                        <CardTitle className="text-lg">{config.name}</CardTitle>
+                        {can("manageConfigs") && (
+                          <div className="flex space-x-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              title="Edit"
+                              onClick={() => openConfigEditor(config)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0 text-red-500"
+                              title="Delete"
+                              onClick={() => deleteConfig(config)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                      <CardDescription>
+                        {config.gridSize} grid with {config.distanceKm}km spacing
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-500">Grid Size:</span>
+                          <span className="font-medium">{config.gridSize}</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-500">Distance:</span>
+                          <span className="font-medium">{config.distanceKm} km</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-500">Shape:</span>
+                          <span className="font-medium">{GRID_SHAPE_LABELS[config.shape] ?? config.shape}</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-500">Region:</span>
+                          <span className="font-medium capitalize">{config.googleRegion}</span>
+                        </div>
+                        {config.businessInfo && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-500">Business:</span>
+                            <span className="font-medium truncate ml-2">{config.businessInfo.name}</span>
+                          </div>
+                        )}
+                        {config.keywords.length > 0 && (
+                          <div className="flex flex-wrap gap-1 pt-1">
+                            {config.keywords.map((keyword) => (
+                              <Badge key={keyword} variant="secondary">
+                                {keyword}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </CardContent>
+                    <CardFooter className="pt-0">
+                      <Button
+                        variant="outline"
+                        className="w-full border border-blue-200"
+                        onClick={() => {
+                          applyConfig(config)
+                          handleTabChange("new-geogrid")
+                        }}
+                      >
+                        {selectedConfig === config.id ? "Selected" : "Select"}
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                ))}
+              </div>
+            )}
           </div>
         </TabsContent>
 
@@ -3160,7 +3435,7 @@ export function NewGeoGridSearch() {
               <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center mr-3">
                 <Edit className="h-5 w-5 text-blue-600" />
               </div>
-              <h3 className="text-xl font-semibold">Edit Configuration</h3>
+              <h3 className="text-xl font-semibold">{editingConfigId ? "Edit Configuration" : "New Configuration"}</h3>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -3178,6 +3453,19 @@ export function NewGeoGridSearch() {
                   />
                 </div>
 
+                <div>
+                  <Label htmlFor="config-keywords" className="text-sm font-medium mb-1.5 block">
+                    Keywords
+                  </Label>
+                  <Input
+                    id="config-keywords"
+                    placeholder="Comma separated, e.g. pizza, pizza delivery"
+                    value={configKeywords}
+                    onChange={(e) => setConfigKeywords(e.target.value)}
+                    className="shadow-sm"
+                  />
+                </div>
+
                 <div>
                   <Label htmlFor="grid-size" className="text-sm font-medium mb-1.5 block">
                     Grid Size
@@ -3220,6 +3508,33 @@ export function NewGeoGridSearch() {
                   </Select>
                 </div>
 
+                <div>
+                  <Label htmlFor="grid-shape" className="text-sm font-medium mb-1.5 block">
+                    Grid Shape
+                  </Label>
+                  <Select value={gridShape} onValueChange={(value) => setGridShape(value as GridShape)}>
+                    <SelectTrigger id="grid-shape" className="w-full border border-gray-300 shadow-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GRID_SHAPES.map((shape) => (
+                        <SelectItem key={shape} value={shape}>
+                          {GRID_SHAPE_LABELS[shape]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {gridShape === "polygon" && (
+                    <div className="mt-2 flex items-center justify-between text-sm text-gray-600">
+                      <span>{serviceArea ? "Service area set" : "No service area yet"}</span>
+                      <Button variant="outline" size="sm" onClick={() => geoJsonInputRef.current?.click()}>
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import GeoJSON
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
                 <div>
                   <Label className="text-sm font-medium mb-1.5 block">Google Region</Label>
                   <RadioGroup value={googleRegion} onValueChange={setGoogleRegion} className="flex space-x-4">
@@ -3237,6 +3552,17 @@ export function NewGeoGridSearch() {
                 <div className="pt-4">
                   <Label className="text-sm font-medium mb-1.5 block">Advanced Options</Label>
                   <div className="space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="config-business"
+                        checked={configIncludeBusiness}
+                        disabled={!selectedBusiness && !gridConfigs.find((config) => config.id === editingConfigId)?.businessInfo}
+                        onCheckedChange={(checked) => setConfigIncludeBusiness(checked === true)}
+                      />
+                      <Label htmlFor="config-business" className="text-sm">
+                        Save {selectedBusiness ? selectedBusiness.name : "the selected business"} with this configuration
+                      </Label>
+                    </div>
                     <div className="flex items-center space-x-2">
                       <Checkbox id="save-results" />
                       <Label htmlFor="save-results" className="text-sm">
@@ -3335,14 +3661,22 @@ export function NewGeoGridSearch() {
             </div>
 
             <div className="flex justify-end mt-6 space-x-3">
-              <Button variant="outline" className="border border-gray-300">
+              <Button
+                variant="outline"
+                className="border border-gray-300"
+                onClick={() => {
+                  setEditingConfigId(null)
+                  setActiveTab("config-geogrids")
+                }}
+              >
                 Cancel
               </Button>
               <Button
                 className="bg-blue-600 hover:bg-blue-700 border border-blue-700"
                 onClick={saveConfig}
-                disabled={!configName.trim()}
+                disabled={!configName.trim() || isSavingConfig}
               >
+                {isSavingConfig && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Save Configuration
               </Button>
             </div>
@@ -3350,6 +3684,27 @@ export function NewGeoGridSearch() {
         </TabsContent>
       </Tabs>
 
+      {/* Shared by the map toolbar and the configuration editor */}
+      <input
+        ref={geoJsonInputRef}
+        type="file"
+        accept=".geojson,.json,application/geo+json,application/json"
+        className="hidden"
+        onChange={handleGeoJsonImport}
+      />
+
+      <ScheduleScanDialog
+        open={scheduleTarget !== null}
+        onOpenChange={(open) => !open && setScheduleTarget(null)}
+        scan={scheduleTarget}
+        onSaved={(schedule) =>
+          toast({
+            title: "Schedule saved",
+            description: `Next scan: ${new Date(schedule.nextRunAt).toLocaleString()}`,
+          })
+        }
+      />
+
       {/* Help Dialog */}
       <Dialog open={showHelpDialog} onOpenChange={setShowHelpDialog}>
         <DialogContent className="max-w-2xl">
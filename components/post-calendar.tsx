@@ -0,0 +1,315 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ChevronLeft, ChevronRight, Loader2, Send, Trash2 } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useWorkspace } from "@/hooks/use-workspace"
+import { POST_TYPE_LABELS, type BusinessPost, type PostStatus } from "@/lib/business-posts"
+
+const STATUS_LABELS: Record<PostStatus, string> = {
+  scheduled: "Scheduled",
+  publishing: "Publishing",
+  published: "Published",
+  failed: "Failed",
+}
+
+const STATUS_CLASSES: Record<PostStatus, string> = {
+  scheduled: "bg-blue-100 text-blue-700",
+  publishing: "bg-amber-100 text-amber-700",
+  published: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+// Value for a datetime-local input, in the browser's time zone
+export function toDateTimeInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return local.toISOString().slice(0, 16)
+}
+
+function sameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+}
+
+interface PostCalendarProps {
+  // Changed by the composer to reload the calendar after scheduling posts
+  refreshKey: number
+}
+
+export function PostCalendar({ refreshKey }: PostCalendarProps) {
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+  const [month, setMonth] = useState(() => {
+    const now = new Date()
+    return new Date(now.getFullYear(), now.getMonth(), 1)
+  })
+  const [posts, setPosts] = useState<BusinessPost[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [selectedPost, setSelectedPost] = useState<BusinessPost | null>(null)
+  const [rescheduleAt, setRescheduleAt] = useState("")
+  const [pendingAction, setPendingAction] = useState<"publish" | "reschedule" | "delete" | null>(null)
+
+  const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 1)
+
+  useEffect(() => {
+    const loadPosts = async () => {
+      setIsLoading(true)
+      try {
+        const to = new Date(month.getFullYear(), month.getMonth() + 1, 1)
+        const params = new URLSearchParams({ from: month.toISOString(), to: to.toISOString() })
+        const response = await fetch(`/api/posts?${params}`)
+        if (!response.ok) {
+          throw new Error(`Error fetching posts: ${response.status}`)
+        }
+        setPosts(await response.json())
+      } catch (error) {
+        console.error("Error loading posts:", error)
+        setPosts([])
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadPosts()
+  }, [month, refreshKey])
+
+  const openPost = (post: BusinessPost) => {
+    setSelectedPost(post)
+    setRescheduleAt(toDateTimeInput(new Date(post.scheduledAt)))
+  }
+
+  // Replace the post on the calendar, or drop it if it moved out of the month
+  const applyPost = (post: BusinessPost) => {
+    const scheduledAt = new Date(post.scheduledAt)
+    setPosts((prev) => {
+      const others = prev.filter((existing) => existing.id !== post.id)
+      return scheduledAt >= month && scheduledAt < monthEnd
+        ? [...others, post].sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt))
+        : others
+    })
+    setSelectedPost(post)
+  }
+
+  const runAction = async (action: "publish" | "reschedule" | "delete") => {
+    if (!selectedPost) return
+
+    setPendingAction(action)
+    try {
+      const response = await fetch(
+        action === "publish" ? `/api/posts/${selectedPost.id}/publish` : `/api/posts/${selectedPost.id}`,
+        action === "publish"
+          ? { method: "POST" }
+          : action === "delete"
+            ? { method: "DELETE" }
+            : {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ scheduledAt: new Date(rescheduleAt).toISOString() }),
+              }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error updating post: ${response.status}`)
+      }
+
+      if (action === "delete") {
+        setPosts((prev) => prev.filter((post) => post.id !== selectedPost.id))
+        setSelectedPost(null)
+      } else {
+        applyPost(data)
+        if (action === "publish" && data.status === "failed") {
+          toast({ title: "Not published", description: data.error, variant: "destructive" })
+        }
+      }
+    } catch (error) {
+      console.error(`Error with post action ${action}:`, error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the post.",
+        variant: "destructive",
+      })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  // Sunday-first weeks covering the month
+  const firstCell = new Date(month.getFullYear(), month.getMonth(), 1 - month.getDay())
+  const cellCount = Math.ceil((month.getDay() + new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()) / 7) * 7
+  const days = Array.from(
+    { length: cellCount },
+    (_, index) => new Date(firstCell.getFullYear(), firstCell.getMonth(), firstCell.getDate() + index)
+  )
+  const today = new Date()
+  const canEdit = can("managePosts") && selectedPost !== null && (selectedPost.status === "scheduled" || selectedPost.status === "failed")
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+          {month.toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+          {isLoading && <Loader2 className="h-4 w-4 ml-2 animate-spin text-blue-600" />}
+        </h2>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+            aria-label="Previous month"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setMonth(new Date(today.getFullYear(), today.getMonth(), 1))}
+          >
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+            aria-label="Next month"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 border-b border-gray-200 bg-gray-50 text-xs font-medium text-gray-500">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="px-2 py-2">
+            {weekday}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map((day) => {
+          const dayPosts = posts.filter((post) => sameDay(new Date(post.scheduledAt), day))
+          const inMonth = day.getMonth() === month.getMonth()
+
+          return (
+            <div
+              key={day.toISOString()}
+              className={`min-h-28 border-b border-r border-gray-100 p-1 ${inMonth ? "" : "bg-gray-50 text-gray-400"}`}
+            >
+              <div
+                className={`text-xs mb-1 px-1 ${sameDay(day, today) ? "font-bold text-blue-600" : "text-gray-500"}`}
+              >
+                {day.getDate()}
+              </div>
+              <div className="space-y-1">
+                {dayPosts.map((post) => (
+                  <button
+                    key={post.id}
+                    type="button"
+                    onClick={() => openPost(post)}
+                    className={`w-full text-left rounded px-1.5 py-1 text-xs truncate ${STATUS_CLASSES[post.status]}`}
+                    title={`${post.locationName}: ${post.title || post.summary}`}
+                  >
+                    {new Date(post.scheduledAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}{" "}
+                    {post.locationName}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <Dialog open={selectedPost !== null} onOpenChange={(open) => !open && setSelectedPost(null)}>
+        {selectedPost && (
+          <DialogContent className="sm:max-w-[520px]">
+            <DialogHeader>
+              <DialogTitle>
+                {POST_TYPE_LABELS[selectedPost.type]} for {selectedPost.locationName}
+              </DialogTitle>
+              <DialogDescription>
+                {selectedPost.status === "published" && selectedPost.publishedAt
+                  ? `Published ${new Date(selectedPost.publishedAt).toLocaleString()}`
+                  : `Scheduled for ${new Date(selectedPost.scheduledAt).toLocaleString()}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3">
+              <Badge variant="outline" className={`border-transparent ${STATUS_CLASSES[selectedPost.status]}`}>
+                {STATUS_LABELS[selectedPost.status]}
+              </Badge>
+              {selectedPost.error && <p className="text-sm text-red-600">{selectedPost.error}</p>}
+              {selectedPost.title && <p className="font-medium text-gray-900">{selectedPost.title}</p>}
+              <p className="text-sm text-gray-700 whitespace-pre-wrap">{selectedPost.summary}</p>
+              {selectedPost.startsAt && selectedPost.endsAt && (
+                <p className="text-xs text-gray-500">
+                  Runs {new Date(selectedPost.startsAt).toLocaleString()} to {new Date(selectedPost.endsAt).toLocaleString()}
+                </p>
+              )}
+              {selectedPost.couponCode && (
+                <p className="text-xs text-gray-500">Coupon code: {selectedPost.couponCode}</p>
+              )}
+
+              {canEdit && (
+                <div className="space-y-2 pt-2">
+                  <Label htmlFor="post-reschedule">Publish at</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="post-reschedule"
+                      type="datetime-local"
+                      value={rescheduleAt}
+                      onChange={(e) => setRescheduleAt(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => runAction("reschedule")}
+                      disabled={pendingAction !== null || !rescheduleAt}
+                    >
+                      {pendingAction === "reschedule" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Reschedule
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {canEdit && (
+              <DialogFooter className="gap-2 sm:justify-between">
+                <Button
+                  variant="outline"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => runAction("delete")}
+                  disabled={pendingAction !== null}
+                >
+                  {pendingAction === "delete" ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4 mr-2" />
+                  )}
+                  Delete
+                </Button>
+                <Button
+                  className="bg-blue-600 hover:bg-blue-700"
+                  onClick={() => runAction("publish")}
+                  disabled={pendingAction !== null}
+                >
+                  {pendingAction === "publish" ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4 mr-2" />
+                  )}
+                  Publish Now
+                </Button>
+              </DialogFooter>
+            )}
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  )
+}
@@ -5,7 +5,7 @@ import type { BusinessInfo } from "@/types/business-info"
 import { GoogleMap } from "./google-map"
 import { HeatmapVisualization } from "./heatmap-visualization"
 import { geocodeAddress as geocodeAddressAction } from "@/app/actions/geocode"
-import { fetchRankingData } from "@/services/ranking-service"
+import { fetchRankingData, toBusinessIdentity, toRankingMatrix } from "@/services/ranking-service"
 
 interface RankingVisualizationProps {
   businessInfo: BusinessInfo
@@ -89,10 +89,8 @@ export function RankingVisualization({ businessInfo }: RankingVisualizationProps
 
         // Fetch data for each keyword
         for (const keyword of businessInfo.keywords) {
-          const locationParam = typeof businessInfo.location === 'string' 
-            ? businessInfo.location 
-            : businessInfo.location ? `${businessInfo.location.lat},${businessInfo.location.lng}` : '';
-          const data = await fetchRankingData(keyword, locationParam, points)
+          const { rankings } = await fetchRankingData(keyword, toBusinessIdentity(businessInfo), points)
+          const data = toRankingMatrix(rankings, gridSize)
           newRankingData[keyword] = data
 
           // Calculate performance metrics
@@ -112,7 +110,7 @@ export function RankingVisualization({ businessInfo }: RankingVisualizationProps
         setShouldFetchData(false)
       }
     },
-    [businessInfo.keywords, businessInfo.location, isLoading, calculateKeywordPerformance],
+    [businessInfo, gridSize, isLoading, calculateKeywordPerformance],
   )
 
   // Initialize with business location
@@ -11,6 +11,13 @@ import { KeywordMetricsCalculator, KeywordMetrics } from "@/lib/keyword-metrics"
 import { ChartContainer, ChartTooltip, ChartLegend, ChartSummary, ChartTitle } from "@/components/ui/chart"
 import { ArrowRight } from "lucide-react"
 
+// Segment colors of the ranking distribution donut
+const distributionChartConfig = {
+  top3: { label: "Top 3", color: "#3B82F6" },
+  top10: { label: "4-10", color: "#06B6D4" },
+  other: { label: "10+", color: "#F43F5E" },
+}
+
 interface RecommendationsProps {
   businessInfo: BusinessInfo
   rankingData: RankingData
@@ -115,7 +122,11 @@ export default function Recommendations({ businessInfo, rankingData }: Recommend
         <CardHeader className="bg-primary text-white py-6 px-6">
           <div className="flex items-center space-x-2">
             <Search className="h-5 w-5" />
-            <CardTitle>Search Visibility for &quot;{businessInfo.keywords[0]}&quot;</CardTitle>
+            <CardTitle>
+              {businessInfo.keywords.length > 1
+                ? `Search Visibility across ${businessInfo.keywords.length} keywords`
+                : <>Search Visibility for &quot;{businessInfo.keywords[0]}&quot;</>}
+            </CardTitle>
           </div>
         </CardHeader>
         <CardContent className="p-0">
@@ -140,7 +151,7 @@ export default function Recommendations({ businessInfo, rankingData }: Recommend
             <TabsContent value="summary" className="p-6 mt-0">
               <div className="grid md:grid-cols-2 gap-6">
                 <div>
-                  <ChartContainer className="aspect-square">
+                  <ChartContainer config={distributionChartConfig} className="aspect-square">
                     <ChartTitle>Ranking Distribution</ChartTitle>
                     <div className="relative flex items-center justify-center h-full">
                       <div className="w-32 h-32 rounded-full bg-slate-100 flex items-center justify-center">
@@ -1,11 +1,665 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Edit, FileText, Loader2, Play, Save, Table as TableIcon, Trash2 } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useWorkspace } from "@/hooks/use-workspace"
+import {
+  MAX_REPORT_SCANS,
+  REPORT_RANGE_DAYS,
+  REPORT_SECTIONS,
+  REPORT_SECTION_LABELS,
+  describeReportDateRange,
+  reportBusinessKey,
+  resolveReportDateRange,
+  selectReportScans,
+  validateReportParameters,
+  type ReportBusiness,
+  type ReportDateRange,
+  type ReportParameters,
+  type ReportSection,
+} from "@/lib/report-builder"
+import type { GridResult } from "@/lib/geogrid-service"
+import type { GeneratedReport, ReportTemplate } from "@/lib/report-template-service"
+
+// Select value for archived reports of every template
+const ALL = "all"
+
+interface BuilderState {
+  name: string;
+  // Keys of the selected businesses; see reportBusinessKey
+  businessKeys: string[];
+  keywords: string[];
+  dateRange: ReportDateRange;
+  sections: ReportSection[];
+  branded: boolean;
+}
+
+const EMPTY_BUILDER: BuilderState = {
+  name: "",
+  businessKeys: [],
+  keywords: [],
+  dateRange: { type: "last", days: 30 },
+  sections: REPORT_SECTIONS,
+  branded: true,
+}
+
+function describeParameters(parameters: ReportParameters): string {
+  const businesses = `${parameters.businesses.length} ${parameters.businesses.length === 1 ? "business" : "businesses"}`
+  const keywords = parameters.keywords.length > 0 ? parameters.keywords.join(", ") : "all keywords"
+  const sections = parameters.sections.map((section) => REPORT_SECTION_LABELS[section]).join(", ")
+  return `${businesses} · ${keywords} · ${describeReportDateRange(parameters.dateRange)} · ${sections}`
+}
+
 export function ReportsPage() {
-  return (
-    <div className="container mx-auto p-6">
-      <h1 className="text-3xl font-bold text-gray-800 mb-6">Reports</h1>
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+  const [tab, setTab] = useState("build")
+  const [gridResults, setGridResults] = useState<GridResult[]>([])
+  const [templates, setTemplates] = useState<ReportTemplate[]>([])
+  const [reports, setReports] = useState<GeneratedReport[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [builder, setBuilder] = useState<BuilderState>(EMPTY_BUILDER)
+  // Template being edited in the builder, if any
+  const [editingTemplate, setEditingTemplate] = useState<ReportTemplate | null>(null)
+  const [archiveTemplateId, setArchiveTemplateId] = useState(ALL)
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+
+  const loadTemplates = async () => {
+    const response = await fetch("/api/report-templates")
+    if (!response.ok) {
+      throw new Error(`Error fetching report templates: ${response.status}`)
+    }
+    setTemplates(await response.json())
+  }
+
+  const loadReports = async () => {
+    const response = await fetch("/api/reports")
+    if (!response.ok) {
+      throw new Error(`Error fetching reports: ${response.status}`)
+    }
+    setReports(await response.json())
+  }
+
+  useEffect(() => {
+    const loadAll = async () => {
+      try {
+        const response = await fetch("/api/grid-results")
+        if (!response.ok) {
+          throw new Error(`Error fetching grid results: ${response.status}`)
+        }
+        setGridResults(await response.json())
+        await Promise.all([loadTemplates(), loadReports()])
+      } catch (error) {
+        console.error("Error loading reports:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadAll()
+  }, [])
+
+  // Every scanned business once, sorted by name
+  const businesses = [
+    ...new Map(
+      gridResults.map((result): [string, ReportBusiness] => {
+        const { name, address, placeId } = result.businessInfo
+        return [reportBusinessKey(result.businessInfo), placeId ? { name, address, placeId } : { name, address }]
+      })
+    ),
+  ].sort(([, a], [, b]) => a.name.localeCompare(b.name))
+
+  // Keywords the selected businesses were scanned for, once regardless of case
+  const keywordOptions = [
+    ...new Map(
+      gridResults
+        .filter((result) => builder.businessKeys.includes(reportBusinessKey(result.businessInfo)))
+        .map((result) => [result.searchTerm.trim().toLowerCase(), result.searchTerm.trim()])
+    ).values(),
+  ].sort()
+
+  const parameters: ReportParameters = {
+    businesses: businesses.filter(([key]) => builder.businessKeys.includes(key)).map(([, business]) => business),
+    // Keywords of businesses that were unchecked again are dropped
+    keywords: builder.keywords.filter((keyword) =>
+      keywordOptions.some((option) => option.toLowerCase() === keyword.toLowerCase())
+    ),
+    dateRange: builder.dateRange,
+    sections: builder.sections,
+    branded: builder.branded,
+  }
+  const parametersError = validateReportParameters(parameters)
+  const matchingScans = parametersError
+    ? []
+    : selectReportScans(gridResults, parameters, resolveReportDateRange(parameters.dateRange))
+
+  const toggleBusiness = (key: string, checked: boolean) => {
+    setBuilder((prev) => ({
+      ...prev,
+      businessKeys: checked ? [...prev.businessKeys, key] : prev.businessKeys.filter((selected) => selected !== key),
+    }))
+  }
+
+  const toggleKeyword = (keyword: string, checked: boolean) => {
+    setBuilder((prev) => ({
+      ...prev,
+      keywords: checked
+        ? [...prev.keywords, keyword]
+        : prev.keywords.filter((selected) => selected.toLowerCase() !== keyword.toLowerCase()),
+    }))
+  }
+
+  const toggleSection = (section: ReportSection, checked: boolean) => {
+    setBuilder((prev) => ({
+      ...prev,
+      // Keep the sections in report order
+      sections: REPORT_SECTIONS.filter((item) => (item === section ? checked : prev.sections.includes(item))),
+    }))
+  }
+
+  const handleRangeChange = (value: string) => {
+    if (value === "all") {
+      setBuilder({ ...builder, dateRange: { type: "all" } })
+    } else if (value === "between") {
+      const today = new Date().toISOString().slice(0, 10)
+      setBuilder({ ...builder, dateRange: { type: "between", from: today, to: today } })
+    } else {
+      setBuilder({ ...builder, dateRange: { type: "last", days: Number(value) } })
+    }
+  }
+
+  const handleCustomDateChange = (field: "from" | "to", value: string) => {
+    if (builder.dateRange.type !== "between") return
+    setBuilder({ ...builder, dateRange: { ...builder.dateRange, [field]: value } })
+  }
+
+  const resetBuilder = () => {
+    setBuilder(EMPTY_BUILDER)
+    setEditingTemplate(null)
+  }
 
-      <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
-        Reports functionality will be implemented in a future update.
+  const editTemplate = (template: ReportTemplate) => {
+    setBuilder({
+      name: template.name,
+      businessKeys: template.parameters.businesses.map(reportBusinessKey),
+      keywords: template.parameters.keywords,
+      dateRange: template.parameters.dateRange,
+      sections: template.parameters.sections,
+      branded: template.parameters.branded,
+    })
+    setEditingTemplate(template)
+    setTab("build")
+  }
+
+  // Runs one request at a time, reporting failures as a toast
+  const runAction = async <T,>(action: string, request: () => Promise<Response>, onSuccess: (body: T) => Promise<void> | void) => {
+    setBusyAction(action)
+    try {
+      const response = await request()
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || `Request failed: ${response.status}`)
+      }
+      await onSuccess(body as T)
+    } catch (error) {
+      console.error(`Error running ${action}:`, error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const handleGenerate = () =>
+    runAction(
+      "generate",
+      () =>
+        fetch("/api/reports", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: builder.name, parameters }),
+        }),
+      async (report: GeneratedReport) => {
+        await loadReports()
+        setArchiveTemplateId(ALL)
+        setTab("archive")
+        toast({ title: "Report generated", description: `${report.name} covers ${report.gridResultIds.length} scans.` })
+      }
+    )
+
+  const handleSaveTemplate = () =>
+    runAction(
+      "save",
+      () =>
+        fetch(editingTemplate ? `/api/report-templates/${editingTemplate.id}` : "/api/report-templates", {
+          method: editingTemplate ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: builder.name, parameters }),
+        }),
+      async (template: ReportTemplate) => {
+        await loadTemplates()
+        setEditingTemplate(template)
+        toast({ title: editingTemplate ? "Template updated" : "Template saved", description: template.name })
+      }
+    )
+
+  const handleGenerateTemplate = (template: ReportTemplate) =>
+    runAction(
+      `generate:${template.id}`,
+      () => fetch(`/api/report-templates/${template.id}/generate`, { method: "POST" }),
+      async (report: GeneratedReport) => {
+        await loadReports()
+        setArchiveTemplateId(template.id)
+        setTab("archive")
+        toast({ title: "Report generated", description: `${report.name} version ${report.version}` })
+      }
+    )
+
+  const handleDeleteTemplate = (template: ReportTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Reports generated from it stay in the archive.`)) {
+      return
+    }
+    runAction(
+      `delete:${template.id}`,
+      () => fetch(`/api/report-templates/${template.id}`, { method: "DELETE" }),
+      async () => {
+        if (editingTemplate?.id === template.id) resetBuilder()
+        await Promise.all([loadTemplates(), loadReports()])
+      }
+    )
+  }
+
+  const handleDeleteReport = (report: GeneratedReport) => {
+    if (!window.confirm(`Delete ${report.name}${report.templateId ? ` version ${report.version}` : ""} from the archive?`)) {
+      return
+    }
+    runAction(
+      `delete:${report.id}`,
+      () => fetch(`/api/reports/${report.id}`, { method: "DELETE" }),
+      () => loadReports()
+    )
+  }
+
+  const canManage = can("manageReports")
+  const archivedReports =
+    archiveTemplateId === ALL ? reports : reports.filter((report) => report.templateId === archiveTemplateId)
+  const rangeValue = builder.dateRange.type === "last" ? String(builder.dateRange.days) : builder.dateRange.type
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 py-12 text-center">
+        <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+        <p className="text-gray-500">Loading reports...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800">Reports</h1>
+        <p className="text-gray-500">
+          Combine the latest scans of several businesses and keywords into one report. Save the selection as a template to
+          generate it again later; every generated report is archived with the scans it covered.
+        </p>
       </div>
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="build">{editingTemplate ? "Edit Template" : "Build Report"}</TabsTrigger>
+          <TabsTrigger value="templates">Templates ({templates.length})</TabsTrigger>
+          <TabsTrigger value="archive">Archive ({reports.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="build" className="mt-4">
+          {gridResults.length === 0 ? (
+            <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
+              No saved scans yet.{" "}
+              <Link href="/new-search" className="text-blue-600 hover:underline">
+                Run a scan
+              </Link>{" "}
+              to build a report from it.
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+              <div className="space-y-2 max-w-md">
+                <Label htmlFor="report-name">Report name</Label>
+                <Input
+                  id="report-name"
+                  value={builder.name}
+                  placeholder="Monthly client report"
+                  onChange={(e) => setBuilder({ ...builder, name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Businesses</Label>
+                  <div className="border rounded-md max-h-64 overflow-y-auto divide-y">
+                    {businesses.map(([key, business], index) => (
+                      <label
+                        key={key}
+                        htmlFor={`report-business-${index}`}
+                        className="flex items-start gap-3 p-2 cursor-pointer hover:bg-gray-50"
+                      >
+                        <Checkbox
+                          id={`report-business-${index}`}
+                          className="mt-0.5"
+                          checked={builder.businessKeys.includes(key)}
+                          onCheckedChange={(checked) => toggleBusiness(key, checked === true)}
+                        />
+                        <span className="text-sm">
+                          <span className="font-medium text-gray-900">{business.name}</span>
+                          <span className="block text-xs text-gray-500">{business.address}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Keywords</Label>
+                  <p className="text-xs text-gray-500">Leave every keyword unchecked to include all of them.</p>
+                  {keywordOptions.length === 0 ? (
+                    <p className="text-sm text-gray-500">Select a business to see its keywords.</p>
+                  ) : (
+                    <div className="border rounded-md max-h-56 overflow-y-auto divide-y">
+                      {keywordOptions.map((keyword, index) => (
+                        <label
+                          key={keyword}
+                          htmlFor={`report-keyword-${index}`}
+                          className="flex items-center gap-3 p-2 cursor-pointer hover:bg-gray-50"
+                        >
+                          <Checkbox
+                            id={`report-keyword-${index}`}
+                            checked={builder.keywords.some((selected) => selected.toLowerCase() === keyword.toLowerCase())}
+                            onCheckedChange={(checked) => toggleKeyword(keyword, checked === true)}
+                          />
+                          <span className="text-sm">{keyword}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Date range</Label>
+                  <Select value={rangeValue} onValueChange={handleRangeChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPORT_RANGE_DAYS.map((days) => (
+                        <SelectItem key={days} value={String(days)}>
+                          Last {days} days
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="all">All time</SelectItem>
+                      <SelectItem value="between">Custom dates</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {builder.dateRange.type === "between" && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="report-from">From</Label>
+                      <Input
+                        id="report-from"
+                        type="date"
+                        value={builder.dateRange.from}
+                        onChange={(e) => handleCustomDateChange("from", e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="report-to">To</Label>
+                      <Input
+                        id="report-to"
+                        type="date"
+                        value={builder.dateRange.to}
+                        onChange={(e) => handleCustomDateChange("to", e.target.value)}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Sections</Label>
+                <div className="flex flex-wrap gap-x-6 gap-y-2">
+                  {REPORT_SECTIONS.map((section) => (
+                    <label key={section} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={builder.sections.includes(section)}
+                        onCheckedChange={(checked) => toggleSection(section, checked === true)}
+                      />
+                      {REPORT_SECTION_LABELS[section]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="report-branded"
+                  checked={builder.branded}
+                  onCheckedChange={(checked) => setBuilder({ ...builder, branded: checked })}
+                />
+                <Label htmlFor="report-branded">Apply the workspace branding</Label>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-4 border-t pt-4">
+                <p className="text-sm text-gray-600">
+                  {parametersError
+                    ? parametersError
+                    : matchingScans.length === 0
+                      ? "No scans match the selection yet."
+                      : `${Math.min(matchingScans.length, MAX_REPORT_SCANS)} scans match: the latest of each business and keyword in the range.`}
+                  {matchingScans.length > MAX_REPORT_SCANS &&
+                    ` Reports cover up to ${MAX_REPORT_SCANS} scans, so ${matchingScans.length - MAX_REPORT_SCANS} are left out.`}
+                </p>
+                <div className="flex gap-2">
+                  {editingTemplate && (
+                    <Button variant="ghost" onClick={resetBuilder}>
+                      Start over
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={handleSaveTemplate}
+                    disabled={!canManage || !builder.name.trim() || Boolean(parametersError) || busyAction !== null}
+                  >
+                    {busyAction === "save" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    {editingTemplate ? "Update Template" : "Save as Template"}
+                  </Button>
+                  <Button
+                    className="bg-blue-600 hover:bg-blue-700"
+                    onClick={handleGenerate}
+                    disabled={!canManage || !builder.name.trim() || matchingScans.length === 0 || busyAction !== null}
+                  >
+                    {busyAction === "generate" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                    Generate Report
+                  </Button>
+                </div>
+              </div>
+              {!canManage && (
+                <p className="text-xs text-gray-500">Your role can download archived reports but not build or generate them.</p>
+              )}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="templates" className="mt-4">
+          {templates.length === 0 ? (
+            <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
+              No saved templates. Build a report and save it as a template to generate it again later.
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Template</TableHead>
+                    <TableHead>Covers</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map((template) => (
+                    <TableRow key={template.id}>
+                      <TableCell className="font-medium">{template.name}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{describeParameters(template.parameters)}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{new Date(template.updatedAt).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleGenerateTemplate(template)}
+                            disabled={!canManage || busyAction !== null}
+                          >
+                            {busyAction === `generate:${template.id}` ? (
+                              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            ) : (
+                              <Play className="h-4 w-4 mr-1" />
+                            )}
+                            Generate
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setArchiveTemplateId(template.id)
+                              setTab("archive")
+                            }}
+                          >
+                            Versions
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => editTemplate(template)} disabled={!canManage}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => handleDeleteTemplate(template)}
+                            disabled={!canManage || busyAction !== null}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="archive" className="mt-4 space-y-4">
+          <div className="max-w-xs">
+            <Select value={archiveTemplateId} onValueChange={setArchiveTemplateId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All reports</SelectItem>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {archivedReports.length === 0 ? (
+            <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
+              <FileText className="h-10 w-10 mx-auto text-gray-300 mb-3" />
+              No generated reports yet.
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Report</TableHead>
+                    <TableHead>Parameters</TableHead>
+                    <TableHead>Generated</TableHead>
+                    <TableHead className="text-right">Download</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {archivedReports.map((report) => (
+                    <TableRow key={report.id}>
+                      <TableCell>
+                        <div className="font-medium">{report.name}</div>
+                        <div className="flex items-center gap-2 mt-1">
+                          {report.templateId ? (
+                            <Badge variant="secondary">Version {report.version}</Badge>
+                          ) : (
+                            <Badge variant="outline">One-off</Badge>
+                          )}
+                          <span className="text-xs text-gray-500">{report.gridResultIds.length} scans</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {describeParameters(report.parameters)}
+                        <div className="text-xs text-gray-500">
+                          Scans from {report.rangeFrom ? new Date(report.rangeFrom).toLocaleDateString() : "the start"} to{" "}
+                          {new Date(report.rangeTo).toLocaleDateString()}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{new Date(report.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={`/api/reports/${report.id}/download?format=pdf`} download>
+                              <FileText className="h-4 w-4 mr-1" />
+                              PDF
+                            </a>
+                          </Button>
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={`/api/reports/${report.id}/download?format=csv`} download>
+                              <TableIcon className="h-4 w-4 mr-1" />
+                              CSV
+                            </a>
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => handleDeleteReport(report)}
+                            disabled={!canManage || busyAction !== null}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
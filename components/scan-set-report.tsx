@@ -0,0 +1,138 @@
+"use client"
+
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, ChevronLeft, Loader2 } from "lucide-react"
+import { KeywordComparison } from "@/components/keyword-comparison"
+import Recommendations from "@/components/recommendations"
+import { useScanSet } from "@/hooks/use-scan-set"
+import type { ScanJobStatus } from "@/lib/scan-job-service"
+
+const STATUS_LABELS: Record<ScanJobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  completed: "Completed",
+  failed: "Failed",
+}
+
+const STATUS_CLASSES: Record<ScanJobStatus, string> = {
+  queued: "bg-gray-100 text-gray-700",
+  running: "bg-blue-100 text-blue-700",
+  completed: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+}
+
+interface ScanSetReportProps {
+  scanSetId: string
+}
+
+export function ScanSetReport({ scanSetId }: ScanSetReportProps) {
+  const { scanSet, businessInfo, rankingData, error } = useScanSet(scanSetId)
+
+  if (error && !scanSet) {
+    return (
+      <div className="container mx-auto p-6 text-center">
+        <AlertCircle className="h-12 w-12 mx-auto text-red-400 mb-4" />
+        <p className="text-gray-700 mb-6">{error}</p>
+        <Button asChild variant="outline">
+          <Link href="/">Back to Dashboard</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (!scanSet || !businessInfo) {
+    return (
+      <div className="container mx-auto p-6 py-12 text-center">
+        <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+        <p className="text-gray-500">Loading scan set...</p>
+      </div>
+    )
+  }
+
+  const isRunning = scanSet.status === "queued" || scanSet.status === "running"
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <Link href="/" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Dashboard
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-800">{scanSet.businessInfo.name}</h1>
+        <p className="text-gray-500">
+          {scanSet.keywords.length} keywords, {scanSet.gridSize} grid, {scanSet.distanceKm}km &middot;{" "}
+          {new Date(scanSet.createdAt).toLocaleString()}
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {isRunning && (
+          <div className="p-4 border-b border-gray-200">
+            <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+              <span className="flex items-center">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin text-blue-600" />
+                Scanning keywords...
+              </span>
+              <span>{scanSet.progress}%</span>
+            </div>
+            <Progress value={scanSet.progress} />
+          </div>
+        )}
+        <Table>
+          <TableHeader className="bg-gray-50">
+            <TableRow>
+              <TableHead>Keyword</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Points</TableHead>
+              <TableHead className="text-right">Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {scanSet.jobs.map((job) => (
+              <TableRow key={job.id}>
+                <TableCell className="font-medium">{job.searchTerm}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={`border-transparent ${STATUS_CLASSES[job.status]}`}>
+                    {STATUS_LABELS[job.status]}
+                  </Badge>
+                  {job.error && <div className="text-xs text-red-600 mt-1">{job.error}</div>}
+                </TableCell>
+                <TableCell>
+                  {job.completedPoints + job.failedPoints} / {job.totalPoints}
+                  {job.failedPoints > 0 && <span className="text-xs text-red-600 ml-1">({job.failedPoints} failed)</span>}
+                </TableCell>
+                <TableCell className="text-right">
+                  {job.gridResultId ? (
+                    <Button asChild variant="ghost" size="sm">
+                      <Link href={`/grid/${job.gridResultId}`}>View grid</Link>
+                    </Button>
+                  ) : (
+                    <span className="text-sm text-gray-400">&mdash;</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {businessInfo.keywords.length > 0 ? (
+        <>
+          <KeywordComparison businessInfo={businessInfo} rankingData={rankingData} />
+          <Recommendations businessInfo={businessInfo} rankingData={rankingData} />
+        </>
+      ) : (
+        !isRunning && (
+          <div className="bg-white rounded-lg border border-gray-200 py-12 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-amber-500 mb-4" />
+            <p className="text-gray-600">None of the keyword scans produced results.</p>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,250 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import type { GridConfigProfile } from "@/lib/grid-config-service"
+import type { GridShape, ServiceAreaPolygon } from "@/lib/grid-shapes"
+import type { GridResult } from "@/lib/geogrid-service"
+import type { ScanSchedule, ScheduleFrequency } from "@/lib/schedule-service"
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+// The scan a new schedule should repeat
+export interface ScheduledScanConfig {
+  businessInfo: GridResult["businessInfo"];
+  searchTerm: string;
+  gridSize: string;
+  distanceKm: number;
+  googleRegion?: string;
+  shape?: GridShape;
+  polygon?: ServiceAreaPolygon | null;
+  configId?: string | null;
+}
+
+interface ScheduleScanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Provide `scan` to create a new schedule, or `schedule` to edit an existing one
+  scan?: ScheduledScanConfig | null;
+  schedule?: ScanSchedule | null;
+  onSaved?: (schedule: ScanSchedule) => void;
+}
+
+// Human readable summary, e.g. "Weekly on Monday at 09:00 (Europe/Stockholm)"
+export function describeSchedule(schedule: Pick<ScanSchedule, "frequency" | "dayOfWeek" | "dayOfMonth" | "timeOfDay" | "timeZone">) {
+  const time = `at ${schedule.timeOfDay} (${schedule.timeZone})`
+  if (schedule.frequency === "weekly") {
+    return `Weekly on ${WEEKDAYS[schedule.dayOfWeek ?? 1]} ${time}`
+  }
+  if (schedule.frequency === "monthly") {
+    return `Monthly on day ${schedule.dayOfMonth} ${time}`
+  }
+  return `Daily ${time}`
+}
+
+export function ScheduleScanDialog({ open, onOpenChange, scan, schedule, onSaved }: ScheduleScanDialogProps) {
+  const [frequency, setFrequency] = useState<ScheduleFrequency>("weekly")
+  const [dayOfWeek, setDayOfWeek] = useState("1")
+  const [dayOfMonth, setDayOfMonth] = useState("1")
+  const [timeOfDay, setTimeOfDay] = useState("09:00")
+  const [timeZone, setTimeZone] = useState("UTC")
+  const [configId, setConfigId] = useState("none")
+  const [configs, setConfigs] = useState<GridConfigProfile[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setError(null)
+    setFrequency(schedule?.frequency ?? "weekly")
+    setDayOfWeek(String(schedule?.dayOfWeek ?? 1))
+    setDayOfMonth(String(schedule?.dayOfMonth ?? 1))
+    setTimeOfDay(schedule?.timeOfDay ?? "09:00")
+    setTimeZone(schedule?.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC")
+    setConfigId(schedule?.configId ?? scan?.configId ?? "none")
+
+    fetch("/api/grid-configs")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setConfigs)
+      .catch((loadError) => console.error("Error loading grid configurations:", loadError))
+  }, [open, schedule, scan])
+
+  const target = schedule ?? scan
+
+  const handleSave = async () => {
+    if (!target) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const recurrence = {
+        frequency,
+        dayOfWeek: frequency === "weekly" ? Number(dayOfWeek) : null,
+        dayOfMonth: frequency === "monthly" ? Number(dayOfMonth) : null,
+        timeOfDay,
+        timeZone,
+        configId: configId === "none" ? null : configId,
+      }
+
+      const response = schedule
+        ? await fetch(`/api/schedules/${schedule.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(recurrence),
+          })
+        : await fetch("/api/schedules", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ ...scan, ...recurrence }),
+          })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error saving schedule: ${response.status}`)
+      }
+
+      onSaved?.(data)
+      onOpenChange(false)
+    } catch (saveError) {
+      console.error("Error saving scan schedule:", saveError)
+      setError(saveError instanceof Error ? saveError.message : "Failed to save schedule")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{schedule ? "Edit Schedule" : "Repeat on a Schedule"}</DialogTitle>
+          <DialogDescription>
+            {target
+              ? `Scan "${target.searchTerm}" for ${target.businessInfo.name} on a ${target.gridSize} grid automatically.`
+              : "Run this GeoGrid search automatically."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div>
+            <Label htmlFor="schedule-frequency" className="text-sm font-medium mb-1.5 block">
+              Frequency
+            </Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as ScheduleFrequency)}>
+              <SelectTrigger id="schedule-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {frequency === "weekly" && (
+            <div>
+              <Label htmlFor="schedule-day-of-week" className="text-sm font-medium mb-1.5 block">
+                Day of Week
+              </Label>
+              <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+                <SelectTrigger id="schedule-day-of-week">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day, index) => (
+                    <SelectItem key={day} value={String(index)}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {frequency === "monthly" && (
+            <div>
+              <Label htmlFor="schedule-day-of-month" className="text-sm font-medium mb-1.5 block">
+                Day of Month
+              </Label>
+              <Select value={dayOfMonth} onValueChange={setDayOfMonth}>
+                <SelectTrigger id="schedule-day-of-month">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 28 }, (_, index) => (
+                    <SelectItem key={index + 1} value={String(index + 1)}>
+                      {index + 1}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {configs.length > 0 && (
+            <div>
+              <Label htmlFor="schedule-config" className="text-sm font-medium mb-1.5 block">
+                Grid Configuration
+              </Label>
+              <Select value={configId} onValueChange={setConfigId}>
+                <SelectTrigger id="schedule-config">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Use this scan&apos;s grid settings</SelectItem>
+                  {configs.map((config) => (
+                    <SelectItem key={config.id} value={config.id}>
+                      {config.name} ({config.gridSize}, {config.distanceKm}km)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="schedule-time" className="text-sm font-medium mb-1.5 block">
+                Time
+              </Label>
+              <Input id="schedule-time" type="time" value={timeOfDay} onChange={(e) => setTimeOfDay(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="schedule-time-zone" className="text-sm font-medium mb-1.5 block">
+                Time Zone
+              </Label>
+              <Input id="schedule-time-zone" value={timeZone} onChange={(e) => setTimeZone(e.target.value)} />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !target}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,220 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CalendarClock, Edit, Loader2, Play, Trash2 } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { ScheduleScanDialog, describeSchedule } from "@/components/schedule-scan-dialog"
+import type { ScanSchedule } from "@/lib/schedule-service"
+import { useWorkspace } from "@/hooks/use-workspace"
+
+export function SchedulesPage() {
+  const [schedules, setSchedules] = useState<ScanSchedule[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingSchedule, setEditingSchedule] = useState<ScanSchedule | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { toast } = useToast()
+  const { can } = useWorkspace()
+
+  const loadSchedules = async () => {
+    try {
+      const response = await fetch("/api/schedules")
+      if (!response.ok) {
+        throw new Error(`Error fetching schedules: ${response.status}`)
+      }
+      setSchedules(await response.json())
+    } catch (error) {
+      console.error("Error loading schedules:", error)
+      setSchedules([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSchedules()
+  }, [])
+
+  const replaceSchedule = (updated: ScanSchedule) => {
+    setSchedules((prev) => prev.map((schedule) => (schedule.id === updated.id ? updated : schedule)))
+  }
+
+  const handleToggle = async (schedule: ScanSchedule, enabled: boolean) => {
+    setBusyId(schedule.id)
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled }),
+      })
+      if (!response.ok) {
+        throw new Error(`Error updating schedule: ${response.status}`)
+      }
+      replaceSchedule(await response.json())
+    } catch (error) {
+      console.error("Error updating schedule:", error)
+      toast({ title: "Error", description: "Failed to update the schedule.", variant: "destructive" })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRunNow = async (schedule: ScanSchedule) => {
+    setBusyId(schedule.id)
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, { method: "POST" })
+      if (!response.ok) {
+        throw new Error(`Error running schedule: ${response.status}`)
+      }
+      toast({ title: "Scan started", description: `Scanning "${schedule.searchTerm}" for ${schedule.businessInfo.name}.` })
+      await loadSchedules()
+    } catch (error) {
+      console.error("Error running schedule:", error)
+      toast({ title: "Error", description: "Failed to start the scan.", variant: "destructive" })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (schedule: ScanSchedule) => {
+    if (!window.confirm(`Delete the schedule for "${schedule.businessInfo.name}" (${schedule.searchTerm})?`)) return
+
+    setBusyId(schedule.id)
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error(`Error deleting schedule: ${response.status}`)
+      }
+      setSchedules((prev) => prev.filter((item) => item.id !== schedule.id))
+    } catch (error) {
+      console.error("Error deleting schedule:", error)
+      toast({ title: "Error", description: "Failed to delete the schedule.", variant: "destructive" })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const formatDateTime = (value: string | null, timeZone: string) => {
+    if (!value) return "Never"
+    return new Date(value).toLocaleString(undefined, {
+      timeZone,
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    })
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-gray-800">Scheduled Scans</h1>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+            <p className="text-gray-500">Loading schedules...</p>
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="py-12 text-center">
+            <CalendarClock className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+            <h4 className="text-lg font-medium text-gray-700 mb-2">No scheduled scans yet</h4>
+            <p className="text-gray-500 mb-6">
+              Use the Repeat button on a GeoGrid result to run it automatically every day, week or month.
+            </p>
+            <Button asChild className="bg-blue-600 hover:bg-blue-700">
+              <Link href="/">Go to Dashboard</Link>
+            </Button>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader className="bg-gray-50">
+              <TableRow>
+                <TableHead>Business</TableHead>
+                <TableHead>Search Term</TableHead>
+                <TableHead>Grid</TableHead>
+                <TableHead>Repeats</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell>
+                    <div className="font-medium text-blue-700">{schedule.businessInfo.name}</div>
+                    <div className="text-xs text-gray-500">{schedule.businessInfo.address}</div>
+                  </TableCell>
+                  <TableCell>{schedule.searchTerm}</TableCell>
+                  <TableCell>
+                    {schedule.gridSize}, {schedule.distanceKm}km
+                  </TableCell>
+                  <TableCell>{describeSchedule(schedule)}</TableCell>
+                  <TableCell>{formatDateTime(schedule.lastRunAt, schedule.timeZone)}</TableCell>
+                  <TableCell>{schedule.enabled ? formatDateTime(schedule.nextRunAt, schedule.timeZone) : "Paused"}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={schedule.enabled}
+                      disabled={!can("runScans") || busyId === schedule.id}
+                      onCheckedChange={(checked) => handleToggle(schedule, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {can("runScans") && (
+                      <div className="flex justify-end space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title="Run now"
+                          disabled={busyId === schedule.id}
+                          onClick={() => handleRunNow(schedule)}
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title="Edit"
+                          onClick={() => setEditingSchedule(schedule)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-red-500"
+                          title="Delete"
+                          disabled={busyId === schedule.id}
+                          onClick={() => handleDelete(schedule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <ScheduleScanDialog
+        open={editingSchedule !== null}
+        onOpenChange={(open) => !open && setEditingSchedule(null)}
+        schedule={editingSchedule}
+        onSaved={replaceSchedule}
+      />
+    </div>
+  )
+}
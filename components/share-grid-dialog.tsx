@@ -0,0 +1,204 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Copy, Loader2, Lock, Trash2 } from "lucide-react"
+import type { GridShare } from "@/lib/share-service"
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never" },
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+]
+
+interface ShareGridDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gridResultId: string;
+}
+
+function shareUrl(share: Pick<GridShare, "token">) {
+  return `${window.location.origin}/share/${share.token}`
+}
+
+export function ShareGridDialog({ open, onOpenChange, gridResultId }: ShareGridDialogProps) {
+  const [shares, setShares] = useState<GridShare[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [expiry, setExpiry] = useState("7")
+  const [password, setPassword] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reload the active links whenever the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setError(null)
+    setPassword("")
+    setIsLoading(true)
+    fetch(`/api/grid-results/${gridResultId}/shares`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setShares)
+      .catch((loadError) => console.error("Error loading share links:", loadError))
+      .finally(() => setIsLoading(false))
+  }, [open, gridResultId])
+
+  const copyLink = async (share: GridShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share))
+      setCopiedId(share.id)
+    } catch (copyError) {
+      console.error("Error copying share link:", copyError)
+      window.prompt("Copy the share link:", shareUrl(share))
+    }
+  }
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/grid-results/${gridResultId}/shares`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          expiresInDays: expiry === "never" ? null : Number(expiry),
+          password: password || null,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error creating share link: ${response.status}`)
+      }
+
+      setShares((prev) => [data, ...prev])
+      setPassword("")
+      await copyLink(data)
+    } catch (createError) {
+      console.error("Error creating share link:", createError)
+      setError(createError instanceof Error ? createError.message : "Failed to create share link")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (share: GridShare) => {
+    setBusyId(share.id)
+    try {
+      const response = await fetch(`/api/grid-results/${gridResultId}/shares/${share.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error(`Error revoking share link: ${response.status}`)
+      }
+      setShares((prev) => prev.filter((item) => item.id !== share.id))
+    } catch (revokeError) {
+      console.error("Error revoking share link:", revokeError)
+      setError("Failed to revoke the share link")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share Results</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can view a read-only copy of this grid until it expires or is revoked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="share-expiry" className="text-sm font-medium mb-1.5 block">
+                Expires After
+              </Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="share-password" className="text-sm font-medium mb-1.5 block">
+                Password (optional)
+              </Label>
+              <Input
+                id="share-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleCreate} disabled={isCreating} className="w-full">
+            {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create and Copy Link
+          </Button>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">Active Links</h4>
+            {isLoading ? (
+              <div className="py-4 text-center">
+                <Loader2 className="h-5 w-5 mx-auto animate-spin text-blue-600" />
+              </div>
+            ) : shares.length === 0 ? (
+              <p className="text-sm text-gray-500">This result hasn&apos;t been shared yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                {shares.map((share) => (
+                  <li key={share.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div>
+                      <div className="flex items-center text-gray-800">
+                        {share.hasPassword && <Lock className="h-3 w-3 mr-1 text-gray-500" />}
+                        Created {new Date(share.createdAt).toLocaleDateString()}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {share.expiresAt ? `Expires ${new Date(share.expiresAt).toLocaleString()}` : "Never expires"}
+                      </div>
+                    </div>
+                    <div className="flex space-x-1">
+                      <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => copyLink(share)}>
+                        <Copy className="h-4 w-4 mr-1" />
+                        {copiedId === share.id ? "Copied" : "Copy"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-red-500"
+                        title="Revoke"
+                        disabled={busyId === share.id}
+                        onClick={() => handleRevoke(share)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
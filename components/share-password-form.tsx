@@ -0,0 +1,64 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2, Lock } from "lucide-react"
+
+export function SharePasswordForm({ token }: { token: string }) {
+  const router = useRouter()
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/shares/${encodeURIComponent(token)}/unlock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || `Error unlocking share: ${response.status}`)
+      }
+      router.refresh()
+    } catch (error) {
+      console.error("Error unlocking share:", error)
+      setError(error instanceof Error ? error.message : "Failed to unlock the link.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto p-6 py-24 max-w-sm">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+        <div className="text-center">
+          <Lock className="h-8 w-8 mx-auto text-gray-400 mb-2" />
+          <h1 className="text-xl font-bold text-gray-800">This link is password protected</h1>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="share-password">Password</Label>
+          <Input
+            id="share-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          View results
+        </Button>
+      </form>
+    </div>
+  )
+}
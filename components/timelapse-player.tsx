@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Slider } from "@/components/ui/slider"
+import { Download, Loader2, Pause, Play, X } from "lucide-react"
+import type { TimelapseFrame } from "@/lib/timelapse-renderer"
+
+// Time each scan stays on the map while playing, in milliseconds
+const PLAYBACK_INTERVAL = 1200
+
+interface TimelapsePlayerProps {
+  gridResultId: string
+  // Called with the scan to draw on the map, or null when the player closes
+  onFrameChange: (frame: TimelapseFrame | null) => void
+  onClose: () => void
+}
+
+const controlClassName =
+  "flex items-center bg-white border-0 rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] text-[#77838f] text-[14px] tracking-[0] py-[4px] px-[8px]"
+
+export function TimelapsePlayer({ gridResultId, onFrameChange, onClose }: TimelapsePlayerProps) {
+  const [frames, setFrames] = useState<TimelapseFrame[]>([])
+  const [frameIndex, setFrameIndex] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const response = await fetch(`/api/grid-results/${gridResultId}/timelapse`)
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+
+        const data = await response.json()
+        if (!cancelled) {
+          setFrames(data.frames || [])
+          setFrameIndex(0)
+        }
+      } catch (loadError) {
+        console.error("Error fetching timelapse:", loadError)
+        if (!cancelled) {
+          setError("Failed to load the scan history")
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false)
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [gridResultId])
+
+  // Draw the selected scan on the map, and restore the current one on close
+  useEffect(() => {
+    onFrameChange(frames[frameIndex] ?? null)
+  }, [frames, frameIndex, onFrameChange])
+
+  useEffect(() => () => onFrameChange(null), [onFrameChange])
+
+  useEffect(() => {
+    if (!isPlaying) return
+
+    // Stop on the latest scan
+    if (frameIndex >= frames.length - 1) {
+      setIsPlaying(false)
+      return
+    }
+
+    const timer = setTimeout(() => setFrameIndex(frameIndex + 1), PLAYBACK_INTERVAL)
+    return () => clearTimeout(timer)
+  }, [isPlaying, frameIndex, frames.length])
+
+  const togglePlayback = () => {
+    // Start over when playing from the last scan
+    if (!isPlaying && frameIndex >= frames.length - 1) {
+      setFrameIndex(0)
+    }
+    setIsPlaying(!isPlaying)
+  }
+
+  const frame = frames[frameIndex]
+
+  return (
+    <div className="bg-white rounded-[2px] shadow-[0_1px_4px_-1px_rgba(0,0,0,0.3)] p-3 w-80 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Timelapse</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close timelapse">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : frames.length < 2 ? (
+        <p className="text-sm text-gray-500">This keyword needs at least two scans of the same grid size.</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-3">
+            <button onClick={togglePlayback} className={controlClassName} aria-label={isPlaying ? "Pause" : "Play"}>
+              {isPlaying ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+            </button>
+            <Slider
+              min={0}
+              max={frames.length - 1}
+              step={1}
+              value={[frameIndex]}
+              onValueChange={([index]) => {
+                setIsPlaying(false)
+                setFrameIndex(index)
+              }}
+            />
+          </div>
+
+          {frame && (
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>
+                {new Date(frame.createdAt).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })}
+              </span>
+              <span>
+                AGR {frame.agr.toFixed(1)} &middot; SoLV {frame.solv}%
+              </span>
+              <span>
+                {frameIndex + 1}/{frames.length}
+              </span>
+            </div>
+          )}
+
+          <div className="flex gap-1">
+            <a href={`/api/grid-results/${gridResultId}/timelapse?format=gif`} className={controlClassName}>
+              <Download className="h-3 w-3 mr-1" />
+              GIF
+            </a>
+            <a href={`/api/grid-results/${gridResultId}/timelapse?format=strip`} className={controlClassName}>
+              <Download className="h-3 w-3 mr-1" />
+              Frame strip
+            </a>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
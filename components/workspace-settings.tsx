@@ -0,0 +1,355 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Trash2, X } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import type { UserWorkspace, WorkspaceInvitation, WorkspaceMember } from "@/lib/workspace-service"
+import {
+  canAssignRole,
+  hasPermission,
+  WORKSPACE_ROLE_DESCRIPTIONS,
+  WORKSPACE_ROLE_LABELS,
+  WORKSPACE_ROLES,
+  type WorkspaceRole,
+} from "@/lib/workspace-roles"
+
+export function WorkspaceSettings() {
+  const [workspace, setWorkspace] = useState<UserWorkspace | null>(null)
+  const [userId, setUserId] = useState<string | null>(null)
+  const [name, setName] = useState("")
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("viewer")
+  const [newWorkspaceName, setNewWorkspaceName] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isInviting, setIsInviting] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const { toast } = useToast()
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : fallback,
+        variant: "destructive",
+      })
+    },
+    [toast]
+  )
+
+  const loadMembers = useCallback(async () => {
+    const response = await fetch("/api/workspaces/current/members")
+    if (!response.ok) {
+      throw new Error(`Error fetching members: ${response.status}`)
+    }
+    const data = await response.json()
+    setMembers(data.members)
+    setInvitations(data.invitations)
+  }, [])
+
+  useEffect(() => {
+    const loadWorkspace = async () => {
+      try {
+        const response = await fetch("/api/workspaces")
+        if (!response.ok) {
+          throw new Error(`Error fetching workspaces: ${response.status}`)
+        }
+        const data = await response.json()
+        const current = data.workspaces.find((candidate: UserWorkspace) => candidate.id === data.currentWorkspaceId) ?? null
+        setWorkspace(current)
+        setUserId(data.userId)
+        setName(current?.name ?? "")
+        await loadMembers()
+      } catch (error) {
+        console.error("Error loading workspace:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadWorkspace()
+  }, [loadMembers])
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/workspaces/current", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error renaming workspace: ${response.status}`)
+      }
+      setWorkspace((prev) => (prev ? { ...prev, name: data.name } : prev))
+      toast({ title: "Workspace renamed", description: `The workspace is now called "${data.name}".` })
+    } catch (error) {
+      console.error("Error renaming workspace:", error)
+      showError(error, "Failed to rename workspace.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsInviting(true)
+    try {
+      const response = await fetch("/api/workspaces/current/members", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error sending invitation: ${response.status}`)
+      }
+      setInviteEmail("")
+      await loadMembers()
+      toast({ title: "Invitation sent", description: `${data.email} joins the next time they sign in.` })
+    } catch (error) {
+      console.error("Error inviting to workspace:", error)
+      showError(error, "Failed to send invitation.")
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const handleRoleChange = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    try {
+      const response = await fetch(`/api/workspaces/current/members/${member.userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error changing role: ${response.status}`)
+      }
+      setMembers((prev) => prev.map((candidate) => (candidate.userId === member.userId ? data : candidate)))
+    } catch (error) {
+      console.error("Error changing member role:", error)
+      showError(error, "Failed to change role.")
+    }
+  }
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    const leaving = member.userId === userId
+    if (!window.confirm(leaving ? "Leave this workspace?" : `Remove ${member.email} from this workspace?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/workspaces/current/members/${member.userId}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error removing member: ${response.status}`)
+      }
+      if (leaving) {
+        window.location.assign("/")
+        return
+      }
+      await loadMembers()
+    } catch (error) {
+      console.error("Error removing workspace member:", error)
+      showError(error, "Failed to remove member.")
+    }
+  }
+
+  const handleCancelInvitation = async (invitation: WorkspaceInvitation) => {
+    try {
+      const response = await fetch(`/api/workspaces/current/invitations/${invitation.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error(`Error cancelling invitation: ${response.status}`)
+      }
+      setInvitations((prev) => prev.filter((candidate) => candidate.id !== invitation.id))
+    } catch (error) {
+      console.error("Error cancelling invitation:", error)
+      showError(error, "Failed to cancel invitation.")
+    }
+  }
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsCreating(true)
+    try {
+      const response = await fetch("/api/workspaces", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newWorkspaceName }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error creating workspace: ${response.status}`)
+      }
+      // The new workspace is now the open one
+      window.location.assign("/")
+    } catch (error) {
+      console.error("Error creating workspace:", error)
+      showError(error, "Failed to create workspace.")
+      setIsCreating(false)
+    }
+  }
+
+  const role = workspace?.role ?? "viewer"
+  const canManageMembers = hasPermission(role, "manageMembers")
+  const ownerCount = members.filter((member) => member.role === "owner").length
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6 py-12 text-center">
+        <Loader2 className="h-8 w-8 mx-auto animate-spin text-blue-600 mb-4" />
+        <p className="text-gray-500">Loading workspace...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-2xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800 mb-2">Workspace</h1>
+        <p className="text-gray-500">
+          Everyone in {workspace?.name ?? "this workspace"} sees the same businesses, scans, schedules and reports.
+        </p>
+      </div>
+
+      {hasPermission(role, "manageWorkspace") && (
+        <form onSubmit={handleRename} className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input id="workspace-name" maxLength={100} value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Rename
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Members</h2>
+          <p className="text-sm text-gray-500">
+            Your role: {WORKSPACE_ROLE_LABELS[role]}. {WORKSPACE_ROLE_DESCRIPTIONS[role]}.
+          </p>
+        </div>
+        <ul className="divide-y divide-gray-100">
+          {members.map((member) => {
+            const isSelf = member.userId === userId
+            const isLastOwner = member.role === "owner" && ownerCount <= 1
+
+            return (
+              <li key={member.userId} className="flex items-center justify-between gap-2 py-2">
+                <span className="text-sm text-gray-700 flex-1 truncate">
+                  {member.email}
+                  {isSelf && <span className="text-xs text-gray-500"> (you)</span>}
+                </span>
+                {canAssignRole(role, member.role) && !isLastOwner ? (
+                  <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as WorkspaceRole)}>
+                    <SelectTrigger className="w-32 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WORKSPACE_ROLES.filter((option) => canAssignRole(role, option)).map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {WORKSPACE_ROLE_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="text-sm text-gray-500 w-32">{WORKSPACE_ROLE_LABELS[member.role]}</span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title={isSelf ? "Leave workspace" : "Remove member"}
+                  disabled={isLastOwner || (!isSelf && !canAssignRole(role, member.role))}
+                  onClick={() => handleRemoveMember(member)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            )
+          })}
+          {invitations.map((invitation) => (
+            <li key={invitation.id} className="flex items-center justify-between gap-2 py-2">
+              <span className="text-sm text-gray-500 flex-1 truncate">
+                {invitation.email} <span className="text-xs">(invited)</span>
+              </span>
+              <span className="text-sm text-gray-500 w-32">{WORKSPACE_ROLE_LABELS[invitation.role]}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Cancel invitation"
+                disabled={!canManageMembers}
+                onClick={() => handleCancelInvitation(invitation)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        {canManageMembers && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="colleague@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              required
+            />
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as WorkspaceRole)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKSPACE_ROLES.filter((option) => canAssignRole(role, option)).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {WORKSPACE_ROLE_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={isInviting}>
+              {isInviting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Invite
+            </Button>
+          </form>
+        )}
+      </div>
+
+      <form onSubmit={handleCreate} className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="new-workspace-name">New workspace</Label>
+          <Input
+            id="new-workspace-name"
+            maxLength={100}
+            placeholder="Client or team name"
+            value={newWorkspaceName}
+            onChange={(e) => setNewWorkspaceName(e.target.value)}
+            required
+          />
+          <p className="text-xs text-gray-500">You&apos;ll be its only member until you invite others.</p>
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" variant="outline" disabled={isCreating}>
+            {isCreating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create workspace
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
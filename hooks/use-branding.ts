@@ -0,0 +1,37 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { DEFAULT_BRANDING, type Branding } from "@/lib/branding-service"
+
+// The saved branding; the defaults until it has loaded or when it can't be
+export function useBranding() {
+  const [branding, setBranding] = useState<Branding>(DEFAULT_BRANDING)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const response = await fetch("/api/branding")
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+
+        const data = await response.json()
+        if (!cancelled) {
+          setBranding(data)
+        }
+      } catch (error) {
+        console.error("Error fetching branding:", error)
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return branding
+}
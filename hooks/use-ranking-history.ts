@@ -0,0 +1,113 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { RankingHistoryEntry } from "@/lib/ranking-history-service"
+
+export type HistoryRange = "2weeks" | "1month" | "2months" | "3months" | "all" | "custom"
+
+export const HISTORY_RANGE_LABELS: Record<HistoryRange, string> = {
+  "2weeks": "Last 2 Weeks",
+  "1month": "Last Month",
+  "2months": "Last 2 Months",
+  "3months": "Last 3 Months",
+  all: "All Time",
+  custom: "Custom Range",
+}
+
+const HISTORY_RANGE_DAYS: Partial<Record<HistoryRange, number>> = {
+  "2weeks": 14,
+  "1month": 30,
+  "2months": 60,
+  "3months": 90,
+}
+
+export interface HistoryDateRange {
+  range: HistoryRange;
+  // ISO dates, only used for the custom range
+  from?: string;
+  to?: string;
+}
+
+// Inclusive from/to bounds for the selected range
+export function resolveHistoryDates({ range, from, to }: HistoryDateRange): { from?: string; to?: string } {
+  if (range === "custom") {
+    return { from, to }
+  }
+
+  const days = HISTORY_RANGE_DAYS[range]
+  if (!days) {
+    return {}
+  }
+
+  const start = new Date()
+  start.setDate(start.getDate() - days)
+  return { from: start.toISOString().split("T")[0] }
+}
+
+// Load the stored scans of a business for one keyword within the date range
+export function useRankingHistory(
+  businessInfo: { name: string; address?: string; placeId?: string },
+  keyword: string,
+  dateRange: HistoryDateRange
+) {
+  const [history, setHistory] = useState<RankingHistoryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { from, to } = resolveHistoryDates(dateRange)
+
+  useEffect(() => {
+    if (!keyword) {
+      setHistory([])
+      return
+    }
+
+    let cancelled = false
+
+    const load = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams({ keyword })
+        if (businessInfo.placeId) {
+          params.set("placeId", businessInfo.placeId)
+        } else {
+          params.set("name", businessInfo.name)
+          if (businessInfo.address) params.set("address", businessInfo.address)
+        }
+        if (from) params.set("from", from)
+        if (to) params.set("to", to)
+        // Bare dates cover the user's own days
+        params.set("timeZone", Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC")
+
+        const response = await fetch(`/api/ranking-history?${params}`)
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+
+        const data = await response.json()
+        if (!cancelled) {
+          setHistory(data.history || [])
+        }
+      } catch (loadError) {
+        console.error("Error fetching ranking history:", loadError)
+        if (!cancelled) {
+          setError("Failed to load historical ranking data. Please try again later.")
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false)
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [businessInfo.placeId, businessInfo.name, businessInfo.address, keyword, from, to])
+
+  return { history, isLoading, error }
+}
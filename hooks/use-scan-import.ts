@@ -0,0 +1,50 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { ScanImport } from "@/lib/scan-import-service"
+
+// How often an import that is still running is re-fetched
+const SCAN_IMPORT_POLL_INTERVAL_MS = 5000
+
+// Load a bulk import and keep polling it until every scan set has finished
+export function useScanImport(importId: string) {
+  const [scanImport, setScanImport] = useState<ScanImport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/imports/${importId}`)
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? "Import not found" : `Error fetching import: ${response.status}`)
+        }
+
+        const data: ScanImport = await response.json()
+        if (cancelled) return
+
+        setScanImport(data)
+        setError(null)
+        if (data.status === "queued" || data.status === "running") {
+          timer = setTimeout(load, SCAN_IMPORT_POLL_INTERVAL_MS)
+        }
+      } catch (loadError) {
+        console.error("Error loading import:", loadError)
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load import")
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [importId])
+
+  return { scanImport, error }
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { ScanSet } from "@/lib/scan-set-service"
+import type { BusinessInfo, RankingData } from "@/types"
+
+// How often a scan set that is still running is re-fetched
+const SCAN_SET_POLL_INTERVAL_MS = 3000
+
+export type ScanSetWithRankings = ScanSet & { rankingData: RankingData }
+
+// Load a scan set and keep polling it until every keyword scan has finished
+export function useScanSet(scanSetId: string) {
+  const [scanSet, setScanSet] = useState<ScanSetWithRankings | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/scan-sets/${scanSetId}`)
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? "Scan set not found" : `Error fetching scan set: ${response.status}`)
+        }
+
+        const data: ScanSetWithRankings = await response.json()
+        if (cancelled) return
+
+        setScanSet(data)
+        setError(null)
+        if (data.status === "queued" || data.status === "running") {
+          timer = setTimeout(load, SCAN_SET_POLL_INTERVAL_MS)
+        }
+      } catch (loadError) {
+        console.error("Error loading scan set:", loadError)
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load scan set")
+        }
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [scanSetId])
+
+  // Only keywords with a finished grid are handed to the comparison views
+  const businessInfo: BusinessInfo | null = scanSet
+    ? {
+        ...scanSet.businessInfo,
+        keywords: scanSet.keywords.filter((keyword) => scanSet.rankingData[keyword]),
+        businessType: scanSet.businessInfo.category || "local business",
+        serviceRadius: 50,
+      }
+    : null
+
+  return { scanSet, businessInfo, rankingData: scanSet?.rankingData ?? {}, error }
+}
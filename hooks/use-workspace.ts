@@ -0,0 +1,66 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { hasPermission, type WorkspacePermission } from "@/lib/workspace-roles"
+import type { UserWorkspace } from "@/lib/workspace-service"
+
+interface WorkspaceState {
+  userId: string;
+  email: string;
+  currentWorkspaceId: string;
+  workspaces: UserWorkspace[];
+}
+
+// The signed-in user's workspaces and the open one; null until loaded or when
+// nobody is signed in
+export function useWorkspace() {
+  const [state, setState] = useState<WorkspaceState | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const response = await fetch("/api/workspaces")
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+
+        const data = await response.json()
+        if (!cancelled) {
+          setState(data)
+        }
+      } catch (error) {
+        console.error("Error fetching workspaces:", error)
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Everything on screen belongs to the old workspace, so reload once switched
+  const switchWorkspace = useCallback(async (workspaceId: string) => {
+    const response = await fetch("/api/workspaces/current", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ workspaceId }),
+    })
+    if (!response.ok) {
+      throw new Error(`Error switching workspace: ${response.status}`)
+    }
+    window.location.assign("/")
+  }, [])
+
+  const currentWorkspace = state?.workspaces.find((workspace) => workspace.id === state.currentWorkspaceId) ?? null
+  const role = currentWorkspace?.role ?? null
+
+  // Whether the user's role allows an action; false until the workspace has loaded.
+  // Only hides controls, the API enforces the same rules.
+  const can = useCallback((permission: WorkspacePermission) => role !== null && hasPermission(role, permission), [role])
+
+  return { email: state?.email ?? null, currentWorkspace, role, workspaces: state?.workspaces ?? [], switchWorkspace, can }
+}
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it, jest } from "@jest/globals"
+import { fetchBrandLogo, isPublicAddress } from "@/lib/brand-logo"
+
+const branding = { companyName: "Bagel Co", primaryColor: "#2563EB", footerText: "", rankColors: [] }
+
+describe("isPublicAddress", () => {
+  it("accepts public IPv4 and IPv6 addresses", () => {
+    expect(isPublicAddress("8.8.8.8")).toBe(true)
+    expect(isPublicAddress("172.32.0.1")).toBe(true)
+    expect(isPublicAddress("2606:4700:4700::1111")).toBe(true)
+  })
+
+  it("rejects loopback, private, link-local and shared addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0"]) {
+      expect(isPublicAddress(address)).toBe(false)
+    }
+    for (const address of ["::1", "::", "fd00::1", "fe80::1", "ff02::1"]) {
+      expect(isPublicAddress(address)).toBe(false)
+    }
+  })
+
+  it("looks through IPv4 addresses mapped into IPv6", () => {
+    expect(isPublicAddress("::ffff:127.0.0.1")).toBe(false)
+    expect(isPublicAddress("::ffff:a9fe:a9fe")).toBe(false)
+    expect(isPublicAddress("::ffff:8.8.8.8")).toBe(true)
+  })
+
+  it("rejects anything that isn't an IP address", () => {
+    expect(isPublicAddress("localhost")).toBe(false)
+  })
+})
+
+describe("fetchBrandLogo", () => {
+  it("doesn't connect to hosts that resolve to internal addresses", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {})
+
+    // localhost resolves to loopback without any network access
+    await expect(fetchBrandLogo({ ...branding, logoUrl: "https://localhost/logo.png" })).resolves.toBeNull()
+    expect(String(error.mock.calls[0][1])).toContain("does not resolve to a public address")
+    error.mockRestore()
+  })
+
+  it("doesn't connect to internal IP addresses", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {})
+
+    await expect(fetchBrandLogo({ ...branding, logoUrl: "https://169.254.169.254/logo.png" })).resolves.toBeNull()
+    expect(String(error.mock.calls[0][1])).toContain("is not a public address")
+    error.mockRestore()
+  })
+})
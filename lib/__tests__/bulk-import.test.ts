@@ -0,0 +1,38 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { parseCsv } from "@/lib/bulk-import"
+
+// The scan services create their Supabase clients on import; parsing never uses them
+jest.mock("@supabase/supabase-js", () => ({ createClient: () => ({}) }))
+
+describe("parseCsv", () => {
+  it("splits rows and cells", () => {
+    expect(parseCsv("Business,Keywords\nBagel Co,bagels\n")).toEqual([
+      ["Business", "Keywords"],
+      ["Bagel Co", "bagels"],
+    ])
+  })
+
+  it("keeps commas, escaped quotes and line breaks inside quoted cells", () => {
+    expect(parseCsv('"Joe\'s, Austin","The ""best"" bagels","bagels\nbakery"')).toEqual([
+      ["Joe's, Austin", 'The "best" bagels', "bagels\nbakery"],
+    ])
+  })
+
+  it("reads CRLF line endings and drops a byte order mark", () => {
+    expect(parseCsv("\uFEFFBusiness,City\r\nBagel Co,Austin\r\n")).toEqual([
+      ["Business", "City"],
+      ["Bagel Co", "Austin"],
+    ])
+  })
+
+  it("keeps empty cells and a last row without a line break", () => {
+    expect(parseCsv("a,,c\n,b,")).toEqual([
+      ["a", "", "c"],
+      ["", "b", ""],
+    ])
+  })
+
+  it("returns no rows for empty text", () => {
+    expect(parseCsv("")).toEqual([])
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "@jest/globals"
+import {
+  destinationPoint,
+  generateGeoGrid,
+  gridPointId,
+  haversineDistanceKm,
+  parseGridSize,
+  resolveSpacingKm,
+  storedSpacingKm,
+} from "@/lib/geo-grid"
+import { isPointInPolygon, type ServiceAreaPolygon } from "@/lib/grid-shapes"
+
+const center = { lat: 40.7128, lng: -74.006 }
+
+// 1 cm, well below the 7-decimal coordinate rounding
+const TOLERANCE_KM = 0.00001
+
+const serviceArea: ServiceAreaPolygon = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [-74.05, 40.68],
+      [-73.95, 40.68],
+      [-73.95, 40.75],
+      [-74.0, 40.78],
+      [-74.05, 40.75],
+      [-74.05, 40.68],
+    ],
+  ],
+}
+
+describe("destinationPoint", () => {
+  it("travels the requested great-circle distance", () => {
+    for (const bearing of [0, 45, 90, 135, 180, 270]) {
+      const point = destinationPoint(center, bearing, 12.5)
+      expect(Math.abs(haversineDistanceKm(center, point) - 12.5)).toBeLessThan(TOLERANCE_KM)
+    }
+  })
+
+  it("moves along the meridian for north and south bearings", () => {
+    expect(destinationPoint(center, 0, 10).lng).toBeCloseTo(center.lng, 10)
+    expect(destinationPoint(center, 0, 10).lat).toBeGreaterThan(center.lat)
+    expect(destinationPoint(center, 180, 10).lat).toBeLessThan(center.lat)
+  })
+
+  it("wraps longitudes across the antimeridian", () => {
+    const point = destinationPoint({ lat: 0, lng: 179.99 }, 90, 5)
+    expect(point.lng).toBeLessThan(-179)
+  })
+})
+
+describe("parseGridSize", () => {
+  it("accepts grid size strings and numbers", () => {
+    expect(parseGridSize("13x13")).toBe(13)
+    expect(parseGridSize(7)).toBe(7)
+  })
+})
+
+describe("generateGeoGrid", () => {
+  it("generates every cell of a square grid in row-major order with stable ids", () => {
+    const points = generateGeoGrid({ center, gridSize: 5, spacingKm: 1 })
+
+    expect(points).toHaveLength(25)
+    points.forEach((point, index) => {
+      expect(point.index).toBe(index)
+      expect(point.row).toBe(Math.floor(index / 5))
+      expect(point.col).toBe(index % 5)
+      expect(point.id).toBe(gridPointId(point.row, point.col))
+    })
+    expect(points[7].id).toBe("r1c2")
+  })
+
+  it("orders rows south to north and columns west to east", () => {
+    const points = generateGeoGrid({ center, gridSize: 3, spacingKm: 2 })
+
+    expect(points[0].lat).toBeLessThan(points[6].lat)
+    expect(points[0].lng).toBeLessThan(points[2].lng)
+  })
+
+  it("puts the middle point on the center", () => {
+    const points = generateGeoGrid({ center, gridSize: 13, spacingKm: 2.5 })
+    const middle = points.find((point) => point.id === "r6c6")
+
+    expect(middle).toMatchObject(center)
+  })
+
+  it("spaces neighbouring points on the center row and column exactly", () => {
+    const points = generateGeoGrid({ center, gridSize: 13, spacingKm: 2.5 })
+    const at = (row: number, col: number) => points[row * 13 + col]
+
+    expect(Math.abs(haversineDistanceKm(at(6, 6), at(6, 7)) - 2.5)).toBeLessThan(TOLERANCE_KM)
+    expect(Math.abs(haversineDistanceKm(at(6, 6), at(7, 6)) - 2.5)).toBeLessThan(TOLERANCE_KM)
+    expect(Math.abs(haversineDistanceKm(at(6, 6), at(6, 12)) - 15)).toBeLessThan(TOLERANCE_KM)
+    expect(Math.abs(haversineDistanceKm(at(6, 6), at(12, 12)) - 15 * Math.SQRT2)).toBeLessThan(TOLERANCE_KM)
+  })
+
+  it("treats a radius as the distance from the center to the edge of the grid", () => {
+    const bySpacing = generateGeoGrid({ center, gridSize: 9, spacingKm: 1.5 })
+    const byRadius = generateGeoGrid({ center, gridSize: 9, radiusKm: 6 })
+
+    expect(resolveSpacingKm(9, { radiusKm: 6 })).toBe(1.5)
+    expect(byRadius).toEqual(bySpacing)
+  })
+
+  it("reads the distance of unversioned results as a radius", () => {
+    expect(storedSpacingKm(3, "13x13")).toBe(0.5)
+    expect(storedSpacingKm(2.5, "13x13")).toBe(0.4167)
+    expect(storedSpacingKm(2.5, "13x13", 1)).toBe(2.5)
+    expect(storedSpacingKm(2.5, "1x1")).toBe(2.5)
+  })
+
+  it("is deterministic", () => {
+    const options = { center, gridSize: 7, spacingKm: 3, shape: "hexagon" as const }
+    expect(generateGeoGrid(options)).toEqual(generateGeoGrid(options))
+  })
+
+  it("keeps circle points within the radius", () => {
+    const points = generateGeoGrid({ center, gridSize: 13, spacingKm: 1, shape: "circle" })
+
+    expect(points).toHaveLength(113)
+    points.forEach((point) => {
+      expect(haversineDistanceKm(center, point)).toBeLessThanOrEqual(6 + TOLERANCE_KM)
+    })
+  })
+
+  it("fills a hexagon with one fewer point per row away from the middle", () => {
+    const points = generateGeoGrid({ center, gridSize: 13, spacingKm: 1, shape: "hexagon" })
+    const rowLength = (row: number) => points.filter((point) => point.row === row).length
+
+    expect(points).toHaveLength(127)
+    expect(rowLength(6)).toBe(13)
+    expect(rowLength(5)).toBe(12)
+    expect(rowLength(0)).toBe(7)
+  })
+
+  it("clips polygon grids to the service area", () => {
+    const points = generateGeoGrid({ center, gridSize: 9, spacingKm: 1, shape: "polygon", polygon: serviceArea })
+
+    expect(points.length).toBeGreaterThan(0)
+    expect(points.length).toBeLessThan(81)
+    points.forEach((point) => {
+      expect(isPointInPolygon(point, serviceArea)).toBe(true)
+      expect(point.index).toBe(point.row * 9 + point.col)
+    })
+  })
+
+  it("rejects invalid input", () => {
+    expect(() => generateGeoGrid({ center, gridSize: 0, spacingKm: 1 })).toThrow()
+    expect(() => generateGeoGrid({ center, gridSize: 5, spacingKm: 0 })).toThrow()
+    expect(() => generateGeoGrid({ center: { lat: Number.NaN, lng: 0 }, gridSize: 5, spacingKm: 1 })).toThrow()
+    expect(() => generateGeoGrid({ center, gridSize: 5, spacingKm: 1, shape: "polygon" })).toThrow()
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { renderPostForLocation, type BusinessPost } from "@/lib/business-posts"
+import { publishPost, toLocalPost, type LocalPost, type PostTransport } from "@/lib/post-publisher"
+
+// Stands in for the Business Profile API, keeping the posts it receives
+function createStandInTransport(failWith?: string) {
+  const received: { profileName: string; post: LocalPost }[] = []
+  const transport: PostTransport = {
+    async createLocalPost(profileName, post) {
+      if (failWith) {
+        throw new Error(failWith)
+      }
+      received.push({ profileName, post })
+      return { name: `${profileName}/localPosts/${received.length}` }
+    },
+  }
+  return { transport, received }
+}
+
+const basePost: BusinessPost = {
+  id: "post-1",
+  locationId: "location-1",
+  locationName: "Downtown",
+  batchId: "batch-1",
+  type: "update",
+  title: null,
+  summary: "Fresh bagels in Austin",
+  callToAction: { actionType: "LEARN_MORE", url: "https://example.com" },
+  startsAt: null,
+  endsAt: null,
+  timeZone: "UTC",
+  couponCode: null,
+  redeemUrl: null,
+  terms: null,
+  status: "scheduled",
+  scheduledAt: "2025-06-01T15:00:00.000Z",
+  publishedAt: null,
+  externalName: null,
+  error: null,
+  createdAt: "2025-05-20T12:00:00.000Z",
+}
+
+describe("renderPostForLocation", () => {
+  const variables = { name: "Bagel Co", city: "Austin", neighborhood: "", keyword: "bagels" }
+
+  it("fills in each location's values", () => {
+    const rendered = renderPostForLocation(
+      { type: "update", title: "", template: "Best {{keyword}} in {{ city }}" },
+      variables
+    )
+    expect(rendered).toEqual({ title: "", summary: "Best bagels in Austin", error: null })
+  })
+
+  it("reports variables a location has no value for", () => {
+    const rendered = renderPostForLocation(
+      { type: "event", title: "Open house in {{neighborhood}}", template: "Join {{name}}" },
+      variables
+    )
+    expect(rendered.error).toBe("No neighborhood set")
+  })
+})
+
+describe("publishPost", () => {
+  it("sends an update with its button to the location's profile", async () => {
+    const { transport, received } = createStandInTransport()
+
+    const result = await publishPost(basePost, "accounts/1/locations/2", transport)
+
+    expect(result).toEqual({ success: true, externalName: "accounts/1/locations/2/localPosts/1" })
+    expect(received).toEqual([
+      {
+        profileName: "accounts/1/locations/2",
+        post: {
+          languageCode: "en",
+          summary: "Fresh bagels in Austin",
+          topicType: "STANDARD",
+          callToAction: { actionType: "LEARN_MORE", url: "https://example.com" },
+        },
+      },
+    ])
+  })
+
+  it("sends an offer's schedule as the wall-clock times it was entered in", () => {
+    // 9:00 on June 1 to 17:30 on June 7 in Chicago, which is UTC-5 in June
+    const offer = toLocalPost({
+      ...basePost,
+      type: "offer",
+      title: "20% off",
+      callToAction: null,
+      startsAt: "2025-06-01T14:00:00.000Z",
+      endsAt: "2025-06-07T22:30:00.000Z",
+      timeZone: "America/Chicago",
+      couponCode: "BAGEL20",
+    })
+
+    expect(offer.topicType).toBe("OFFER")
+    expect(offer.event).toEqual({
+      title: "20% off",
+      schedule: {
+        startDate: { year: 2025, month: 6, day: 1 },
+        startTime: { hours: 9, minutes: 0 },
+        endDate: { year: 2025, month: 6, day: 7 },
+        endTime: { hours: 17, minutes: 30 },
+      },
+    })
+    expect(offer.offer).toEqual({ couponCode: "BAGEL20", redeemOnlineUrl: undefined, termsConditions: undefined })
+  })
+
+  it("returns the transport's error instead of throwing", async () => {
+    const { transport } = createStandInTransport("Quota exceeded")
+    const error = jest.spyOn(console, "error").mockImplementation(() => {})
+
+    await expect(publishPost(basePost, "accounts/1/locations/2", transport)).resolves.toEqual({
+      success: false,
+      error: "Quota exceeded",
+    })
+    error.mockRestore()
+  })
+
+  it("fails for locations without a Business Profile", async () => {
+    const { transport, received } = createStandInTransport()
+
+    const result = await publishPost(basePost, null, transport)
+
+    expect(result.success).toBe(false)
+    expect(received).toHaveLength(0)
+  })
+})
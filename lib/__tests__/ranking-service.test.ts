@@ -0,0 +1,55 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { matchBusinessInResults, NOT_RANKED, toRankingMatrix, type RankableResult } from "@/services/ranking-service"
+
+// The service creates its Supabase client on import; matching never uses it
+jest.mock("@supabase/supabase-js", () => ({ createClient: () => ({}) }))
+
+const results: RankableResult[] = [
+  { name: "Austin Bagel Bakery", place_id: "place-1", vicinity: "1 Congress Ave, Austin" },
+  { name: "Joe's Café, LLC", place_id: "place-2", vicinity: "500 Main St, Austin", geometry: { location: { lat: 30.27, lng: -97.74 } } },
+  { name: "Bagel Co", place_id: "place-3", vicinity: "9 Lamar Blvd, Austin" },
+]
+
+describe("matchBusinessInResults", () => {
+  it("ranks the business by its place_id", () => {
+    expect(matchBusinessInResults(results, { name: "Something else", placeId: "place-3" })).toEqual({
+      rank: 3,
+      strategy: "place_id",
+      confidence: 1,
+      matchedPlaceId: "place-3",
+    })
+  })
+
+  it("falls back to the name, address and location when the place_id isn't listed", () => {
+    const match = matchBusinessInResults(results, {
+      name: "Joes Cafe",
+      placeId: "reissued-place",
+      address: "500 Main St, Austin",
+      location: { lat: 30.27, lng: -97.74 },
+    })
+
+    expect(match.rank).toBe(2)
+    expect(match.strategy).toBe("fuzzy")
+    expect(match.matchedPlaceId).toBe("place-2")
+    expect(match.confidence).toBeGreaterThanOrEqual(0.75)
+  })
+
+  it("doesn't accept a merely similar name", () => {
+    expect(matchBusinessInResults(results, { name: "Bagel Barn" })).toEqual({
+      rank: NOT_RANKED,
+      strategy: "none",
+      confidence: 0,
+      matchedPlaceId: null,
+    })
+  })
+})
+
+describe("toRankingMatrix", () => {
+  it("lays the rankings out row by row", () => {
+    expect(toRankingMatrix([1, 2, 3, 4, 5, 6, 7, 8, 9], 3)).toEqual([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8, 9],
+    ])
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { computeNextRunAt, validateSchedule } from "@/lib/schedule-service"
+
+// The services create their Supabase clients on import; computing runs never uses them
+jest.mock("@supabase/supabase-js", () => ({ createClient: () => ({}) }))
+
+const daily = { frequency: "daily" as const, dayOfWeek: null, dayOfMonth: null, timeOfDay: "09:00", timeZone: "America/New_York" }
+
+describe("computeNextRunAt", () => {
+  it("runs at the wall-clock time in the schedule's time zone", () => {
+    // 10:00 in New York, after today's run
+    expect(computeNextRunAt(daily, new Date("2025-01-15T15:00:00Z")).toISOString()).toBe("2025-01-16T14:00:00.000Z")
+  })
+
+  it("keeps the wall-clock time when daylight saving time starts", () => {
+    // The clocks go forward on March 9, 2025, from UTC-5 to UTC-4
+    expect(computeNextRunAt(daily, new Date("2025-03-08T15:00:00Z")).toISOString()).toBe("2025-03-09T13:00:00.000Z")
+  })
+
+  it("keeps the wall-clock time when daylight saving time ends", () => {
+    // The clocks go back on November 2, 2025, from UTC-4 to UTC-5
+    expect(computeNextRunAt(daily, new Date("2025-11-01T14:00:00Z")).toISOString()).toBe("2025-11-02T14:00:00.000Z")
+  })
+
+  it("returns a run strictly after the given time", () => {
+    expect(computeNextRunAt(daily, new Date("2025-01-16T14:00:00Z")).toISOString()).toBe("2025-01-17T14:00:00.000Z")
+  })
+
+  it("runs weekly schedules on their day of the week", () => {
+    // January 15, 2025 is a Wednesday; 1 is Monday
+    const weekly = { ...daily, frequency: "weekly" as const, dayOfWeek: 1 }
+    expect(computeNextRunAt(weekly, new Date("2025-01-15T15:00:00Z")).toISOString()).toBe("2025-01-20T14:00:00.000Z")
+  })
+
+  it("skips months without the schedule's day of the month", () => {
+    const monthly = { ...daily, frequency: "monthly" as const, dayOfMonth: 31, timeZone: "UTC" }
+    expect(computeNextRunAt(monthly, new Date("2025-04-01T00:00:00Z")).toISOString()).toBe("2025-05-31T09:00:00.000Z")
+  })
+})
+
+describe("validateSchedule", () => {
+  it("bounds the grid every run scans", () => {
+    expect(validateSchedule({ ...daily, gridSize: "13x13", distanceKm: 2.5 })).toBeNull()
+    expect(validateSchedule({ ...daily, gridSize: "999x999", distanceKm: 2.5 })).toBe("Grid size must be an odd number between 3 and 25")
+    expect(validateSchedule({ ...daily, gridSize: "large", distanceKm: 2.5 })).toBe("Grid size must be an odd number between 3 and 25")
+    expect(validateSchedule({ ...daily, gridSize: "13x13", distanceKm: 500 })).toBe("Distance must be between 0.1 and 25 kilometers")
+  })
+})
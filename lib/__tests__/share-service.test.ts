@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+import { beforeEach, describe, expect, it, jest } from "@jest/globals"
+import {
+  checkSharePassword,
+  createShare,
+  isShareUnlocked,
+  resolveShareToken,
+  shareUnlockCookieValue,
+} from "@/lib/share-service"
+
+type ShareRow = Record<string, unknown> & { id: string }
+
+// Stands in for the grid_shares table, counting the lookups that reach it
+const mockRows = new Map<string, ShareRow>()
+const mockLookups = { count: 0 }
+
+jest.mock("@supabase/supabase-js", () => ({
+  createClient: () => ({
+    from: () => ({
+      insert: (row: Record<string, unknown>) => ({
+        select: () => ({
+          single: async () => {
+            const record: ShareRow = {
+              id: `share-${mockRows.size + 1}`,
+              revoked_at: null,
+              created_at: "2025-05-11T12:00:00.000Z",
+              ...row,
+            }
+            mockRows.set(record.id, record)
+            return { data: record, error: null }
+          },
+        }),
+      }),
+      select: () => ({
+        eq: (_column: string, id: string) => ({
+          maybeSingle: async () => {
+            mockLookups.count++
+            return { data: mockRows.get(id) ?? null, error: null }
+          },
+        }),
+      }),
+    }),
+  }),
+}))
+
+describe("share tokens", () => {
+  beforeEach(() => {
+    mockRows.clear()
+    mockLookups.count = 0
+    process.env.SHARE_LINK_SECRET = "test-secret"
+  })
+
+  it("opens the share a token was signed for", async () => {
+    const share = await createShare("workspace-1", "grid-1", { expiresInDays: null, password: null })
+
+    const resolved = await resolveShareToken(share.token)
+
+    expect(share.token).toMatch(/^share-1\.[\w-]+$/)
+    expect(resolved.status).toBe("ok")
+    expect(resolved.share?.gridResultId).toBe("grid-1")
+  })
+
+  it("rejects a tampered token without looking it up", async () => {
+    const share = await createShare("workspace-1", "grid-1", { expiresInDays: null, password: null })
+    const [, signature] = share.token.split(".")
+
+    await expect(resolveShareToken(`share-2.${signature}`)).resolves.toMatchObject({ status: "invalid", share: null })
+    await expect(resolveShareToken("share-1")).resolves.toMatchObject({ status: "invalid", share: null })
+    expect(mockLookups.count).toBe(0)
+  })
+
+  it("rejects tokens signed with another secret", async () => {
+    const share = await createShare("workspace-1", "grid-1", { expiresInDays: null, password: null })
+    process.env.SHARE_LINK_SECRET = "rotated-secret"
+
+    await expect(resolveShareToken(share.token)).resolves.toMatchObject({ status: "invalid" })
+  })
+
+  it("reports expired shares", async () => {
+    const share = await createShare("workspace-1", "grid-1", { expiresInDays: 1, password: null })
+    mockRows.get(share.id)!.expires_at = "2025-01-01T00:00:00.000Z"
+
+    await expect(resolveShareToken(share.token)).resolves.toMatchObject({ status: "expired" })
+  })
+
+  it("unlocks a password-protected share until the password changes", async () => {
+    const share = await createShare("workspace-1", "grid-1", { expiresInDays: null, password: "bagels" })
+    const { passwordHash } = await resolveShareToken(share.token)
+
+    expect(checkSharePassword("bagels", passwordHash!)).toBe(true)
+    expect(checkSharePassword("muffins", passwordHash!)).toBe(false)
+
+    const cookie = shareUnlockCookieValue(share.id, passwordHash!)
+    expect(isShareUnlocked(share.id, passwordHash!, cookie)).toBe(true)
+    expect(isShareUnlocked(share.id, "new-salt:new-hash", cookie)).toBe(false)
+    expect(isShareUnlocked(share.id, passwordHash!, undefined)).toBe(false)
+  })
+})
@@ -1,5 +1,7 @@
 // API Service for fetching real data
 
+import type { LocationInput } from '@/lib/location-service';
+
 // Base URLs - replace with your actual API endpoints
 const API_BASE_URL = '/api';
 const KEYWORDS_ENDPOINT = `${API_BASE_URL}/keywords`;
@@ -91,7 +93,8 @@ export async function addLocation(locationData: any) {
     });
     
     if (!response.ok) {
-      throw new Error(`Error adding location: ${response.status}`);
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Error adding location: ${response.status}`);
     }
     
     return await response.json();
@@ -101,6 +104,44 @@ export async function addLocation(locationData: any) {
   }
 }
 
+// Sends only the fields that change; address changes are geocoded again
+export async function updateLocation(id: string, changes: Partial<LocationInput>) {
+  try {
+    const response = await fetch(`${LOCATIONS_ENDPOINT}/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    });
+    
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Error updating location: ${response.status}`);
+    }
+    
+    return await response.json();
+  } catch (error) {
+    console.error('Error in updateLocation:', error);
+    throw error;
+  }
+}
+
+// A location with the scans of its business
+export async function fetchLocation(id: string) {
+  try {
+    const response = await fetch(`${LOCATIONS_ENDPOINT}/${id}`);
+    if (!response.ok) {
+      throw new Error(`Error fetching location: ${response.status}`);
+    }
+    
+    return await response.json();
+  } catch (error) {
+    console.error('Error in fetchLocation:', error);
+    throw error;
+  }
+}
+
 export async function deleteLocation(id: string) {
   try {
     const response = await fetch(`${LOCATIONS_ENDPOINT}/${id}`, {
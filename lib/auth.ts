@@ -0,0 +1,81 @@
+import { cookies } from "next/headers"
+import { createServerClient } from "@supabase/ssr"
+import {
+  acceptInvitations,
+  getWorkspacesForUser,
+  setUpFirstWorkspace,
+  type UserWorkspace,
+  type WorkspaceUser,
+} from "@/lib/workspace-service"
+import type { WorkspaceRole } from "@/lib/workspace-roles"
+
+// Remembers which of the user's workspaces is open
+export const WORKSPACE_COOKIE = "geogrid_workspace"
+
+// Who is asking and which workspace their request is scoped to
+export interface WorkspaceContext {
+  userId: string;
+  email: string;
+  workspace: UserWorkspace;
+  // The user's role in the open workspace
+  role: WorkspaceRole;
+  workspaces: UserWorkspace[];
+}
+
+// Supabase client acting as the signed-in user, reading and refreshing the
+// session from the request cookies
+export async function createSupabaseServerClient() {
+  const cookieStore = await cookies()
+
+  return createServerClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll()
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options))
+        } catch {
+          // Server components can't set cookies; the middleware refreshes the session instead
+        }
+      },
+    },
+  })
+}
+
+export async function getCurrentUser(): Promise<WorkspaceUser | null> {
+  const supabase = await createSupabaseServerClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return user ? { id: user.id, email: user.email ?? "", emailConfirmed: Boolean(user.email_confirmed_at) } : null
+}
+
+// The path to return to after signing in, or "/" unless it's a path on this
+// site. Browsers read "//host" and "/\host" as other sites and drop tabs and
+// newlines before looking.
+export function safeRedirectPath(next: string | null | undefined): string {
+  return next && /^\/(?![\/\\])/.test(next) && !/[\t\n\r]/.test(next) ? next : "/"
+}
+
+// The signed-in user and the workspace their request is scoped to, or null when
+// nobody is signed in. Pending invitations are accepted here, and someone who
+// belongs to no workspace yet gets one.
+export async function getWorkspaceContext(): Promise<WorkspaceContext | null> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return null
+  }
+
+  await acceptInvitations(user)
+  let workspaces = await getWorkspacesForUser(user.id)
+  if (workspaces.length === 0) {
+    workspaces = [await setUpFirstWorkspace(user)]
+  }
+
+  const selectedId = (await cookies()).get(WORKSPACE_COOKIE)?.value
+  const workspace = workspaces.find((candidate) => candidate.id === selectedId) ?? workspaces[0]
+
+  return { userId: user.id, email: user.email, workspace, role: workspace.role, workspaces }
+}
@@ -0,0 +1,160 @@
+import { lookup } from "node:dns"
+import { get } from "node:https"
+import { isIP, type LookupFunction } from "node:net"
+import type { Branding } from "@/lib/branding-service"
+
+export interface BrandLogo {
+  data: Uint8Array;
+  mimeType: "image/png" | "image/jpeg";
+}
+
+// Larger files aren't logos and aren't worth holding in memory
+const MAX_LOGO_BYTES = 2 * 1024 * 1024
+
+// Whether the address is on the public internet rather than loopback, a private
+// network, link-local (cloud metadata), shared carrier space or multicast
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address)
+
+  if (version === 4) {
+    const [a, b] = address.split(".").map(Number)
+    return !(
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19))
+    )
+  }
+
+  if (version === 6) {
+    const normalized = address.toLowerCase()
+    // IPv4 addresses mapped into IPv6, written either way
+    const dotted = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+    if (dotted) return isPublicAddress(dotted[1])
+    const hex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+    if (hex) {
+      const high = Number.parseInt(hex[1], 16)
+      const low = Number.parseInt(hex[2], 16)
+      return isPublicAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+    }
+    if (normalized === "::" || normalized === "::1") return false
+    // fc00::/7 unique local, fe80::/10 link-local and ff00::/8 multicast
+    return !/^(f[cd]|fe[89ab]|ff)/.test(normalized)
+  }
+
+  return false
+}
+
+// Hosts logos may be fetched from, as a comma-separated BRAND_LOGO_HOSTS; a host
+// also covers its subdomains. Any public host is allowed when it isn't set.
+function isAllowedLogoHost(hostname: string): boolean {
+  const hosts = (process.env.BRAND_LOGO_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+  return hosts.length === 0 || hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`))
+}
+
+// Resolves like dns.lookup but fails unless every address is public. Connections
+// use it, so they only ever reach an address that passed the check, however the
+// host's DNS answers change between lookups.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0)
+    } else if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+      callback(new Error(`Brand logo host ${hostname} does not resolve to a public address`), "", 0)
+    } else if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+// GET the URL over a connection made with publicLookup, without following
+// redirects, and read at most MAX_LOGO_BYTES of the body
+function download(url: URL): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const request = get(url, { lookup: publicLookup, timeout: 5000 }, (response) => {
+      if (response.statusCode !== 200) {
+        response.resume()
+        reject(new Error(`HTTP error! status: ${response.statusCode}`))
+        return
+      }
+      if (Number(response.headers["content-length"]) > MAX_LOGO_BYTES) {
+        response.destroy()
+        reject(new Error("Brand logo is too large"))
+        return
+      }
+
+      const chunks: Buffer[] = []
+      let size = 0
+      response.on("data", (chunk: Buffer) => {
+        size += chunk.length
+        if (size > MAX_LOGO_BYTES) {
+          response.destroy()
+          reject(new Error("Brand logo is too large"))
+          return
+        }
+        chunks.push(chunk)
+      })
+      response.on("end", () => resolve(new Uint8Array(Buffer.concat(chunks))))
+      response.on("error", reject)
+    })
+    request.on("timeout", () => request.destroy(new Error("Brand logo request timed out")))
+    request.on("error", reject)
+  })
+}
+
+// Download the logo for embedding in server-rendered files. Only https URLs on
+// the default port whose host resolves to public addresses are fetched, the
+// connection goes to the address that was checked, and redirects aren't
+// followed, so a logo URL can't reach internal services.
+// Returns null when there is no logo, it can't be fetched or it isn't a PNG or JPEG.
+export async function fetchBrandLogo(branding: Branding): Promise<BrandLogo | null> {
+  if (!branding.logoUrl) {
+    return null
+  }
+
+  try {
+    const url = new URL(branding.logoUrl)
+    if (url.protocol !== "https:" || url.port !== "" || url.username || url.password) {
+      throw new Error("Brand logos are only fetched from plain https URLs")
+    }
+    if (!isAllowedLogoHost(url.hostname)) {
+      throw new Error(`Brand logo host ${url.hostname} is not in BRAND_LOGO_HOSTS`)
+    }
+
+    // Connections to IP addresses skip the lookup, so those are checked here
+    const hostname = url.hostname.replace(/^\[|\]$/g, "")
+    if (isIP(hostname) && !isPublicAddress(hostname)) {
+      throw new Error(`Brand logo host ${url.hostname} is not a public address`)
+    }
+
+    const data = await download(url)
+    if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+      return { data, mimeType: "image/png" }
+    }
+    if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+      return { data, mimeType: "image/jpeg" }
+    }
+
+    console.error("Brand logo is not a PNG or JPEG:", branding.logoUrl)
+    return null
+  } catch (error) {
+    console.error("Error fetching brand logo:", error)
+    return null
+  }
+}
+
+// The logo as a data URI for markup rendered on the server, so pages and images
+// never point at the saved URL itself
+export function brandLogoDataUri(logo: BrandLogo | null): string | null {
+  return logo ? `data:${logo.mimeType};base64,${Buffer.from(logo.data).toString("base64")}` : null
+}
@@ -0,0 +1,121 @@
+import { createClient } from "@supabase/supabase-js"
+import { RANK_COLORS } from "@/lib/rank-colors"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+export interface Branding {
+  companyName: string;
+  // PNG or JPEG shown on reports, images and shared pages
+  logoUrl: string | null;
+  primaryColor: string;
+  footerText: string;
+  // Colors for ranks 1-3, 4-7, 8-10, 11-15 and 16 and below
+  rankColors: string[];
+}
+
+export const DEFAULT_BRANDING: Branding = {
+  companyName: "GeoGrid",
+  logoUrl: null,
+  primaryColor: "#2563eb",
+  footerText: "Powered by GeoGrid",
+  rankColors: RANK_COLORS,
+}
+
+interface BrandingRecord {
+  company_name: string;
+  logo_url: string | null;
+  primary_color: string;
+  footer_text: string;
+  rank_colors: string[] | null;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+function toBranding(row: BrandingRecord): Branding {
+  return {
+    companyName: row.company_name,
+    logoUrl: row.logo_url,
+    primaryColor: row.primary_color,
+    footerText: row.footer_text,
+    rankColors: row.rank_colors?.length === RANK_COLORS.length ? row.rank_colors : RANK_COLORS,
+  }
+}
+
+// Returns an error message if the branding can't be applied
+export function validateBranding(input: Partial<Branding>): string | null {
+  if (input.companyName !== undefined && !input.companyName.trim()) {
+    return "Company name is required"
+  }
+  if (input.logoUrl) {
+    try {
+      const url = new URL(input.logoUrl)
+      // Logos are fetched on the server to embed them, which only happens over https
+      if (url.protocol !== "https:") {
+        return "Logo URL must be an https address"
+      }
+    } catch {
+      return "Logo URL is not a valid URL"
+    }
+  }
+  if (input.primaryColor !== undefined && !HEX_COLOR.test(input.primaryColor)) {
+    return "Primary color must be a hex color such as #2563eb"
+  }
+  if (input.footerText !== undefined && input.footerText.length > 200) {
+    return "Footer text must be 200 characters or fewer"
+  }
+  if (input.rankColors !== undefined) {
+    if (input.rankColors.length !== RANK_COLORS.length) {
+      return `Rank palette must have ${RANK_COLORS.length} colors`
+    }
+    if (!input.rankColors.every((color) => HEX_COLOR.test(color))) {
+      return "Rank colors must be hex colors such as #059669"
+    }
+  }
+  return null
+}
+
+// The workspace's saved branding, or the default GeoGrid branding when none has been saved
+export async function getBranding(workspaceId: string): Promise<Branding> {
+  const { data, error } = await supabase
+    .from("branding_settings")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching branding:", error)
+    return DEFAULT_BRANDING
+  }
+
+  return data ? toBranding(data as BrandingRecord) : DEFAULT_BRANDING
+}
+
+export async function saveBranding(workspaceId: string, input: Branding): Promise<Branding> {
+  const { data, error } = await supabase
+    .from("branding_settings")
+    .upsert(
+      {
+        workspace_id: workspaceId,
+        company_name: input.companyName.trim(),
+        // Stored as the parsed URL so it is always percent-encoded and well formed
+        logo_url: input.logoUrl ? new URL(input.logoUrl).href : null,
+        primary_color: input.primaryColor,
+        footer_text: input.footerText,
+        rank_colors: input.rankColors,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "workspace_id" }
+    )
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error saving branding:", error)
+    throw error
+  }
+
+  return toBranding(data as BrandingRecord)
+}
@@ -0,0 +1,218 @@
+import type { GeocodePrecision } from "@/app/actions/geocode"
+import { MAX_SCAN_SET_KEYWORDS, normalizeKeywords } from "@/lib/scan-set-service"
+
+// Upper bound on rows per import; every row is a full scan set
+export const MAX_IMPORT_ROWS = 200
+
+// How sure we are that a row was resolved to the right place
+export type ImportMatchConfidence = "high" | "medium" | "low"
+
+// A spreadsheet row as read from the file, before it is resolved to a place
+export interface ImportRow {
+  // Row number in the spreadsheet, counting the header as row 1
+  rowNumber: number;
+  name: string;
+  address: string;
+  placeId: string;
+  keywords: string[];
+  // Name of a saved grid configuration; empty to use the import's default
+  gridConfig: string;
+  errors: string[];
+}
+
+export interface ImportSpreadsheet {
+  rows: ImportRow[];
+  // Set when the file as a whole can't be imported
+  error: string | null;
+}
+
+type ImportColumn = "name" | "address" | "city" | "state" | "zip" | "placeId" | "keywords" | "gridConfig"
+
+// Header spellings accepted for each column, compared without case, spaces or punctuation
+const COLUMN_HEADERS: Record<ImportColumn, string[]> = {
+  name: ["name", "business", "businessname", "store", "storename", "locationname"],
+  address: ["address", "streetaddress", "fulladdress", "street"],
+  city: ["city", "town"],
+  state: ["state", "province", "region"],
+  zip: ["zip", "zipcode", "postcode", "postalcode"],
+  placeId: ["placeid", "googleplaceid"],
+  keywords: ["keywords", "keyword", "searchterms", "searchterm"],
+  gridConfig: ["gridconfig", "gridconfiguration", "config", "configuration"],
+}
+
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+// Text of a spreadsheet cell; XLSX cells can also be numbers, booleans or dates
+export function cellText(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  return String(value).trim()
+}
+
+// Parse CSV text into rows of cells. Handles quoted cells with commas, quotes
+// and line breaks, CRLF line endings and a UTF-8 byte order mark.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// Keywords in one cell, separated by semicolons, pipes or line breaks
+export function splitKeywords(cell: string): string[] {
+  return normalizeKeywords(cell.split(/[;|\n]/))
+}
+
+// Turn the cells of a spreadsheet into import rows. The first non-empty row is
+// the header. Rows are checked against the workspace's saved grid configurations.
+export function readImportSpreadsheet(table: unknown[][], configNames: string[]): ImportSpreadsheet {
+  const cells = table.map((row) => row.map(cellText))
+  const headerIndex = cells.findIndex((row) => row.some(Boolean))
+  if (headerIndex === -1) {
+    return { rows: [], error: "The file is empty" }
+  }
+
+  const columns: Partial<Record<ImportColumn, number>> = {}
+  cells[headerIndex].forEach((header, index) => {
+    const key = headerKey(header)
+    const column = (Object.keys(COLUMN_HEADERS) as ImportColumn[]).find((name) => COLUMN_HEADERS[name].includes(key))
+    if (column && columns[column] === undefined) {
+      columns[column] = index
+    }
+  })
+
+  if (columns.name === undefined) {
+    return { rows: [], error: "The file needs a name column" }
+  }
+  if (columns.address === undefined && columns.placeId === undefined) {
+    return { rows: [], error: "The file needs an address or place_id column" }
+  }
+  if (columns.keywords === undefined) {
+    return { rows: [], error: "The file needs a keywords column" }
+  }
+
+  const knownConfigs = new Set(configNames.map((name) => name.trim().toLowerCase()))
+  const value = (row: string[], column: ImportColumn) => {
+    const index = columns[column]
+    return index === undefined ? "" : row[index] || ""
+  }
+
+  const rows: ImportRow[] = []
+  cells.forEach((row, index) => {
+    if (index <= headerIndex || !row.some(Boolean)) return
+
+    // Split address columns are joined into one line, as they would be written
+    const locality = [value(row, "state"), value(row, "zip")].filter(Boolean).join(" ")
+    const address = [value(row, "address"), value(row, "city"), locality].filter(Boolean).join(", ")
+
+    const importRow: ImportRow = {
+      rowNumber: index + 1,
+      name: value(row, "name"),
+      address,
+      placeId: value(row, "placeId"),
+      keywords: splitKeywords(value(row, "keywords")),
+      gridConfig: value(row, "gridConfig"),
+      errors: [],
+    }
+
+    if (!importRow.name) {
+      importRow.errors.push("Name is required")
+    }
+    if (!importRow.address && !importRow.placeId) {
+      importRow.errors.push("An address or place ID is required")
+    }
+    if (importRow.keywords.length === 0) {
+      importRow.errors.push("At least one keyword is required")
+    } else if (importRow.keywords.length > MAX_SCAN_SET_KEYWORDS) {
+      importRow.errors.push(`At most ${MAX_SCAN_SET_KEYWORDS} keywords per row`)
+    }
+    if (importRow.gridConfig && !knownConfigs.has(importRow.gridConfig.toLowerCase())) {
+      importRow.errors.push(`No saved grid configuration named "${importRow.gridConfig}"`)
+    }
+
+    rows.push(importRow)
+  })
+
+  if (rows.length === 0) {
+    return { rows, error: "The file has no rows below the header" }
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `An import can contain at most ${MAX_IMPORT_ROWS} rows; this file has ${rows.length}` }
+  }
+
+  return { rows, error: null }
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, " ")
+    .split(" ")
+    .filter((token) => token.length > 1)
+}
+
+// Whether the name in the spreadsheet plausibly names the place Google returned,
+// e.g. "Joe's Pizza #12" and "Joe's Pizza"
+export function namesMatch(rowName: string, placeName: string): boolean {
+  const rowTokens = nameTokens(rowName)
+  const placeTokens = new Set(nameTokens(placeName))
+  if (rowTokens.length === 0 || placeTokens.size === 0) return false
+
+  const shared = rowTokens.filter((token) => placeTokens.has(token)).length
+  return shared / Math.min(rowTokens.length, placeTokens.size) >= 0.5
+}
+
+// A place looked up by its Place ID is the right place; the only doubt is a
+// spreadsheet name that doesn't match it
+export function placeConfidence(rowName: string, placeName: string): ImportMatchConfidence {
+  return namesMatch(rowName, placeName) ? "high" : "medium"
+}
+
+// A geocoded address is as good as Google's precision for it
+export function geocodeConfidence(precision: GeocodePrecision | undefined, partialMatch: boolean): ImportMatchConfidence {
+  if (precision === "ROOFTOP") {
+    return partialMatch ? "medium" : "high"
+  }
+  if (precision === "RANGE_INTERPOLATED") {
+    return "medium"
+  }
+  return "low"
+}
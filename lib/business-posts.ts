@@ -0,0 +1,226 @@
+// Business Profile posts: the post types, template variables and validation
+// shared by the composer, the API and the publisher
+
+import type { Location } from "@/lib/location-service"
+
+export const POST_TYPES = ["update", "offer", "event"] as const
+
+export type PostType = (typeof POST_TYPES)[number]
+
+export const POST_TYPE_LABELS: Record<PostType, string> = {
+  update: "Update",
+  offer: "Offer",
+  event: "Event",
+}
+
+export type PostStatus = "scheduled" | "publishing" | "published" | "failed"
+
+// Buttons a post can show, as named by the Business Profile API
+export const CALL_TO_ACTION_TYPES = ["LEARN_MORE", "BOOK", "ORDER", "SHOP", "SIGN_UP", "CALL"] as const
+
+export type CallToActionType = (typeof CALL_TO_ACTION_TYPES)[number]
+
+export const CALL_TO_ACTION_LABELS: Record<CallToActionType, string> = {
+  LEARN_MORE: "Learn more",
+  BOOK: "Book",
+  ORDER: "Order online",
+  SHOP: "Buy",
+  SIGN_UP: "Sign up",
+  CALL: "Call now",
+}
+
+export interface CallToAction {
+  actionType: CallToActionType;
+  // Not used by CALL, which dials the profile's phone number
+  url?: string;
+}
+
+// Values filled into a template for one location
+export const POST_VARIABLES = ["name", "city", "neighborhood", "keyword"] as const
+
+export type PostVariable = (typeof POST_VARIABLES)[number]
+
+export type PostVariables = Record<PostVariable, string>
+
+// Limits of the Business Profile API
+export const MAX_SUMMARY_LENGTH = 1500
+export const MAX_TITLE_LENGTH = 58
+
+// What the composer sends: one post written for many locations
+export interface PostDraft {
+  type: PostType;
+  // Title of an offer or event; may contain variables
+  title: string;
+  // Post text; may contain variables
+  template: string;
+  callToAction: CallToAction | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  // IANA time zone the start and end were entered in, e.g. "America/Chicago"
+  timeZone: string;
+  couponCode: string;
+  redeemUrl: string;
+  terms: string;
+  scheduledAt: string;
+}
+
+export interface BusinessPost {
+  id: string;
+  locationId: string;
+  // Name of the location, for calendars and lists
+  locationName: string;
+  batchId: string;
+  type: PostType;
+  title: string | null;
+  summary: string;
+  callToAction: CallToAction | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  // Time zone the start and end are shown in on the profile
+  timeZone: string;
+  couponCode: string | null;
+  redeemUrl: string | null;
+  terms: string | null;
+  status: PostStatus;
+  scheduledAt: string;
+  publishedAt: string | null;
+  externalName: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g
+
+// Variables used in a template, in order of first use
+export function findTemplateVariables(template: string): string[] {
+  const names = [...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1])
+  return [...new Set(names)]
+}
+
+function isPostVariable(name: string): name is PostVariable {
+  return (POST_VARIABLES as readonly string[]).includes(name)
+}
+
+// Returns an error message if the template uses a variable that doesn't exist
+export function validateTemplate(template: string): string | null {
+  const unknown = findTemplateVariables(template).filter((name) => !isPostVariable(name))
+  return unknown.length > 0 ? `Unknown variable {{${unknown[0]}}}` : null
+}
+
+// Variables the template uses that have no value for a location
+export function missingVariables(template: string, variables: PostVariables): PostVariable[] {
+  return findTemplateVariables(template).filter(
+    (name): name is PostVariable => isPostVariable(name) && !variables[name].trim()
+  )
+}
+
+// Fill a template's variables with a location's values
+export function renderPostTemplate(template: string, variables: PostVariables): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    isPostVariable(name) ? variables[name].trim() : placeholder
+  )
+}
+
+// A location's values for the template variables
+export function locationPostVariables(
+  location: Pick<Location, "name" | "city" | "neighborhood" | "keyword">
+): PostVariables {
+  return {
+    name: location.name,
+    city: location.city,
+    neighborhood: location.neighborhood,
+    keyword: location.keyword,
+  }
+}
+
+// The draft's title and text with a location's values filled in, or an error
+// message if a variable has no value or the result is too long
+export function renderPostForLocation(
+  draft: Pick<PostDraft, "type" | "title" | "template">,
+  variables: PostVariables
+): { title: string; summary: string; error: string | null } {
+  const title = draft.type === "update" ? "" : renderPostTemplate(draft.title, variables)
+  const summary = renderPostTemplate(draft.template, variables)
+
+  const missing = new Set(missingVariables(draft.template, variables))
+  if (draft.type !== "update") {
+    missingVariables(draft.title, variables).forEach((name) => missing.add(name))
+  }
+  if (missing.size > 0) {
+    return { title, summary, error: `No ${[...missing].join(", ")} set` }
+  }
+
+  return { title, summary, error: validateRenderedPost(title, summary) }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === "http:" || url.protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+// Returns an error message if the draft can't be scheduled. The lengths are
+// checked again per location once the variables are filled in.
+export function validatePostDraft(draft: PostDraft): string | null {
+  if (!(POST_TYPES as readonly string[]).includes(draft.type)) {
+    return "Choose an update, offer or event"
+  }
+  if (!draft.template.trim()) {
+    return "Post text is required"
+  }
+
+  const templateError = validateTemplate(draft.template) || validateTemplate(draft.title)
+  if (templateError) {
+    return templateError
+  }
+
+  if (draft.type !== "update") {
+    if (!draft.title.trim()) {
+      return `${POST_TYPE_LABELS[draft.type]}s need a title`
+    }
+    if (!draft.startsAt || !draft.endsAt || Number.isNaN(Date.parse(draft.startsAt)) || Number.isNaN(Date.parse(draft.endsAt))) {
+      return `${POST_TYPE_LABELS[draft.type]}s need a start and end date`
+    }
+    if (Date.parse(draft.endsAt) < Date.parse(draft.startsAt)) {
+      return "The end date must be after the start date"
+    }
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: draft.timeZone })
+    } catch {
+      return `Unknown time zone: ${draft.timeZone}`
+    }
+  }
+
+  if (draft.callToAction) {
+    if (!(CALL_TO_ACTION_TYPES as readonly string[]).includes(draft.callToAction.actionType)) {
+      return "Unknown button type"
+    }
+    if (draft.callToAction.actionType !== "CALL" && !isHttpUrl(draft.callToAction.url || "")) {
+      return "The button needs a link starting with http:// or https://"
+    }
+  }
+
+  if (draft.redeemUrl && !isHttpUrl(draft.redeemUrl)) {
+    return "The redeem link must start with http:// or https://"
+  }
+
+  if (Number.isNaN(Date.parse(draft.scheduledAt))) {
+    return "Choose when to publish"
+  }
+
+  return null
+}
+
+// Returns an error message if a location's filled-in post is too long for the API
+export function validateRenderedPost(title: string, summary: string): string | null {
+  if (summary.length > MAX_SUMMARY_LENGTH) {
+    return `Post text is ${summary.length} characters; the limit is ${MAX_SUMMARY_LENGTH}`
+  }
+  if (title.length > MAX_TITLE_LENGTH) {
+    return `Title is ${title.length} characters; the limit is ${MAX_TITLE_LENGTH}`
+  }
+  return null
+}
@@ -0,0 +1,369 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js"
+import { getGridResults, type GridResult } from "@/lib/geogrid-service"
+import { getSchedules, type ScanSchedule } from "@/lib/schedule-service"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createSupabaseClient(supabaseUrl, supabaseKey)
+
+export interface Project {
+  id: string;
+  clientId: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface Client {
+  id: string;
+  name: string;
+  createdAt: string;
+  projects: Project[];
+}
+
+// A business tracked in the workspace and the project it is filed under, if any
+export interface OrganizedBusiness {
+  id: string;
+  name: string;
+  address: string;
+  placeId?: string;
+  projectId: string | null;
+}
+
+// Roll-up of the latest scan of every business and keyword in a group
+export interface ScanRollup {
+  scanCount: number;
+  businessCount: number;
+  keywordCount: number;
+  averageRank: number | null;
+  visibilityPercentage: number | null;
+  lastScanAt: string | null;
+}
+
+export interface ProjectDashboard {
+  project: Project;
+  businesses: OrganizedBusiness[];
+  rollup: ScanRollup;
+}
+
+export interface ClientDashboard {
+  client: Client;
+  rollup: ScanRollup;
+  projects: ProjectDashboard[];
+  // Newest first
+  scans: GridResult[];
+  schedules: ScanSchedule[];
+}
+
+interface ClientRecord {
+  id: string;
+  name: string;
+  created_at: string;
+  projects?: ProjectRecord[];
+}
+
+interface ProjectRecord {
+  id: string;
+  client_id: string;
+  name: string;
+  created_at: string;
+}
+
+function toProject(row: ProjectRecord): Project {
+  return {
+    id: row.id.toString(),
+    clientId: row.client_id.toString(),
+    name: row.name,
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
+
+function toClient(row: ClientRecord): Client {
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    createdAt: new Date(row.created_at).toISOString(),
+    projects: (row.projects || []).map(toProject).sort((a, b) => a.name.localeCompare(b.name)),
+  }
+}
+
+// Returns an error message if the name can't be used for a client or project
+export function validateFolderName(name: string): string | null {
+  if (!name.trim()) {
+    return "Name is required"
+  }
+  if (name.length > 100) {
+    return "Name must be 100 characters or fewer"
+  }
+  return null
+}
+
+// Businesses are saved again by older scans, so the same Place ID can appear on several rows
+function businessKey(business: { placeId?: string; name: string; address: string }): string {
+  return business.placeId ? `place:${business.placeId}` : `name:${business.name}|${business.address}`
+}
+
+// Average rank and visibility of the most recent scan of every business and keyword
+export function summarizeScans(scans: GridResult[]): ScanRollup {
+  const latest = new Map<string, GridResult>()
+  for (const scan of scans) {
+    const key = `${businessKey(scan.businessInfo)}|${scan.searchTerm.toLowerCase()}`
+    const current = latest.get(key)
+    if (!current || scan.createdAt > current.createdAt) {
+      latest.set(key, scan)
+    }
+  }
+
+  const current = [...latest.values()]
+  // Older scans can lack a metric, so only finite values count
+  const average = (values: number[]) => {
+    const finite = values.filter((value) => Number.isFinite(value))
+    return finite.length > 0 ? finite.reduce((sum, value) => sum + value, 0) / finite.length : null
+  }
+
+  return {
+    scanCount: scans.length,
+    businessCount: new Set(scans.map((scan) => businessKey(scan.businessInfo))).size,
+    keywordCount: new Set(scans.map((scan) => scan.searchTerm.toLowerCase())).size,
+    averageRank: average(current.map((scan) => scan.metrics.averageRank)),
+    visibilityPercentage: average(current.map((scan) => scan.metrics.visibilityPercentage)),
+    lastScanAt: scans.reduce<string | null>(
+      (last, scan) => (last === null || scan.createdAt > last ? scan.createdAt : last),
+      null
+    ),
+  }
+}
+
+// Clients with their projects, alphabetically
+export async function getClients(workspaceId: string): Promise<Client[]> {
+  const { data, error } = await supabase
+    .from("clients")
+    .select("*, projects (*)")
+    .eq("workspace_id", workspaceId)
+    .order("name", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching clients:", error)
+    throw error
+  }
+
+  return (data as ClientRecord[]).map(toClient)
+}
+
+export async function getClientById(workspaceId: string, id: string): Promise<Client | null> {
+  const { data, error } = await supabase
+    .from("clients")
+    .select("*, projects (*)")
+    .eq("workspace_id", workspaceId)
+    .eq("id", id)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching client:", error)
+    return null
+  }
+
+  return data ? toClient(data as ClientRecord) : null
+}
+
+export async function createClient(workspaceId: string, name: string): Promise<Client> {
+  const { data, error } = await supabase
+    .from("clients")
+    .insert({ workspace_id: workspaceId, name: name.trim() })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error creating client:", error)
+    throw error
+  }
+
+  return toClient(data as ClientRecord)
+}
+
+export async function renameClient(workspaceId: string, id: string, name: string): Promise<Client | null> {
+  const { data, error } = await supabase
+    .from("clients")
+    .update({ name: name.trim() })
+    .eq("workspace_id", workspaceId)
+    .eq("id", id)
+    .select("*, projects (*)")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error renaming client:", error)
+    return null
+  }
+
+  return data ? toClient(data as ClientRecord) : null
+}
+
+// Deleting a client deletes its projects; their businesses and scans become unassigned
+export async function deleteClient(workspaceId: string, id: string): Promise<boolean> {
+  const { error } = await supabase.from("clients").delete().eq("workspace_id", workspaceId).eq("id", id)
+
+  if (error) {
+    console.error("Error deleting client:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function createProject(workspaceId: string, clientId: string, name: string): Promise<Project | null> {
+  const client = await getClientById(workspaceId, clientId)
+  if (!client) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from("projects")
+    .insert({ workspace_id: workspaceId, client_id: clientId, name: name.trim() })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error creating project:", error)
+    throw error
+  }
+
+  return toProject(data as ProjectRecord)
+}
+
+export async function renameProject(workspaceId: string, id: string, name: string): Promise<Project | null> {
+  const { data, error } = await supabase
+    .from("projects")
+    .update({ name: name.trim() })
+    .eq("workspace_id", workspaceId)
+    .eq("id", id)
+    .select("*")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error renaming project:", error)
+    return null
+  }
+
+  return data ? toProject(data as ProjectRecord) : null
+}
+
+export async function deleteProject(workspaceId: string, id: string): Promise<boolean> {
+  const { error } = await supabase.from("projects").delete().eq("workspace_id", workspaceId).eq("id", id)
+
+  if (error) {
+    console.error("Error deleting project:", error)
+    return false
+  }
+
+  return true
+}
+
+// Every business in the workspace once, with the project it is filed under
+export async function getOrganizedBusinesses(workspaceId: string): Promise<OrganizedBusiness[]> {
+  const { data, error } = await supabase
+    .from("businesses")
+    .select("id, name, address, place_id, project_id")
+    .eq("workspace_id", workspaceId)
+    .order("id", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching businesses:", error)
+    throw error
+  }
+
+  const businesses = new Map<string, OrganizedBusiness>()
+  for (const row of data) {
+    const business: OrganizedBusiness = {
+      id: row.id.toString(),
+      name: row.name,
+      address: row.address,
+      placeId: row.place_id || undefined,
+      projectId: row.project_id,
+    }
+    const key = businessKey(business)
+    if (!businesses.has(key)) {
+      businesses.set(key, business)
+    }
+  }
+
+  return [...businesses.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// File a business under a project, or take it out of its project with null. Every saved
+// copy of the business moves so all of its scans follow.
+export async function assignBusinessToProject(
+  workspaceId: string,
+  businessId: string,
+  projectId: string | null
+): Promise<boolean> {
+  const { data: business, error } = await supabase
+    .from("businesses")
+    .select("id, name, address, place_id")
+    .eq("workspace_id", workspaceId)
+    .eq("id", businessId)
+    .maybeSingle()
+
+  if (error || !business) {
+    if (error) console.error("Error fetching business:", error)
+    return false
+  }
+
+  if (projectId) {
+    const { data: project } = await supabase
+      .from("projects")
+      .select("id")
+      .eq("workspace_id", workspaceId)
+      .eq("id", projectId)
+      .maybeSingle()
+
+    if (!project) {
+      return false
+    }
+  }
+
+  let query = supabase.from("businesses").update({ project_id: projectId }).eq("workspace_id", workspaceId)
+  query = business.place_id
+    ? query.eq("place_id", business.place_id)
+    : query.is("place_id", null).eq("name", business.name).eq("address", business.address)
+
+  const { error: updateError } = await query
+  if (updateError) {
+    console.error("Error assigning business to project:", updateError)
+    return false
+  }
+
+  return true
+}
+
+// Everything filed under a client: roll-ups for the client and each of its projects,
+// its scans and the schedules of its businesses
+export async function getClientDashboard(workspaceId: string, clientId: string): Promise<ClientDashboard | null> {
+  const client = await getClientById(workspaceId, clientId)
+  if (!client) {
+    return null
+  }
+
+  const [businesses, allScans, allSchedules] = await Promise.all([
+    getOrganizedBusinesses(workspaceId),
+    getGridResults(workspaceId),
+    getSchedules(workspaceId),
+  ])
+
+  const projectIds = new Set(client.projects.map((project) => project.id))
+  const scans = allScans.filter((scan) => scan.projectId && projectIds.has(scan.projectId))
+  const clientBusinessKeys = new Set(
+    businesses.filter((business) => business.projectId && projectIds.has(business.projectId)).map(businessKey)
+  )
+
+  return {
+    client,
+    rollup: summarizeScans(scans),
+    projects: client.projects.map((project) => ({
+      project,
+      businesses: businesses.filter((business) => business.projectId === project.id),
+      rollup: summarizeScans(scans.filter((scan) => scan.projectId === project.id)),
+    })),
+    scans,
+    schedules: allSchedules.filter((schedule) => clientBusinessKeys.has(businessKey(schedule.businessInfo))),
+  }
+}
@@ -0,0 +1,93 @@
+import { calculateGridMetrics, getGridResultById, type GridResult } from "@/lib/geogrid-service"
+import { parseGridSize } from "@/lib/geo-grid"
+import { OUTSIDE_SHAPE } from "@/lib/grid-shapes"
+import { getSerpSnapshot, type SerpSnapshotPoint } from "@/lib/serp-snapshot-service"
+import { NOT_RANKED } from "@/services/ranking-service"
+
+// Rank matrix of one business that appeared anywhere in a scan, rebuilt from the
+// stored per-point results so it is directly comparable to the scanned business
+export interface CompetitorGrid {
+  placeId: string;
+  name: string;
+  vicinity: string | null;
+  rating: number | null;
+  userRatingsTotal: number | null;
+  types: string[];
+  location: { lat: number; lng: number } | null;
+  gridData: number[][];
+  metrics: GridResult["metrics"];
+  // Number of grid points where the business was listed at all
+  appearances: number;
+  // True for the business the scan was run for
+  isTarget: boolean;
+}
+
+// Build a grid for every place in the snapshot, ordered as a leaderboard:
+// highest SoLV first, ties broken by the better average rank. Cells that are
+// outside the shape of `scannedGrid` stay outside in every competitor grid.
+export function buildCompetitorGrids(
+  snapshot: SerpSnapshotPoint[],
+  gridSize: number,
+  targetPlaceId?: string,
+  scannedGrid?: number[][]
+): CompetitorGrid[] {
+  const emptyGrid = () =>
+    Array.from({ length: gridSize }, (_, row) =>
+      Array.from({ length: gridSize }, (_, col) =>
+        scannedGrid?.[row]?.[col] === OUTSIDE_SHAPE ? OUTSIDE_SHAPE : NOT_RANKED
+      )
+    )
+  const grids = new Map<string, Omit<CompetitorGrid, "metrics">>()
+
+  snapshot.forEach((point) => {
+    const row = Math.floor(point.pointIndex / gridSize)
+    const col = point.pointIndex % gridSize
+    if (row >= gridSize) return
+
+    point.results.forEach((entry) => {
+      let grid = grids.get(entry.placeId)
+      if (!grid) {
+        grid = {
+          placeId: entry.placeId,
+          name: entry.name,
+          vicinity: entry.vicinity,
+          rating: entry.rating,
+          userRatingsTotal: entry.userRatingsTotal,
+          types: entry.types,
+          location: entry.location,
+          gridData: emptyGrid(),
+          appearances: 0,
+          isTarget: entry.placeId === targetPlaceId,
+        }
+        grids.set(entry.placeId, grid)
+      }
+
+      // A place listed twice at one point keeps its best position
+      if (grid.gridData[row][col] === NOT_RANKED) {
+        grid.appearances++
+      }
+      grid.gridData[row][col] = Math.min(grid.gridData[row][col], entry.position)
+    })
+  })
+
+  return Array.from(grids.values())
+    .map((grid) => ({ ...grid, metrics: calculateGridMetrics(grid.gridData) }))
+    .sort(
+      (a, b) =>
+        b.metrics.visibilityPercentage - a.metrics.visibilityPercentage || a.metrics.averageRank - b.metrics.averageRank
+    )
+}
+
+// Competitor leaderboard for a saved grid result. Returns null when the result
+// doesn't exist; results scanned before snapshots were stored give an empty list.
+export async function getCompetitorGrids(workspaceId: string, gridResultId: string): Promise<CompetitorGrid[] | null> {
+  const gridResult = await getGridResultById(workspaceId, gridResultId)
+  if (!gridResult) {
+    return null
+  }
+
+  const snapshot = await getSerpSnapshot(gridResultId)
+  const gridSize = parseGridSize(gridResult.gridSize)
+
+  return buildCompetitorGrids(snapshot, gridSize, gridResult.businessInfo.placeId, gridResult.gridData)
+}
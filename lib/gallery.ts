@@ -0,0 +1,115 @@
+import { zipSync } from "fflate"
+import type { GridResult } from "@/lib/geogrid-service"
+
+// Photos shown per business; Places returns up to ten
+export const PHOTOS_PER_BUSINESS = 6
+
+// Items that can be compared side by side at once
+export const MAX_COMPARE_ITEMS = 4
+
+export interface GalleryItem {
+  // "grid:<result id>" or "photo:<photo reference>", unique across both kinds
+  key: string;
+  kind: "grid" | "photo";
+  title: string;
+  subtitle: string;
+  thumbnailUrl: string;
+  fullUrl: string;
+  // Name of the file in a ZIP download, without the extension
+  fileName: string;
+  // Photographer credit Google requires to be shown with place photos
+  credits?: string[];
+}
+
+export interface GalleryFilters {
+  business: string;
+  keyword: string;
+  // yyyy-mm-dd, inclusive; empty for no limit
+  from: string;
+  to: string;
+}
+
+export interface PlacePhoto {
+  photo_reference: string;
+  html_attributions?: string[];
+}
+
+function slug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "image"
+}
+
+function localDate(iso: string): string {
+  const date = new Date(iso)
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// Scans matching the filters, newest first
+export function filterGridResults(results: GridResult[], filters: GalleryFilters): GridResult[] {
+  return results
+    .filter((result) => {
+      const date = localDate(result.createdAt)
+      return (
+        (!filters.business || result.businessInfo.name === filters.business) &&
+        (!filters.keyword || result.searchTerm === filters.keyword) &&
+        (!filters.from || date >= filters.from) &&
+        (!filters.to || date <= filters.to)
+      )
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export function gridGalleryItem(result: GridResult): GalleryItem {
+  const date = localDate(result.createdAt)
+  return {
+    key: `grid:${result.id}`,
+    kind: "grid",
+    title: result.businessInfo.name,
+    subtitle: `"${result.searchTerm}" · ${result.gridSize} · ${new Date(result.createdAt).toLocaleDateString()}`,
+    thumbnailUrl: `/api/grid-image?id=${encodeURIComponent(result.id)}&width=400`,
+    fullUrl: `/api/grid-image?id=${encodeURIComponent(result.id)}&width=1200`,
+    fileName: `${slug(result.businessInfo.name)}-${slug(result.searchTerm)}-${date}`,
+  }
+}
+
+export function photoGalleryItem(businessName: string, photo: PlacePhoto, index: number): GalleryItem {
+  const reference = encodeURIComponent(photo.photo_reference)
+  return {
+    key: `photo:${photo.photo_reference}`,
+    kind: "photo",
+    title: businessName,
+    subtitle: `Photo ${index + 1}`,
+    thumbnailUrl: `/api/place-photo?reference=${reference}&maxwidth=400&maxheight=400`,
+    fullUrl: `/api/place-photo?reference=${reference}&maxwidth=1600&maxheight=1600`,
+    fileName: `${slug(businessName)}-photo-${index + 1}`,
+    // Google sends the credits as links; only their text is shown
+    credits: photo.html_attributions?.map((attribution) => attribution.replace(/<[^>]*>/g, "").trim()),
+  }
+}
+
+// Zip downloaded images, naming each after its item and numbering repeated names.
+// Images are already compressed, so they are stored as they are.
+export function buildGalleryZip(files: { item: GalleryItem; data: Uint8Array; extension: string }[]): Uint8Array {
+  const entries: Record<string, Uint8Array> = {}
+  for (const { item, data, extension } of files) {
+    let name = `${item.fileName}.${extension}`
+    for (let copy = 2; entries[name]; copy++) {
+      name = `${item.fileName}-${copy}.${extension}`
+    }
+    entries[name] = data
+  }
+  return zipSync(entries, { level: 0 })
+}
+
+// File extension for an image's content type
+export function imageExtension(contentType: string | null): string {
+  if (contentType?.includes("svg")) return "svg"
+  if (contentType?.includes("png")) return "png"
+  if (contentType?.includes("webp")) return "webp"
+  return "jpg"
+}
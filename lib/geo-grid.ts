@@ -0,0 +1,224 @@
+import {
+  getServiceAreaCenter,
+  isPointInPolygon,
+  validateServiceArea,
+  type GridShape,
+  type ServiceAreaPolygon,
+} from "@/lib/grid-shapes"
+import type { MapCenter } from "@/types"
+
+// Version of the grid layout produced by generateGeoGrid. Stored with every scan and
+// bumped whenever the same options would produce different points.
+export const GEO_GRID_VERSION = 1
+
+// Mean Earth radius used for every distance and destination calculation
+export const EARTH_RADIUS_KM = 6371.0088
+
+// Coordinates are rounded so the same grid always serializes to the same values
+const COORDINATE_PRECISION = 7
+
+// Small tolerance so points exactly on a shape's edge are kept
+const EDGE_TOLERANCE = 1e-9
+
+// How far apart a grid's points are. `spacingKm` is the distance between neighbouring
+// points; `radiusKm` is the distance from the center to the middle of the grid's edge,
+// i.e. spacingKm * (gridSize - 1) / 2.
+export type GridExtent = { spacingKm: number; radiusKm?: never } | { radiusKm: number; spacingKm?: never }
+
+export type GeoGridOptions = GridExtent & {
+  center: MapCenter;
+  gridSize: number;
+  shape?: GridShape;
+  // Required for "polygon" grids, which cover the polygon instead of the center and extent
+  polygon?: ServiceAreaPolygon | null;
+}
+
+// A scan location and its cell in the gridSize x gridSize rank matrix. Row 0 is the
+// southernmost row and column 0 the westernmost column; `index` is row * gridSize + col.
+export interface GeoGridPoint {
+  id: string;
+  index: number;
+  row: number;
+  col: number;
+  lat: number;
+  lng: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+const round = (value: number) => Number(value.toFixed(COORDINATE_PRECISION))
+
+// Parse a "13x13" style grid size (or a plain number) into its side length
+export function parseGridSize(gridSize: string | number): number {
+  return Number.parseInt(String(gridSize).split("x")[0])
+}
+
+// Stable identifier of a grid cell, the same for every scan of the same grid size
+export function gridPointId(row: number, col: number): string {
+  return `r${row}c${col}`
+}
+
+// Great-circle distance between two coordinates, in kilometers
+export function haversineDistanceKm(a: MapCenter, b: MapCenter): number {
+  const dLat = toRadians(b.lat - a.lat)
+  const dLng = toRadians(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Point reached by travelling `distanceKm` along a great circle from `origin`
+// with the given initial bearing (degrees clockwise from north)
+export function destinationPoint(origin: MapCenter, bearingDegrees: number, distanceKm: number): MapCenter {
+  const angular = distanceKm / EARTH_RADIUS_KM
+  const bearing = toRadians(bearingDegrees)
+  const lat1 = toRadians(origin.lat)
+  const lng1 = toRadians(origin.lng)
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+  )
+  const lng2 =
+    lng1 +
+    Math.atan2(Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1), Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2))
+
+  return {
+    lat: toDegrees(lat2),
+    // Normalize to -180..180
+    lng: ((toDegrees(lng2) + 540) % 360) - 180,
+  }
+}
+
+// Place a point at a planar offset from the center. The layout is azimuthal equidistant:
+// the point's great-circle distance and bearing from the center match the offset exactly.
+function offsetPoint(center: MapCenter, eastKm: number, northKm: number): MapCenter {
+  const distanceKm = Math.hypot(eastKm, northKm)
+  if (distanceKm === 0) {
+    return { ...center }
+  }
+  return destinationPoint(center, toDegrees(Math.atan2(eastKm, northKm)), distanceKm)
+}
+
+// Distance between neighbouring points for the given extent
+export function resolveSpacingKm(gridSize: number, extent: GridExtent): number {
+  if (extent.spacingKm !== undefined) {
+    return extent.spacingKm
+  }
+  const half = (gridSize - 1) / 2
+  return half > 0 ? extent.radiusKm / half : 0
+}
+
+// Spacing of a stored grid. Results saved before the generator was versioned stored
+// the grid's radius as their distance, as scans then laid grids out by radius; later
+// results store the spacing. Rounded to 0.1 m so legacy values read cleanly.
+export function storedSpacingKm(distanceKm: number, gridSize: string | number, generatorVersion?: number | null): number {
+  if (generatorVersion) {
+    return distanceKm
+  }
+  const spacingKm = resolveSpacingKm(parseGridSize(gridSize), { radiusKm: distanceKm })
+  return spacingKm > 0 ? Number(spacingKm.toFixed(4)) : distanceKm
+}
+
+function validateCenter(center: MapCenter) {
+  if (!center || !Number.isFinite(center.lat) || !Number.isFinite(center.lng) || Math.abs(center.lat) > 90) {
+    throw new Error("Invalid center coordinates for grid generation")
+  }
+}
+
+// Offsets of every lattice cell from the grid center, in kilometers. Hexagon grids offset
+// alternate rows by half a step and pack rows sqrt(3)/2 steps apart.
+function latticeOffsets(gridSize: number, spacingKm: number, shape: GridShape) {
+  const half = (gridSize - 1) / 2
+  const radiusKm = half * spacingKm
+  const offsets: { row: number; col: number; eastKm: number; northKm: number }[] = []
+
+  for (let row = 0; row < gridSize; row++) {
+    for (let col = 0; col < gridSize; col++) {
+      const rowOffset = row - half
+      let eastKm = (col - half) * spacingKm
+      let northKm = rowOffset * spacingKm
+
+      if (shape === "hexagon") {
+        northKm = (rowOffset * spacingKm * Math.sqrt(3)) / 2
+        eastKm += Math.abs(rowOffset) % 2 === 1 ? spacingKm / 2 : 0
+        // Flat-topped hexagon with corners radiusKm east and west of the center
+        if (Math.abs(eastKm) > radiusKm - (Math.abs(rowOffset) * spacingKm) / 2 + EDGE_TOLERANCE) continue
+      } else if (shape === "circle") {
+        if (Math.hypot(eastKm, northKm) > radiusKm * (1 + EDGE_TOLERANCE)) continue
+      }
+
+      offsets.push({ row, col, eastKm, northKm })
+    }
+  }
+
+  return offsets
+}
+
+// Center and spacing of a lattice whose gridSize points span the polygon's longer side
+function polygonLattice(polygon: ServiceAreaPolygon, gridSize: number) {
+  const center = getServiceAreaCenter(polygon)
+  const [outer] = polygon.coordinates
+  const lngs = outer.map((position) => position[0])
+  const lats = outer.map((position) => position[1])
+
+  const widthKm = haversineDistanceKm(
+    { lat: center.lat, lng: Math.min(...lngs) },
+    { lat: center.lat, lng: Math.max(...lngs) }
+  )
+  const heightKm = haversineDistanceKm(
+    { lat: Math.min(...lats), lng: center.lng },
+    { lat: Math.max(...lats), lng: center.lng }
+  )
+
+  return { center, spacingKm: Math.max(widthKm, heightKm) / (gridSize - 1) }
+}
+
+// Generate the scan locations of a grid in row-major order (south to north, west to east).
+// This is the only place grid coordinates are computed; scanning, the map preview,
+// result views and exports all use it so their points always agree.
+export function generateGeoGrid(options: GeoGridOptions): GeoGridPoint[] {
+  const { gridSize, shape = "square", polygon } = options
+
+  if (!Number.isInteger(gridSize) || gridSize < 1) {
+    throw new Error("Grid size must be a positive whole number")
+  }
+  if (shape !== "square" && gridSize < 3) {
+    throw new Error("Shaped grids need a grid size of at least 3")
+  }
+
+  let center = options.center
+  let spacingKm: number
+
+  if (shape === "polygon") {
+    const polygonError = validateServiceArea(polygon)
+    if (polygonError) {
+      throw new Error(polygonError)
+    }
+    ;({ center, spacingKm } = polygonLattice(polygon!, gridSize))
+  } else {
+    validateCenter(center)
+    spacingKm = resolveSpacingKm(gridSize, options)
+    if (gridSize > 1 && !(spacingKm > 0)) {
+      throw new Error("Distance must be a positive number")
+    }
+  }
+
+  const points = latticeOffsets(gridSize, spacingKm, shape)
+    .map(({ row, col, eastKm, northKm }) => {
+      const point = offsetPoint(center, eastKm, northKm)
+      return {
+        id: gridPointId(row, col),
+        index: row * gridSize + col,
+        row,
+        col,
+        lat: round(point.lat),
+        lng: round(point.lng),
+      }
+    })
+    .filter((point) => shape !== "polygon" || isPointInPolygon(point, polygon!))
+
+  if (points.length === 0) {
+    throw new Error("The service area is too small for this grid size")
+  }
+
+  return points
+}
@@ -1,4 +1,7 @@
 import { createClient } from "@supabase/supabase-js"
+import { storedSpacingKm, type GeoGridPoint } from "@/lib/geo-grid"
+import { OUTSIDE_SHAPE, type GridShape, type ServiceAreaPolygon } from "@/lib/grid-shapes"
+import type { MatchStrategy } from "@/services/ranking-service"
 
 // Create a single Supabase client for interacting with your database
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
@@ -6,6 +9,8 @@ const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PU
 const supabase = createClient(supabaseUrl, supabaseKey)
 
 interface BusinessRecord {
+  id: string;
+  project_id: string | null;
   name: string;
   address: string;
   place_id: string | null;
@@ -20,6 +25,7 @@ interface GridResultRecord {
   created_at: string;
   grid_size: string;
   grid_data: number[][];
+  match_strategies: MatchStrategy[][] | null;
   metrics: {
     agr: number;
     atgr: number;
@@ -30,6 +36,10 @@ interface GridResultRecord {
   };
   google_region: string;
   distance_km: string | number;
+  shape: GridShape | null;
+  polygon: ServiceAreaPolygon | null;
+  points: GeoGridPoint[] | null;
+  generator_version: number | null;
   businesses: BusinessRecord;
 }
 
@@ -46,6 +56,8 @@ export interface GridResult {
   createdAt: string;
   gridSize: string;
   gridData: number[][];
+  // How each point's rank was matched to the business; absent for older results
+  matchStrategies?: MatchStrategy[][];
   metrics: {
     agr: number;
     atgr: number;
@@ -55,7 +67,18 @@ export interface GridResult {
     top20AverageRank: number;
   };
   googleRegion: string;
+  // Spacing between neighbouring points, also for older results that stored a radius
   distanceKm: number;
+  // Grid layout the ranks were scanned in; treated as square when absent
+  shape?: GridShape;
+  polygon?: ServiceAreaPolygon | null;
+  // Exact points that were queried and the grid generator version that laid them out;
+  // absent for older results, whose points have to be regenerated
+  points?: GeoGridPoint[];
+  generatorVersion?: number;
+  // Saved business the scan is for and the project that business is filed under
+  businessId?: string;
+  projectId?: string | null;
 }
 
 // Check if tables exist and create them if they don't
@@ -91,45 +114,57 @@ export async function initDatabase() {
   }
 }
 
-export async function saveGridResult(result: Omit<GridResult, "id">): Promise<GridResult> {
-  try {
-    // First, save the business info
-    const { data: businessData, error: businessError } = await supabase
-      .from("businesses")
-      .insert({
-        name: result.businessInfo.name,
-        address: result.businessInfo.address,
-        place_id: result.businessInfo.placeId || null,
-        lat: result.businessInfo.location.lat,
-        lng: result.businessInfo.location.lng,
-        category: result.businessInfo.category || null,
-      })
-      .select("id")
-      .single()
-
-    if (businessError) {
-      console.error("Error inserting business:", businessError)
-      throw businessError
-    }
-
-    if (!businessData || !businessData.id) {
-      throw new Error("Failed to get business ID after insertion")
-    }
+// Calculate AGR, ATGR and SoLV for a completed grid, treating anything above 20 as not ranked.
+// Cells outside a shaped grid are not scan points and don't count towards any metric.
+export function calculateGridMetrics(gridData: number[][]): GridResult["metrics"] {
+  const flattenedValues = gridData.flat().filter((val) => val !== OUTSIDE_SHAPE)
+  const avgRanking =
+    flattenedValues.length > 0
+      ? flattenedValues.reduce((sum, val) => sum + (val > 20 ? 21 : val), 0) / flattenedValues.length
+      : 0
+  const topRankings = flattenedValues.filter((val) => val <= 20)
+  const avgTopRanking =
+    topRankings.length > 0 ? topRankings.reduce((sum, val) => sum + val, 0) / topRankings.length : 0
+
+  // Standard SoLV calculation - percentage of places where business appears in top 10 results
+  const solvPercentage =
+    flattenedValues.length > 0
+      ? Math.round((flattenedValues.filter((val) => val <= 10).length / flattenedValues.length) * 100)
+      : 0
+
+  return {
+    agr: avgRanking,
+    atgr: avgTopRanking,
+    solv: `${solvPercentage}%`,
+    averageRank: avgRanking,
+    visibilityPercentage: solvPercentage,
+    top20AverageRank: avgTopRanking,
+  }
+}
 
-    const businessId = businessData.id
+export async function saveGridResult(workspaceId: string, result: Omit<GridResult, "id">): Promise<GridResult> {
+  try {
+    // First, save the business info; repeat scans reuse the business so they stay in its project
+    const businessId = await saveBusiness(workspaceId, result.businessInfo)
 
     // Then, save the grid result
     const { data: gridData, error: gridError } = await supabase
       .from("grid_results")
       .insert({
+        workspace_id: workspaceId,
         business_id: businessId,
         search_term: result.searchTerm,
         created_at: new Date(result.createdAt),
         grid_size: result.gridSize,
         grid_data: result.gridData,
+        match_strategies: result.matchStrategies ?? null,
         metrics: result.metrics,
         google_region: result.googleRegion,
         distance_km: result.distanceKm,
+        shape: result.shape || "square",
+        polygon: result.polygon ?? null,
+        points: result.points ?? null,
+        generator_version: result.generatorVersion ?? null,
       })
       .select("id")
       .single()
@@ -149,6 +184,7 @@ export async function saveGridResult(result: Omit<GridResult, "id">): Promise<Gr
     return {
       id: gridId.toString(),
       ...result,
+      businessId,
     }
   } catch (error) {
     console.error("Error saving grid result to database:", error)
@@ -156,7 +192,7 @@ export async function saveGridResult(result: Omit<GridResult, "id">): Promise<Gr
   }
 }
 
-export async function getGridResults(): Promise<GridResult[]> {
+export async function getGridResults(workspaceId: string): Promise<GridResult[]> {
   try {
     const { data, error } = await supabase
       .from("grid_results")
@@ -166,11 +202,16 @@ export async function getGridResults(): Promise<GridResult[]> {
         created_at,
         grid_size,
         grid_data,
+        match_strategies,
         metrics,
         google_region,
         distance_km,
+        shape,
+        polygon,
+        generator_version,
         businesses!inner (*)
       `)
+      .eq("workspace_id", workspaceId)
       .order("created_at", { ascending: false })
 
     if (error) {
@@ -182,7 +223,7 @@ export async function getGridResults(): Promise<GridResult[]> {
       return []
     }
 
-    // Transform the data to match the GridResult type
+    // Transform the data to match the GridResult type. Point lists are only loaded per result.
     return data.map((row: any) => {
       const businesses = row.businesses as unknown as BusinessRecord
 
@@ -202,9 +243,15 @@ export async function getGridResults(): Promise<GridResult[]> {
         createdAt: new Date(row.created_at).toISOString(),
         gridSize: row.grid_size,
         gridData: row.grid_data,
+        matchStrategies: row.match_strategies || undefined,
         metrics: row.metrics,
         googleRegion: row.google_region,
-        distanceKm: Number(row.distance_km),
+        distanceKm: storedSpacingKm(Number(row.distance_km), row.grid_size, row.generator_version),
+        shape: row.shape || "square",
+        polygon: row.polygon,
+        generatorVersion: row.generator_version ?? undefined,
+        businessId: businesses.id.toString(),
+        projectId: businesses.project_id,
       }
     })
   } catch (error) {
@@ -213,7 +260,7 @@ export async function getGridResults(): Promise<GridResult[]> {
   }
 }
 
-export async function getGridResultById(id: string): Promise<GridResult | null> {
+export async function getGridResultById(workspaceId: string, id: string): Promise<GridResult | null> {
   try {
     const { data, error } = await supabase
       .from("grid_results")
@@ -223,12 +270,18 @@ export async function getGridResultById(id: string): Promise<GridResult | null>
         created_at,
         grid_size,
         grid_data,
+        match_strategies,
         metrics,
         google_region,
         distance_km,
+        shape,
+        polygon,
+        points,
+        generator_version,
         businesses!inner (*)
       `)
       .eq("id", id)
+      .eq("workspace_id", workspaceId)
       .single()
 
     if (error) {
@@ -258,9 +311,16 @@ export async function getGridResultById(id: string): Promise<GridResult | null>
       createdAt: new Date(data.created_at).toISOString(),
       gridSize: data.grid_size,
       gridData: data.grid_data,
+      matchStrategies: data.match_strategies || undefined,
       metrics: data.metrics,
       googleRegion: data.google_region,
-      distanceKm: Number(data.distance_km),
+      distanceKm: storedSpacingKm(Number(data.distance_km), data.grid_size, data.generator_version),
+      shape: data.shape || "square",
+      polygon: data.polygon,
+      points: data.points || undefined,
+      generatorVersion: data.generator_version ?? undefined,
+      businessId: businesses.id.toString(),
+      projectId: businesses.project_id,
     }
   } catch (error) {
     console.error("Error getting grid result by ID from database:", error)
@@ -268,9 +328,9 @@ export async function getGridResultById(id: string): Promise<GridResult | null>
   }
 }
 
-export async function deleteGridResult(id: string): Promise<boolean> {
+export async function deleteGridResult(workspaceId: string, id: string): Promise<boolean> {
   try {
-    const { error } = await supabase.from("grid_results").delete().eq("id", id)
+    const { error } = await supabase.from("grid_results").delete().eq("id", id).eq("workspace_id", workspaceId)
 
     if (error) {
       console.error("Error deleting grid result:", error)
@@ -284,10 +344,11 @@ export async function deleteGridResult(id: string): Promise<boolean> {
   }
 }
 
-export async function saveCompetitors(gridResultId: string, competitors: any[]): Promise<boolean> {
+export async function saveCompetitors(workspaceId: string, gridResultId: string, competitors: any[]): Promise<boolean> {
   try {
     // Prepare the data for insertion
     const competitorsData = competitors.map((competitor) => ({
+      workspace_id: workspaceId,
       grid_result_id: gridResultId,
       name: competitor.name,
       address: competitor.address || null,
@@ -312,9 +373,13 @@ export async function saveCompetitors(gridResultId: string, competitors: any[]):
   }
 }
 
-export async function getCompetitors(gridResultId: string): Promise<any[]> {
+export async function getCompetitors(workspaceId: string, gridResultId: string): Promise<any[]> {
   try {
-    const { data, error } = await supabase.from("competitors").select("*").eq("grid_result_id", gridResultId)
+    const { data, error } = await supabase
+      .from("competitors")
+      .select("*")
+      .eq("grid_result_id", gridResultId)
+      .eq("workspace_id", workspaceId)
 
     if (error) {
       console.error("Error fetching competitors:", error)
@@ -342,3 +407,87 @@ export async function getCompetitors(gridResultId: string): Promise<any[]> {
     return []
   }
 }
+
+// Businesses most recently saved to the workspace, newest first
+export async function getBusinesses(workspaceId: string, limit = 10): Promise<GridResult["businessInfo"][]> {
+  const { data, error } = await supabase
+    .from("businesses")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("id", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error fetching businesses:", error)
+    throw error
+  }
+
+  return (data as BusinessRecord[]).map((row) => ({
+    name: row.name,
+    address: row.address,
+    location: {
+      lat: Number(row.lat),
+      lng: Number(row.lng),
+    },
+    category: row.category || undefined,
+    placeId: row.place_id || undefined,
+  }))
+}
+
+// Save a business to the workspace unless it is already there, matched by Place ID or,
+// for businesses without one, by name and address
+export async function saveBusiness(workspaceId: string, business: GridResult["businessInfo"]): Promise<string> {
+  let query = supabase.from("businesses").select("id").eq("workspace_id", workspaceId)
+  query = business.placeId
+    ? query.eq("place_id", business.placeId)
+    : query.is("place_id", null).eq("name", business.name).eq("address", business.address)
+
+  const { data: existing, error: queryError } = await query.order("id", { ascending: true }).limit(1)
+
+  if (queryError) {
+    console.error("Error checking for existing business:", queryError)
+    throw queryError
+  }
+
+  if (existing && existing.length > 0) {
+    return existing[0].id.toString()
+  }
+
+  const { data, error } = await supabase
+    .from("businesses")
+    .insert({
+      workspace_id: workspaceId,
+      name: business.name,
+      address: business.address,
+      place_id: business.placeId || null,
+      lat: business.location.lat,
+      lng: business.location.lng,
+      category: business.category || null,
+    })
+    .select("id")
+    .single()
+
+  if (error) {
+    console.error("Error creating business:", error)
+    throw error
+  }
+
+  return data.id.toString()
+}
+
+// Distinct search terms of the workspace's most recent scans
+export async function getRecentSearchTerms(workspaceId: string, limit = 20): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("grid_results")
+    .select("search_term")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error fetching search terms:", error)
+    return []
+  }
+
+  return [...new Set(data.map((row) => row.search_term as string))]
+}
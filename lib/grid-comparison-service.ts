@@ -0,0 +1,239 @@
+import { buildCompetitorGrids } from "@/lib/competitor-grid-service"
+import { calculateGridMetrics, getGridResultById, type GridResult } from "@/lib/geogrid-service"
+import { generateGeoGrid, gridPointId, parseGridSize, type GeoGridPoint } from "@/lib/geo-grid"
+import { OUTSIDE_SHAPE } from "@/lib/grid-shapes"
+import { getSerpSnapshot } from "@/lib/serp-snapshot-service"
+import { NOT_RANKED } from "@/services/ranking-service"
+
+// Number of competitors listed as gaining and as losing ground
+const COMPETITOR_MOVERS_LIMIT = 10
+
+export type PointChange = "improved" | "declined" | "unchanged"
+
+// One grid cell scanned in both results. `delta` is the number of positions gained,
+// so it is positive when the business moved up.
+export interface PointDelta {
+  id: string;
+  row: number;
+  col: number;
+  lat: number;
+  lng: number;
+  before: number;
+  after: number;
+  delta: number;
+  change: PointChange;
+}
+
+export interface MetricDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+// How a competitor moved at the points where the business's own rank changed
+export interface CompetitorMovement {
+  placeId: string;
+  name: string;
+  vicinity: string | null;
+  pointsGained: number;
+  pointsLost: number;
+  // Total positions gained across those points; negative when it lost ground
+  netChange: number;
+}
+
+export interface GridComparison {
+  base: GridResult;
+  compare: GridResult;
+  gridSize: number;
+  points: PointDelta[];
+  summary: Record<PointChange, number>;
+  metrics: {
+    agr: MetricDelta;
+    atgr: MetricDelta;
+    solv: MetricDelta;
+  };
+  // Both empty when either scan predates stored search results
+  competitorsGained: CompetitorMovement[];
+  competitorsLost: CompetitorMovement[];
+  hasCompetitorData: boolean;
+}
+
+type GridDiff = Omit<GridComparison, "competitorsGained" | "competitorsLost" | "hasCompetitorData">
+
+// Ranks past the last tracked position all count as not ranked
+const normalizeRank = (rank: number) => (rank > NOT_RANKED - 1 ? NOT_RANKED : rank)
+
+function metricDelta(before: number, after: number, lowerIsBetter: boolean): MetricDelta {
+  const delta = lowerIsBetter ? before - after : after - before
+  return {
+    before: Number(before.toFixed(2)),
+    after: Number(after.toFixed(2)),
+    delta: Number(delta.toFixed(2)),
+  }
+}
+
+// Scanned location of every cell, preferring the points a result stored
+function pointsByIndex(result: GridResult, gridSize: number): Map<number, GeoGridPoint> {
+  let points = result.points
+  if (!points || points.length === 0) {
+    try {
+      points = generateGeoGrid({
+        center: result.businessInfo.location,
+        gridSize,
+        spacingKm: result.distanceKm,
+        shape: result.shape,
+        polygon: result.polygon,
+      })
+    } catch (error) {
+      console.error("Error generating grid points for comparison:", error)
+      points = []
+    }
+  }
+  return new Map(points.map((point) => [point.index, point]))
+}
+
+// Returns an error message if the two results can't be compared point by point
+export function validateGridComparison(base: GridResult, compare: GridResult): string | null {
+  if (parseGridSize(base.gridSize) !== parseGridSize(compare.gridSize)) {
+    return "Only scans with the same grid size can be compared"
+  }
+  if ((base.shape || "square") !== (compare.shape || "square")) {
+    return "Only scans with the same grid shape can be compared"
+  }
+  return null
+}
+
+// Align two results of the same grid cell by cell. Cells outside either scan's shape are skipped.
+export function diffGridResults(base: GridResult, compare: GridResult): GridDiff {
+  const gridSize = parseGridSize(compare.gridSize)
+  const locations = pointsByIndex(compare, gridSize)
+  const points: PointDelta[] = []
+
+  for (let row = 0; row < gridSize; row++) {
+    for (let col = 0; col < gridSize; col++) {
+      const beforeRank = base.gridData[row]?.[col]
+      const afterRank = compare.gridData[row]?.[col]
+      if (beforeRank === undefined || afterRank === undefined) continue
+      if (beforeRank === OUTSIDE_SHAPE || afterRank === OUTSIDE_SHAPE) continue
+
+      const before = normalizeRank(beforeRank)
+      const after = normalizeRank(afterRank)
+      const delta = before - after
+      const location = locations.get(row * gridSize + col)
+
+      points.push({
+        id: gridPointId(row, col),
+        row,
+        col,
+        lat: location?.lat ?? 0,
+        lng: location?.lng ?? 0,
+        before,
+        after,
+        delta,
+        change: delta > 0 ? "improved" : delta < 0 ? "declined" : "unchanged",
+      })
+    }
+  }
+
+  const beforeMetrics = calculateGridMetrics(base.gridData)
+  const afterMetrics = calculateGridMetrics(compare.gridData)
+
+  return {
+    base,
+    compare,
+    gridSize,
+    points,
+    summary: {
+      improved: points.filter((point) => point.change === "improved").length,
+      declined: points.filter((point) => point.change === "declined").length,
+      unchanged: points.filter((point) => point.change === "unchanged").length,
+    },
+    metrics: {
+      agr: metricDelta(beforeMetrics.agr, afterMetrics.agr, true),
+      atgr: metricDelta(beforeMetrics.atgr, afterMetrics.atgr, true),
+      solv: metricDelta(beforeMetrics.visibilityPercentage, afterMetrics.visibilityPercentage, false),
+    },
+  }
+}
+
+// Compare two saved grid results; the earlier scan is always the baseline. Returns null
+// when either doesn't exist and throws when they can't be aligned.
+export async function getGridComparison(
+  workspaceId: string,
+  firstId: string,
+  secondId: string
+): Promise<GridComparison | null> {
+  const results = await Promise.all([getGridResultById(workspaceId, firstId), getGridResultById(workspaceId, secondId)])
+  if (!results[0] || !results[1]) {
+    return null
+  }
+
+  const [base, compare] = (results as GridResult[]).sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  )
+
+  const validationError = validateGridComparison(base, compare)
+  if (validationError) {
+    throw new Error(validationError)
+  }
+
+  const diff = diffGridResults(base, compare)
+  const [baseSnapshot, compareSnapshot] = await Promise.all([getSerpSnapshot(base.id), getSerpSnapshot(compare.id)])
+  const hasCompetitorData = baseSnapshot.length > 0 && compareSnapshot.length > 0
+
+  if (!hasCompetitorData) {
+    return { ...diff, competitorsGained: [], competitorsLost: [], hasCompetitorData }
+  }
+
+  const targetPlaceId = compare.businessInfo.placeId || base.businessInfo.placeId
+  const gridsByPlace = (result: GridResult, snapshot: typeof baseSnapshot) =>
+    new Map(
+      buildCompetitorGrids(snapshot, diff.gridSize, targetPlaceId, result.gridData).map((grid) => [grid.placeId, grid])
+    )
+  const beforeGrids = gridsByPlace(base, baseSnapshot)
+  const afterGrids = gridsByPlace(compare, compareSnapshot)
+  const changedPoints = diff.points.filter((point) => point.change !== "unchanged")
+  const movements: CompetitorMovement[] = []
+
+  new Set([...beforeGrids.keys(), ...afterGrids.keys()]).forEach((placeId) => {
+    const before = beforeGrids.get(placeId)
+    const after = afterGrids.get(placeId)
+    const grid = after ?? before!
+    if (grid.isTarget) return
+
+    const movement: CompetitorMovement = {
+      placeId,
+      name: grid.name,
+      vicinity: grid.vicinity,
+      pointsGained: 0,
+      pointsLost: 0,
+      netChange: 0,
+    }
+
+    changedPoints.forEach(({ row, col }) => {
+      const beforeRank = before?.gridData[row][col] ?? NOT_RANKED
+      const afterRank = after?.gridData[row][col] ?? NOT_RANKED
+      const change = beforeRank - afterRank
+      if (change > 0) movement.pointsGained++
+      if (change < 0) movement.pointsLost++
+      movement.netChange += change
+    })
+
+    if (movement.netChange !== 0) {
+      movements.push(movement)
+    }
+  })
+
+  return {
+    ...diff,
+    competitorsGained: movements
+      .filter((movement) => movement.netChange > 0)
+      .sort((a, b) => b.netChange - a.netChange)
+      .slice(0, COMPETITOR_MOVERS_LIMIT),
+    competitorsLost: movements
+      .filter((movement) => movement.netChange < 0)
+      .sort((a, b) => a.netChange - b.netChange)
+      .slice(0, COMPETITOR_MOVERS_LIMIT),
+    hasCompetitorData,
+  }
+}
@@ -0,0 +1,173 @@
+import { createClient } from "@supabase/supabase-js"
+import type { GridResult } from "@/lib/geogrid-service"
+import { parseGridSize } from "@/lib/geo-grid"
+import { validateGridShape, type GridShape, type ServiceAreaPolygon } from "@/lib/grid-shapes"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+export type { GridShape } from "@/lib/grid-shapes"
+
+export interface GridConfigProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  gridSize: string;
+  distanceKm: number;
+  googleRegion: string;
+  shape: GridShape;
+  // Service area covered by "polygon" grids
+  polygon: ServiceAreaPolygon | null;
+  keywords: string[];
+  businessInfo: GridResult["businessInfo"] | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GridConfigInput = Omit<GridConfigProfile, "id" | "createdAt" | "updatedAt">
+
+interface GridConfigRecord {
+  id: string;
+  name: string;
+  description: string | null;
+  grid_size: string;
+  distance_km: string | number;
+  google_region: string;
+  shape: GridShape;
+  polygon: ServiceAreaPolygon | null;
+  keywords: string[] | null;
+  business: GridResult["businessInfo"] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toGridConfig(row: GridConfigRecord): GridConfigProfile {
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    description: row.description,
+    gridSize: row.grid_size,
+    distanceKm: Number(row.distance_km),
+    googleRegion: row.google_region,
+    shape: row.shape,
+    polygon: row.polygon,
+    keywords: row.keywords || [],
+    businessInfo: row.business,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }
+}
+
+function toGridConfigRecord(input: Partial<GridConfigInput>) {
+  const record: Record<string, unknown> = {}
+  if (input.name !== undefined) record.name = input.name
+  if (input.description !== undefined) record.description = input.description
+  if (input.gridSize !== undefined) record.grid_size = input.gridSize
+  if (input.distanceKm !== undefined) record.distance_km = input.distanceKm
+  if (input.googleRegion !== undefined) record.google_region = input.googleRegion
+  if (input.shape !== undefined) record.shape = input.shape
+  if (input.polygon !== undefined) record.polygon = input.polygon
+  if (input.keywords !== undefined) record.keywords = input.keywords
+  if (input.businessInfo !== undefined) record.business = input.businessInfo
+  return record
+}
+
+// Returns an error message if the profile can't be used to launch a scan
+export function validateGridConfig(input: Partial<GridConfigInput>): string | null {
+  if (input.name !== undefined && !input.name.trim()) {
+    return "Configuration name is required"
+  }
+  if (input.gridSize !== undefined) {
+    const size = parseGridSize(input.gridSize)
+    if (!size || size < 3 || size > 25 || size % 2 === 0) {
+      return "Grid size must be an odd number between 3 and 25"
+    }
+  }
+  if (input.distanceKm !== undefined && (!(input.distanceKm > 0) || input.distanceKm > 25)) {
+    return "Distance must be between 0.1 and 25 kilometers"
+  }
+  if (input.shape !== undefined) {
+    return validateGridShape(input.shape, input.polygon)
+  }
+  return null
+}
+
+export async function getGridConfigs(workspaceId: string): Promise<GridConfigProfile[]> {
+  const { data, error } = await supabase
+    .from("grid_configs")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("name", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching grid configurations:", error)
+    throw error
+  }
+
+  return (data || []).map((row) => toGridConfig(row as GridConfigRecord))
+}
+
+export async function getGridConfigById(workspaceId: string, id: string): Promise<GridConfigProfile | null> {
+  const { data, error } = await supabase
+    .from("grid_configs")
+    .select("*")
+    .eq("id", id)
+    .eq("workspace_id", workspaceId)
+    .single()
+
+  if (error) {
+    console.error("Error fetching grid configuration:", error)
+    return null
+  }
+
+  return data ? toGridConfig(data as GridConfigRecord) : null
+}
+
+export async function createGridConfig(workspaceId: string, input: GridConfigInput): Promise<GridConfigProfile> {
+  const { data, error } = await supabase
+    .from("grid_configs")
+    .insert({ ...toGridConfigRecord(input), workspace_id: workspaceId })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error creating grid configuration:", error)
+    throw error
+  }
+
+  return toGridConfig(data as GridConfigRecord)
+}
+
+export async function updateGridConfig(
+  workspaceId: string,
+  id: string,
+  input: Partial<GridConfigInput>
+): Promise<GridConfigProfile | null> {
+  const { data, error } = await supabase
+    .from("grid_configs")
+    .update({ ...toGridConfigRecord(input), updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("workspace_id", workspaceId)
+    .select("*")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error updating grid configuration:", error)
+    throw error
+  }
+
+  return data ? toGridConfig(data as GridConfigRecord) : null
+}
+
+export async function deleteGridConfig(workspaceId: string, id: string): Promise<boolean> {
+  const { error } = await supabase.from("grid_configs").delete().eq("id", id).eq("workspace_id", workspaceId)
+
+  if (error) {
+    console.error("Error deleting grid configuration:", error)
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,200 @@
+import type { Branding } from "@/lib/branding-service"
+import type { GridResult } from "@/lib/geogrid-service"
+import { parseGridSize } from "@/lib/geo-grid"
+import { OUTSIDE_SHAPE } from "@/lib/grid-shapes"
+import { EMPTY_CELL_COLOR, rankColor, rankLabel } from "@/lib/rank-colors"
+
+export type GridImageFormat = "png" | "svg"
+export type GridImageStyle = "bubbles" | "squares"
+export type GridImageTheme = "light" | "dark"
+
+export interface GridImageOptions {
+  format: GridImageFormat;
+  // Image width in pixels; the height follows from the header and the grid
+  width: number;
+  style: GridImageStyle;
+  theme: GridImageTheme;
+}
+
+export const GRID_IMAGE_MIN_WIDTH = 200
+export const GRID_IMAGE_MAX_WIDTH = 2000
+
+export const DEFAULT_GRID_IMAGE_OPTIONS: GridImageOptions = {
+  format: "png",
+  width: 800,
+  style: "bubbles",
+  theme: "light",
+}
+
+const THEMES: Record<GridImageTheme, { background: string; text: string; muted: string; emptyCell: string }> = {
+  light: { background: "#ffffff", text: "#1f2937", muted: "#6b7280", emptyCell: EMPTY_CELL_COLOR },
+  dark: { background: "#111827", text: "#f9fafb", muted: "#9ca3af", emptyCell: "#374151" },
+}
+
+export interface GridImageCell {
+  // Top-left corner and side of the cell's square, in pixels
+  x: number;
+  y: number;
+  size: number;
+  // Null for cells outside the grid's shape
+  label: string | null;
+  color: string;
+}
+
+export interface GridImageLayout {
+  width: number;
+  height: number;
+  padding: number;
+  headerHeight: number;
+  // Band at the bottom with the footer text and logo; 0 when there is neither
+  footerHeight: number;
+  titleSize: number;
+  subtitleSize: number;
+  // Width of each metric column at the right of the header
+  metricWidth: number;
+  style: GridImageStyle;
+  colors: (typeof THEMES)[GridImageTheme];
+  primaryColor: string;
+  footerText: string;
+  // Data URI of the brand logo
+  logoSrc: string | null;
+  title: string;
+  subtitle: string;
+  metrics: { label: string; value: string }[];
+  cells: GridImageCell[];
+}
+
+// Returns an error message if the options can't be rendered
+export function validateGridImageOptions(options: GridImageOptions): string | null {
+  if (!["png", "svg"].includes(options.format)) {
+    return "Invalid format. Must be png or svg"
+  }
+  if (!Number.isInteger(options.width) || options.width < GRID_IMAGE_MIN_WIDTH || options.width > GRID_IMAGE_MAX_WIDTH) {
+    return `Width must be a whole number between ${GRID_IMAGE_MIN_WIDTH} and ${GRID_IMAGE_MAX_WIDTH}`
+  }
+  if (!["bubbles", "squares"].includes(options.style)) {
+    return "Invalid style. Must be bubbles or squares"
+  }
+  if (!["light", "dark"].includes(options.theme)) {
+    return "Invalid theme. Must be light or dark"
+  }
+  return null
+}
+
+// Position every element of the image; the PNG and SVG renderers both draw from this
+export function layoutGridImage(
+  result: GridResult,
+  options: GridImageOptions,
+  branding: Branding,
+  logoSrc: string | null = null
+): GridImageLayout {
+  const gridSize = parseGridSize(result.gridSize)
+  const { width } = options
+  const padding = Math.round(width * 0.04)
+  const headerHeight = Math.round(width * 0.16)
+  const titleSize = Math.round(width * 0.04)
+  const subtitleSize = Math.round(width * 0.024)
+  const metricWidth = Math.round(width * 0.12)
+  const footerHeight = branding.footerText || logoSrc ? Math.round(width * 0.07) : 0
+  const cellSize = (width - padding * 2) / gridSize
+  const colors = THEMES[options.theme]
+  const cells: GridImageCell[] = []
+
+  for (let row = 0; row < gridSize; row++) {
+    for (let col = 0; col < gridSize; col++) {
+      const rank = result.gridData[row]?.[col]
+      const scanned = rank !== undefined && rank !== OUTSIDE_SHAPE
+      cells.push({
+        x: padding + col * cellSize,
+        // Row 0 is the southernmost row, so it is drawn at the bottom
+        y: headerHeight + padding + (gridSize - 1 - row) * cellSize,
+        size: cellSize,
+        label: scanned ? rankLabel(rank) : null,
+        color: scanned ? rankColor(rank, branding.rankColors) : colors.emptyCell,
+      })
+    }
+  }
+
+  // Keep long business names clear of the metrics, assuming an average glyph is 0.55em wide
+  const titleChars = Math.floor((width - padding * 2 - metricWidth * 3.5) / (titleSize * 0.55))
+  const title =
+    result.businessInfo.name.length > titleChars
+      ? `${result.businessInfo.name.slice(0, titleChars - 1).trimEnd()}…`
+      : result.businessInfo.name
+  const date = new Date(result.createdAt).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })
+
+  return {
+    width,
+    height: Math.round(headerHeight + padding * 2 + cellSize * gridSize + footerHeight),
+    padding,
+    headerHeight,
+    footerHeight,
+    titleSize,
+    subtitleSize,
+    metricWidth,
+    style: options.style,
+    colors,
+    primaryColor: branding.primaryColor,
+    footerText: branding.footerText,
+    logoSrc,
+    title,
+    subtitle: `"${result.searchTerm}" · ${date}`,
+    metrics: [
+      { label: "AGR", value: Number(result.metrics.agr || 0).toFixed(1) },
+      { label: "ATGR", value: Number(result.metrics.atgr || 0).toFixed(2) },
+      { label: "SoLV", value: String(result.metrics.solv || "0%") },
+    ],
+    cells,
+  }
+}
+
+// Escapes text and attribute values alike; every string placed in the markup goes through it
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+
+export function renderGridImageSvg(layout: GridImageLayout): string {
+  const { width, height, padding, headerHeight, footerHeight, titleSize, subtitleSize, metricWidth, colors } = layout
+  const footerTop = height - footerHeight
+
+  const metrics = layout.metrics.map((metric, index) => {
+    const x = width - padding - (layout.metrics.length - 1 - index) * metricWidth
+    return [
+      `<text x="${x}" y="${padding + titleSize}" text-anchor="end" font-size="${titleSize}" font-weight="700" fill="${escapeXml(colors.text)}">${escapeXml(metric.value)}</text>`,
+      `<text x="${x}" y="${padding + titleSize + subtitleSize * 1.6}" text-anchor="end" font-size="${subtitleSize}" fill="${escapeXml(colors.muted)}">${escapeXml(metric.label)}</text>`,
+    ].join("")
+  })
+
+  const cells = layout.cells.map((cell) => {
+    const center = { x: cell.x + cell.size / 2, y: cell.y + cell.size / 2 }
+    const shape =
+      layout.style === "bubbles"
+        ? `<circle cx="${center.x}" cy="${center.y}" r="${cell.size * 0.42}" fill="${escapeXml(cell.color)}"/>`
+        : `<rect x="${cell.x}" y="${cell.y}" width="${cell.size - 1}" height="${cell.size - 1}" fill="${escapeXml(cell.color)}"/>`
+    if (!cell.label) return layout.style === "bubbles" ? "" : shape
+
+    const fontSize = cell.size * (cell.label.length > 2 ? 0.28 : 0.36)
+    return `${shape}<text x="${center.x}" y="${center.y}" text-anchor="middle" dominant-baseline="central" font-size="${fontSize}" font-weight="700" fill="#ffffff">${escapeXml(cell.label)}</text>`
+  })
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="100%" height="100%" fill="${escapeXml(colors.background)}"/>`,
+    `<text x="${padding}" y="${padding + titleSize}" font-size="${titleSize}" font-weight="700" fill="${escapeXml(colors.text)}">${escapeXml(layout.title)}</text>`,
+    `<text x="${padding}" y="${padding + titleSize + subtitleSize * 1.6}" font-size="${subtitleSize}" fill="${escapeXml(colors.muted)}">${escapeXml(layout.subtitle)}</text>`,
+    ...metrics,
+    `<line x1="${padding}" y1="${headerHeight}" x2="${width - padding}" y2="${headerHeight}" stroke="${escapeXml(layout.primaryColor)}" stroke-width="2"/>`,
+    ...cells,
+    footerHeight > 0 && layout.footerText
+      ? `<text x="${padding}" y="${footerTop + footerHeight / 2}" dominant-baseline="central" font-size="${subtitleSize}" fill="${escapeXml(colors.muted)}">${escapeXml(layout.footerText)}</text>`
+      : "",
+    footerHeight > 0 && layout.logoSrc
+      ? `<image href="${escapeXml(layout.logoSrc)}" x="${width - padding - footerHeight * 3}" y="${footerTop + footerHeight * 0.15}" width="${footerHeight * 3}" height="${footerHeight * 0.7}" preserveAspectRatio="xMaxYMid meet"/>`
+      : "",
+    "</svg>",
+  ].join("")
+}
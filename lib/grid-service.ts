@@ -1,4 +1,4 @@
-import { debounce } from 'lodash';
+import { generateGeoGrid } from '@/lib/geo-grid';
 
 export interface GridPoint {
   lat: number;
@@ -19,39 +19,11 @@ export interface GridMetrics {
 }
 
 export class GridService {
-  private static EARTH_RADIUS = 111.32; // km per degree at equator
-
-  // Calculate grid points with memoization
-  private static calculateGridPoints = debounce((config: GridConfig): GridPoint[] => {
+  // Calculate grid points; the distance is the spacing between neighbouring points
+  private static calculateGridPoints(config: GridConfig): GridPoint[] {
     const { size, distance, center } = config;
-    const points: GridPoint[] = [];
-    const offset = ((size - 1) / 2) * (distance / this.EARTH_RADIUS);
-
-    // Calculate bounds
-    const centerLat = center.lat;
-    const centerLng = center.lng;
-    const north = centerLat + offset;
-    const south = centerLat - offset;
-    const east = centerLng + offset / Math.cos(centerLat * Math.PI / 180);
-    const west = centerLng - offset / Math.cos(centerLat * Math.PI / 180);
-
-    // Create grid points
-    for (let i = 0; i < size; i++) {
-      for (let j = 0; j < size; j++) {
-        if (i === Math.floor(size / 2) && j === Math.floor(size / 2)) continue; // Skip center
-
-        const lat = south + (i * (north - south) / (size - 1));
-        const lng = west + (j * (east - west) / (size - 1));
-
-        points.push({ lat, lng });
-      }
-    }
-
-    // Insert center point
-    points.splice(Math.floor(size * size / 2), 0, { ...center });
-
-    return points;
-  }, 100);
+    return generateGeoGrid({ center, gridSize: size, spacingKm: distance }).map(({ lat, lng }) => ({ lat, lng }));
+  }
 
   // Calculate grid metrics
   public static calculateMetrics(points: GridPoint[]): GridMetrics {
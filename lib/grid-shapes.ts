@@ -0,0 +1,150 @@
+import type { MapCenter } from "@/types"
+
+export const GRID_SHAPES = ["square", "circle", "hexagon", "polygon"] as const
+
+export type GridShape = (typeof GRID_SHAPES)[number]
+
+export const GRID_SHAPE_LABELS: Record<GridShape, string> = {
+  square: "Square",
+  circle: "Circle",
+  hexagon: "Hexagon",
+  polygon: "Service area",
+}
+
+// Rank matrix value of a cell the grid's shape leaves out. Real ranks start at 1,
+// and 0 is already treated as "no data" by the grid views.
+export const OUTSIDE_SHAPE = 0
+
+// Rank matrix value of a point whose searches all failed. It has no rank either,
+// so views leave the cell empty and metrics skip it.
+export const FAILED_POINT = OUTSIDE_SHAPE
+
+// GeoJSON Polygon geometry: an outer ring followed by optional holes, as [lng, lat] pairs
+export interface ServiceAreaPolygon {
+  type: "Polygon";
+  coordinates: number[][][];
+}
+
+export function isGridShape(value: unknown): value is GridShape {
+  return typeof value === "string" && (GRID_SHAPES as readonly string[]).includes(value)
+}
+
+// Ray casting test against a single ring of [lng, lat] pairs
+function isPointInRing(point: MapCenter, ring: number[][]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > point.lat !== yj > point.lat && point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// True when the point is inside the outer ring and outside every hole
+export function isPointInPolygon(point: MapCenter, polygon: ServiceAreaPolygon): boolean {
+  const [outer, ...holes] = polygon.coordinates
+  if (!outer || !isPointInRing(point, outer)) return false
+  return !holes.some((hole) => isPointInRing(point, hole))
+}
+
+// Returns an error message if the polygon can't be used as a service area
+export function validateServiceArea(polygon: ServiceAreaPolygon | null | undefined): string | null {
+  if (!polygon || polygon.type !== "Polygon" || !Array.isArray(polygon.coordinates)) {
+    return "Service area must be a GeoJSON polygon"
+  }
+
+  const [outer] = polygon.coordinates
+  if (!Array.isArray(outer) || outer.length < 4) {
+    return "Service area needs at least three corners"
+  }
+
+  const validPositions = polygon.coordinates.every((ring) =>
+    ring.every(
+      (position) =>
+        Array.isArray(position) &&
+        Number.isFinite(position[0]) &&
+        Number.isFinite(position[1]) &&
+        Math.abs(position[0]) <= 180 &&
+        Math.abs(position[1]) <= 90
+    )
+  )
+  return validPositions ? null : "Service area contains invalid coordinates"
+}
+
+// Returns an error message if a scan can't be run with this shape
+export function validateGridShape(shape: unknown, polygon?: ServiceAreaPolygon | null): string | null {
+  if (!isGridShape(shape)) {
+    return "Shape must be square, circle, hexagon or polygon"
+  }
+  return shape === "polygon" ? validateServiceArea(polygon) : null
+}
+
+// Build a closed polygon from the corners drawn on the map
+export function polygonFromPath(path: MapCenter[]): ServiceAreaPolygon {
+  const ring = path.map((point) => [point.lng, point.lat])
+  if (ring.length > 0) {
+    ring.push([...ring[0]])
+  }
+  return { type: "Polygon", coordinates: [ring] }
+}
+
+// Extract a polygon from imported GeoJSON. Accepts a Polygon geometry, a Feature
+// wrapping one, or a FeatureCollection (its first polygon feature is used).
+export function parseServiceAreaGeoJson(input: unknown): ServiceAreaPolygon | null {
+  if (!input || typeof input !== "object") return null
+
+  const geoJson = input as { type?: string; geometry?: unknown; features?: unknown[]; coordinates?: unknown }
+
+  if (geoJson.type === "FeatureCollection" && Array.isArray(geoJson.features)) {
+    for (const feature of geoJson.features) {
+      const polygon = parseServiceAreaGeoJson(feature)
+      if (polygon) return polygon
+    }
+    return null
+  }
+
+  if (geoJson.type === "Feature") {
+    return parseServiceAreaGeoJson(geoJson.geometry)
+  }
+
+  if (geoJson.type === "Polygon" && Array.isArray(geoJson.coordinates)) {
+    const polygon: ServiceAreaPolygon = {
+      type: "Polygon",
+      coordinates: (geoJson.coordinates as number[][][]).map((ring) =>
+        ring.map((position) => [Number(position[0]), Number(position[1])])
+      ),
+    }
+    return validateServiceArea(polygon) ? null : polygon
+  }
+
+  return null
+}
+
+// Center of the polygon's bounding box
+export function getServiceAreaCenter(polygon: ServiceAreaPolygon): MapCenter {
+  const [outer] = polygon.coordinates
+  const lngs = outer.map((position) => position[0])
+  const lats = outer.map((position) => position[1])
+
+  return {
+    lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+    lng: (Math.min(...lngs) + Math.max(...lngs)) / 2,
+  }
+}
+
+// Lay per-point values out as a gridSize x gridSize matrix, leaving cells outside the shape empty
+export function toShapedMatrix<T>(
+  points: Array<{ row: number; col: number; value: T }>,
+  gridSize: number,
+  empty: T
+): T[][] {
+  const matrix: T[][] = Array.from({ length: gridSize }, () => Array(gridSize).fill(empty))
+  points.forEach(({ row, col, value }) => {
+    if (row < gridSize && col < gridSize) {
+      matrix[row][col] = value
+    }
+  })
+  return matrix
+}
@@ -1,3 +1,5 @@
+import { OUTSIDE_SHAPE } from "@/lib/grid-shapes";
+
 export interface KeywordMetrics {
   totalRankings: number;
   topThreeCount: number;
@@ -17,15 +19,15 @@ export class KeywordMetricsCalculator {
    * @returns KeywordMetrics object with counts and percentages
    */
   static calculate(rankings: number[] | number[][]): KeywordMetrics {
-    // Flatten the array if it's 2D
-    const flatRankings = Array.isArray(rankings[0]) 
+    // Flatten the array if it's 2D, dropping cells outside a shaped grid
+    const flatRankings = (Array.isArray(rankings[0]) 
       ? (rankings as number[][]).flat() 
-      : (rankings as number[]);
+      : (rankings as number[])).filter(r => r !== OUTSIDE_SHAPE);
     
     const totalRankings = flatRankings.length;
     const topThreeCount = flatRankings.filter(r => r > 0 && r <= 3).length;
     const topTenCount = flatRankings.filter(r => r > 0 && r <= 10).length;
-    const notRankedCount = flatRankings.filter(r => r === 0 || r > 10).length;
+    const notRankedCount = flatRankings.filter(r => r > 10).length;
     
     // Calculate percentages
     const top3Percentage = totalRankings > 0 
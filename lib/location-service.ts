@@ -0,0 +1,282 @@
+import { createClient } from "@supabase/supabase-js"
+import { getGridResults, saveBusiness, type GridResult } from "@/lib/geogrid-service"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+export interface Location {
+  id: string;
+  // The businesses row the location's scans are saved under
+  businessId: string | null;
+  name: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  latitude: number;
+  longitude: number;
+  isPrimary: boolean;
+  // Filled into {{neighborhood}} and {{keyword}} in posts
+  neighborhood: string;
+  keyword: string;
+  // Business Profile API resource name, e.g. accounts/123/locations/456; posts
+  // can only be published for locations that have one
+  profileName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A location with the scans of its business, newest first
+export interface LocationWithScans extends Location {
+  scans: GridResult[];
+}
+
+// Fields a user enters; coordinates come from geocoding the address
+export type LocationInput = Pick<Location, "name" | "address" | "city" | "state" | "zipCode" | "isPrimary"> &
+  Partial<Pick<Location, "neighborhood" | "keyword" | "profileName">>
+
+// What gets written: the entered fields plus the geocoded coordinates and business
+export type LocationFields = LocationInput & Pick<Location, "latitude" | "longitude" | "businessId">
+
+const LOCATION_TEXT_FIELDS = ["name", "address", "city", "state", "zipCode"] as const
+
+const LOCATION_FIELD_LABELS: Record<(typeof LOCATION_TEXT_FIELDS)[number], string> = {
+  name: "Name",
+  address: "Address",
+  city: "City",
+  state: "State",
+  zipCode: "Zip code",
+}
+
+const PROFILE_NAME_PATTERN = /^accounts\/[^/\s]+\/locations\/[^/\s]+$/
+
+// Fields whose change means the location has to be geocoded again
+export const LOCATION_ADDRESS_FIELDS = ["address", "city", "state", "zipCode"] as const
+
+interface LocationRecord {
+  id: string;
+  business_id: string | null;
+  name: string;
+  address: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  latitude: string | number;
+  longitude: string | number;
+  is_primary: boolean;
+  neighborhood: string | null;
+  keyword: string | null;
+  profile_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toLocation(row: LocationRecord): Location {
+  return {
+    id: row.id.toString(),
+    businessId: row.business_id ? row.business_id.toString() : null,
+    name: row.name,
+    address: row.address,
+    city: row.city,
+    state: row.state,
+    zipCode: row.zip_code,
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    isPrimary: row.is_primary,
+    neighborhood: row.neighborhood || "",
+    keyword: row.keyword || "",
+    profileName: row.profile_name || null,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }
+}
+
+function toRecord(fields: Partial<LocationFields>): Partial<LocationRecord> {
+  const record: Partial<LocationRecord> = {}
+  if (fields.businessId !== undefined) record.business_id = fields.businessId
+  if (fields.name !== undefined) record.name = fields.name.trim()
+  if (fields.address !== undefined) record.address = fields.address.trim()
+  if (fields.city !== undefined) record.city = fields.city.trim()
+  if (fields.state !== undefined) record.state = fields.state.trim()
+  if (fields.zipCode !== undefined) record.zip_code = fields.zipCode.trim()
+  if (fields.latitude !== undefined) record.latitude = fields.latitude
+  if (fields.longitude !== undefined) record.longitude = fields.longitude
+  if (fields.isPrimary !== undefined) record.is_primary = fields.isPrimary
+  if (fields.neighborhood !== undefined) record.neighborhood = fields.neighborhood.trim()
+  if (fields.keyword !== undefined) record.keyword = fields.keyword.trim()
+  if (fields.profileName !== undefined) record.profile_name = fields.profileName?.trim() || null
+  return record
+}
+
+// Returns an error message if the input can't be saved. With partial set, only
+// the fields present are checked, as for a PATCH.
+export function validateLocationInput(input: Partial<Record<keyof LocationInput, unknown>>, partial = false): string | null {
+  for (const field of LOCATION_TEXT_FIELDS) {
+    const value = input[field]
+    if (value === undefined && partial) continue
+    if (typeof value !== "string" || !value.trim()) {
+      return `${LOCATION_FIELD_LABELS[field]} is required`
+    }
+    if (value.length > 200) {
+      return `${LOCATION_FIELD_LABELS[field]} must be 200 characters or fewer`
+    }
+  }
+  if (input.isPrimary !== undefined && typeof input.isPrimary !== "boolean") {
+    return "isPrimary must be true or false"
+  }
+  for (const field of ["neighborhood", "keyword"] as const) {
+    const value = input[field]
+    if (value !== undefined && (typeof value !== "string" || value.length > 200)) {
+      return `${field === "keyword" ? "Keyword" : "Neighborhood"} must be 200 characters or fewer`
+    }
+  }
+  const profileName = input.profileName
+  if (profileName !== undefined && profileName !== null && profileName !== "") {
+    if (typeof profileName !== "string" || !PROFILE_NAME_PATTERN.test(profileName.trim())) {
+      return "Business Profile must look like accounts/123/locations/456"
+    }
+  }
+  return null
+}
+
+// The single-line address that gets geocoded and saved on the location's business
+export function formatLocationAddress(location: Pick<Location, "address" | "city" | "state" | "zipCode">): string {
+  return `${location.address.trim()}, ${location.city.trim()}, ${location.state.trim()} ${location.zipCode.trim()}`
+}
+
+// Primary location first, then by name
+export async function getLocations(workspaceId: string): Promise<Location[]> {
+  const { data, error } = await supabase
+    .from("locations")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("is_primary", { ascending: false })
+    .order("name", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching locations:", error)
+    throw error
+  }
+
+  return (data as LocationRecord[]).map(toLocation)
+}
+
+export async function getLocationById(workspaceId: string, id: string): Promise<Location | null> {
+  const { data, error } = await supabase
+    .from("locations")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .eq("id", id)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching location:", error)
+    return null
+  }
+
+  return data ? toLocation(data as LocationRecord) : null
+}
+
+// Whether the business belongs to the workspace, so a location can be linked to it
+export async function businessExists(workspaceId: string, businessId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("businesses")
+    .select("id")
+    .eq("workspace_id", workspaceId)
+    .eq("id", businessId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching business:", error)
+    return false
+  }
+
+  return Boolean(data)
+}
+
+// The businesses row for a location without one, reusing a business saved with
+// the same name and address
+export async function saveLocationBusiness(
+  workspaceId: string,
+  location: Pick<LocationFields, "name" | "address" | "city" | "state" | "zipCode" | "latitude" | "longitude">
+): Promise<string> {
+  return saveBusiness(workspaceId, {
+    name: location.name.trim(),
+    address: formatLocationAddress(location),
+    location: { lat: location.latitude, lng: location.longitude },
+  })
+}
+
+// The first location of a workspace becomes its primary location whatever
+// isPrimary says; see the locations migration for the rules
+export async function createLocation(workspaceId: string, fields: LocationFields): Promise<Location> {
+  const { data, error } = await supabase
+    .from("locations")
+    .insert({ ...toRecord(fields), workspace_id: workspaceId })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error creating location:", error)
+    throw error
+  }
+
+  return toLocation(data as LocationRecord)
+}
+
+export async function updateLocation(
+  workspaceId: string,
+  id: string,
+  changes: Partial<LocationFields>
+): Promise<Location | null> {
+  const { data, error } = await supabase
+    .from("locations")
+    .update(toRecord(changes))
+    .eq("workspace_id", workspaceId)
+    .eq("id", id)
+    .select("*")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error updating location:", error)
+    throw error
+  }
+
+  return data ? toLocation(data as LocationRecord) : null
+}
+
+// Deleting the primary location promotes the oldest remaining one. The linked
+// business and its scans are kept.
+export async function deleteLocation(workspaceId: string, id: string): Promise<boolean> {
+  const { error } = await supabase.from("locations").delete().eq("workspace_id", workspaceId).eq("id", id)
+
+  if (error) {
+    console.error("Error deleting location:", error)
+    return false
+  }
+
+  return true
+}
+
+// Scans of the location's business, including copies of the business saved by
+// older scans under the same Place ID or name and address
+export async function getLocationScans(workspaceId: string, location: Location): Promise<GridResult[]> {
+  if (!location.businessId) {
+    return []
+  }
+
+  const scans = await getGridResults(workspaceId)
+  const linked = scans.find((scan) => scan.businessId === location.businessId)
+  if (!linked) {
+    return []
+  }
+
+  const { placeId, name, address } = linked.businessInfo
+  return scans.filter((scan) =>
+    placeId
+      ? scan.businessInfo.placeId === placeId
+      : !scan.businessInfo.placeId && scan.businessInfo.name === name && scan.businessInfo.address === address
+  )
+}
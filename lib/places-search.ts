@@ -0,0 +1,80 @@
+import { Client, Language } from '@googlemaps/google-maps-services-js'
+
+const client = new Client({})
+
+export interface NearbySearchParams {
+  query: string;
+  location: { lat: number; lng: number };
+  radius?: number;
+  // The scan's Google region: "global", "local" or, for older scans, a locale such as "en-US"
+  region?: string;
+}
+
+// Same shape the /api/places-search route returns, so results can be handled
+// identically whether they were fetched in the browser or on the server
+export interface PlaceSearchResult {
+  name: string;
+  place_id: string;
+  rating?: number;
+  user_ratings_total?: number;
+  vicinity?: string;
+  types: string[];
+  geometry?: {
+    location: { lat: number; lng: number };
+  };
+}
+
+// Language to request results in. A global search reads like google.com, in
+// English; a local one is left to Google, which answers in the location's own
+// language. Locales stored by older scans are sent as they are.
+function regionLanguage(region = 'global'): Language | undefined {
+  if (region === 'global') return Language.en
+  if (region === 'local') return undefined
+  return region as Language
+}
+
+// Server-side nearby search used by background jobs that can't call our own API routes
+export async function searchNearbyPlaces({
+  query,
+  location,
+  radius = 5000,
+  region,
+}: NearbySearchParams): Promise<PlaceSearchResult[]> {
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY
+
+  if (!apiKey) {
+    throw new Error('Missing Google Maps API key in environment variables')
+  }
+
+  const response = await client.placesNearby({
+    params: {
+      key: apiKey,
+      location: `${location.lat},${location.lng}`,
+      radius,
+      keyword: query,
+      language: regionLanguage(region),
+    },
+  })
+
+  const status = response.data.status as string
+
+  if (status === 'ZERO_RESULTS') {
+    return []
+  }
+
+  if (status !== 'OK') {
+    throw new Error(`Google Places API error: ${status}`)
+  }
+
+  return response.data.results.map((place) => ({
+    name: place.name || '',
+    place_id: place.place_id || '',
+    rating: place.rating,
+    user_ratings_total: place.user_ratings_total,
+    vicinity: place.vicinity,
+    types: (place.types as string[]) || [],
+    geometry: place.geometry
+      ? { location: { lat: place.geometry.location.lat, lng: place.geometry.location.lng } }
+      : undefined,
+  }))
+}
@@ -0,0 +1,153 @@
+import type { BusinessPost } from "@/lib/business-posts"
+import { getZonedParts } from "@/lib/time-zones"
+
+// Google's v4 API, which is where local posts are still created
+const DEFAULT_API_URL = "https://mybusiness.googleapis.com/v4"
+
+interface GoogleDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface GoogleTimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+// A post in the shape the Business Profile API's localPosts.create expects
+export interface LocalPost {
+  languageCode: string;
+  summary: string;
+  topicType: "STANDARD" | "OFFER" | "EVENT";
+  callToAction?: { actionType: string; url?: string };
+  event?: {
+    title: string;
+    schedule: {
+      startDate: GoogleDate;
+      startTime: GoogleTimeOfDay;
+      endDate: GoogleDate;
+      endTime: GoogleTimeOfDay;
+    };
+  };
+  offer?: {
+    couponCode?: string;
+    redeemOnlineUrl?: string;
+    termsConditions?: string;
+  };
+}
+
+// Where posts are sent. The HTTP transport talks to the Business Profile API or
+// a local stand-in of it; tests can pass any object with this method.
+export interface PostTransport {
+  // Create the post on a profile ("accounts/1/locations/2") and return the new post's resource name
+  createLocalPost(profileName: string, post: LocalPost): Promise<{ name: string }>
+}
+
+export type PublishResult = { success: true; externalName: string } | { success: false; error: string }
+
+// Google shows an offer's or event's schedule as wall-clock times at the
+// location, so the instants are read back in the zone they were entered in
+function toGoogleSchedulePoint(date: Date, timeZone: string): { date: GoogleDate; time: GoogleTimeOfDay } {
+  const zoned = getZonedParts(date, timeZone)
+  return {
+    date: { year: zoned.year, month: zoned.month, day: zoned.day },
+    time: { hours: zoned.hour, minutes: zoned.minute },
+  }
+}
+
+// Map a saved post to the API's request body. Offers and events carry their
+// title and schedule in the API's "event" field.
+export function toLocalPost(post: BusinessPost): LocalPost {
+  const localPost: LocalPost = {
+    languageCode: "en",
+    summary: post.summary,
+    topicType: post.type === "offer" ? "OFFER" : post.type === "event" ? "EVENT" : "STANDARD",
+  }
+
+  if (post.type !== "update" && post.title && post.startsAt && post.endsAt) {
+    const start = toGoogleSchedulePoint(new Date(post.startsAt), post.timeZone)
+    const end = toGoogleSchedulePoint(new Date(post.endsAt), post.timeZone)
+    localPost.event = {
+      title: post.title,
+      schedule: {
+        startDate: start.date,
+        startTime: start.time,
+        endDate: end.date,
+        endTime: end.time,
+      },
+    }
+  }
+
+  if (post.type === "offer") {
+    localPost.offer = {
+      couponCode: post.couponCode || undefined,
+      redeemOnlineUrl: post.redeemUrl || undefined,
+      termsConditions: post.terms || undefined,
+    }
+  } else if (post.callToAction) {
+    localPost.callToAction = {
+      actionType: post.callToAction.actionType,
+      url: post.callToAction.actionType === "CALL" ? undefined : post.callToAction.url,
+    }
+  }
+
+  return localPost
+}
+
+// Transport for the Business Profile API at baseUrl, authorized with an OAuth access token
+export function createHttpTransport(baseUrl: string, accessToken: string): PostTransport {
+  return {
+    async createLocalPost(profileName, post) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/${profileName}/localPosts`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(post),
+        cache: "no-store",
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error?.message || `Business Profile API error: ${response.status}`)
+      }
+      if (!data.name) {
+        throw new Error("Business Profile API didn't return the post's name")
+      }
+
+      return { name: data.name }
+    },
+  }
+}
+
+// Transport configured by BUSINESS_PROFILE_API_URL and BUSINESS_PROFILE_ACCESS_TOKEN.
+// Point the URL at a local stand-in to try publishing without touching real profiles.
+export function getPostTransport(): PostTransport {
+  const accessToken = process.env.BUSINESS_PROFILE_ACCESS_TOKEN
+  if (!accessToken) {
+    throw new Error("BUSINESS_PROFILE_ACCESS_TOKEN must be set to publish posts")
+  }
+  return createHttpTransport(process.env.BUSINESS_PROFILE_API_URL || DEFAULT_API_URL, accessToken)
+}
+
+// Publish one post to a location's Business Profile. Failures are returned, not
+// thrown, so one location's error doesn't stop the rest of a batch.
+export async function publishPost(
+  post: BusinessPost,
+  profileName: string | null,
+  transport: PostTransport
+): Promise<PublishResult> {
+  if (!profileName) {
+    return { success: false, error: "The location isn't connected to a Business Profile" }
+  }
+
+  try {
+    const { name } = await transport.createLocalPost(profileName, toLocalPost(post))
+    return { success: true, externalName: name }
+  } catch (error) {
+    console.error(`Error publishing post ${post.id}:`, error)
+    return { success: false, error: error instanceof Error ? error.message : "Failed to publish post" }
+  }
+}
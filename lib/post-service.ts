@@ -0,0 +1,322 @@
+import { createClient } from "@supabase/supabase-js"
+import {
+  locationPostVariables,
+  renderPostForLocation,
+  type BusinessPost,
+  type CallToAction,
+  type PostDraft,
+  type PostStatus,
+  type PostType,
+} from "@/lib/business-posts"
+import type { Location } from "@/lib/location-service"
+import { publishPost, type PostTransport, type PublishResult } from "@/lib/post-publisher"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+// Every post is read with its location's name and Business Profile
+const POST_COLUMNS = "*, locations(name, profile_name)"
+
+// Posts that haven't gone out yet and so can still be edited, rescheduled or deleted
+const UNPUBLISHED_STATUSES: PostStatus[] = ["scheduled", "failed"]
+
+// Posts one cron run publishes, so a run finishes well within its time limit
+export const POSTS_PER_RUN = 25
+
+// Posts still publishing this long after they were claimed were interrupted
+const STALLED_PUBLISHING_MS = 30 * 60 * 1000
+
+interface BusinessPostRecord {
+  id: string;
+  workspace_id: string;
+  location_id: string;
+  batch_id: string;
+  type: PostType;
+  title: string | null;
+  summary: string;
+  call_to_action: CallToAction | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  time_zone: string;
+  coupon_code: string | null;
+  redeem_url: string | null;
+  terms: string | null;
+  status: PostStatus;
+  scheduled_at: string;
+  published_at: string | null;
+  claimed_at: string | null;
+  external_name: string | null;
+  error: string | null;
+  created_at: string;
+  locations?: { name: string; profile_name: string | null } | null;
+}
+
+// A post with the Business Profile it goes to, as needed for publishing
+export interface PostToPublish {
+  post: BusinessPost;
+  profileName: string | null;
+}
+
+export interface PublishSummary {
+  published: number;
+  failed: number;
+}
+
+function toBusinessPost(row: BusinessPostRecord): BusinessPost {
+  return {
+    id: row.id.toString(),
+    locationId: row.location_id.toString(),
+    locationName: row.locations?.name || "Deleted location",
+    batchId: row.batch_id.toString(),
+    type: row.type,
+    title: row.title,
+    summary: row.summary,
+    callToAction: row.call_to_action,
+    startsAt: row.starts_at ? new Date(row.starts_at).toISOString() : null,
+    endsAt: row.ends_at ? new Date(row.ends_at).toISOString() : null,
+    timeZone: row.time_zone,
+    couponCode: row.coupon_code,
+    redeemUrl: row.redeem_url,
+    terms: row.terms,
+    status: row.status,
+    scheduledAt: new Date(row.scheduled_at).toISOString(),
+    publishedAt: row.published_at ? new Date(row.published_at).toISOString() : null,
+    externalName: row.external_name,
+    error: row.error,
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
+
+function toPostToPublish(row: BusinessPostRecord): PostToPublish {
+  return { post: toBusinessPost(row), profileName: row.locations?.profile_name || null }
+}
+
+// Save the draft as one post per location with the location's values filled in.
+// The draft must already be valid for every location; see renderPostForLocation.
+export async function createPosts(workspaceId: string, draft: PostDraft, locations: Location[]): Promise<BusinessPost[]> {
+  const batchId = crypto.randomUUID()
+  const isEventLike = draft.type !== "update"
+
+  const rows = locations.map((location) => {
+    const { title, summary } = renderPostForLocation(draft, locationPostVariables(location))
+    return {
+      workspace_id: workspaceId,
+      location_id: location.id,
+      batch_id: batchId,
+      type: draft.type,
+      title: isEventLike ? title.trim() : null,
+      summary: summary.trim(),
+      call_to_action: draft.type === "offer" ? null : draft.callToAction,
+      starts_at: isEventLike ? draft.startsAt : null,
+      ends_at: isEventLike ? draft.endsAt : null,
+      time_zone: draft.timeZone,
+      coupon_code: draft.type === "offer" ? draft.couponCode.trim() || null : null,
+      redeem_url: draft.type === "offer" ? draft.redeemUrl.trim() || null : null,
+      terms: draft.type === "offer" ? draft.terms.trim() || null : null,
+      status: "scheduled",
+      scheduled_at: new Date(draft.scheduledAt).toISOString(),
+    }
+  })
+
+  const { data, error } = await supabase.from("business_posts").insert(rows).select(POST_COLUMNS)
+
+  if (error) {
+    console.error("Error creating posts:", error)
+    throw error
+  }
+
+  return (data as BusinessPostRecord[]).map(toBusinessPost)
+}
+
+// Posts scheduled within [from, to), earliest first
+export async function getPosts(workspaceId: string, from: Date, to: Date): Promise<BusinessPost[]> {
+  const { data, error } = await supabase
+    .from("business_posts")
+    .select(POST_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .gte("scheduled_at", from.toISOString())
+    .lt("scheduled_at", to.toISOString())
+    .order("scheduled_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching posts:", error)
+    throw error
+  }
+
+  return (data as BusinessPostRecord[]).map(toBusinessPost)
+}
+
+export async function getPostById(workspaceId: string, id: string): Promise<BusinessPost | null> {
+  const { data, error } = await supabase
+    .from("business_posts")
+    .select(POST_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .eq("id", id)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching post:", error)
+    return null
+  }
+
+  return data ? toBusinessPost(data as BusinessPostRecord) : null
+}
+
+// Edit or reschedule a post that hasn't been published. Rescheduling a failed
+// post queues it again. Returns null if the post doesn't exist or was published.
+export async function updatePost(
+  workspaceId: string,
+  id: string,
+  changes: Partial<Pick<BusinessPost, "title" | "summary" | "scheduledAt">>
+): Promise<BusinessPost | null> {
+  const record: Partial<BusinessPostRecord> = {}
+  if (changes.title !== undefined) record.title = changes.title?.trim() || null
+  if (changes.summary !== undefined) record.summary = changes.summary.trim()
+  if (changes.scheduledAt !== undefined) {
+    record.scheduled_at = new Date(changes.scheduledAt).toISOString()
+    record.status = "scheduled"
+    record.error = null
+  }
+
+  const { data, error } = await supabase
+    .from("business_posts")
+    .update(record)
+    .eq("workspace_id", workspaceId)
+    .eq("id", id)
+    .in("status", UNPUBLISHED_STATUSES)
+    .select(POST_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error updating post:", error)
+    throw error
+  }
+
+  return data ? toBusinessPost(data as BusinessPostRecord) : null
+}
+
+// Delete a post that hasn't been published. Published posts stay on the
+// calendar as a record of what went out.
+export async function deletePost(workspaceId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("business_posts")
+    .delete()
+    .eq("workspace_id", workspaceId)
+    .eq("id", id)
+    .in("status", UNPUBLISHED_STATUSES)
+    .select("id")
+
+  if (error) {
+    console.error("Error deleting post:", error)
+    return false
+  }
+
+  return (data || []).length > 0
+}
+
+async function recordPublishResult(post: BusinessPost, result: PublishResult) {
+  const changes = result.success
+    ? { status: "published", published_at: new Date().toISOString(), external_name: result.externalName, error: null }
+    : { status: "failed", error: result.error }
+
+  const { error } = await supabase.from("business_posts").update(changes).eq("id", post.id)
+
+  if (error) {
+    console.error(`Error saving the result of post ${post.id}:`, error)
+  }
+}
+
+// Publish claimed posts one after another and save each result
+export async function publishPosts(posts: PostToPublish[], transport: PostTransport): Promise<PublishSummary> {
+  const summary: PublishSummary = { published: 0, failed: 0 }
+
+  for (const { post, profileName } of posts) {
+    const result = await publishPost(post, profileName, transport)
+    await recordPublishResult(post, result)
+    summary[result.success ? "published" : "failed"]++
+  }
+
+  return summary
+}
+
+// Mark up to `limit` due posts as publishing, earliest first, and return them.
+// Only scheduled posts are claimed, so overlapping cron runs don't publish a
+// post twice. Posts left publishing by an interrupted run are failed first.
+export async function claimDuePosts(limit: number = POSTS_PER_RUN, now: Date = new Date()): Promise<PostToPublish[]> {
+  await failStalledPosts(now)
+
+  const { data: due, error: dueError } = await supabase
+    .from("business_posts")
+    .select("id")
+    .eq("status", "scheduled")
+    .lte("scheduled_at", now.toISOString())
+    .order("scheduled_at", { ascending: true })
+    .limit(limit)
+
+  if (dueError) {
+    console.error("Error fetching due posts:", dueError)
+    throw dueError
+  }
+  if (!due || due.length === 0) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from("business_posts")
+    .update({ status: "publishing", claimed_at: now.toISOString() })
+    .in("id", due.map((row) => row.id))
+    .eq("status", "scheduled")
+    .select(POST_COLUMNS)
+
+  if (error) {
+    console.error("Error claiming due posts:", error)
+    throw error
+  }
+
+  return (data as BusinessPostRecord[]).map(toPostToPublish)
+}
+
+// Posts whose run stopped before saving a result may or may not have gone out,
+// so they are failed rather than published again. Failed posts can be checked,
+// edited, rescheduled or deleted.
+async function failStalledPosts(now: Date) {
+  const { error } = await supabase
+    .from("business_posts")
+    .update({ status: "failed", error: "Publishing was interrupted; check the Business Profile before retrying" })
+    .eq("status", "publishing")
+    .lt("claimed_at", new Date(now.getTime() - STALLED_PUBLISHING_MS).toISOString())
+
+  if (error) {
+    console.error("Error failing stalled posts:", error)
+    throw error
+  }
+}
+
+// Publish one unpublished post right away instead of waiting for its time
+export async function publishPostNow(
+  workspaceId: string,
+  id: string,
+  transport: PostTransport
+): Promise<BusinessPost | null> {
+  const { data, error } = await supabase
+    .from("business_posts")
+    .update({ status: "publishing", claimed_at: new Date().toISOString() })
+    .eq("workspace_id", workspaceId)
+    .eq("id", id)
+    .in("status", UNPUBLISHED_STATUSES)
+    .select(POST_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error claiming post:", error)
+    throw error
+  }
+  if (!data) {
+    return null
+  }
+
+  await publishPosts([toPostToPublish(data as BusinessPostRecord)], transport)
+  return getPostById(workspaceId, id)
+}
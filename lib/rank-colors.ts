@@ -0,0 +1,27 @@
+// Rank colors shared by the server-rendered grid images, the same as the grid detail map
+export const RANK_COLORS = ["#059669", "#10b981", "#f59e0b", "#f97316", "#ef4444"]
+
+// Rank range each color in RANK_COLORS stands for
+export const RANK_BAND_LABELS = ["1-3", "4-7", "8-10", "11-15", "16+"]
+
+// Background of cells that weren't scanned
+export const EMPTY_CELL_COLOR = "#f3f4f6"
+
+// Position of a rank's color in RANK_COLORS
+export function rankColorIndex(rank: number): number {
+  if (rank <= 3) return 0
+  if (rank <= 7) return 1
+  if (rank <= 10) return 2
+  if (rank <= 15) return 3
+  return 4
+}
+
+// Color of a rank in the default palette, or in a branded one of the same length
+export function rankColor(rank: number, palette: string[] = RANK_COLORS): string {
+  return palette[rankColorIndex(rank)]
+}
+
+// Label of a rank in a grid cell; everything past the tracked positions is 20+
+export function rankLabel(rank: number): string {
+  return rank >= 20 ? "20+" : String(rank)
+}
@@ -0,0 +1,159 @@
+import { createClient } from "@supabase/supabase-js"
+import { calculateGridMetrics } from "@/lib/geogrid-service"
+import { KeywordMetricsCalculator } from "@/lib/keyword-metrics"
+import { zonedTimeToUtc } from "@/lib/time-zones"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+// A business is identified by its Google place_id when it has one and by name and
+// address otherwise, the same way saving a scan finds its businesses row
+export interface RankingHistoryQuery {
+  placeId?: string;
+  name?: string;
+  address?: string;
+  keyword: string;
+  // Inclusive bounds on when the scans ran: ISO timestamps, or bare dates
+  // covering that whole day in `timeZone`
+  from?: string;
+  to?: string;
+  // IANA time zone of the user asking; UTC when absent
+  timeZone?: string;
+}
+
+// Summary of one stored scan
+export interface RankingHistoryEntry {
+  gridResultId: string;
+  createdAt: string;
+  agr: number;
+  atgr: number;
+  // Percentage of points ranking in the top 10
+  solv: number;
+  // Share of scanned points per rank bucket, in percent
+  top3Percentage: number;
+  top10Percentage: number;
+  otherPercentage: number;
+  scannedPoints: number;
+}
+
+export interface RankingHistoryGrid extends RankingHistoryEntry {
+  gridSize: string;
+  gridData: number[][];
+}
+
+interface RankingHistoryRecord {
+  id: string;
+  created_at: string;
+  grid_size: string;
+  grid_data: number[][];
+}
+
+function toRankingHistoryEntry(row: RankingHistoryRecord): RankingHistoryEntry {
+  const gridData = Array.isArray(row.grid_data) ? row.grid_data : []
+  const metrics = calculateGridMetrics(gridData)
+  const distribution = KeywordMetricsCalculator.calculate(gridData)
+
+  return {
+    gridResultId: row.id.toString(),
+    createdAt: new Date(row.created_at).toISOString(),
+    agr: Number(metrics.agr.toFixed(2)),
+    atgr: Number(metrics.atgr.toFixed(2)),
+    solv: metrics.visibilityPercentage,
+    top3Percentage: Number(distribution.top3Percentage.toFixed(2)),
+    top10Percentage: Number(distribution.top10Percentage.toFixed(2)),
+    otherPercentage: Number(distribution.otherPercentage.toFixed(2)),
+    scannedPoints: distribution.totalRankings,
+  }
+}
+
+// Returns an error message if the query can't identify a business and keyword
+export function validateRankingHistoryQuery(query: RankingHistoryQuery): string | null {
+  if (!query.keyword?.trim()) {
+    return "Keyword is required"
+  }
+  if (!query.placeId && !query.name) {
+    return "A place ID or business name is required"
+  }
+  if ((query.from && Number.isNaN(Date.parse(query.from))) || (query.to && Number.isNaN(Date.parse(query.to)))) {
+    return "Date range must use ISO dates"
+  }
+  if (query.timeZone) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: query.timeZone })
+    } catch {
+      return `Unknown time zone: ${query.timeZone}`
+    }
+  }
+  return null
+}
+
+// The instant a bound starts, with a bare date read as the start of that day
+// (or, with endOfDay, its last millisecond) in the time zone
+function resolveDateBound(value: string, timeZone: string, endOfDay = false): Date {
+  const bareDate = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (!bareDate) {
+    return new Date(value)
+  }
+
+  const [year, month, day] = bareDate.slice(1).map(Number)
+  if (!endOfDay) {
+    return zonedTimeToUtc(year, month, day, 0, 0, timeZone)
+  }
+  return new Date(zonedTimeToUtc(year, month, day + 1, 0, 0, timeZone).getTime() - 1)
+}
+
+// Stored scans of the business for the keyword, oldest first
+async function fetchScanRecords(workspaceId: string, query: RankingHistoryQuery): Promise<RankingHistoryRecord[]> {
+  let request = supabase
+    .from("grid_results")
+    .select("id, created_at, grid_size, grid_data, businesses!inner (place_id, name, address)")
+    .eq("workspace_id", workspaceId)
+    // Case-insensitive exact match on the keyword
+    .ilike("search_term", query.keyword.trim().replace(/[\\%_]/g, "\\$&"))
+
+  if (query.placeId) {
+    request = request.eq("businesses.place_id", query.placeId)
+  } else {
+    request = request.eq("businesses.name", query.name!)
+    if (query.address) {
+      request = request.eq("businesses.address", query.address)
+    }
+  }
+  const timeZone = query.timeZone || "UTC"
+  if (query.from) {
+    request = request.gte("created_at", resolveDateBound(query.from, timeZone).toISOString())
+  }
+  if (query.to) {
+    request = request.lte("created_at", resolveDateBound(query.to, timeZone, true).toISOString())
+  }
+
+  const { data, error } = await request.order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching ranking history:", error)
+    throw error
+  }
+
+  return (data || []) as unknown as RankingHistoryRecord[]
+}
+
+// Every stored scan of the business for the keyword, oldest first
+export async function getRankingHistory(workspaceId: string, query: RankingHistoryQuery): Promise<RankingHistoryEntry[]> {
+  const records = await fetchScanRecords(workspaceId, query)
+  return records.map(toRankingHistoryEntry)
+}
+
+// Like getRankingHistory, but with each scan's full rank matrix
+export async function getRankingHistoryGrids(
+  workspaceId: string,
+  query: RankingHistoryQuery
+): Promise<RankingHistoryGrid[]> {
+  const records = await fetchScanRecords(workspaceId, query)
+  return records.map((row) => ({
+    ...toRankingHistoryEntry(row),
+    gridSize: row.grid_size,
+    gridData: Array.isArray(row.grid_data) ? row.grid_data : [],
+  }))
+}
@@ -0,0 +1,191 @@
+import type { GridResult } from "@/lib/geogrid-service"
+
+// Report sections and the parameters of reports that cover several scans. Kept
+// free of database access so the report builder in the browser can use it too.
+
+export type ReportSection = "rankingMap" | "competitiveAnalysis" | "historicalData" | "recommendations"
+
+export const REPORT_SECTIONS: ReportSection[] = ["rankingMap", "competitiveAnalysis", "historicalData", "recommendations"]
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+  rankingMap: "Ranking Map",
+  competitiveAnalysis: "Competitive Analysis",
+  historicalData: "Historical Data",
+  recommendations: "Strategic Recommendations",
+}
+
+// Scans in one report; each gets its own pages
+export const MAX_REPORT_SCANS = 20
+
+// Choices for a date range relative to when the report is generated
+export const REPORT_RANGE_DAYS = [7, 30, 90, 365]
+
+// A scanned business, identified the way ranking history identifies it: by its
+// Place ID when it has one and by name and address otherwise
+export interface ReportBusiness {
+  name: string;
+  address: string;
+  placeId?: string;
+}
+
+export type ReportDateRange =
+  // The last `days` days before the report is generated
+  | { type: "last"; days: number }
+  // Inclusive yyyy-mm-dd dates
+  | { type: "between"; from: string; to: string }
+  | { type: "all" }
+
+export interface ReportParameters {
+  businesses: ReportBusiness[];
+  // Keywords to report on; empty for every keyword the businesses were scanned for
+  keywords: string[];
+  dateRange: ReportDateRange;
+  sections: ReportSection[];
+  // Apply the saved branding
+  branded: boolean;
+}
+
+// Returns an error message if the list names a section that doesn't exist
+export function validateReportSections(sections: string[]): string | null {
+  if (sections.length === 0) {
+    return "Select at least one report section"
+  }
+  const unknown = sections.filter((section) => !REPORT_SECTIONS.includes(section as ReportSection))
+  if (unknown.length > 0) {
+    return `Unknown report sections: ${unknown.join(", ")}`
+  }
+  return null
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// A request body's fields, before anything about them is known
+type Unchecked<T> = Partial<Record<keyof T, unknown>> | null | undefined
+
+// Report parameters from a request body, keeping only the known fields and
+// trimming text. Whatever is left still needs validateReportParameters.
+export function toReportParameters(body: unknown): ReportParameters {
+  const input = body as Unchecked<ReportParameters>
+  const range = input?.dateRange as Unchecked<{ type: string; days: number; from: string; to: string }>
+  const dateRange: ReportDateRange =
+    range?.type === "last"
+      ? { type: "last", days: Number(range.days) }
+      : range?.type === "between"
+        ? { type: "between", from: String(range.from ?? ""), to: String(range.to ?? "") }
+        : range?.type === "all"
+          ? { type: "all" }
+          : (range as unknown as ReportDateRange)
+
+  return {
+    businesses: Array.isArray(input?.businesses)
+      ? input.businesses.map((business: Unchecked<ReportBusiness>) => ({
+          name: typeof business?.name === "string" ? business.name.trim() : "",
+          address: typeof business?.address === "string" ? business.address.trim() : "",
+          ...(business?.placeId ? { placeId: String(business.placeId) } : {}),
+        }))
+      : [],
+    keywords: Array.isArray(input?.keywords)
+      ? [...new Set<string>(input.keywords.map((keyword: unknown) => String(keyword).trim()).filter(Boolean))]
+      : (input?.keywords as string[]),
+    dateRange,
+    sections: input?.sections as ReportSection[],
+    branded: (input?.branded ?? true) as boolean,
+  }
+}
+
+// Returns an error message if the parameters can't be used to build a report
+export function validateReportParameters(parameters: ReportParameters): string | null {
+  if (!Array.isArray(parameters.businesses) || parameters.businesses.length === 0) {
+    return "Select at least one business"
+  }
+  if (parameters.businesses.some((business) => typeof business?.name !== "string" || !business.name.trim())) {
+    return "Every business needs a name"
+  }
+  if (!Array.isArray(parameters.keywords) || parameters.keywords.some((keyword) => typeof keyword !== "string")) {
+    return "Keywords must be a list of strings"
+  }
+
+  const range = parameters.dateRange
+  if (range?.type === "last") {
+    if (!Number.isInteger(range.days) || range.days < 1 || range.days > 3650) {
+      return "The date range must cover 1 to 3650 days"
+    }
+  } else if (range?.type === "between") {
+    if (!DATE_PATTERN.test(range.from) || !DATE_PATTERN.test(range.to) || Number.isNaN(Date.parse(range.from)) || Number.isNaN(Date.parse(range.to))) {
+      return "The date range needs a start and end date"
+    }
+    if (range.to < range.from) {
+      return "The end date must be after the start date"
+    }
+  } else if (range?.type !== "all") {
+    return "Choose a date range"
+  }
+
+  if (!Array.isArray(parameters.sections)) {
+    return "Select at least one report section"
+  }
+  const sectionsError = validateReportSections(parameters.sections)
+  if (sectionsError) {
+    return sectionsError
+  }
+
+  if (typeof parameters.branded !== "boolean") {
+    return "branded must be true or false"
+  }
+
+  return null
+}
+
+// The date range as absolute bounds at `now`; from is null when unbounded
+export function resolveReportDateRange(range: ReportDateRange, now: Date = new Date()): { from: string | null; to: string } {
+  if (range.type === "last") {
+    return { from: new Date(now.getTime() - range.days * 24 * 60 * 60 * 1000).toISOString(), to: now.toISOString() }
+  }
+  if (range.type === "between") {
+    // The end date covers that whole day
+    return { from: new Date(range.from).toISOString(), to: new Date(`${range.to}T23:59:59.999Z`).toISOString() }
+  }
+  return { from: null, to: now.toISOString() }
+}
+
+// Short description of the date range, such as "Last 30 days"
+export function describeReportDateRange(range: ReportDateRange): string {
+  if (range.type === "last") return `Last ${range.days} days`
+  if (range.type === "between") return `${range.from} to ${range.to}`
+  return "All time"
+}
+
+// Key a business is matched by across scans
+export function reportBusinessKey(business: ReportBusiness): string {
+  return business.placeId ? `place:${business.placeId}` : `name:${business.name}|${business.address}`
+}
+
+// The latest scan of each selected business and keyword within the range,
+// ordered by business and then keyword
+export function selectReportScans(
+  results: GridResult[],
+  parameters: ReportParameters,
+  range: { from: string | null; to: string }
+): GridResult[] {
+  const businessKeys = new Set(parameters.businesses.map(reportBusinessKey))
+  const keywords = new Set(parameters.keywords.map((keyword) => keyword.trim().toLowerCase()))
+  const latest = new Map<string, GridResult>()
+
+  for (const result of results) {
+    const businessKey = reportBusinessKey(result.businessInfo)
+    const keyword = result.searchTerm.trim().toLowerCase()
+    if (!businessKeys.has(businessKey) || (keywords.size > 0 && !keywords.has(keyword))) continue
+    if ((range.from && result.createdAt < range.from) || result.createdAt > range.to) continue
+
+    const key = `${businessKey}\n${keyword}`
+    const current = latest.get(key)
+    if (!current || result.createdAt > current.createdAt) {
+      latest.set(key, result)
+    }
+  }
+
+  return [...latest.values()].sort(
+    (a, b) =>
+      a.businessInfo.name.localeCompare(b.businessInfo.name) || a.searchTerm.localeCompare(b.searchTerm)
+  )
+}
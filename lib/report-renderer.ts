@@ -0,0 +1,608 @@
+import { PDFDocument, PageSizes, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage, type RGB } from "pdf-lib"
+import { generateGeoGrid, parseGridSize, type GeoGridPoint } from "@/lib/geo-grid"
+import { GRID_SHAPE_LABELS, OUTSIDE_SHAPE } from "@/lib/grid-shapes"
+import { EMPTY_CELL_COLOR, RANK_BAND_LABELS, rankColor, rankLabel } from "@/lib/rank-colors"
+import { REPORT_SECTION_LABELS } from "@/lib/report-builder"
+import type { BrandLogo } from "@/lib/brand-logo"
+import type { Branding } from "@/lib/branding-service"
+import type { GridReport, MultiScanReport } from "@/lib/report-service"
+
+const [PAGE_WIDTH, PAGE_HEIGHT] = PageSizes.A4
+const MARGIN = 48
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const LINE_GAP = 4
+// Largest side of the ranking map on the page
+const MAP_SIZE = 360
+
+const TEXT_COLOR = hexToRgb("#1f2937")
+const MUTED_COLOR = hexToRgb("#6b7280")
+const RULE_COLOR = hexToRgb("#e5e7eb")
+// Largest size of the brand logo in the report header
+const LOGO_MAX_WIDTH = 140
+const LOGO_MAX_HEIGHT = 36
+
+function hexToRgb(hex: string): RGB {
+  const value = Number.parseInt(hex.slice(1), 16)
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255)
+}
+
+// The standard PDF fonts only cover the WinAnsi character set, so anything else is replaced
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff‘’“”–—…•€™]/g, "?")
+}
+
+const formatDate = (createdAt: string) =>
+  new Date(createdAt).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })
+
+// Writes top to bottom across as many pages as the content needs
+class ReportWriter {
+  private page: PDFPage
+  private y = PAGE_HEIGHT - MARGIN
+
+  constructor(
+    private readonly doc: PDFDocument,
+    readonly font: PDFFont,
+    readonly boldFont: PDFFont
+  ) {
+    this.page = doc.addPage(PageSizes.A4)
+  }
+
+  get currentPage(): PDFPage {
+    return this.page
+  }
+
+  get cursor(): number {
+    return this.y
+  }
+
+  // Start a new page unless `height` more points fit on this one
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.page = this.doc.addPage(PageSizes.A4)
+      this.y = PAGE_HEIGHT - MARGIN
+    }
+  }
+
+  // Start the next content on a fresh page
+  newPage() {
+    this.page = this.doc.addPage(PageSizes.A4)
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  moveDown(height: number) {
+    this.y -= height
+  }
+
+  // Word-wrapped paragraph
+  text(value: string, options: { size?: number; bold?: boolean; color?: RGB; indent?: number } = {}) {
+    const { size = 10, bold = false, color = TEXT_COLOR, indent = 0 } = options
+    const font = bold ? this.boldFont : this.font
+    const maxWidth = CONTENT_WIDTH - indent
+    const lines: string[] = []
+    let line = ""
+
+    toWinAnsi(value)
+      .split(/\s+/)
+      .forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word
+        if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+          lines.push(line)
+          line = word
+        } else {
+          line = candidate
+        }
+      })
+    if (line) lines.push(line)
+
+    lines.forEach((text) => {
+      this.ensureSpace(size + LINE_GAP)
+      this.y -= size
+      this.page.drawText(text, { x: MARGIN + indent, y: this.y, size, font, color })
+      this.y -= LINE_GAP
+    })
+  }
+
+  heading(value: string) {
+    // Keep a heading together with the start of its section
+    this.ensureSpace(120)
+    this.moveDown(12)
+    this.text(value, { size: 15, bold: true })
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 1,
+      color: RULE_COLOR,
+    })
+    this.moveDown(10)
+  }
+
+  // Single-line table with columns at fixed offsets; the first column may be truncated
+  table(columns: { label: string; x: number; align?: "right" }[], rows: { cells: string[]; bold?: boolean }[]) {
+    const size = 9
+    const rowHeight = size + 8
+
+    const drawRow = (cells: string[], font: PDFFont, color: RGB) => {
+      this.ensureSpace(rowHeight)
+      this.y -= size + 2
+      cells.forEach((cell, index) => {
+        const column = columns[index]
+        const nextX = columns[index + 1]?.x ?? CONTENT_WIDTH
+        let text = toWinAnsi(cell)
+        if (index === 0 && font.widthOfTextAtSize(text, size) > nextX - column.x - 8) {
+          while (text.length > 1 && font.widthOfTextAtSize(`${text}...`, size) > nextX - column.x - 8) {
+            text = text.slice(0, -1)
+          }
+          text = `${text}...`
+        }
+        const width = font.widthOfTextAtSize(text, size)
+        const x = MARGIN + (column.align === "right" ? column.x - width : column.x)
+        this.page.drawText(text, { x, y: this.y, size, font, color })
+      })
+      this.y -= 6
+    }
+
+    drawRow(
+      columns.map((column) => column.label),
+      this.boldFont,
+      MUTED_COLOR
+    )
+    rows.forEach((row) => drawRow(row.cells, row.bold ? this.boldFont : this.font, TEXT_COLOR))
+  }
+}
+
+function drawSummary(writer: ReportWriter, report: GridReport, logo: PDFImage | null) {
+  const { result, branding } = report
+  const gridSize = parseGridSize(result.gridSize)
+
+  if (logo) {
+    const { width, height } = logo.scaleToFit(LOGO_MAX_WIDTH, LOGO_MAX_HEIGHT)
+    writer.currentPage.drawImage(logo, {
+      x: PAGE_WIDTH - MARGIN - width,
+      y: writer.cursor - height,
+      width,
+      height,
+    })
+  }
+
+  writer.text(`${branding.companyName} · Local Ranking Report`, {
+    size: 11,
+    color: hexToRgb(branding.primaryColor),
+    bold: true,
+  })
+  writer.moveDown(logo ? Math.max(4, LOGO_MAX_HEIGHT - 15) : 4)
+  writer.text(result.businessInfo.name, { size: 22, bold: true })
+  writer.text(result.businessInfo.address, { color: MUTED_COLOR })
+  writer.moveDown(8)
+  writer.text(
+    `Keyword "${result.searchTerm}" scanned on ${formatDate(result.createdAt)} with a ${gridSize}x${gridSize} ${GRID_SHAPE_LABELS[result.shape || "square"].toLowerCase()} grid, ${result.distanceKm} km between points.`
+  )
+  writer.moveDown(12)
+
+  const metrics = [
+    { label: "AGR (Average Grid Ranking)", value: Number(result.metrics.agr || 0).toFixed(1) },
+    { label: "ATGR (Average Top Grid Ranking)", value: Number(result.metrics.atgr || 0).toFixed(2) },
+    { label: "SoLV (Share of Local Voice)", value: String(result.metrics.solv || "0%") },
+  ]
+  const boxWidth = (CONTENT_WIDTH - 16) / metrics.length
+  const boxHeight = 54
+
+  writer.ensureSpace(boxHeight)
+  const top = writer.cursor
+  metrics.forEach((metric, index) => {
+    const x = MARGIN + index * (boxWidth + 8)
+    writer.currentPage.drawRectangle({
+      x,
+      y: top - boxHeight,
+      width: boxWidth,
+      height: boxHeight,
+      borderColor: RULE_COLOR,
+      borderWidth: 1,
+    })
+    writer.currentPage.drawText(metric.label, {
+      x: x + 10,
+      y: top - 18,
+      size: 8,
+      color: MUTED_COLOR,
+    })
+    writer.currentPage.drawText(metric.value, {
+      x: x + 10,
+      y: top - 42,
+      size: 18,
+      color: TEXT_COLOR,
+    })
+  })
+  writer.moveDown(boxHeight + 8)
+}
+
+function drawRankingMap(writer: ReportWriter, report: GridReport) {
+  const { result } = report
+  const gridSize = parseGridSize(result.gridSize)
+  const cell = Math.floor(MAP_SIZE / gridSize)
+  const side = cell * gridSize
+
+  writer.heading(REPORT_SECTION_LABELS.rankingMap)
+  writer.text("Rank of the business at each grid point. North is at the top.", { color: MUTED_COLOR })
+  writer.moveDown(8)
+  writer.ensureSpace(side + 30)
+
+  const page = writer.currentPage
+  const left = MARGIN + (CONTENT_WIDTH - side) / 2
+  const bottom = writer.cursor - side
+  const labelSize = Math.min(9, cell * 0.4)
+
+  for (let row = 0; row < gridSize; row++) {
+    for (let col = 0; col < gridSize; col++) {
+      const rank = result.gridData[row]?.[col]
+      const scanned = rank !== undefined && rank !== OUTSIDE_SHAPE
+      // Row 0 is the southernmost row, so it sits at the bottom of the map
+      const x = left + col * cell
+      const y = bottom + row * cell
+      page.drawRectangle({
+        x,
+        y,
+        width: cell - 1,
+        height: cell - 1,
+        color: hexToRgb(scanned ? rankColor(rank, report.branding.rankColors) : EMPTY_CELL_COLOR),
+      })
+      if (scanned && labelSize >= 4) {
+        const label = rankLabel(rank)
+        const width = writer.boldFont.widthOfTextAtSize(label, labelSize)
+        page.drawText(label, {
+          x: x + (cell - 1 - width) / 2,
+          y: y + (cell - 1 - labelSize) / 2 + 1,
+          size: labelSize,
+          font: writer.boldFont,
+          color: rgb(1, 1, 1),
+        })
+      }
+    }
+  }
+  writer.moveDown(side + 12)
+
+  // Legend
+  const legendTop = writer.cursor
+  RANK_BAND_LABELS.forEach((label, index) => {
+    const x = MARGIN + index * 70
+    page.drawRectangle({ x, y: legendTop - 9, width: 9, height: 9, color: hexToRgb(report.branding.rankColors[index]) })
+    page.drawText(label, { x: x + 13, y: legendTop - 8, size: 8, color: MUTED_COLOR })
+  })
+  writer.moveDown(18)
+}
+
+function drawCompetitiveAnalysis(writer: ReportWriter, report: GridReport) {
+  writer.heading(REPORT_SECTION_LABELS.competitiveAnalysis)
+
+  if (report.competitors.length === 0) {
+    writer.text("Competitor data is only available for scans that stored their search results.", { color: MUTED_COLOR })
+    return
+  }
+
+  writer.text("Businesses seen across the grid, ordered by share of local voice.", { color: MUTED_COLOR })
+  writer.moveDown(6)
+  writer.table(
+    [
+      { label: "Business", x: 0 },
+      { label: "SoLV", x: 300, align: "right" },
+      { label: "AGR", x: 350, align: "right" },
+      { label: "Points listed", x: 420, align: "right" },
+      { label: "Rating", x: CONTENT_WIDTH, align: "right" },
+    ],
+    report.competitors.map((competitor) => ({
+      bold: competitor.isTarget,
+      cells: [
+        competitor.name,
+        `${competitor.metrics.visibilityPercentage}%`,
+        competitor.metrics.agr.toFixed(1),
+        String(competitor.appearances),
+        competitor.rating !== null ? `${competitor.rating} (${competitor.userRatingsTotal ?? 0})` : "-",
+      ],
+    }))
+  )
+}
+
+function drawHistoricalData(writer: ReportWriter, report: GridReport) {
+  const { history } = report
+  writer.heading(REPORT_SECTION_LABELS.historicalData)
+
+  if (history.length === 0) {
+    writer.text("No stored scans of this keyword.", { color: MUTED_COLOR })
+    return
+  }
+
+  if (history.length > 1) {
+    // Average grid rank over time, with rank 1 at the top
+    const chartHeight = 140
+    writer.text("Average grid rank per scan", { color: MUTED_COLOR })
+    writer.moveDown(6)
+    writer.ensureSpace(chartHeight + 10)
+
+    const page = writer.currentPage
+    const lineColor = hexToRgb(report.branding.primaryColor)
+    const top = writer.cursor
+    const toY = (agr: number) => top - ((Math.min(Math.max(agr, 1), 21) - 1) / 20) * chartHeight
+    const toX = (index: number) => MARGIN + 24 + (index / (history.length - 1)) * (CONTENT_WIDTH - 24)
+
+    ;[1, 5, 10, 15, 21].forEach((rank) => {
+      page.drawLine({ start: { x: MARGIN + 24, y: toY(rank) }, end: { x: PAGE_WIDTH - MARGIN, y: toY(rank) }, thickness: 0.5, color: RULE_COLOR })
+      page.drawText(String(rank), { x: MARGIN, y: toY(rank) - 3, size: 7, color: MUTED_COLOR })
+    })
+    history.slice(1).forEach((entry, index) => {
+      page.drawLine({
+        start: { x: toX(index), y: toY(history[index].agr) },
+        end: { x: toX(index + 1), y: toY(entry.agr) },
+        thickness: 1.5,
+        color: lineColor,
+      })
+    })
+    history.forEach((entry, index) => {
+      page.drawCircle({ x: toX(index), y: toY(entry.agr), size: 2.5, color: lineColor })
+    })
+    writer.moveDown(chartHeight + 16)
+  }
+
+  writer.table(
+    [
+      { label: "Scan date", x: 0 },
+      { label: "AGR", x: 240, align: "right" },
+      { label: "ATGR", x: 310, align: "right" },
+      { label: "SoLV", x: 380, align: "right" },
+      { label: "Top 3", x: CONTENT_WIDTH, align: "right" },
+    ],
+    history.map((entry) => ({
+      bold: entry.gridResultId === report.result.id,
+      cells: [
+        formatDate(entry.createdAt),
+        entry.agr.toFixed(1),
+        entry.atgr.toFixed(2),
+        `${entry.solv}%`,
+        `${entry.top3Percentage}%`,
+      ],
+    }))
+  )
+}
+
+function drawRecommendations(writer: ReportWriter, report: GridReport) {
+  writer.heading(REPORT_SECTION_LABELS.recommendations)
+
+  report.recommendations.forEach((recommendation, index) => {
+    writer.ensureSpace(50)
+    writer.text(`${index + 1}. ${recommendation.title}`, { size: 11, bold: true })
+    writer.text(recommendation.detail, { indent: 14 })
+    writer.moveDown(8)
+  })
+}
+
+async function embedLogo(doc: PDFDocument, logo: BrandLogo | null): Promise<PDFImage | null> {
+  if (!logo) return null
+  try {
+    return logo.mimeType === "image/png" ? await doc.embedPng(logo.data) : await doc.embedJpg(logo.data)
+  } catch (error) {
+    console.error("Error embedding brand logo:", error)
+    return null
+  }
+}
+
+function drawSections(writer: ReportWriter, report: GridReport) {
+  if (report.sections.includes("rankingMap")) drawRankingMap(writer, report)
+  if (report.sections.includes("competitiveAnalysis")) drawCompetitiveAnalysis(writer, report)
+  if (report.sections.includes("historicalData")) drawHistoricalData(writer, report)
+  if (report.sections.includes("recommendations")) drawRecommendations(writer, report)
+}
+
+// Footer text and page numbers on every page
+function drawFooters(doc: PDFDocument, font: PDFFont, branding: Branding) {
+  const pages = doc.getPages()
+  const footer = toWinAnsi(branding.footerText)
+  pages.forEach((page, index) => {
+    if (footer) {
+      page.drawText(footer, { x: MARGIN, y: MARGIN / 2, size: 8, font, color: MUTED_COLOR })
+    }
+
+    const label = `Page ${index + 1} of ${pages.length}`
+    page.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED_COLOR,
+    })
+  })
+}
+
+// Render the report's sections into a paginated A4 PDF
+export async function renderReportPdf(report: GridReport): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const boldFont = await doc.embedFont(StandardFonts.HelveticaBold)
+
+  doc.setTitle(`${report.result.businessInfo.name} - ${report.result.searchTerm}`)
+  doc.setCreationDate(new Date())
+
+  const writer = new ReportWriter(doc, font, boldFont)
+  drawSummary(writer, report, await embedLogo(doc, report.logo))
+  drawSections(writer, report)
+  drawFooters(doc, font, report.branding)
+
+  return doc.save()
+}
+
+function describeRange(from: string | null, to: string): string {
+  return from ? `${formatDate(from)} to ${formatDate(to)}` : `All scans up to ${formatDate(to)}`
+}
+
+// A cover page listing every scan with its headline metrics, then each scan's
+// summary and sections starting on a new page
+export async function renderMultiScanReportPdf(report: MultiScanReport): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const boldFont = await doc.embedFont(StandardFonts.HelveticaBold)
+
+  doc.setTitle(report.name)
+  doc.setCreationDate(new Date())
+
+  const { branding } = report
+  const logo = await embedLogo(doc, report.logo)
+  const writer = new ReportWriter(doc, font, boldFont)
+
+  if (logo) {
+    const { width, height } = logo.scaleToFit(LOGO_MAX_WIDTH, LOGO_MAX_HEIGHT)
+    writer.currentPage.drawImage(logo, {
+      x: PAGE_WIDTH - MARGIN - width,
+      y: writer.cursor - height,
+      width,
+      height,
+    })
+  }
+  writer.text(`${branding.companyName} · Local Ranking Report`, {
+    size: 11,
+    color: hexToRgb(branding.primaryColor),
+    bold: true,
+  })
+  writer.moveDown(logo ? Math.max(4, LOGO_MAX_HEIGHT - 15) : 4)
+  writer.text(report.name, { size: 22, bold: true })
+  writer.text(describeRange(report.from, report.to), { color: MUTED_COLOR })
+  writer.moveDown(8)
+  writer.text(
+    `${report.reports.length} ${report.reports.length === 1 ? "scan" : "scans"}, the latest of each business and keyword in the date range.`
+  )
+  if (report.missingScans > 0) {
+    writer.text(
+      `${report.missingScans} ${report.missingScans === 1 ? "scan was" : "scans were"} deleted after this report was generated and ${report.missingScans === 1 ? "is" : "are"} left out.`,
+      { color: MUTED_COLOR }
+    )
+  }
+
+  writer.heading("Overview")
+  writer.table(
+    [
+      { label: "Business", x: 0 },
+      { label: "Keyword", x: 190 },
+      { label: "Scanned", x: 300 },
+      { label: "AGR", x: 380, align: "right" },
+      { label: "ATGR", x: 430, align: "right" },
+      { label: "SoLV", x: CONTENT_WIDTH, align: "right" },
+    ],
+    report.reports.map(({ result }) => ({
+      cells: [
+        result.businessInfo.name,
+        result.searchTerm,
+        formatDate(result.createdAt),
+        Number(result.metrics.agr || 0).toFixed(1),
+        Number(result.metrics.atgr || 0).toFixed(2),
+        String(result.metrics.solv || "0%"),
+      ],
+    }))
+  )
+
+  report.reports.forEach((scanReport) => {
+    writer.newPage()
+    drawSummary(writer, scanReport, logo)
+    drawSections(writer, scanReport)
+  })
+
+  drawFooters(doc, font, branding)
+
+  return doc.save()
+}
+
+const csvField = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`
+
+// The selected sections as CSV tables, one after the other
+export function renderReportCsv(report: GridReport): string {
+  const { result, branding } = report
+  const gridSize = parseGridSize(result.gridSize)
+  const lines: string[] = [
+    csvField(`${branding.companyName} Report for ${result.businessInfo.name}`),
+    csvField(`Search Term: ${result.searchTerm}`),
+    csvField(`Date: ${result.createdAt}`),
+    ...(branding.footerText ? [csvField(branding.footerText)] : []),
+    "",
+    ["AGR", "ATGR", "SoLV"].map(csvField).join(","),
+    [Number(result.metrics.agr || 0).toFixed(1), Number(result.metrics.atgr || 0).toFixed(2), result.metrics.solv]
+      .map(csvField)
+      .join(","),
+  ]
+
+  if (report.sections.includes("rankingMap")) {
+    let points: GeoGridPoint[] = result.points || []
+    if (points.length === 0) {
+      points = generateGeoGrid({
+        center: result.businessInfo.location,
+        gridSize,
+        spacingKm: result.distanceKm,
+        shape: result.shape,
+        polygon: result.polygon,
+      })
+    }
+    lines.push("", "Point,Row,Column,Latitude,Longitude,Ranking")
+    points.forEach(({ id, row, col, lat, lng }) => {
+      const rank = result.gridData[row]?.[col]
+      if (rank === undefined || rank === OUTSIDE_SHAPE) return
+      lines.push(`${id},${row + 1},${col + 1},${lat.toFixed(6)},${lng.toFixed(6)},${rank}`)
+    })
+  }
+
+  if (report.sections.includes("competitiveAnalysis") && report.competitors.length > 0) {
+    lines.push("", "Business,Address,SoLV,AGR,Points Listed,Rating,Reviews")
+    report.competitors.forEach((competitor) => {
+      lines.push(
+        [
+          competitor.name,
+          competitor.vicinity ?? "",
+          competitor.metrics.visibilityPercentage,
+          competitor.metrics.agr.toFixed(2),
+          competitor.appearances,
+          competitor.rating ?? "",
+          competitor.userRatingsTotal ?? "",
+        ]
+          .map(csvField)
+          .join(",")
+      )
+    })
+  }
+
+  if (report.sections.includes("historicalData") && report.history.length > 0) {
+    lines.push("", "Scan Date,AGR,ATGR,SoLV,Top 3 %,Top 10 %")
+    report.history.forEach((entry) => {
+      lines.push(
+        [entry.createdAt, entry.agr, entry.atgr, entry.solv, entry.top3Percentage, entry.top10Percentage].join(",")
+      )
+    })
+  }
+
+  if (report.sections.includes("recommendations")) {
+    lines.push("", "Recommendation,Detail")
+    report.recommendations.forEach((recommendation) => {
+      lines.push(`${csvField(recommendation.title)},${csvField(recommendation.detail)}`)
+    })
+  }
+
+  return lines.join("\n") + "\n"
+}
+
+// The overview of every scan, then each scan's sections as in a single-scan CSV
+export function renderMultiScanReportCsv(report: MultiScanReport): string {
+  const lines: string[] = [
+    csvField(report.name),
+    csvField(`Date Range: ${report.from ?? "All"} to ${report.to}`),
+    ...(report.missingScans > 0 ? [csvField(`Deleted Scans: ${report.missingScans}`)] : []),
+    "",
+    ["Business", "Address", "Keyword", "Date", "AGR", "ATGR", "SoLV"].map(csvField).join(","),
+    ...report.reports.map(({ result }) =>
+      [
+        result.businessInfo.name,
+        result.businessInfo.address,
+        result.searchTerm,
+        result.createdAt,
+        Number(result.metrics.agr || 0).toFixed(1),
+        Number(result.metrics.atgr || 0).toFixed(2),
+        result.metrics.solv,
+      ]
+        .map(csvField)
+        .join(",")
+    ),
+  ]
+
+  // Each part ends with a newline, so joining them leaves a blank line between
+  return [lines.join("\n") + "\n", ...report.reports.map(renderReportCsv)].join("\n")
+}
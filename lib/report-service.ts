@@ -0,0 +1,236 @@
+import { fetchBrandLogo, type BrandLogo } from "@/lib/brand-logo"
+import { DEFAULT_BRANDING, getBranding, type Branding } from "@/lib/branding-service"
+import { buildCompetitorGrids, type CompetitorGrid } from "@/lib/competitor-grid-service"
+import { calculateGridMetrics, getGridResultById, type GridResult } from "@/lib/geogrid-service"
+import { parseGridSize } from "@/lib/geo-grid"
+import { OUTSIDE_SHAPE } from "@/lib/grid-shapes"
+import { getRankingHistory, type RankingHistoryEntry, type RankingHistoryQuery } from "@/lib/ranking-history-service"
+import type { ReportSection } from "@/lib/report-builder"
+import { getSerpSnapshot } from "@/lib/serp-snapshot-service"
+
+// Competitors listed in the competitive analysis
+const REPORT_COMPETITOR_LIMIT = 10
+// Gap in top 10 share between the best and worst quarter of the grid worth calling out
+const QUADRANT_GAP_PERCENTAGE = 25
+
+export interface ReportRecommendation {
+  title: string;
+  detail: string;
+}
+
+export interface GridReport {
+  result: GridResult;
+  sections: ReportSection[];
+  // Competitors and history are only loaded for the sections that need them
+  competitors: CompetitorGrid[];
+  history: RankingHistoryEntry[];
+  recommendations: ReportRecommendation[];
+  branding: Branding;
+  logo: BrandLogo | null;
+}
+
+type Quadrant = "northeast" | "northwest" | "southeast" | "southwest"
+
+// Share of scanned points in the top 10 for each quarter of the grid. Points on the
+// center row or column belong to no quarter.
+function quadrantVisibility(gridData: number[][], gridSize: number): { quadrant: Quadrant; solv: number }[] {
+  const center = (gridSize - 1) / 2
+  const counts: Record<Quadrant, { scanned: number; top10: number }> = {
+    northeast: { scanned: 0, top10: 0 },
+    northwest: { scanned: 0, top10: 0 },
+    southeast: { scanned: 0, top10: 0 },
+    southwest: { scanned: 0, top10: 0 },
+  }
+
+  gridData.forEach((ranks, row) => {
+    ranks.forEach((rank, col) => {
+      if (rank === OUTSIDE_SHAPE || row === center || col === center) return
+      // Row 0 is the southernmost row
+      const quadrant = `${row > center ? "north" : "south"}${col > center ? "east" : "west"}` as Quadrant
+      counts[quadrant].scanned++
+      if (rank <= 10) counts[quadrant].top10++
+    })
+  })
+
+  return (Object.keys(counts) as Quadrant[])
+    .filter((quadrant) => counts[quadrant].scanned > 0)
+    .map((quadrant) => ({
+      quadrant,
+      solv: Math.round((counts[quadrant].top10 / counts[quadrant].scanned) * 100),
+    }))
+}
+
+// Suggestions drawn from the scan itself, its competitors and the keyword's history
+export function buildRecommendations(
+  result: GridResult,
+  competitors: CompetitorGrid[],
+  history: RankingHistoryEntry[]
+): ReportRecommendation[] {
+  const recommendations: ReportRecommendation[] = []
+  const metrics = calculateGridMetrics(result.gridData)
+  const solv = metrics.visibilityPercentage
+
+  if (solv < 30) {
+    recommendations.push({
+      title: "Strengthen the Business Profile",
+      detail: `The business is in the top 10 at only ${solv}% of grid points for "${result.searchTerm}". Check that the primary category matches the keyword, complete every profile field and keep the name, address and phone number consistent across directories.`,
+    })
+  } else if (solv < 70) {
+    recommendations.push({
+      title: "Extend Coverage Outward",
+      detail: `The business is in the top 10 at ${solv}% of grid points. Location pages and citations that mention the surrounding neighborhoods help rankings reach the rest of the grid.`,
+    })
+  } else {
+    recommendations.push({
+      title: "Defend the Current Position",
+      detail: `The business is in the top 10 at ${solv}% of grid points. Keep review velocity and posting frequency steady and rescan regularly to catch competitors gaining ground.`,
+    })
+  }
+
+  const quadrants = quadrantVisibility(result.gridData, parseGridSize(result.gridSize)).sort((a, b) => a.solv - b.solv)
+  if (quadrants.length > 1) {
+    const weakest = quadrants[0]
+    const strongest = quadrants[quadrants.length - 1]
+    if (strongest.solv - weakest.solv >= QUADRANT_GAP_PERCENTAGE) {
+      recommendations.push({
+        title: `Close the Gap in the ${weakest.quadrant[0].toUpperCase()}${weakest.quadrant.slice(1)}`,
+        detail: `Only ${weakest.solv}% of points in the ${weakest.quadrant} of the grid rank in the top 10, against ${strongest.solv}% in the ${strongest.quadrant}. Target that area with localized content, photos and reviews from customers there.`,
+      })
+    }
+  }
+
+  const target = competitors.find((competitor) => competitor.isTarget)
+  const leader = competitors.find((competitor) => !competitor.isTarget)
+  if (leader && leader.metrics.visibilityPercentage > solv) {
+    const reviewGap =
+      leader.userRatingsTotal !== null && (target?.userRatingsTotal ?? 0) < leader.userRatingsTotal
+        ? ` It has ${leader.userRatingsTotal} reviews against ${target?.userRatingsTotal ?? 0}, so a steady review campaign is the most direct lever.`
+        : ""
+    recommendations.push({
+      title: `Catch Up With ${leader.name}`,
+      detail: `${leader.name} is in the top 10 at ${leader.metrics.visibilityPercentage}% of grid points.${reviewGap}`,
+    })
+  }
+
+  if (history.length > 1) {
+    const first = history[0]
+    const latest = history[history.length - 1]
+    if (latest.agr > first.agr) {
+      recommendations.push({
+        title: "Investigate the Decline",
+        detail: `The average grid rank slipped from ${first.agr.toFixed(1)} to ${latest.agr.toFixed(1)} since ${first.createdAt.slice(0, 10)}. Review recent profile edits, lost reviews or new competitors nearby.`,
+      })
+    }
+  }
+
+  return recommendations
+}
+
+// Loads what the selected sections need on top of the scan itself. History is
+// limited to `historyRange` when given.
+async function buildGridReport(
+  workspaceId: string,
+  result: GridResult,
+  sections: ReportSection[],
+  branding: Branding,
+  logo: BrandLogo | null,
+  historyRange: Pick<RankingHistoryQuery, "from" | "to"> = {}
+): Promise<GridReport> {
+  const needsCompetitors = sections.includes("competitiveAnalysis") || sections.includes("recommendations")
+  const needsHistory = sections.includes("historicalData") || sections.includes("recommendations")
+  const { placeId, name, address } = result.businessInfo
+
+  const [snapshot, history] = await Promise.all([
+    needsCompetitors ? getSerpSnapshot(result.id) : Promise.resolve([]),
+    needsHistory
+      ? getRankingHistory(
+          workspaceId,
+          placeId
+            ? { placeId, keyword: result.searchTerm, ...historyRange }
+            : { name, address, keyword: result.searchTerm, ...historyRange }
+        )
+      : Promise.resolve([]),
+  ])
+
+  // Empty for scans stored before search results were kept
+  const competitors = buildCompetitorGrids(snapshot, parseGridSize(result.gridSize), placeId, result.gridData)
+
+  return {
+    result,
+    sections,
+    competitors: competitors.slice(0, REPORT_COMPETITOR_LIMIT),
+    history,
+    recommendations: sections.includes("recommendations")
+      ? buildRecommendations(result, competitors, history)
+      : [],
+    branding,
+    logo,
+  }
+}
+
+// Everything the selected report sections need for a saved grid result, with the
+// saved branding unless `branded` is false. Returns null when the result doesn't exist.
+export async function getGridReport(
+  workspaceId: string,
+  gridResultId: string,
+  sections: ReportSection[],
+  branded = true
+): Promise<GridReport | null> {
+  const result = await getGridResultById(workspaceId, gridResultId)
+  if (!result) {
+    return null
+  }
+
+  const branding = branded ? await getBranding(workspaceId) : DEFAULT_BRANDING
+  const logo = await fetchBrandLogo(branding)
+  return buildGridReport(workspaceId, result, sections, branding, logo)
+}
+
+export interface MultiScanReport {
+  name: string;
+  // Bounds of the report's date range; from is null when unbounded
+  from: string | null;
+  to: string;
+  sections: ReportSection[];
+  // One per scan that still exists, in the order the scans were given
+  reports: GridReport[];
+  // Scans deleted since the report was generated
+  missingScans: number;
+  branding: Branding;
+  logo: BrandLogo | null;
+}
+
+// Everything the selected sections need for each of the scans, sharing one
+// branding. Ranking history is limited to the report's date range.
+export async function getMultiScanReport(
+  workspaceId: string,
+  name: string,
+  gridResultIds: string[],
+  sections: ReportSection[],
+  branded: boolean,
+  range: { from: string | null; to: string }
+): Promise<MultiScanReport> {
+  const branding = branded ? await getBranding(workspaceId) : DEFAULT_BRANDING
+  const logo = await fetchBrandLogo(branding)
+  const historyRange = { from: range.from ?? undefined, to: range.to }
+
+  const reports: GridReport[] = []
+  // One scan at a time to keep the number of queries in flight small
+  for (const gridResultId of gridResultIds) {
+    const result = await getGridResultById(workspaceId, gridResultId)
+    if (result) {
+      reports.push(await buildGridReport(workspaceId, result, sections, branding, logo, historyRange))
+    }
+  }
+
+  return {
+    name,
+    from: range.from,
+    to: range.to,
+    sections,
+    reports,
+    missingScans: gridResultIds.length - reports.length,
+    branding,
+    logo,
+  }
+}
@@ -0,0 +1,301 @@
+import { createClient } from "@supabase/supabase-js"
+import { getGridResults } from "@/lib/geogrid-service"
+import {
+  MAX_REPORT_SCANS,
+  resolveReportDateRange,
+  selectReportScans,
+  type ReportParameters,
+} from "@/lib/report-builder"
+import { renderMultiScanReportCsv, renderMultiScanReportPdf } from "@/lib/report-renderer"
+import { getMultiScanReport } from "@/lib/report-service"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+// Every generated report is read with the name of the template it came from,
+// leaving out the rendered files, which are only read for downloads
+const GENERATED_REPORT_COLUMNS =
+  "id, template_id, version, name, parameters, range_from, range_to, grid_result_ids, created_at, report_templates(name)"
+
+export type GeneratedReportFormat = "pdf" | "csv"
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  parameters: ReportParameters;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One archived version of a report. Its PDF and CSV are rendered and stored when
+// it is generated, so downloading it later returns the report as it was then,
+// even after its scans were rerun, edited or deleted or the branding changed.
+export interface GeneratedReport {
+  id: string;
+  templateId: string | null;
+  templateName: string | null;
+  version: number;
+  name: string;
+  parameters: ReportParameters;
+  // Bounds the date range resolved to when the report was generated; from is null when unbounded
+  rangeFrom: string | null;
+  rangeTo: string;
+  gridResultIds: string[];
+  createdAt: string;
+}
+
+interface ReportTemplateRecord {
+  id: string;
+  name: string;
+  parameters: ReportParameters;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GeneratedReportRecord {
+  id: string;
+  template_id: string | null;
+  version: number;
+  name: string;
+  parameters: ReportParameters;
+  range_from: string | null;
+  range_to: string;
+  grid_result_ids: string[];
+  created_at: string;
+  report_templates?: { name: string } | null;
+}
+
+function toReportTemplate(row: ReportTemplateRecord): ReportTemplate {
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    parameters: row.parameters,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }
+}
+
+function toGeneratedReport(row: GeneratedReportRecord): GeneratedReport {
+  return {
+    id: row.id.toString(),
+    templateId: row.template_id ? row.template_id.toString() : null,
+    templateName: row.report_templates?.name || null,
+    version: row.version,
+    name: row.name,
+    parameters: row.parameters,
+    rangeFrom: row.range_from ? new Date(row.range_from).toISOString() : null,
+    rangeTo: new Date(row.range_to).toISOString(),
+    gridResultIds: (row.grid_result_ids || []).map(String),
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
+
+export async function getReportTemplates(workspaceId: string): Promise<ReportTemplate[]> {
+  const { data, error } = await supabase
+    .from("report_templates")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("name", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching report templates:", error)
+    throw error
+  }
+
+  return (data || []).map((row) => toReportTemplate(row as ReportTemplateRecord))
+}
+
+export async function getReportTemplateById(workspaceId: string, id: string): Promise<ReportTemplate | null> {
+  const { data, error } = await supabase
+    .from("report_templates")
+    .select("*")
+    .eq("id", id)
+    .eq("workspace_id", workspaceId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching report template:", error)
+    return null
+  }
+
+  return data ? toReportTemplate(data as ReportTemplateRecord) : null
+}
+
+// The parameters must already be valid; see validateReportParameters
+export async function createReportTemplate(
+  workspaceId: string,
+  name: string,
+  parameters: ReportParameters
+): Promise<ReportTemplate> {
+  const { data, error } = await supabase
+    .from("report_templates")
+    .insert({ workspace_id: workspaceId, name: name.trim(), parameters })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error creating report template:", error)
+    throw error
+  }
+
+  return toReportTemplate(data as ReportTemplateRecord)
+}
+
+// Reports already generated from the template keep the parameters they were run with
+export async function updateReportTemplate(
+  workspaceId: string,
+  id: string,
+  changes: { name?: string; parameters?: ReportParameters }
+): Promise<ReportTemplate | null> {
+  const record: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (changes.name !== undefined) record.name = changes.name.trim()
+  if (changes.parameters !== undefined) record.parameters = changes.parameters
+
+  const { data, error } = await supabase
+    .from("report_templates")
+    .update(record)
+    .eq("id", id)
+    .eq("workspace_id", workspaceId)
+    .select("*")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error updating report template:", error)
+    throw error
+  }
+
+  return data ? toReportTemplate(data as ReportTemplateRecord) : null
+}
+
+// Reports generated from the template stay in the archive without it
+export async function deleteReportTemplate(workspaceId: string, id: string): Promise<boolean> {
+  const { error } = await supabase.from("report_templates").delete().eq("id", id).eq("workspace_id", workspaceId)
+
+  if (error) {
+    console.error("Error deleting report template:", error)
+    return false
+  }
+
+  return true
+}
+
+// Pick the scans the parameters cover as of now, render them and archive the
+// files as a new version of the template's report, or as a one-off report
+// without a template. Returns null when no scan matches.
+export async function generateReport(
+  workspaceId: string,
+  name: string,
+  parameters: ReportParameters,
+  templateId: string | null = null
+): Promise<GeneratedReport | null> {
+  const range = resolveReportDateRange(parameters.dateRange)
+  const scans = selectReportScans(await getGridResults(workspaceId), parameters, range).slice(0, MAX_REPORT_SCANS)
+  if (scans.length === 0) {
+    return null
+  }
+
+  const report = await getMultiScanReport(
+    workspaceId,
+    name.trim(),
+    scans.map((scan) => scan.id),
+    parameters.sections,
+    parameters.branded,
+    range
+  )
+  const pdf = await renderMultiScanReportPdf(report)
+
+  const { data, error } = await supabase
+    .from("generated_reports")
+    .insert({
+      workspace_id: workspaceId,
+      template_id: templateId,
+      name: name.trim(),
+      parameters,
+      range_from: range.from,
+      range_to: range.to,
+      grid_result_ids: scans.map((scan) => scan.id),
+      // bytea is written and read as hex
+      pdf: `\\x${Buffer.from(pdf).toString("hex")}`,
+      csv: renderMultiScanReportCsv(report),
+    })
+    .select(GENERATED_REPORT_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error("Error saving generated report:", error)
+    throw error
+  }
+
+  return toGeneratedReport(data as unknown as GeneratedReportRecord)
+}
+
+// The PDF or CSV stored when the report was generated, or null when there is no such report
+export async function getGeneratedReportFile(
+  workspaceId: string,
+  id: string,
+  format: GeneratedReportFormat
+): Promise<Uint8Array | string | null> {
+  const { data, error } = await supabase
+    .from("generated_reports")
+    .select(format)
+    .eq("id", id)
+    .eq("workspace_id", workspaceId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching generated report file:", error)
+    throw error
+  }
+  if (!data) {
+    return null
+  }
+
+  const file = (data as Record<GeneratedReportFormat, string>)[format]
+  return format === "pdf" ? new Uint8Array(Buffer.from(file.replace(/^\\x/, ""), "hex")) : file
+}
+
+// Archived reports, newest first, optionally only those of one template
+export async function getGeneratedReports(workspaceId: string, templateId?: string): Promise<GeneratedReport[]> {
+  let request = supabase.from("generated_reports").select(GENERATED_REPORT_COLUMNS).eq("workspace_id", workspaceId)
+  if (templateId) {
+    request = request.eq("template_id", templateId)
+  }
+
+  const { data, error } = await request.order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching generated reports:", error)
+    throw error
+  }
+
+  return (data || []).map((row) => toGeneratedReport(row as unknown as GeneratedReportRecord))
+}
+
+export async function getGeneratedReportById(workspaceId: string, id: string): Promise<GeneratedReport | null> {
+  const { data, error } = await supabase
+    .from("generated_reports")
+    .select(GENERATED_REPORT_COLUMNS)
+    .eq("id", id)
+    .eq("workspace_id", workspaceId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching generated report:", error)
+    return null
+  }
+
+  return data ? toGeneratedReport(data as unknown as GeneratedReportRecord) : null
+}
+
+export async function deleteGeneratedReport(workspaceId: string, id: string): Promise<boolean> {
+  const { error } = await supabase.from("generated_reports").delete().eq("id", id).eq("workspace_id", workspaceId)
+
+  if (error) {
+    console.error("Error deleting generated report:", error)
+    return false
+  }
+
+  return true
+}
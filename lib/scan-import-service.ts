@@ -0,0 +1,130 @@
+import { createClient } from "@supabase/supabase-js"
+import type { ScanJobStatus } from "@/lib/scan-job-service"
+import {
+  createScanSet,
+  getScanSetsForImport,
+  type CreateScanSetInput,
+  type ScanSet,
+} from "@/lib/scan-set-service"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+export interface ScanImportSummary {
+  id: string;
+  fileName: string;
+  scanSetCount: number;
+  createdAt: string;
+}
+
+export interface ScanImport extends ScanImportSummary {
+  workspaceId: string;
+  // Derived from the scan sets the same way a set's status is derived from its jobs
+  status: ScanJobStatus;
+  progress: number;
+  scanSets: ScanSet[];
+}
+
+interface ScanImportRecord {
+  id: string;
+  workspace_id: string;
+  file_name: string;
+  created_at: string;
+  scan_sets?: { count: number }[];
+}
+
+function toScanImport(row: ScanImportRecord, scanSets: ScanSet[]): ScanImport {
+  const jobs = scanSets.flatMap((scanSet) => scanSet.jobs)
+  const totalPoints = jobs.reduce((sum, job) => sum + job.totalPoints, 0)
+  const finishedPoints = jobs.reduce((sum, job) => sum + job.completedPoints + job.failedPoints, 0)
+
+  let status: ScanJobStatus = "queued"
+  if (scanSets.length > 0 && scanSets.every((scanSet) => scanSet.status === "failed")) {
+    status = "failed"
+  } else if (scanSets.length > 0 && scanSets.every((scanSet) => scanSet.status === "completed" || scanSet.status === "failed")) {
+    status = "completed"
+  } else if (scanSets.some((scanSet) => scanSet.status !== "queued")) {
+    status = "running"
+  }
+
+  return {
+    id: row.id.toString(),
+    workspaceId: row.workspace_id.toString(),
+    fileName: row.file_name,
+    scanSetCount: scanSets.length,
+    createdAt: new Date(row.created_at).toISOString(),
+    status,
+    progress: totalPoints > 0 ? Math.round((finishedPoints / totalPoints) * 100) : 0,
+    scanSets,
+  }
+}
+
+// Create the import and enqueue a scan set for every row. The cron's job runner runs their jobs.
+export async function createScanImport(
+  workspaceId: string,
+  fileName: string,
+  scans: Omit<CreateScanSetInput, "importId">[]
+): Promise<ScanImport> {
+  const { data, error } = await supabase
+    .from("scan_imports")
+    .insert({ workspace_id: workspaceId, file_name: fileName })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error creating scan import:", error)
+    throw error
+  }
+
+  const scanSets: ScanSet[] = []
+  for (const scan of scans) {
+    scanSets.push(await createScanSet(workspaceId, { ...scan, importId: data.id.toString() }))
+  }
+
+  return toScanImport(data as ScanImportRecord, scanSets)
+}
+
+// Most recent imports first, without their scan sets
+export async function getScanImports(workspaceId: string, limit = 20): Promise<ScanImportSummary[]> {
+  const { data, error } = await supabase
+    .from("scan_imports")
+    .select("*, scan_sets (count)")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error fetching scan imports:", error)
+    throw error
+  }
+
+  return (data as ScanImportRecord[]).map((row) => ({
+    id: row.id.toString(),
+    fileName: row.file_name,
+    scanSetCount: row.scan_sets?.[0]?.count ?? 0,
+    createdAt: new Date(row.created_at).toISOString(),
+  }))
+}
+
+export async function getScanImport(workspaceId: string, id: string): Promise<ScanImport | null> {
+  const { data, error } = await supabase
+    .from("scan_imports")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .eq("id", id)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching scan import:", error)
+    return null
+  }
+
+  if (!data) {
+    return null
+  }
+
+  const scanSets = await getScanSetsForImport(workspaceId, id)
+  return toScanImport(data as ScanImportRecord, scanSets)
+}
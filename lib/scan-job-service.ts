@@ -0,0 +1,569 @@
+import { createClient } from "@supabase/supabase-js"
+import { calculateGridMetrics, saveGridResult, type GridResult } from "@/lib/geogrid-service"
+import { GEO_GRID_VERSION, generateGeoGrid, gridPointId, parseGridSize } from "@/lib/geo-grid"
+import { FAILED_POINT, OUTSIDE_SHAPE, toShapedMatrix, type GridShape, type ServiceAreaPolygon } from "@/lib/grid-shapes"
+import { searchNearbyPlaces, type PlaceSearchResult } from "@/lib/places-search"
+import { attachSerpSnapshot, saveSerpSnapshot } from "@/lib/serp-snapshot-service"
+import { matchBusinessInResults, NOT_RANKED, type MatchStrategy } from "@/services/ranking-service"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+// Number of grid points queried against Google at the same time
+const SCAN_CONCURRENCY = 5
+// Attempts per point before it is recorded as failed
+const MAX_POINT_ATTEMPTS = 3
+// Search radius around each grid point, in meters
+const POINT_SEARCH_RADIUS = 5000
+// Queued jobs whose heartbeat is older than this have no runner waiting to start
+// them and are left to the cron's job runner, e.g. the jobs of a bulk import
+const UNSTARTED_JOB_MS = 60 * 1000
+// How often runners that work through jobs one after another bump the heartbeat
+// of the jobs still waiting their turn; well under UNSTARTED_JOB_MS
+const WAITING_HEARTBEAT_MS = 20 * 1000
+// Running jobs that haven't made progress for this long were interrupted
+const STALLED_JOB_MS = 10 * 60 * 1000
+// Jobs one cron run takes on, so a large import is worked through over several runs
+export const SCAN_JOBS_PER_RUN = 10
+
+export type ScanJobStatus = "queued" | "running" | "completed" | "failed"
+
+export interface ScanJob {
+  id: string;
+  workspaceId: string;
+  status: ScanJobStatus;
+  businessInfo: GridResult["businessInfo"];
+  searchTerm: string;
+  gridSize: string;
+  distanceKm: number;
+  googleRegion: string;
+  shape: GridShape;
+  polygon: ServiceAreaPolygon | null;
+  generatorVersion: number | null;
+  scheduleId: string | null;
+  scanSetId: string | null;
+  totalPoints: number;
+  completedPoints: number;
+  failedPoints: number;
+  progress: number;
+  gridResultId: string | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface CreateScanJobInput {
+  businessInfo: GridResult["businessInfo"];
+  searchTerm: string;
+  gridSize: string;
+  distanceKm: number;
+  googleRegion: string;
+  shape?: GridShape;
+  polygon?: ServiceAreaPolygon | null;
+  scheduleId?: string;
+  scanSetId?: string;
+}
+
+interface ScanJobRecord {
+  id: string;
+  workspace_id: string;
+  status: ScanJobStatus;
+  business: GridResult["businessInfo"];
+  search_term: string;
+  grid_size: string;
+  distance_km: string | number;
+  google_region: string;
+  shape: GridShape | null;
+  polygon: ServiceAreaPolygon | null;
+  generator_version: number | null;
+  schedule_id: string | null;
+  scan_set_id: string | null;
+  total_points: number;
+  completed_points: number;
+  failed_points: number;
+  grid_result_id: string | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  heartbeat_at: string;
+}
+
+interface ScanJobPointRecord {
+  point_index: number;
+  row_index: number;
+  col_index: number;
+  lat: number;
+  lng: number;
+  status: "pending" | "completed" | "failed";
+  rank: number | null;
+  match_strategy: MatchStrategy | null;
+  attempts: number;
+}
+
+function toScanJob(row: ScanJobRecord): ScanJob {
+  const finishedPoints = row.completed_points + row.failed_points
+
+  return {
+    id: row.id.toString(),
+    workspaceId: row.workspace_id.toString(),
+    status: row.status,
+    businessInfo: row.business,
+    searchTerm: row.search_term,
+    gridSize: row.grid_size,
+    distanceKm: Number(row.distance_km),
+    googleRegion: row.google_region,
+    shape: row.shape || "square",
+    polygon: row.polygon,
+    generatorVersion: row.generator_version,
+    scheduleId: row.schedule_id ? row.schedule_id.toString() : null,
+    scanSetId: row.scan_set_id ? row.scan_set_id.toString() : null,
+    totalPoints: row.total_points,
+    completedPoints: row.completed_points,
+    failedPoints: row.failed_points,
+    progress: row.total_points > 0 ? Math.round((finishedPoints / row.total_points) * 100) : 0,
+    gridResultId: row.grid_result_id ? row.grid_result_id.toString() : null,
+    error: row.error,
+    createdAt: new Date(row.created_at).toISOString(),
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  }
+}
+
+export async function createScanJob(workspaceId: string, input: CreateScanJobInput): Promise<ScanJob> {
+  const size = parseGridSize(input.gridSize)
+  const shape = input.shape || "square"
+  const points = generateGeoGrid({
+    center: input.businessInfo.location,
+    gridSize: size,
+    spacingKm: input.distanceKm,
+    shape,
+    polygon: input.polygon,
+  })
+
+  const { data, error } = await supabase
+    .from("scan_jobs")
+    .insert({
+      workspace_id: workspaceId,
+      business: input.businessInfo,
+      search_term: input.searchTerm,
+      grid_size: input.gridSize,
+      distance_km: input.distanceKm,
+      google_region: input.googleRegion,
+      shape,
+      polygon: shape === "polygon" ? input.polygon : null,
+      generator_version: GEO_GRID_VERSION,
+      schedule_id: input.scheduleId || null,
+      scan_set_id: input.scanSetId || null,
+      total_points: points.length,
+    })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error creating scan job:", error)
+    throw error
+  }
+
+  const { error: pointsError } = await supabase.from("scan_job_points").insert(
+    // Points are indexed by their matrix cell so shaped grids line up with the rank matrix
+    points.map((point) => ({
+      job_id: data.id,
+      point_index: point.index,
+      row_index: point.row,
+      col_index: point.col,
+      lat: point.lat,
+      lng: point.lng,
+    }))
+  )
+
+  if (pointsError) {
+    console.error("Error creating scan job points:", pointsError)
+    await supabase.from("scan_jobs").delete().eq("id", data.id)
+    throw pointsError
+  }
+
+  return toScanJob(data as ScanJobRecord)
+}
+
+export async function getScanJob(workspaceId: string, id: string): Promise<ScanJob | null> {
+  const { data, error } = await supabase
+    .from("scan_jobs")
+    .select("*")
+    .eq("id", id)
+    .eq("workspace_id", workspaceId)
+    .single()
+
+  if (error) {
+    console.error("Error fetching scan job:", error)
+    return null
+  }
+
+  return data ? toScanJob(data as ScanJobRecord) : null
+}
+
+// Any workspace's job, for running it in the background
+async function fetchScanJob(id: string): Promise<ScanJob | null> {
+  const { data, error } = await supabase.from("scan_jobs").select("*").eq("id", id).single()
+
+  if (error) {
+    console.error("Error fetching scan job:", error)
+    return null
+  }
+
+  return data ? toScanJob(data as ScanJobRecord) : null
+}
+
+// Jobs launched together as one scan set, in the order they were created
+export async function getScanJobsForSet(scanSetId: string): Promise<ScanJob[]> {
+  const { data, error } = await supabase
+    .from("scan_jobs")
+    .select("*")
+    .eq("scan_set_id", scanSetId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching scan set jobs:", error)
+    throw error
+  }
+
+  return (data || []).map((row) => toScanJob(row as ScanJobRecord))
+}
+
+// Jobs of several scan sets, in the order they were created
+export async function getScanJobsForSets(scanSetIds: string[]): Promise<ScanJob[]> {
+  if (scanSetIds.length === 0) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from("scan_jobs")
+    .select("*")
+    .in("scan_set_id", scanSetIds)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching scan set jobs:", error)
+    throw error
+  }
+
+  return (data || []).map((row) => toScanJob(row as ScanJobRecord))
+}
+
+// Run `worker` over every item with at most `limit` calls in flight
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+  let next = 0
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++]
+      await worker(item)
+    }
+  })
+  await Promise.all(lanes)
+}
+
+interface PointScanOutcome {
+  status: "completed" | "failed";
+  rank: number | null;
+  matchStrategy: MatchStrategy | null;
+  matchConfidence: number | null;
+  matchedPlaceId: string | null;
+  // Ordered results returned for the point, kept as the SERP snapshot
+  results: PlaceSearchResult[];
+  attempts: number;
+  error: string | null;
+}
+
+async function scanPoint(job: ScanJob, point: ScanJobPointRecord): Promise<PointScanOutcome> {
+  let attempts = point.attempts
+  let lastError = "Search request failed"
+
+  while (attempts < MAX_POINT_ATTEMPTS) {
+    attempts++
+    try {
+      const results = await searchNearbyPlaces({
+        query: job.searchTerm,
+        location: { lat: point.lat, lng: point.lng },
+        radius: POINT_SEARCH_RADIUS,
+        region: job.googleRegion,
+      })
+      const match = matchBusinessInResults(results, job.businessInfo)
+      return {
+        status: "completed",
+        rank: match.rank,
+        matchStrategy: match.strategy,
+        matchConfidence: match.confidence,
+        matchedPlaceId: match.matchedPlaceId,
+        results,
+        attempts,
+        error: null,
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : lastError
+      console.error(`Scan job ${job.id}: attempt ${attempts} failed for point ${point.point_index}:`, error)
+    }
+  }
+
+  return {
+    status: "failed",
+    rank: null,
+    matchStrategy: null,
+    matchConfidence: null,
+    matchedPlaceId: null,
+    results: [],
+    attempts,
+    error: lastError,
+  }
+}
+
+// Execute every pending point of a job, persisting each result as it lands.
+// The job is claimed by moving it from queued to running, so only one caller
+// runs it; the others get the job back as it is. Interrupted jobs are queued
+// again by claimRunnableScanJobs, and completed points are not re-queried.
+export async function runScanJob(id: string): Promise<ScanJob | null> {
+  const job = await fetchScanJob(id)
+
+  if (!job || job.status !== "queued") {
+    return job
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("scan_jobs")
+    .update({
+      status: "running",
+      started_at: job.startedAt || new Date().toISOString(),
+      heartbeat_at: new Date().toISOString(),
+      error: null,
+    })
+    .eq("id", id)
+    .eq("status", "queued")
+    .select("id")
+
+  if (claimError) {
+    console.error(`Error claiming scan job ${id}:`, claimError)
+    return job
+  }
+  if (!claimed || claimed.length === 0) {
+    return fetchScanJob(id)
+  }
+
+  try {
+    const { data: pendingPoints, error: pointsError } = await supabase
+      .from("scan_job_points")
+      .select("*")
+      .eq("job_id", id)
+      .eq("status", "pending")
+      .order("point_index", { ascending: true })
+
+    if (pointsError) throw pointsError
+
+    let completedPoints = job.completedPoints
+    let failedPoints = job.failedPoints
+
+    await runWithConcurrency((pendingPoints || []) as ScanJobPointRecord[], SCAN_CONCURRENCY, async (point) => {
+      const result = await scanPoint(job, point)
+
+      if (result.status === "completed") {
+        try {
+          await saveSerpSnapshot(id, point.point_index, result.results)
+        } catch (snapshotError) {
+          console.error(`Scan job ${id}: failed to store results for point ${point.point_index}:`, snapshotError)
+        }
+      }
+
+      const { error } = await supabase
+        .from("scan_job_points")
+        .update({
+          status: result.status,
+          rank: result.rank,
+          match_strategy: result.matchStrategy,
+          match_confidence: result.matchConfidence,
+          matched_place_id: result.matchedPlaceId,
+          attempts: result.attempts,
+          error: result.error,
+          completed_at: new Date().toISOString(),
+        })
+        .eq("job_id", id)
+        .eq("point_index", point.point_index)
+
+      if (error) {
+        console.error(`Scan job ${id}: failed to persist point ${point.point_index}:`, error)
+      }
+
+      if (result.status === "completed") {
+        completedPoints++
+      } else {
+        failedPoints++
+      }
+
+      await supabase
+        .from("scan_jobs")
+        .update({ completed_points: completedPoints, failed_points: failedPoints, heartbeat_at: new Date().toISOString() })
+        .eq("id", id)
+    })
+
+    const gridResult = await saveScanJobResult(job)
+    await attachSerpSnapshot(id, gridResult.id)
+
+    const { data, error } = await supabase
+      .from("scan_jobs")
+      .update({
+        status: "completed",
+        grid_result_id: gridResult.id,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select("*")
+      .single()
+
+    if (error) throw error
+
+    return toScanJob(data as ScanJobRecord)
+  } catch (error) {
+    console.error(`Scan job ${id} failed:`, error)
+    await supabase
+      .from("scan_jobs")
+      .update({
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+    return fetchScanJob(id)
+  }
+}
+
+// Run jobs one after another, e.g. to stay within the Places API rate limits.
+// Jobs still waiting their turn keep a fresh heartbeat, so the cron's job runner
+// leaves them to this loop.
+export async function runScanJobsInOrder(ids: string[]): Promise<void> {
+  for (let i = 0; i < ids.length; i++) {
+    const waiting = ids.slice(i + 1)
+    await bumpWaitingScanJobs(waiting)
+    const heartbeat = setInterval(() => void bumpWaitingScanJobs(waiting), WAITING_HEARTBEAT_MS)
+    try {
+      await runScanJob(ids[i])
+    } finally {
+      clearInterval(heartbeat)
+    }
+  }
+}
+
+async function bumpWaitingScanJobs(ids: string[]) {
+  if (ids.length === 0) return
+
+  const { error } = await supabase
+    .from("scan_jobs")
+    .update({ heartbeat_at: new Date().toISOString() })
+    .in("id", ids)
+    .eq("status", "queued")
+
+  if (error) {
+    console.error("Error bumping waiting scan jobs:", error)
+  }
+}
+
+// Claim up to `limit` jobs for the cron to run with runScanJobsInOrder, oldest
+// first: queued jobs no runner is waiting to start and running jobs that stopped
+// making progress, e.g. because the server restarted mid-scan. A job is claimed
+// by queueing it with a fresh heartbeat only while it still holds the heartbeat
+// read here, so overlapping cron runs don't both take it.
+export async function claimRunnableScanJobs(
+  limit: number = SCAN_JOBS_PER_RUN,
+  now: Date = new Date()
+): Promise<ScanJob[]> {
+  const unstartedBefore = new Date(now.getTime() - UNSTARTED_JOB_MS).toISOString()
+  const stalledBefore = new Date(now.getTime() - STALLED_JOB_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from("scan_jobs")
+    .select("id, status, heartbeat_at")
+    .or(
+      `and(status.eq.queued,heartbeat_at.lt.${unstartedBefore}),and(status.eq.running,heartbeat_at.lt.${stalledBefore})`
+    )
+    .order("created_at", { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error fetching runnable scan jobs:", error)
+    throw error
+  }
+
+  const jobs: ScanJob[] = []
+  for (const candidate of (data || []) as Pick<ScanJobRecord, "id" | "status" | "heartbeat_at">[]) {
+    const { data: claimed, error: claimError } = await supabase
+      .from("scan_jobs")
+      .update({ status: "queued", heartbeat_at: now.toISOString() })
+      .eq("id", candidate.id)
+      .eq("status", candidate.status)
+      .eq("heartbeat_at", candidate.heartbeat_at)
+      .select("*")
+
+    if (claimError) {
+      console.error(`Error claiming scan job ${candidate.id}:`, claimError)
+      continue
+    }
+    if (claimed && claimed.length > 0) {
+      jobs.push(toScanJob(claimed[0] as ScanJobRecord))
+    }
+  }
+
+  return jobs
+}
+
+// Assemble the stored point rankings into a grid and save it as a regular grid result
+async function saveScanJobResult(job: ScanJob): Promise<GridResult> {
+  const { data: points, error } = await supabase
+    .from("scan_job_points")
+    .select("*")
+    .eq("job_id", job.id)
+    .order("point_index", { ascending: true })
+
+  if (error) throw error
+
+  const size = parseGridSize(job.gridSize)
+  const scannedPoints = (points || []) as ScanJobPointRecord[]
+  // Cells without a scan point fall outside the grid's shape
+  const gridData = toShapedMatrix(
+    // Failed points have no rank rather than counting as not ranked
+    scannedPoints.map((point) => ({
+      row: point.row_index,
+      col: point.col_index,
+      value: point.status === "completed" ? point.rank ?? NOT_RANKED : FAILED_POINT,
+    })),
+    size,
+    OUTSIDE_SHAPE
+  )
+  const matchStrategies = toShapedMatrix<MatchStrategy>(
+    scannedPoints.map((point) => ({ row: point.row_index, col: point.col_index, value: point.match_strategy ?? "none" })),
+    size,
+    "none"
+  )
+
+  return saveGridResult(job.workspaceId, {
+    businessInfo: job.businessInfo,
+    searchTerm: job.searchTerm,
+    createdAt: new Date().toISOString(),
+    gridSize: job.gridSize,
+    gridData,
+    matchStrategies,
+    metrics: calculateGridMetrics(gridData),
+    googleRegion: job.googleRegion,
+    distanceKm: job.distanceKm,
+    shape: job.shape,
+    polygon: job.polygon,
+    // The exact locations that were queried, so views and exports never re-derive them
+    points: scannedPoints.map((point) => ({
+      id: gridPointId(point.row_index, point.col_index),
+      index: point.point_index,
+      row: point.row_index,
+      col: point.col_index,
+      lat: Number(point.lat),
+      lng: Number(point.lng),
+    })),
+    generatorVersion: job.generatorVersion ?? undefined,
+  })
+}
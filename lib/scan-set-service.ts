@@ -0,0 +1,215 @@
+import { createClient } from "@supabase/supabase-js"
+import { getGridResultById, type GridResult } from "@/lib/geogrid-service"
+import type { GridShape, ServiceAreaPolygon } from "@/lib/grid-shapes"
+import { createScanJob, getScanJobsForSet, getScanJobsForSets, runScanJobsInOrder, type ScanJob, type ScanJobStatus } from "@/lib/scan-job-service"
+import type { RankingData } from "@/types"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+// Upper bound on keywords per set; every keyword is a full grid scan
+export const MAX_SCAN_SET_KEYWORDS = 10
+
+export interface ScanSet {
+  id: string;
+  workspaceId: string;
+  businessInfo: GridResult["businessInfo"];
+  keywords: string[];
+  gridSize: string;
+  distanceKm: number;
+  googleRegion: string;
+  shape: GridShape;
+  polygon: ServiceAreaPolygon | null;
+  // Bulk import the set was launched by, if any
+  importId: string | null;
+  createdAt: string;
+  // Derived from the set's jobs: failed only if every job failed
+  status: ScanJobStatus;
+  progress: number;
+  jobs: ScanJob[];
+}
+
+export interface CreateScanSetInput {
+  businessInfo: GridResult["businessInfo"];
+  keywords: string[];
+  gridSize: string;
+  distanceKm: number;
+  googleRegion: string;
+  shape?: GridShape;
+  polygon?: ServiceAreaPolygon | null;
+  importId?: string;
+}
+
+interface ScanSetRecord {
+  id: string;
+  workspace_id: string;
+  business: GridResult["businessInfo"];
+  keywords: string[];
+  grid_size: string;
+  distance_km: string | number;
+  google_region: string;
+  shape: GridShape | null;
+  polygon: ServiceAreaPolygon | null;
+  import_id: string | null;
+  created_at: string;
+}
+
+function toScanSet(row: ScanSetRecord, jobs: ScanJob[]): ScanSet {
+  const totalPoints = jobs.reduce((sum, job) => sum + job.totalPoints, 0)
+  const finishedPoints = jobs.reduce((sum, job) => sum + job.completedPoints + job.failedPoints, 0)
+
+  let status: ScanJobStatus = "queued"
+  if (jobs.length > 0 && jobs.every((job) => job.status === "failed")) {
+    status = "failed"
+  } else if (jobs.length > 0 && jobs.every((job) => job.status === "completed" || job.status === "failed")) {
+    status = "completed"
+  } else if (jobs.some((job) => job.status !== "queued")) {
+    status = "running"
+  }
+
+  return {
+    id: row.id.toString(),
+    workspaceId: row.workspace_id.toString(),
+    businessInfo: row.business,
+    keywords: row.keywords,
+    gridSize: row.grid_size,
+    distanceKm: Number(row.distance_km),
+    googleRegion: row.google_region,
+    shape: row.shape || "square",
+    polygon: row.polygon,
+    importId: row.import_id ? row.import_id.toString() : null,
+    createdAt: new Date(row.created_at).toISOString(),
+    status,
+    progress: totalPoints > 0 ? Math.round((finishedPoints / totalPoints) * 100) : 0,
+    jobs,
+  }
+}
+
+// Trim, de-duplicate (case-insensitively) and drop empty keywords
+export function normalizeKeywords(keywords: string[]): string[] {
+  const seen = new Set<string>()
+  return keywords
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => {
+      const key = keyword.toLowerCase()
+      if (!keyword || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+// Create the set and enqueue one scan job per keyword. The jobs still have to be run.
+export async function createScanSet(workspaceId: string, input: CreateScanSetInput): Promise<ScanSet> {
+  const { data, error } = await supabase
+    .from("scan_sets")
+    .insert({
+      workspace_id: workspaceId,
+      business: input.businessInfo,
+      keywords: input.keywords,
+      grid_size: input.gridSize,
+      distance_km: input.distanceKm,
+      google_region: input.googleRegion,
+      shape: input.shape || "square",
+      polygon: input.polygon ?? null,
+      import_id: input.importId || null,
+    })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error creating scan set:", error)
+    throw error
+  }
+
+  const jobs: ScanJob[] = []
+  for (const keyword of input.keywords) {
+    jobs.push(
+      await createScanJob(workspaceId, {
+        businessInfo: input.businessInfo,
+        searchTerm: keyword,
+        gridSize: input.gridSize,
+        distanceKm: input.distanceKm,
+        googleRegion: input.googleRegion,
+        shape: input.shape,
+        polygon: input.polygon,
+        scanSetId: data.id,
+      })
+    )
+  }
+
+  return toScanSet(data as ScanSetRecord, jobs)
+}
+
+export async function getScanSet(workspaceId: string, id: string): Promise<ScanSet | null> {
+  const { data, error } = await supabase
+    .from("scan_sets")
+    .select("*")
+    .eq("id", id)
+    .eq("workspace_id", workspaceId)
+    .single()
+
+  if (error) {
+    console.error("Error fetching scan set:", error)
+    return null
+  }
+
+  if (!data) {
+    return null
+  }
+
+  const jobs = await getScanJobsForSet(id)
+  return toScanSet(data as ScanSetRecord, jobs)
+}
+
+// Every scan set launched by a bulk import, in spreadsheet order
+export async function getScanSetsForImport(workspaceId: string, importId: string): Promise<ScanSet[]> {
+  const { data, error } = await supabase
+    .from("scan_sets")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .eq("import_id", importId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching imported scan sets:", error)
+    throw error
+  }
+
+  const rows = (data || []) as ScanSetRecord[]
+  const jobs = await getScanJobsForSets(rows.map((row) => row.id.toString()))
+
+  return rows.map((row) =>
+    toScanSet(
+      row,
+      jobs.filter((job) => job.scanSetId === row.id.toString())
+    )
+  )
+}
+
+// Run the set's jobs one keyword at a time so a set doesn't multiply the
+// per-job request concurrency against the Places API
+export async function runScanSet(workspaceId: string, id: string): Promise<ScanSet | null> {
+  const jobs = await getScanJobsForSet(id)
+
+  await runScanJobsInOrder(jobs.filter((job) => job.status === "queued").map((job) => job.id))
+
+  return getScanSet(workspaceId, id)
+}
+
+// Rank matrices of every completed keyword in the set, keyed by keyword
+export async function getScanSetRankingData(scanSet: ScanSet): Promise<RankingData> {
+  const rankingData: RankingData = {}
+
+  for (const job of scanSet.jobs) {
+    if (!job.gridResultId) continue
+
+    const gridResult = await getGridResultById(scanSet.workspaceId, job.gridResultId)
+    if (gridResult) {
+      rankingData[job.searchTerm] = gridResult.gridData
+    }
+  }
+
+  return rankingData
+}
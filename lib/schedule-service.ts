@@ -0,0 +1,337 @@
+import { createClient } from "@supabase/supabase-js"
+import type { GridResult } from "@/lib/geogrid-service"
+import { getGridConfigById, validateGridConfig } from "@/lib/grid-config-service"
+import type { GridShape, ServiceAreaPolygon } from "@/lib/grid-shapes"
+import { createScanJob, type ScanJob } from "@/lib/scan-job-service"
+import { getZonedParts, zonedTimeToUtc } from "@/lib/time-zones"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+export type ScheduleFrequency = "daily" | "weekly" | "monthly"
+
+export interface ScanSchedule {
+  id: string;
+  workspaceId: string;
+  businessInfo: GridResult["businessInfo"];
+  searchTerm: string;
+  gridSize: string;
+  distanceKm: number;
+  googleRegion: string;
+  shape: GridShape;
+  polygon: ServiceAreaPolygon | null;
+  // Saved grid configuration whose grid settings override the ones above at run time
+  configId: string | null;
+  frequency: ScheduleFrequency;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  timeOfDay: string;
+  timeZone: string;
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastScanJobId: string | null;
+  createdAt: string;
+}
+
+export type ScanScheduleInput = Omit<
+  ScanSchedule,
+  "id" | "workspaceId" | "nextRunAt" | "lastRunAt" | "lastScanJobId" | "createdAt"
+>
+
+interface ScanScheduleRecord {
+  id: string;
+  workspace_id: string;
+  business: GridResult["businessInfo"];
+  search_term: string;
+  grid_size: string;
+  distance_km: string | number;
+  google_region: string;
+  shape: GridShape | null;
+  polygon: ServiceAreaPolygon | null;
+  config_id: string | null;
+  frequency: ScheduleFrequency;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  time_of_day: string;
+  time_zone: string;
+  enabled: boolean;
+  next_run_at: string;
+  last_run_at: string | null;
+  last_scan_job_id: string | null;
+  created_at: string;
+}
+
+function toScanSchedule(row: ScanScheduleRecord): ScanSchedule {
+  return {
+    id: row.id.toString(),
+    workspaceId: row.workspace_id.toString(),
+    businessInfo: row.business,
+    searchTerm: row.search_term,
+    gridSize: row.grid_size,
+    distanceKm: Number(row.distance_km),
+    googleRegion: row.google_region,
+    shape: row.shape || "square",
+    polygon: row.polygon,
+    configId: row.config_id ? row.config_id.toString() : null,
+    frequency: row.frequency,
+    dayOfWeek: row.day_of_week,
+    dayOfMonth: row.day_of_month,
+    timeOfDay: row.time_of_day,
+    timeZone: row.time_zone,
+    enabled: row.enabled,
+    nextRunAt: new Date(row.next_run_at).toISOString(),
+    lastRunAt: row.last_run_at,
+    lastScanJobId: row.last_scan_job_id ? row.last_scan_job_id.toString() : null,
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
+
+function toScanScheduleRecord(input: Partial<ScanScheduleInput>) {
+  const record: Record<string, unknown> = {}
+  if (input.businessInfo !== undefined) record.business = input.businessInfo
+  if (input.searchTerm !== undefined) record.search_term = input.searchTerm
+  if (input.gridSize !== undefined) record.grid_size = input.gridSize
+  if (input.distanceKm !== undefined) record.distance_km = input.distanceKm
+  if (input.googleRegion !== undefined) record.google_region = input.googleRegion
+  if (input.shape !== undefined) record.shape = input.shape
+  if (input.polygon !== undefined) record.polygon = input.polygon
+  if (input.configId !== undefined) record.config_id = input.configId
+  if (input.frequency !== undefined) record.frequency = input.frequency
+  if (input.dayOfWeek !== undefined) record.day_of_week = input.dayOfWeek
+  if (input.dayOfMonth !== undefined) record.day_of_month = input.dayOfMonth
+  if (input.timeOfDay !== undefined) record.time_of_day = input.timeOfDay
+  if (input.timeZone !== undefined) record.time_zone = input.timeZone
+  if (input.enabled !== undefined) record.enabled = input.enabled
+  return record
+}
+
+// Returns an error message if the recurrence settings are invalid
+export function validateSchedule(input: Partial<ScanScheduleInput>): string | null {
+  // Every run queues a scan, so its grid is bounded like a saved configuration's
+  const gridError = validateGridConfig({
+    gridSize: input.gridSize,
+    distanceKm: input.distanceKm,
+    shape: input.shape,
+    polygon: input.polygon,
+  })
+  if (gridError) return gridError
+  if (input.frequency && !["daily", "weekly", "monthly"].includes(input.frequency)) {
+    return "Frequency must be daily, weekly or monthly"
+  }
+  if (input.frequency === "weekly" && (input.dayOfWeek == null || input.dayOfWeek < 0 || input.dayOfWeek > 6)) {
+    return "Weekly schedules need a day of the week"
+  }
+  if (input.frequency === "monthly" && (input.dayOfMonth == null || input.dayOfMonth < 1 || input.dayOfMonth > 28)) {
+    return "Monthly schedules need a day of the month between 1 and 28"
+  }
+  if (input.timeOfDay !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(input.timeOfDay)) {
+    return "Time must be in HH:MM format"
+  }
+  if (input.timeZone !== undefined) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: input.timeZone })
+    } catch {
+      return `Unknown time zone: ${input.timeZone}`
+    }
+  }
+  return null
+}
+
+// First run strictly after `from` that matches the schedule's recurrence in its own time zone
+export function computeNextRunAt(
+  schedule: Pick<ScanSchedule, "frequency" | "dayOfWeek" | "dayOfMonth" | "timeOfDay" | "timeZone">,
+  from: Date = new Date()
+): Date {
+  const [hour, minute] = schedule.timeOfDay.split(":").map(Number)
+  const today = getZonedParts(from, schedule.timeZone)
+
+  // A monthly schedule always matches within two calendar months
+  for (let offset = 0; offset <= 62; offset++) {
+    const candidateDay = new Date(Date.UTC(today.year, today.month - 1, today.day + offset))
+    const year = candidateDay.getUTCFullYear()
+    const month = candidateDay.getUTCMonth() + 1
+    const day = candidateDay.getUTCDate()
+
+    if (schedule.frequency === "weekly" && candidateDay.getUTCDay() !== schedule.dayOfWeek) continue
+    if (schedule.frequency === "monthly" && day !== schedule.dayOfMonth) continue
+
+    const runAt = zonedTimeToUtc(year, month, day, hour, minute, schedule.timeZone)
+    if (runAt.getTime() > from.getTime()) {
+      return runAt
+    }
+  }
+
+  throw new Error("Could not determine the next run for this schedule")
+}
+
+export async function getSchedules(workspaceId: string): Promise<ScanSchedule[]> {
+  const { data, error } = await supabase
+    .from("scan_schedules")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("next_run_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching scan schedules:", error)
+    throw error
+  }
+
+  return (data || []).map((row) => toScanSchedule(row as ScanScheduleRecord))
+}
+
+export async function getScheduleById(workspaceId: string, id: string): Promise<ScanSchedule | null> {
+  const { data, error } = await supabase
+    .from("scan_schedules")
+    .select("*")
+    .eq("id", id)
+    .eq("workspace_id", workspaceId)
+    .single()
+
+  if (error) {
+    console.error("Error fetching scan schedule:", error)
+    return null
+  }
+
+  return data ? toScanSchedule(data as ScanScheduleRecord) : null
+}
+
+export async function createSchedule(workspaceId: string, input: ScanScheduleInput): Promise<ScanSchedule> {
+  const { data, error } = await supabase
+    .from("scan_schedules")
+    .insert({
+      ...toScanScheduleRecord(input),
+      workspace_id: workspaceId,
+      next_run_at: computeNextRunAt(input).toISOString(),
+    })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error creating scan schedule:", error)
+    throw error
+  }
+
+  return toScanSchedule(data as ScanScheduleRecord)
+}
+
+export async function updateSchedule(
+  workspaceId: string,
+  id: string,
+  input: Partial<ScanScheduleInput>
+): Promise<ScanSchedule | null> {
+  const existing = await getScheduleById(workspaceId, id)
+  if (!existing) {
+    return null
+  }
+
+  const merged = { ...existing, ...input }
+  const { data, error } = await supabase
+    .from("scan_schedules")
+    .update({
+      ...toScanScheduleRecord(input),
+      // Recurrence or re-enabling changes when the schedule should next fire
+      next_run_at: computeNextRunAt(merged).toISOString(),
+    })
+    .eq("id", id)
+    .eq("workspace_id", workspaceId)
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error updating scan schedule:", error)
+    throw error
+  }
+
+  return toScanSchedule(data as ScanScheduleRecord)
+}
+
+export async function deleteSchedule(workspaceId: string, id: string): Promise<boolean> {
+  const { error } = await supabase.from("scan_schedules").delete().eq("id", id).eq("workspace_id", workspaceId)
+
+  if (error) {
+    console.error("Error deleting scan schedule:", error)
+    return false
+  }
+
+  return true
+}
+
+// Enqueue a scan job for a schedule and record the run
+export async function triggerSchedule(schedule: ScanSchedule, now: Date = new Date()): Promise<ScanJob> {
+  // A linked configuration may have been edited since the schedule was created
+  const config = schedule.configId ? await getGridConfigById(schedule.workspaceId, schedule.configId) : null
+
+  const job = await createScanJob(schedule.workspaceId, {
+    businessInfo: schedule.businessInfo,
+    searchTerm: schedule.searchTerm,
+    gridSize: config?.gridSize ?? schedule.gridSize,
+    distanceKm: config?.distanceKm ?? schedule.distanceKm,
+    googleRegion: config?.googleRegion ?? schedule.googleRegion,
+    shape: config?.shape ?? schedule.shape,
+    polygon: config ? config.polygon : schedule.polygon,
+    scheduleId: schedule.id,
+  })
+
+  const { error } = await supabase
+    .from("scan_schedules")
+    .update({
+      last_run_at: now.toISOString(),
+      last_scan_job_id: job.id,
+      next_run_at: computeNextRunAt(schedule, now).toISOString(),
+    })
+    .eq("id", schedule.id)
+
+  if (error) {
+    console.error("Error recording scan schedule run:", error)
+  }
+
+  return job
+}
+
+// Enqueue scans for every enabled schedule that is due. Returns the created jobs;
+// the caller is responsible for executing them.
+export async function triggerDueSchedules(now: Date = new Date()): Promise<ScanJob[]> {
+  const { data, error } = await supabase
+    .from("scan_schedules")
+    .select("*")
+    .eq("enabled", true)
+    .lte("next_run_at", now.toISOString())
+
+  if (error) {
+    console.error("Error fetching due scan schedules:", error)
+    throw error
+  }
+
+  const jobs: ScanJob[] = []
+  for (const row of (data || []) as ScanScheduleRecord[]) {
+    const schedule = toScanSchedule(row)
+
+    // Claim the run by moving next_run_at on only while it still holds the value
+    // read above, so overlapping cron runs don't both enqueue a scan for it
+    const { data: claimed, error: claimError } = await supabase
+      .from("scan_schedules")
+      .update({ next_run_at: computeNextRunAt(schedule, now).toISOString() })
+      .eq("id", row.id)
+      .eq("next_run_at", row.next_run_at)
+      .select("id")
+
+    if (claimError) {
+      console.error(`Error claiming scan schedule ${row.id}:`, claimError)
+      continue
+    }
+    if (!claimed || claimed.length === 0) {
+      continue
+    }
+
+    try {
+      jobs.push(await triggerSchedule(schedule, now))
+    } catch (triggerError) {
+      console.error(`Error triggering scan schedule ${row.id}:`, triggerError)
+    }
+  }
+
+  return jobs
+}
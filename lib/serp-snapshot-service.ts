@@ -0,0 +1,145 @@
+import { createClient } from "@supabase/supabase-js"
+import type { PlaceSearchResult } from "@/lib/places-search"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+// Number of results kept per grid point (a nearby search returns at most 20)
+export const SERP_SNAPSHOT_SIZE = 20
+// Supabase caps a single select, so larger snapshots are read in pages
+const SNAPSHOT_PAGE_SIZE = 1000
+
+export interface SerpEntry {
+  position: number;
+  placeId: string;
+  name: string;
+  rating: number | null;
+  userRatingsTotal: number | null;
+  vicinity: string | null;
+  types: string[];
+  location: { lat: number; lng: number } | null;
+}
+
+export interface SerpSnapshotPoint {
+  pointIndex: number;
+  results: SerpEntry[];
+}
+
+interface GridPointResultRecord {
+  point_index: number;
+  position: number;
+  place_id: string;
+  name: string;
+  rating: number | null;
+  user_ratings_total: number | null;
+  vicinity: string | null;
+  types: string[] | null;
+  lat: number | null;
+  lng: number | null;
+}
+
+function toSerpEntry(row: GridPointResultRecord): SerpEntry {
+  return {
+    position: row.position,
+    placeId: row.place_id,
+    name: row.name,
+    rating: row.rating,
+    userRatingsTotal: row.user_ratings_total,
+    vicinity: row.vicinity,
+    types: row.types || [],
+    location: row.lat != null && row.lng != null ? { lat: row.lat, lng: row.lng } : null,
+  }
+}
+
+// Store the ordered results for one point of a running scan job, replacing any
+// rows left by an earlier attempt at the same point
+export async function saveSerpSnapshot(scanJobId: string, pointIndex: number, results: PlaceSearchResult[]) {
+  const { error: deleteError } = await supabase
+    .from("grid_point_results")
+    .delete()
+    .eq("scan_job_id", scanJobId)
+    .eq("point_index", pointIndex)
+
+  if (deleteError) {
+    console.error("Error clearing SERP snapshot:", deleteError)
+    throw deleteError
+  }
+
+  if (results.length === 0) return
+
+  const { error } = await supabase.from("grid_point_results").insert(
+    results.slice(0, SERP_SNAPSHOT_SIZE).map((result, index) => ({
+      scan_job_id: scanJobId,
+      point_index: pointIndex,
+      position: index + 1,
+      place_id: result.place_id,
+      name: result.name,
+      rating: result.rating ?? null,
+      user_ratings_total: result.user_ratings_total ?? null,
+      vicinity: result.vicinity ?? null,
+      types: result.types,
+      lat: result.geometry?.location.lat ?? null,
+      lng: result.geometry?.location.lng ?? null,
+    }))
+  )
+
+  if (error) {
+    console.error("Error saving SERP snapshot:", error)
+    throw error
+  }
+}
+
+// Link every snapshot row of a finished scan job to the grid result it produced
+export async function attachSerpSnapshot(scanJobId: string, gridResultId: string) {
+  const { error } = await supabase
+    .from("grid_point_results")
+    .update({ grid_result_id: gridResultId })
+    .eq("scan_job_id", scanJobId)
+
+  if (error) {
+    console.error("Error linking SERP snapshot to grid result:", error)
+    throw error
+  }
+}
+
+// Snapshot of a grid result grouped by point, optionally limited to a single point.
+// Results scanned before snapshots were stored return an empty list. Callers check
+// that the grid result belongs to the caller's workspace first.
+export async function getSerpSnapshot(gridResultId: string, pointIndex?: number): Promise<SerpSnapshotPoint[]> {
+  const rows: GridPointResultRecord[] = []
+
+  for (let from = 0; ; from += SNAPSHOT_PAGE_SIZE) {
+    let query = supabase
+      .from("grid_point_results")
+      .select("point_index, position, place_id, name, rating, user_ratings_total, vicinity, types, lat, lng")
+      .eq("grid_result_id", gridResultId)
+
+    if (pointIndex !== undefined) {
+      query = query.eq("point_index", pointIndex)
+    }
+
+    const { data, error } = await query
+      .order("point_index", { ascending: true })
+      .order("position", { ascending: true })
+      .range(from, from + SNAPSHOT_PAGE_SIZE - 1)
+
+    if (error) {
+      console.error("Error fetching SERP snapshot:", error)
+      throw error
+    }
+
+    rows.push(...((data || []) as GridPointResultRecord[]))
+    if (!data || data.length < SNAPSHOT_PAGE_SIZE) break
+  }
+
+  const points = new Map<number, SerpSnapshotPoint>()
+  rows.forEach((row) => {
+    const point = points.get(row.point_index) ?? { pointIndex: row.point_index, results: [] }
+    point.results.push(toSerpEntry(row))
+    points.set(row.point_index, point)
+  })
+
+  return Array.from(points.values())
+}
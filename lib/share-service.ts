@@ -0,0 +1,202 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from "crypto"
+import { createClient } from "@supabase/supabase-js"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+// Longest a share link can stay valid for
+export const MAX_SHARE_DAYS = 365
+
+export interface GridShare {
+  id: string;
+  workspaceId: string;
+  gridResultId: string;
+  // Signed token used in the public /share/<token> link
+  token: string;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface GridShareInput {
+  // Days until the link stops working; null for a link that doesn't expire
+  expiresInDays: number | null;
+  password: string | null;
+}
+
+interface GridShareRecord {
+  id: string;
+  workspace_id: string;
+  grid_result_id: string;
+  password_hash: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// Why a token doesn't open a grid result
+export type ShareStatus = "ok" | "invalid" | "expired" | "revoked"
+
+function getShareSecret(): string {
+  const secret = process.env.SHARE_LINK_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!secret) {
+    throw new Error("SHARE_LINK_SECRET must be set to create or open share links")
+  }
+  return secret
+}
+
+function sign(value: string): string {
+  return createHmac("sha256", getShareSecret()).update(value).digest("base64url")
+}
+
+function signatureMatches(value: string, signature: string): boolean {
+  const expected = Buffer.from(sign(value))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+function toGridShare(row: GridShareRecord): GridShare {
+  const id = row.id.toString()
+  return {
+    id,
+    workspaceId: row.workspace_id.toString(),
+    gridResultId: row.grid_result_id.toString(),
+    token: `${id}.${sign(id)}`,
+    hasPassword: !!row.password_hash,
+    expiresAt: row.expires_at ? new Date(row.expires_at).toISOString() : null,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at).toISOString() : null,
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16)
+  return `${salt.toString("hex")}:${scryptSync(password, salt, 32).toString("hex")}`
+}
+
+export function getShareStatus(share: Pick<GridShare, "expiresAt" | "revokedAt">): ShareStatus {
+  if (share.revokedAt) return "revoked"
+  if (share.expiresAt && new Date(share.expiresAt) <= new Date()) return "expired"
+  return "ok"
+}
+
+// Returns an error message if the share settings are invalid
+export function validateShareInput(input: Partial<GridShareInput>): string | null {
+  if (input.expiresInDays != null) {
+    if (!Number.isInteger(input.expiresInDays) || input.expiresInDays < 1 || input.expiresInDays > MAX_SHARE_DAYS) {
+      return `Expiry must be a whole number of days between 1 and ${MAX_SHARE_DAYS}`
+    }
+  }
+  if (input.password != null && input.password.length < 4) {
+    return "Password must be at least 4 characters"
+  }
+  return null
+}
+
+// Shares of a grid result that still open, newest first
+export async function getActiveShares(workspaceId: string, gridResultId: string): Promise<GridShare[]> {
+  const { data, error } = await supabase
+    .from("grid_shares")
+    .select("*")
+    .eq("grid_result_id", gridResultId)
+    .eq("workspace_id", workspaceId)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching grid shares:", error)
+    return []
+  }
+
+  return (data as GridShareRecord[]).map(toGridShare).filter((share) => getShareStatus(share) === "ok")
+}
+
+export async function createShare(workspaceId: string, gridResultId: string, input: GridShareInput): Promise<GridShare> {
+  const expiresAt = input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : null
+
+  const { data, error } = await supabase
+    .from("grid_shares")
+    .insert({
+      workspace_id: workspaceId,
+      grid_result_id: gridResultId,
+      password_hash: input.password ? hashPassword(input.password) : null,
+      expires_at: expiresAt?.toISOString() ?? null,
+    })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error creating grid share:", error)
+    throw error
+  }
+
+  return toGridShare(data as GridShareRecord)
+}
+
+export async function revokeShare(workspaceId: string, gridResultId: string, shareId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("grid_shares")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", shareId)
+    .eq("grid_result_id", gridResultId)
+    .eq("workspace_id", workspaceId)
+    .is("revoked_at", null)
+    .select("id")
+
+  if (error) {
+    console.error("Error revoking grid share:", error)
+    return false
+  }
+
+  return data.length > 0
+}
+
+// The share a public token stands for, and whether it still opens. Tokens whose
+// signature doesn't match are rejected without touching the database.
+export async function resolveShareToken(
+  token: string
+): Promise<{ status: ShareStatus; share: GridShare | null; passwordHash: string | null }> {
+  const [id, signature] = token.split(".")
+  if (!id || !signature || !signatureMatches(id, signature)) {
+    return { status: "invalid", share: null, passwordHash: null }
+  }
+
+  const { data, error } = await supabase.from("grid_shares").select("*").eq("id", id).maybeSingle()
+
+  if (error || !data) {
+    if (error) console.error("Error fetching grid share:", error)
+    return { status: "invalid", share: null, passwordHash: null }
+  }
+
+  const record = data as GridShareRecord
+  const share = toGridShare(record)
+  return { status: getShareStatus(share), share, passwordHash: record.password_hash }
+}
+
+// Name of the cookie that remembers a password-protected share was unlocked
+export function shareUnlockCookieName(shareId: string): string {
+  return `geogrid_share_${shareId}`
+}
+
+// Value of the unlock cookie; tied to the password so changing it locks the link again
+export function shareUnlockCookieValue(shareId: string, passwordHash: string): string {
+  return sign(`${shareId}:${passwordHash}`)
+}
+
+export function isShareUnlocked(shareId: string, passwordHash: string, cookieValue: string | undefined): boolean {
+  return !!cookieValue && signatureMatches(`${shareId}:${passwordHash}`, cookieValue)
+}
+
+export function checkSharePassword(password: string, passwordHash: string): boolean {
+  try {
+    const [salt, hash] = passwordHash.split(":")
+    const expected = Buffer.from(hash ?? "", "hex")
+    return expected.length > 0 && timingSafeEqual(expected, scryptSync(password, Buffer.from(salt, "hex"), expected.length))
+  } catch (error) {
+    console.error("Error checking share password:", error)
+    return false
+  }
+}
@@ -0,0 +1,36 @@
+// Wall-clock parts of an instant as seen in the given time zone
+export function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date)
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  }
+}
+
+// Convert a wall-clock time in `timeZone` to the matching UTC instant
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string) {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute)
+  const offsetAt = (instant: number) => {
+    const zoned = getZonedParts(new Date(instant), timeZone)
+    return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second) - instant
+  }
+
+  // Re-check the offset once so times next to a DST change land on the right side of it
+  const firstGuess = asUtc - offsetAt(asUtc)
+  return new Date(asUtc - offsetAt(firstGuess))
+}
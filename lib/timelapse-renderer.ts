@@ -0,0 +1,166 @@
+import { GifWriter } from "omggif"
+import { OUTSIDE_SHAPE } from "@/lib/grid-shapes"
+import { EMPTY_CELL_COLOR, RANK_COLORS, rankColor, rankColorIndex } from "@/lib/rank-colors"
+
+// One scan in a timelapse, oldest first
+export interface TimelapseFrame {
+  gridResultId: string;
+  createdAt: string;
+  gridData: number[][];
+  agr: number;
+  solv: number;
+}
+
+// Time each GIF frame is shown, in hundredths of a second; the last one lingers
+const FRAME_DELAY = 100
+const LAST_FRAME_DELAY = 300
+// Side of the rendered grid in pixels, before padding
+const GRID_PIXELS = 360
+const PADDING = 12
+// Height of the caption band above the grid
+const CAPTION_HEIGHT = 28
+const FONT_SCALE = 3
+
+const BACKGROUND_COLOR = "#ffffff"
+const TEXT_COLOR = "#1f2937"
+
+// GIF palette indexes; the palette length has to be a power of two
+const gifPalette = (rankColors: string[]) =>
+  [BACKGROUND_COLOR, EMPTY_CELL_COLOR, ...rankColors, TEXT_COLOR].map((hex) => Number.parseInt(hex.slice(1), 16))
+const BACKGROUND_INDEX = 0
+const EMPTY_CELL_INDEX = 1
+const TEXT_INDEX = RANK_COLORS.length + 2
+
+// 3x5 bitmap glyphs for the captions, one string per row
+const GLYPHS: Record<string, string[]> = {
+  "0": ["111", "101", "101", "101", "111"],
+  "1": ["010", "110", "010", "010", "111"],
+  "2": ["111", "001", "111", "100", "111"],
+  "3": ["111", "001", "111", "001", "111"],
+  "4": ["101", "101", "111", "001", "001"],
+  "5": ["111", "100", "111", "001", "111"],
+  "6": ["111", "100", "111", "101", "111"],
+  "7": ["111", "001", "010", "010", "010"],
+  "8": ["111", "101", "111", "101", "111"],
+  "9": ["111", "101", "111", "001", "111"],
+  "-": ["000", "000", "111", "000", "000"],
+  ".": ["000", "000", "000", "000", "010"],
+  "%": ["101", "001", "010", "100", "101"],
+  " ": ["000", "000", "000", "000", "000"],
+  A: ["010", "101", "111", "101", "101"],
+  G: ["111", "100", "101", "101", "111"],
+  L: ["100", "100", "100", "100", "111"],
+  O: ["111", "101", "101", "101", "111"],
+  R: ["110", "101", "110", "101", "101"],
+  S: ["111", "100", "111", "001", "111"],
+  V: ["101", "101", "101", "101", "010"],
+}
+
+function frameCaption(frame: TimelapseFrame): string {
+  return `${frame.createdAt.slice(0, 10)}  AGR ${frame.agr.toFixed(1)}  SOLV ${frame.solv}%`
+}
+
+function cellSize(gridSize: number): number {
+  return Math.max(4, Math.floor(GRID_PIXELS / Math.max(gridSize, 1)))
+}
+
+// Render every frame as one GIF that steps through the scans in order
+export function renderTimelapseGif(
+  frames: TimelapseFrame[],
+  gridSize: number,
+  rankColors: string[] = RANK_COLORS
+): Uint8Array {
+  const cell = cellSize(gridSize)
+  const width = gridSize * cell + PADDING * 2
+  const height = gridSize * cell + PADDING * 2 + CAPTION_HEIGHT
+
+  // Generous upper bound on the encoded size: LZW never needs more than 12 bits a pixel
+  const buffer = new Uint8Array(Math.ceil(width * height * 1.5) * frames.length + 4096)
+  const writer = new GifWriter(buffer, width, height, { palette: gifPalette(rankColors), loop: 0 })
+
+  frames.forEach((frame, frameIndex) => {
+    const pixels: number[] = new Array(width * height).fill(BACKGROUND_INDEX)
+
+    const fillRect = (x: number, y: number, w: number, h: number, colorIndex: number) => {
+      for (let py = y; py < y + h; py++) {
+        pixels.fill(colorIndex, py * width + x, py * width + x + w)
+      }
+    }
+
+    // Caption
+    let cursor = PADDING
+    for (const character of frameCaption(frame)) {
+      const glyph = GLYPHS[character]
+      if (!glyph) continue
+      glyph.forEach((line, glyphRow) => {
+        for (let glyphCol = 0; glyphCol < line.length; glyphCol++) {
+          if (line[glyphCol] === "1") {
+            fillRect(cursor + glyphCol * FONT_SCALE, PADDING / 2 + glyphRow * FONT_SCALE, FONT_SCALE, FONT_SCALE, TEXT_INDEX)
+          }
+        }
+      })
+      cursor += 4 * FONT_SCALE
+      if (cursor + 3 * FONT_SCALE > width) break
+    }
+
+    // Grid cells; row 0 is the southernmost row, so it is drawn at the bottom
+    for (let row = 0; row < gridSize; row++) {
+      for (let col = 0; col < gridSize; col++) {
+        const rank = frame.gridData[row]?.[col]
+        const colorIndex =
+          rank === undefined || rank === OUTSIDE_SHAPE ? EMPTY_CELL_INDEX : EMPTY_CELL_INDEX + 1 + rankColorIndex(rank)
+        const x = PADDING + col * cell
+        const y = PADDING + CAPTION_HEIGHT + (gridSize - 1 - row) * cell
+        // Leave a one pixel gap between cells
+        fillRect(x, y, cell - 1, cell - 1, colorIndex)
+      }
+    }
+
+    writer.addFrame(0, 0, width, height, pixels, {
+      delay: frameIndex === frames.length - 1 ? LAST_FRAME_DELAY : FRAME_DELAY,
+    })
+  })
+
+  return buffer.slice(0, writer.end())
+}
+
+// Render the frames side by side as a single SVG, for print and slides
+export function renderTimelapseStrip(
+  frames: TimelapseFrame[],
+  gridSize: number,
+  rankColors: string[] = RANK_COLORS
+): string {
+  const cell = Math.max(4, Math.floor(160 / Math.max(gridSize, 1)))
+  const panelWidth = gridSize * cell + PADDING * 2
+  const panelHeight = gridSize * cell + PADDING * 2 + CAPTION_HEIGHT * 2
+  const width = Math.max(panelWidth * frames.length, panelWidth)
+
+  const panels = frames.map((frame, frameIndex) => {
+    const offsetX = frameIndex * panelWidth
+    const cells: string[] = []
+
+    for (let row = 0; row < gridSize; row++) {
+      for (let col = 0; col < gridSize; col++) {
+        const rank = frame.gridData[row]?.[col]
+        const fill =
+          rank === undefined || rank === OUTSIDE_SHAPE ? EMPTY_CELL_COLOR : rankColor(rank, rankColors)
+        const x = offsetX + PADDING + col * cell
+        const y = PADDING + CAPTION_HEIGHT * 2 + (gridSize - 1 - row) * cell
+        cells.push(`<rect x="${x}" y="${y}" width="${cell - 1}" height="${cell - 1}" fill="${fill}"/>`)
+      }
+    }
+
+    return [
+      `<text x="${offsetX + PADDING}" y="${PADDING + 12}" font-size="13" font-weight="600">${new Date(frame.createdAt).toISOString().slice(0, 10)}</text>`,
+      `<text x="${offsetX + PADDING}" y="${PADDING + 32}" font-size="11" fill="#6b7280">AGR ${frame.agr.toFixed(1)} · SoLV ${frame.solv}%</text>`,
+      ...cells,
+    ].join("")
+  })
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${panelHeight}" viewBox="0 0 ${width} ${panelHeight}" font-family="sans-serif" fill="${TEXT_COLOR}">`,
+    `<rect width="100%" height="100%" fill="${BACKGROUND_COLOR}"/>`,
+    ...panels,
+    "</svg>",
+  ].join("")
+}
@@ -0,0 +1,40 @@
+import { getGridResultById, type GridResult } from "@/lib/geogrid-service"
+import { parseGridSize } from "@/lib/geo-grid"
+import { getRankingHistoryGrids } from "@/lib/ranking-history-service"
+import type { TimelapseFrame } from "@/lib/timelapse-renderer"
+
+export interface Timelapse {
+  result: GridResult;
+  gridSize: number;
+  // Scans of the same business, keyword and grid size, oldest first
+  frames: TimelapseFrame[];
+}
+
+// Every scan that can be played back on the grid of the given result. Scans of a
+// different grid size can't share its map overlay and are left out. Returns null
+// when the result doesn't exist.
+export async function getTimelapse(workspaceId: string, gridResultId: string): Promise<Timelapse | null> {
+  const result = await getGridResultById(workspaceId, gridResultId)
+  if (!result) {
+    return null
+  }
+
+  const gridSize = parseGridSize(result.gridSize)
+  const { placeId, name, address } = result.businessInfo
+  const history = await getRankingHistoryGrids(
+    workspaceId,
+    placeId ? { placeId, keyword: result.searchTerm } : { name, address, keyword: result.searchTerm }
+  )
+
+  const frames = history
+    .filter((scan) => parseGridSize(scan.gridSize) === gridSize)
+    .map((scan) => ({
+      gridResultId: scan.gridResultId,
+      createdAt: scan.createdAt,
+      gridData: scan.gridData,
+      agr: scan.agr,
+      solv: scan.solv,
+    }))
+
+  return { result, gridSize, frames }
+}
@@ -1,91 +1,10 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
-import type { MapCenter, GridPoint } from "@/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-// Function to generate grid points around a center point
-export function generateGridPoints(center: MapCenter, gridSize: number, distanceKm: number): GridPoint[] {
-  // Validate inputs
-  if (!center || typeof center.lat !== 'number' || typeof center.lng !== 'number' ||
-      isNaN(center.lat) || isNaN(center.lng)) {
-    console.error('Invalid center point:', center);
-    throw new Error('Invalid center coordinates for grid generation');
-  }
-  
-  if (!gridSize || isNaN(gridSize) || gridSize < 1) {
-    console.error('Invalid grid size:', gridSize);
-    throw new Error('Grid size must be a positive number');
-  }
-  
-  if (!distanceKm || isNaN(distanceKm) || distanceKm <= 0) {
-    console.error('Invalid distance:', distanceKm);
-    throw new Error('Distance must be a positive number');
-  }
-
-  const points: GridPoint[] = []
-
-  // Earth's radius in kilometers
-  const earthRadius = 6371
-
-  // Convert distance to radians
-  const distanceRadians = distanceKm / earthRadius
-
-  // Calculate the step size for the grid
-  const step = (2 * distanceRadians) / (gridSize - 1)
-
-  // Convert center coordinates to radians
-  const centerLatRad = (center.lat * Math.PI) / 180
-  const centerLngRad = (center.lng * Math.PI) / 180
-
-  // Generate grid points
-  for (let i = 0; i < gridSize; i++) {
-    for (let j = 0; j < gridSize; j++) {
-      try {
-        // Calculate offset from center
-        const latOffset = -distanceRadians + i * step
-        const lngOffset = -distanceRadians + j * step
-
-        // Calculate new coordinates
-        const newLatRad = centerLatRad + latOffset
-        const newLngRad = centerLngRad + lngOffset / Math.cos(centerLatRad)
-
-        // Convert back to degrees
-        const newLat = (newLatRad * 180) / Math.PI
-        const newLng = (newLngRad * 180) / Math.PI
-        
-        // Validate coordinates are within valid bounds
-        const validLat = Math.max(-90, Math.min(90, newLat));
-        const validLng = ((newLng + 540) % 360) - 180; // Normalize to -180 to 180
-        
-        // Ensure coordinates are numbers
-        if (isNaN(validLat) || isNaN(validLng)) {
-          console.warn(`Generated invalid point at grid position [${i},${j}], skipping`);
-          continue;
-        }
-
-        points.push({ 
-          lat: Number(validLat.toFixed(7)),  // Limit precision to 7 decimal places
-          lng: Number(validLng.toFixed(7))
-        })
-      } catch (error) {
-        console.error(`Error generating grid point at [${i},${j}]:`, error);
-        // Continue to next point
-      }
-    }
-  }
-  
-  // Make sure we have points
-  if (points.length === 0) {
-    throw new Error('Failed to generate any valid grid points');
-  }
-
-  console.log(`Generated ${points.length} grid points for ${gridSize}x${gridSize} grid`);
-  return points
-}
-
 // Format number with commas and optional decimal places
 export function formatNumber(value: number, decimalPlaces = 0): string {
   return value.toLocaleString("en-US", {
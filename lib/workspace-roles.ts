@@ -0,0 +1,99 @@
+// Roles a workspace member can have, from most to least privileged
+export const WORKSPACE_ROLES = ["owner", "admin", "analyst", "viewer"] as const
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number]
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  analyst: "Analyst",
+  viewer: "Viewer",
+}
+
+export const WORKSPACE_ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "Full control, including renaming the workspace and managing other owners",
+  admin: "Manages members, saved configurations, locations, branding and scan history",
+  analyst: "Runs and schedules scans, schedules posts, builds saved reports, organizes clients and projects and shares results",
+  viewer: "Views scans, reports and exports",
+}
+
+// Actions in the app that not every member may take. Viewing data is open to
+// every member and needs no permission.
+export type WorkspacePermission =
+  | "runScans"
+  | "manageShares"
+  | "manageClients"
+  | "managePosts"
+  | "manageReports"
+  | "deleteScans"
+  | "manageConfigs"
+  | "manageLocations"
+  | "manageBranding"
+  | "manageMembers"
+  | "manageWorkspace"
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  owner: [
+    "runScans",
+    "manageShares",
+    "manageClients",
+    "managePosts",
+    "manageReports",
+    "deleteScans",
+    "manageConfigs",
+    "manageLocations",
+    "manageBranding",
+    "manageMembers",
+    "manageWorkspace",
+  ],
+  admin: [
+    "runScans",
+    "manageShares",
+    "manageClients",
+    "managePosts",
+    "manageReports",
+    "deleteScans",
+    "manageConfigs",
+    "manageLocations",
+    "manageBranding",
+    "manageMembers",
+  ],
+  analyst: ["runScans", "manageShares", "manageClients", "managePosts", "manageReports"],
+  viewer: [],
+}
+
+const PERMISSION_DENIED_MESSAGES: Record<WorkspacePermission, string> = {
+  runScans: "Your role doesn't allow running or scheduling scans",
+  manageShares: "Your role doesn't allow managing share links",
+  manageClients: "Your role doesn't allow organizing clients and projects",
+  managePosts: "Your role doesn't allow scheduling or publishing posts",
+  manageReports: "Your role doesn't allow building or generating saved reports",
+  deleteScans: "Your role doesn't allow deleting scans",
+  manageConfigs: "Your role doesn't allow editing saved configurations",
+  manageLocations: "Your role doesn't allow managing locations",
+  manageBranding: "Your role doesn't allow changing the branding",
+  manageMembers: "Your role doesn't allow managing members",
+  manageWorkspace: "Only owners can change the workspace",
+}
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return typeof value === "string" && (WORKSPACE_ROLES as readonly string[]).includes(value)
+}
+
+export function hasPermission(role: WorkspaceRole, permission: WorkspacePermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// Error returned by the API when the caller's role lacks the permission
+export function permissionDeniedMessage(permission: WorkspacePermission): string {
+  return PERMISSION_DENIED_MESSAGES[permission]
+}
+
+// Whether someone with the actor's role may give or take away the target role.
+// Only owners can make or unmake owners.
+export function canAssignRole(actor: WorkspaceRole, target: WorkspaceRole): boolean {
+  if (!hasPermission(actor, "manageMembers")) {
+    return false
+  }
+  return target !== "owner" || actor === "owner"
+}
@@ -0,0 +1,366 @@
+import { createClient } from "@supabase/supabase-js"
+import type { WorkspaceRole } from "@/lib/workspace-roles"
+
+// Create a single Supabase client for interacting with your database
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// A workspace as seen by one of its members
+export interface UserWorkspace extends Workspace {
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+// The signed-in user as workspace setup sees them
+export interface WorkspaceUser {
+  id: string;
+  email: string;
+  // Whether the user has proven they own the email address
+  emailConfirmed: boolean;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+interface WorkspaceRecord {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+interface WorkspaceMemberRecord {
+  user_id: string;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+interface WorkspaceInvitationRecord {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+function toWorkspace(row: WorkspaceRecord): Workspace {
+  return {
+    id: row.id.toString(),
+    name: row.name,
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
+
+function toWorkspaceMember(row: WorkspaceMemberRecord): WorkspaceMember {
+  return {
+    userId: row.user_id.toString(),
+    email: row.email,
+    role: row.role,
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
+
+function toWorkspaceInvitation(row: WorkspaceInvitationRecord): WorkspaceInvitation {
+  return {
+    id: row.id.toString(),
+    email: row.email,
+    role: row.role,
+    createdAt: new Date(row.created_at).toISOString(),
+  }
+}
+
+// Returns an error message if the name can't be used for a workspace
+export function validateWorkspaceName(name: string): string | null {
+  if (!name.trim()) {
+    return "Workspace name is required"
+  }
+  if (name.length > 100) {
+    return "Workspace name must be 100 characters or fewer"
+  }
+  return null
+}
+
+// Returns an error message if the address can't be invited
+export function validateInvitationEmail(email: string): string | null {
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return "Enter a valid email address"
+  }
+  return null
+}
+
+// Workspaces the user is a member of with their role in each, oldest first
+export async function getWorkspacesForUser(userId: string): Promise<UserWorkspace[]> {
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .select("role, workspaces!inner (*)")
+    .eq("user_id", userId)
+
+  if (error) {
+    console.error("Error fetching workspaces:", error)
+    throw error
+  }
+
+  return (data || [])
+    .map((row) => ({ ...toWorkspace(row.workspaces as unknown as WorkspaceRecord), role: row.role as WorkspaceRole }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export async function isWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .select("user_id")
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error checking workspace membership:", error)
+    return false
+  }
+
+  return !!data
+}
+
+export async function createWorkspace(name: string, owner: { id: string; email: string }): Promise<UserWorkspace> {
+  const { data, error } = await supabase.from("workspaces").insert({ name: name.trim() }).select("*").single()
+
+  if (error) {
+    console.error("Error creating workspace:", error)
+    throw error
+  }
+
+  const { error: memberError } = await supabase
+    .from("workspace_members")
+    .insert({ workspace_id: data.id, user_id: owner.id, email: owner.email, role: "owner" })
+
+  if (memberError) {
+    console.error("Error adding workspace owner:", memberError)
+    await supabase.from("workspaces").delete().eq("id", data.id)
+    throw memberError
+  }
+
+  return { ...toWorkspace(data as WorkspaceRecord), role: "owner" }
+}
+
+export async function renameWorkspace(workspaceId: string, name: string): Promise<Workspace | null> {
+  const { data, error } = await supabase
+    .from("workspaces")
+    .update({ name: name.trim() })
+    .eq("id", workspaceId)
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error renaming workspace:", error)
+    return null
+  }
+
+  return toWorkspace(data as WorkspaceRecord)
+}
+
+// Turn every pending invitation for the user's email into a membership.
+// Invitations go by email, so an unconfirmed address can't accept them.
+export async function acceptInvitations(user: WorkspaceUser): Promise<void> {
+  if (!user.emailConfirmed) {
+    return
+  }
+
+  const { data, error } = await supabase
+    .from("workspace_invitations")
+    .select("id, workspace_id, role")
+    .eq("email", user.email.toLowerCase())
+
+  if (error) {
+    console.error("Error fetching workspace invitations:", error)
+    return
+  }
+
+  if (!data || data.length === 0) {
+    return
+  }
+
+  const { error: memberError } = await supabase.from("workspace_members").upsert(
+    data.map((invitation) => ({
+      workspace_id: invitation.workspace_id,
+      user_id: user.id,
+      email: user.email,
+      role: invitation.role,
+    })),
+    { onConflict: "workspace_id,user_id", ignoreDuplicates: true }
+  )
+
+  if (memberError) {
+    console.error("Error accepting workspace invitations:", memberError)
+    return
+  }
+
+  await supabase
+    .from("workspace_invitations")
+    .delete()
+    .in(
+      "id",
+      data.map((invitation) => invitation.id)
+    )
+}
+
+// Only the owner named by WORKSPACE_OWNER_EMAIL, once their address is
+// confirmed, may take over the data saved before workspaces existed
+function mayClaimLegacyWorkspace(user: WorkspaceUser): boolean {
+  const ownerEmail = process.env.WORKSPACE_OWNER_EMAIL?.trim().toLowerCase()
+  return Boolean(ownerEmail) && user.emailConfirmed && user.email.toLowerCase() === ownerEmail
+}
+
+// Give someone who belongs to no workspace one of their own. The workspace owner
+// claims the workspace the migration created for data saved before workspaces
+// existed; everyone else gets a new one.
+export async function setUpFirstWorkspace(user: WorkspaceUser): Promise<UserWorkspace> {
+  if (!mayClaimLegacyWorkspace(user)) {
+    return createWorkspace(`${user.email.split("@")[0]}'s Workspace`, user)
+  }
+
+  const { data: claimed, error } = await supabase
+    .from("workspaces")
+    .update({ claimable: false })
+    .eq("claimable", true)
+    .select("*")
+
+  if (error) {
+    console.error("Error claiming workspace:", error)
+    throw error
+  }
+
+  const legacy = claimed?.[0] as WorkspaceRecord | undefined
+  if (legacy) {
+    const { error: memberError } = await supabase
+      .from("workspace_members")
+      .insert({ workspace_id: legacy.id, user_id: user.id, email: user.email, role: "owner" })
+
+    if (memberError) {
+      console.error("Error joining claimed workspace:", memberError)
+      await supabase.from("workspaces").update({ claimable: true }).eq("id", legacy.id)
+      throw memberError
+    }
+
+    return { ...toWorkspace(legacy), role: "owner" }
+  }
+
+  return createWorkspace(`${user.email.split("@")[0]}'s Workspace`, user)
+}
+
+export async function getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching workspace members:", error)
+    return []
+  }
+
+  return (data as WorkspaceMemberRecord[]).map(toWorkspaceMember)
+}
+
+export async function updateMemberRole(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMember | null> {
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .update({ role })
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error updating workspace member role:", error)
+    return null
+  }
+
+  return data ? toWorkspaceMember(data as WorkspaceMemberRecord) : null
+}
+
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .delete()
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", userId)
+    .select("user_id")
+
+  if (error) {
+    console.error("Error removing workspace member:", error)
+    return false
+  }
+
+  return data.length > 0
+}
+
+export async function getWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+  const { data, error } = await supabase
+    .from("workspace_invitations")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching workspace invitations:", error)
+    return []
+  }
+
+  return (data as WorkspaceInvitationRecord[]).map(toWorkspaceInvitation)
+}
+
+export async function inviteToWorkspace(
+  workspaceId: string,
+  email: string,
+  role: WorkspaceRole
+): Promise<WorkspaceInvitation> {
+  const { data, error } = await supabase
+    .from("workspace_invitations")
+    .upsert({ workspace_id: workspaceId, email: email.trim().toLowerCase(), role }, { onConflict: "workspace_id,email" })
+    .select("*")
+    .single()
+
+  if (error) {
+    console.error("Error inviting to workspace:", error)
+    throw error
+  }
+
+  return toWorkspaceInvitation(data as WorkspaceInvitationRecord)
+}
+
+export async function cancelInvitation(workspaceId: string, invitationId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("workspace_invitations")
+    .delete()
+    .eq("workspace_id", workspaceId)
+    .eq("id", invitationId)
+    .select("id")
+
+  if (error) {
+    console.error("Error cancelling workspace invitation:", error)
+    return false
+  }
+
+  return data.length > 0
+}
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createServerClient } from "@supabase/ssr"
+
+// Reachable without signing in: the sign-in pages, shared links and the cron
+// endpoints, which check CRON_SECRET themselves
+const PUBLIC_PATHS = ["/login", "/auth/", "/share/", "/api/shares/", "/api/schedules/run", "/api/posts/run"]
+
+// Refresh the Supabase session on every request and keep signed-out visitors
+// out of the app and its API
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({ request })
+
+  const supabase = createServerClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll()
+      },
+      setAll(cookiesToSet) {
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+        response = NextResponse.next({ request })
+        cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+      },
+    },
+  })
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  const { pathname } = request.nextUrl
+  if (user || PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(path))) {
+    return response
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const loginUrl = request.nextUrl.clone()
+  loginUrl.pathname = "/login"
+  loginUrl.search = `?next=${encodeURIComponent(pathname + request.nextUrl.search)}`
+  return NextResponse.redirect(loginUrl)
+}
+
+export const config = {
+  // Everything except Next.js assets and static files in /public
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|gif|svg|webp|ico)$).*)"],
+}
@@ -1,43 +1,201 @@
 import { createClient } from '@supabase/supabase-js'
+import { haversineDistanceKm } from '@/lib/geo-grid'
+import type { BusinessInfo } from '@/types/business-info'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 const supabase = createClient(supabaseUrl, supabaseKey)
 
-// Add a mock implementation for the POST endpoint since we don't have a real backend
-// This will generate realistic-looking data for the demo
+// Rank assigned to grid points where the business doesn't appear in the results
+export const NOT_RANKED = 21
+
+// Minimum fuzzy score (0-1) for a result to be accepted as the business
+const FUZZY_MATCH_THRESHOLD = 0.75
+// Results further than this from the business's known coordinates score zero on proximity
+const MAX_MATCH_DISTANCE_METERS = 500
+
+// How a rank was attributed to the business. 'fuzzy' ranks are best-effort and
+// should be flagged as uncertain in reports.
+export type MatchStrategy = 'place_id' | 'fuzzy' | 'none'
+
+export interface BusinessIdentity {
+  name: string;
+  placeId?: string;
+  address?: string;
+  location?: { lat: number; lng: number };
+}
+
+export interface RankableResult {
+  name: string;
+  place_id?: string;
+  vicinity?: string;
+  formatted_address?: string;
+  geometry?: {
+    location: { lat: number; lng: number };
+  };
+}
+
+export interface BusinessMatch {
+  rank: number;
+  strategy: MatchStrategy;
+  // 1 for a place_id match, the fuzzy score otherwise
+  confidence: number;
+  matchedPlaceId: string | null;
+}
+
+const IGNORED_NAME_TOKENS = new Set(['the', 'and', 'llc', 'inc', 'ltd', 'co', 'corp', 'company', 'ab', 'gmbh'])
+
+// Lower-case, strip accents, punctuation and legal suffixes so "Joe's Café, LLC" compares as "joes cafe"
+export function normalizeBusinessName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((token) => token && !IGNORED_NAME_TOKENS.has(token))
+    .join(' ')
+}
+
+// Sørensen–Dice coefficient over character bigrams
+function diceSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+
+  const bigrams = (value: string) => {
+    const counts = new Map<string, number>()
+    for (let i = 0; i < value.length - 1; i++) {
+      const bigram = value.slice(i, i + 2)
+      counts.set(bigram, (counts.get(bigram) || 0) + 1)
+    }
+    return counts
+  }
+
+  const aBigrams = bigrams(a)
+  const bBigrams = bigrams(b)
+  let overlap = 0
+  aBigrams.forEach((count, bigram) => {
+    overlap += Math.min(count, bBigrams.get(bigram) || 0)
+  })
+
+  return (2 * overlap) / (a.length - 1 + (b.length - 1))
+}
+
+// Weighted similarity of a search result to the business, between 0 and 1.
+// Signals the business has no data for are left out of the weighting.
+export function scoreBusinessMatch(result: RankableResult, business: BusinessIdentity): number {
+  const signals: { weight: number; score: number }[] = [
+    { weight: 0.6, score: diceSimilarity(normalizeBusinessName(result.name), normalizeBusinessName(business.name)) },
+  ]
+
+  const resultAddress = result.formatted_address || result.vicinity
+  if (business.address && resultAddress) {
+    signals.push({
+      weight: 0.15,
+      score: diceSimilarity(normalizeBusinessName(resultAddress), normalizeBusinessName(business.address)),
+    })
+  }
+
+  if (business.location && result.geometry?.location) {
+    const meters = haversineDistanceKm(business.location, result.geometry.location) * 1000
+    signals.push({ weight: 0.25, score: Math.max(0, 1 - meters / MAX_MATCH_DISTANCE_METERS) })
+  }
+
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0)
+  return signals.reduce((sum, signal) => sum + signal.weight * signal.score, 0) / totalWeight
+}
+
+// Locate the business in a ranked result list. An exact place_id hit wins;
+// otherwise the best fuzzy candidate above the threshold is used.
+export function matchBusinessInResults(results: RankableResult[], business: BusinessIdentity): BusinessMatch {
+  if (business.placeId) {
+    const index = results.findIndex((result) => result.place_id === business.placeId)
+    if (index >= 0) {
+      return { rank: index + 1, strategy: 'place_id', confidence: 1, matchedPlaceId: business.placeId }
+    }
+  }
+
+  // Also reached when the stored place_id wasn't found, e.g. because Google reissued it
+  let bestIndex = -1
+  let bestScore = 0
+  results.forEach((result, index) => {
+    const score = scoreBusinessMatch(result, business)
+    if (score >= FUZZY_MATCH_THRESHOLD && score > bestScore) {
+      bestIndex = index
+      bestScore = score
+    }
+  })
+
+  if (bestIndex >= 0) {
+    return {
+      rank: bestIndex + 1,
+      strategy: 'fuzzy',
+      confidence: Math.round(bestScore * 100) / 100,
+      matchedPlaceId: results[bestIndex].place_id || null,
+    }
+  }
+
+  return { rank: NOT_RANKED, strategy: 'none', confidence: 0, matchedPlaceId: null }
+}
+
+// The identity the dashboards match results against
+export function toBusinessIdentity(info: BusinessInfo): BusinessIdentity {
+  return {
+    name: info.name,
+    placeId: info.placeId,
+    address: info.address,
+    location: typeof info.location === 'object' ? info.location : undefined,
+  }
+}
+
+// Ranks of the business at each grid point, in the order of the points, with
+// how each rank was attributed
+export interface RankingData {
+  rankings: number[];
+  strategies: MatchStrategy[];
+}
+
+const NOT_FOUND: BusinessMatch = { rank: NOT_RANKED, strategy: 'none', confidence: 0, matchedPlaceId: null }
+
+// Search the keyword at every grid point and locate the business in each result list
 export async function fetchRankingData(
   keyword: string,
-  businessName: string,
+  business: BusinessIdentity,
   gridPoints: { lat: number; lng: number }[]
-) {
+): Promise<RankingData> {
+  // Cached rankings are keyed by place_id when the business has one, so a renamed business keeps its cache
+  const cacheKey = business.placeId || business.name
+
   try {
     // First check if we have cached results for this search
     const { data: cachedResults, error: cacheError } = await supabase
       .from('grid_rankings_cache')
       .select('*')
       .eq('keyword', keyword)
-      .eq('location', businessName)
+      .eq('location', cacheKey)
       .order('created_at', { ascending: false })
       .limit(1)
 
-    if (!cacheError && cachedResults && cachedResults.length > 0) {
+    // Rows cached before strategies were recorded are fetched again
+    if (!cacheError && cachedResults && cachedResults.length > 0 && cachedResults[0].match_strategies) {
       const cacheAge = Date.now() - new Date(cachedResults[0].created_at).getTime()
       // Use cached results if they're less than 24 hours old
       if (cacheAge < 24 * 60 * 60 * 1000) {
-        return cachedResults[0].rankings
+        return { rankings: cachedResults[0].rankings, strategies: cachedResults[0].match_strategies }
       }
     }
 
     // If no valid cache, fetch new rankings
-    const rankings = await Promise.all(
+    const matches = await Promise.all(
       gridPoints.map(async (point, index) => {
         try {
           // Validate point has valid coordinates
           if (!point || typeof point.lat !== 'number' || typeof point.lng !== 'number' ||
               isNaN(point.lat) || isNaN(point.lng)) {
             console.error(`Invalid grid point at index ${index}:`, point);
-            return 21;
+            return NOT_FOUND;
           }
           
           console.log(`Fetching ranking for point ${index}: lat=${point.lat}, lng=${point.lng}`);
@@ -74,45 +232,43 @@ export async function fetchRankingData(
           // No results found
           if (!data.results || data.results.length === 0) {
             console.log(`No results for point ${index}, keyword "${keyword}"`);
-            return 21;
+            return NOT_FOUND;
           }
           
           console.log(`Point ${index}: Found ${data.results.length} results for "${keyword}"`);
           
-          // Find the business in the results by partial name match
-          const businessIndex = data.results.findIndex(
-            (result: any) => {
-              // Case insensitive partial match
-              const resultName = result.name.toLowerCase();
-              const searchName = businessName.toLowerCase();
-              return resultName.includes(searchName) || searchName.includes(resultName);
-            }
-          )
-
-          // Return the ranking (index + 1) or 21 if not found
-          return businessIndex >= 0 ? businessIndex + 1 : 21
+          return matchBusinessInResults(data.results, business)
         } catch (error) {
           console.error(`Error fetching ranking for point ${index}:`, point, error)
-          return 21 // Return 21 (not found) if there's an error
+          return NOT_FOUND
         }
       })
     )
 
+    const rankings = matches.map((match) => match.rank)
+    const strategies = matches.map((match) => match.strategy)
+
     // Cache the results
     await supabase.from('grid_rankings_cache').insert({
       keyword,
-      location: businessName,
+      location: cacheKey,
       rankings,
+      match_strategies: strategies,
       created_at: new Date().toISOString(),
     })
 
-    return rankings
+    return { rankings, strategies }
   } catch (error) {
     console.error('Error in fetchRankingData:', error)
     throw error
   }
 }
 
+// Lay the rankings of a gridSize x gridSize grid out row by row, as the maps expect
+export function toRankingMatrix(rankings: number[], gridSize: number): number[][] {
+  return Array.from({ length: gridSize }, (_, row) => rankings.slice(row * gridSize, (row + 1) * gridSize))
+}
+
 // Function to calculate keyword performance metrics
 export function calculateKeywordPerformance(data: number[][]) {
   if (!data || data.length === 0) return null
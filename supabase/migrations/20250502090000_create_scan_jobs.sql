@@ -0,0 +1,44 @@
+-- Server-side geogrid scans. A job is enqueued with its full point list and
+-- executed in the background; each point row is updated as its ranking lands
+-- so progress survives the browser tab being closed.
+
+create table if not exists scan_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'completed', 'failed')),
+  business jsonb not null,
+  search_term text not null,
+  grid_size text not null,
+  distance_km numeric not null,
+  google_region text not null default 'global',
+  total_points integer not null,
+  completed_points integer not null default 0,
+  failed_points integer not null default 0,
+  grid_result_id uuid references grid_results (id) on delete set null,
+  error text,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  completed_at timestamptz,
+  -- Bumped as points land; a queued or running job that stops bumping it was
+  -- interrupted and is resumed by the cron
+  heartbeat_at timestamptz not null default now()
+);
+
+create index if not exists scan_jobs_status_idx on scan_jobs (status);
+create index if not exists scan_jobs_stalled_idx on scan_jobs (heartbeat_at) where status in ('queued', 'running');
+
+create table if not exists scan_job_points (
+  job_id uuid not null references scan_jobs (id) on delete cascade,
+  point_index integer not null,
+  row_index integer not null,
+  col_index integer not null,
+  lat double precision not null,
+  lng double precision not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'completed', 'failed')),
+  rank integer,
+  attempts integer not null default 0,
+  error text,
+  completed_at timestamptz,
+  primary key (job_id, point_index)
+);
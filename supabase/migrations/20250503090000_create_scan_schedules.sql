@@ -0,0 +1,25 @@
+-- Recurring geogrid scans. The schedule runner enqueues a scan job for every
+-- enabled schedule whose next_run_at has passed, then advances next_run_at.
+
+create table if not exists scan_schedules (
+  id uuid primary key default gen_random_uuid(),
+  business jsonb not null,
+  search_term text not null,
+  grid_size text not null,
+  distance_km numeric not null,
+  google_region text not null default 'global',
+  frequency text not null check (frequency in ('daily', 'weekly', 'monthly')),
+  day_of_week smallint check (day_of_week between 0 and 6),
+  day_of_month smallint check (day_of_month between 1 and 28),
+  time_of_day text not null default '09:00',
+  time_zone text not null default 'UTC',
+  enabled boolean not null default true,
+  next_run_at timestamptz not null,
+  last_run_at timestamptz,
+  last_scan_job_id uuid references scan_jobs (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists scan_schedules_due_idx on scan_schedules (next_run_at) where enabled;
+
+alter table scan_jobs add column if not exists schedule_id uuid references scan_schedules (id) on delete set null;
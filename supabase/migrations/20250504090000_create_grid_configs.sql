@@ -0,0 +1,19 @@
+-- Named grid configuration profiles that can be picked when launching a scan
+-- and shared by recurring schedules.
+
+create table if not exists grid_configs (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  grid_size text not null default '13x13',
+  distance_km numeric not null default 2.5,
+  google_region text not null default 'global',
+  shape text not null default 'square',
+  keywords text[] not null default '{}',
+  business jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- A schedule linked to a profile picks up later edits to the profile's grid settings
+alter table scan_schedules add column if not exists config_id uuid references grid_configs (id) on delete set null;
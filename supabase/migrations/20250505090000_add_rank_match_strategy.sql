@@ -0,0 +1,14 @@
+-- Record how each grid point's rank was attributed to the business so reports
+-- can flag ranks that came from a fuzzy name/address/location match rather
+-- than an exact place_id hit.
+
+alter table scan_job_points add column if not exists match_strategy text
+  check (match_strategy in ('place_id', 'fuzzy', 'none'));
+alter table scan_job_points add column if not exists match_confidence real;
+alter table scan_job_points add column if not exists matched_place_id text;
+
+-- Row-major grid of match strategies, parallel to grid_data
+alter table grid_results add column if not exists match_strategies jsonb;
+
+-- Per-point match strategies of cached dashboard rankings, parallel to rankings
+alter table if exists grid_rankings_cache add column if not exists match_strategies jsonb;
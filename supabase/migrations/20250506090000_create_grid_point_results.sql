@@ -0,0 +1,25 @@
+-- Ordered search results Google returned at every grid point of a scan, so
+-- point popups and competitor views show what was actually ranked on the scan
+-- date instead of re-querying live. Rows are written per point while the scan
+-- job runs and linked to the grid result once it has been saved.
+
+create table if not exists grid_point_results (
+  id bigint generated always as identity primary key,
+  scan_job_id uuid references scan_jobs (id) on delete set null,
+  grid_result_id uuid references grid_results (id) on delete cascade,
+  point_index integer not null,
+  position smallint not null,
+  place_id text not null,
+  name text not null,
+  rating real,
+  user_ratings_total integer,
+  vicinity text,
+  types text[] not null default '{}',
+  lat double precision,
+  lng double precision
+);
+
+create unique index if not exists grid_point_results_job_point_idx
+  on grid_point_results (scan_job_id, point_index, position);
+create index if not exists grid_point_results_grid_result_idx
+  on grid_point_results (grid_result_id, point_index, position);
@@ -0,0 +1,16 @@
+-- A scan set groups the scan jobs launched together for one business and a
+-- list of keywords, so their grid results can be compared side by side.
+
+create table if not exists scan_sets (
+  id uuid primary key default gen_random_uuid(),
+  business jsonb not null,
+  keywords text[] not null,
+  grid_size text not null,
+  distance_km numeric not null,
+  google_region text not null default 'global',
+  created_at timestamptz not null default now()
+);
+
+alter table scan_jobs add column if not exists scan_set_id uuid references scan_sets (id) on delete set null;
+
+create index if not exists scan_jobs_scan_set_idx on scan_jobs (scan_set_id);
@@ -0,0 +1,23 @@
+-- Non-square grids. Circle and hexagon grids are generated around the business;
+-- polygon grids cover a service area stored as a GeoJSON polygon. Rank matrices
+-- keep their gridSize x gridSize layout, with 0 in cells outside the shape.
+
+alter table grid_configs add column if not exists polygon jsonb;
+alter table grid_configs add constraint grid_configs_shape_check
+  check (shape in ('square', 'circle', 'hexagon', 'polygon'));
+
+alter table scan_jobs add column if not exists shape text not null default 'square'
+  check (shape in ('square', 'circle', 'hexagon', 'polygon'));
+alter table scan_jobs add column if not exists polygon jsonb;
+
+alter table scan_sets add column if not exists shape text not null default 'square'
+  check (shape in ('square', 'circle', 'hexagon', 'polygon'));
+alter table scan_sets add column if not exists polygon jsonb;
+
+alter table scan_schedules add column if not exists shape text not null default 'square'
+  check (shape in ('square', 'circle', 'hexagon', 'polygon'));
+alter table scan_schedules add column if not exists polygon jsonb;
+
+alter table grid_results add column if not exists shape text not null default 'square'
+  check (shape in ('square', 'circle', 'hexagon', 'polygon'));
+alter table grid_results add column if not exists polygon jsonb;
@@ -0,0 +1,13 @@
+-- Scans used to lay grids out with distance_km as the distance from the center to
+-- the middle of the grid's edge; they now use it as the spacing between points, as
+-- the scan form always labelled it. Convert saved schedules and configurations so
+-- they keep scanning the same area. Grid results keep their stored value: results
+-- without a generator_version are read back as a radius.
+
+update scan_schedules
+  set distance_km = round(distance_km / ((split_part(grid_size, 'x', 1)::integer - 1) / 2.0), 4)
+  where shape <> 'polygon' and split_part(grid_size, 'x', 1)::integer > 1;
+
+update grid_configs
+  set distance_km = round(distance_km / ((split_part(grid_size, 'x', 1)::integer - 1) / 2.0), 4)
+  where shape <> 'polygon' and split_part(grid_size, 'x', 1)::integer > 1;
@@ -0,0 +1,36 @@
+-- Exact scan locations of each grid result. `points` holds the queried points as
+-- [{ id, index, row, col, lat, lng }]; `generator_version` is the grid generator
+-- version they were laid out with. Older results get their points from the scan
+-- job that produced them when there was one (see below); the rest keep null.
+
+alter table scan_jobs add column if not exists generator_version integer;
+
+alter table grid_results add column if not exists points jsonb;
+alter table grid_results add column if not exists generator_version integer;
+
+-- Results that came from a scan job already have their exact points in the job's
+-- point rows, so copy them over instead of regenerating them later. Their
+-- generator_version stays null: they were laid out before the generator was versioned.
+update grid_results
+  set points = job_points.points
+  from (
+    select
+      scan_jobs.grid_result_id,
+      jsonb_agg(
+        jsonb_build_object(
+          'id', 'r' || scan_job_points.row_index || 'c' || scan_job_points.col_index,
+          'index', scan_job_points.point_index,
+          'row', scan_job_points.row_index,
+          'col', scan_job_points.col_index,
+          'lat', scan_job_points.lat,
+          'lng', scan_job_points.lng
+        )
+        order by scan_job_points.point_index
+      ) as points
+    from scan_jobs
+    join scan_job_points on scan_job_points.job_id = scan_jobs.id
+    where scan_jobs.grid_result_id is not null
+    group by scan_jobs.grid_result_id
+  ) as job_points
+  where grid_results.id = job_points.grid_result_id
+    and grid_results.points is null;
@@ -0,0 +1,13 @@
+-- White-label branding applied to exported reports, grid images, CSV files and
+-- shared pages. There is a single row until settings are scoped to workspaces.
+
+create table if not exists branding_settings (
+  singleton boolean primary key default true check (singleton),
+  company_name text not null default 'GeoGrid',
+  logo_url text,
+  primary_color text not null default '#2563eb',
+  footer_text text not null default 'Powered by GeoGrid',
+  -- Five colors for ranks 1-3, 4-7, 8-10, 11-15 and 16 and below
+  rank_colors jsonb,
+  updated_at timestamptz not null default now()
+);
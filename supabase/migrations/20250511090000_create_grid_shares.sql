@@ -0,0 +1,15 @@
+-- Public, read-only links to a grid result. The link carries a token signed with
+-- the share's id, so ids can't be guessed from other results and each link can
+-- expire, require a password or be revoked on its own.
+
+create table if not exists grid_shares (
+  id uuid primary key default gen_random_uuid(),
+  grid_result_id uuid not null references grid_results (id) on delete cascade,
+  -- scrypt hash as "salt:hash", both hex; null when the link is open
+  password_hash text,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists grid_shares_grid_result_idx on grid_shares (grid_result_id);
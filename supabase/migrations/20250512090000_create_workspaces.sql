@@ -0,0 +1,151 @@
+-- Workspaces let several teams share one deployment. Every business, scan,
+-- competitor, schedule, configuration and share link belongs to a workspace,
+-- and people see a workspace's data only while they are one of its members.
+--
+-- The API filters every query by the caller's workspace with the service role
+-- key; the row-level security policies below also stop the anon key from
+-- reading or writing other workspaces' rows directly.
+
+create table if not exists workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- Set on the workspace holding data saved before workspaces existed, until
+  -- the first person to sign in claims it
+  claimable boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists workspace_members (
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Copied from the account so member lists don't need the auth admin API
+  email text not null,
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_idx on workspace_members (user_id);
+
+-- People invited by email; the invitation turns into a membership the next time
+-- someone with that address signs in
+create table if not exists workspace_invitations (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  email text not null,
+  created_at timestamptz not null default now(),
+  unique (workspace_id, email)
+);
+
+create index if not exists workspace_invitations_email_idx on workspace_invitations (lower(email));
+
+-- Data saved before workspaces existed goes into one claimable workspace
+do $$
+declare
+  legacy_workspace uuid;
+begin
+  if exists (select 1 from businesses) or exists (select 1 from grid_results) or exists (select 1 from scan_jobs)
+     or exists (select 1 from scan_schedules) or exists (select 1 from grid_configs) then
+    insert into workspaces (name, claimable) values ('Default Workspace', true) returning id into legacy_workspace;
+  end if;
+
+  alter table businesses add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+  alter table grid_results add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+  alter table competitors add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+  alter table scan_jobs add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+  alter table scan_schedules add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+  alter table grid_configs add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+  alter table scan_sets add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+  alter table grid_shares add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+
+  if legacy_workspace is not null then
+    update businesses set workspace_id = legacy_workspace where workspace_id is null;
+    update grid_results set workspace_id = legacy_workspace where workspace_id is null;
+    update competitors set workspace_id = legacy_workspace where workspace_id is null;
+    update scan_jobs set workspace_id = legacy_workspace where workspace_id is null;
+    update scan_schedules set workspace_id = legacy_workspace where workspace_id is null;
+    update grid_configs set workspace_id = legacy_workspace where workspace_id is null;
+    update scan_sets set workspace_id = legacy_workspace where workspace_id is null;
+    update grid_shares set workspace_id = legacy_workspace where workspace_id is null;
+  end if;
+end $$;
+
+alter table businesses alter column workspace_id set not null;
+alter table grid_results alter column workspace_id set not null;
+alter table competitors alter column workspace_id set not null;
+alter table scan_jobs alter column workspace_id set not null;
+alter table scan_schedules alter column workspace_id set not null;
+alter table grid_configs alter column workspace_id set not null;
+alter table scan_sets alter column workspace_id set not null;
+alter table grid_shares alter column workspace_id set not null;
+
+create index if not exists businesses_workspace_idx on businesses (workspace_id);
+create index if not exists grid_results_workspace_idx on grid_results (workspace_id, created_at desc);
+create index if not exists competitors_workspace_idx on competitors (workspace_id);
+create index if not exists scan_jobs_workspace_idx on scan_jobs (workspace_id);
+create index if not exists scan_schedules_workspace_idx on scan_schedules (workspace_id);
+create index if not exists grid_configs_workspace_idx on grid_configs (workspace_id);
+create index if not exists scan_sets_workspace_idx on scan_sets (workspace_id);
+create index if not exists grid_shares_workspace_idx on grid_shares (workspace_id);
+
+-- Branding is now set per workspace instead of once for the deployment
+alter table branding_settings add column if not exists workspace_id uuid references workspaces (id) on delete cascade;
+update branding_settings set workspace_id = (select id from workspaces order by created_at limit 1) where workspace_id is null;
+delete from branding_settings where workspace_id is null;
+alter table branding_settings drop constraint if exists branding_settings_pkey;
+alter table branding_settings drop column if exists singleton;
+alter table branding_settings alter column workspace_id set not null;
+alter table branding_settings add primary key (workspace_id);
+
+-- Row-level security
+
+create or replace function is_workspace_member(target uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from workspace_members where workspace_id = target and user_id = auth.uid())
+$$;
+
+alter table workspaces enable row level security;
+alter table workspace_members enable row level security;
+alter table workspace_invitations enable row level security;
+
+drop policy if exists "Members read their workspaces" on workspaces;
+create policy "Members read their workspaces" on workspaces
+  for select using (is_workspace_member(id));
+
+drop policy if exists "Members read fellow members" on workspace_members;
+create policy "Members read fellow members" on workspace_members
+  for select using (is_workspace_member(workspace_id));
+
+drop policy if exists "Members read invitations" on workspace_invitations;
+create policy "Members read invitations" on workspace_invitations
+  for select using (is_workspace_member(workspace_id));
+
+do $$
+declare
+  scoped_table text;
+begin
+  foreach scoped_table in array array[
+    'businesses', 'grid_results', 'competitors', 'scan_jobs', 'scan_schedules',
+    'grid_configs', 'scan_sets', 'grid_shares', 'branding_settings'
+  ] loop
+    execute format('alter table %I enable row level security', scoped_table);
+    execute format('drop policy if exists "Workspace members" on %I', scoped_table);
+    execute format(
+      'create policy "Workspace members" on %I for all using (is_workspace_member(workspace_id)) with check (is_workspace_member(workspace_id))',
+      scoped_table
+    );
+  end loop;
+end $$;
+
+-- Rows that hang off a scan job or grid result follow their parent's workspace
+alter table scan_job_points enable row level security;
+drop policy if exists "Workspace members" on scan_job_points;
+create policy "Workspace members" on scan_job_points for all using (
+  exists (select 1 from scan_jobs where scan_jobs.id = scan_job_points.job_id and is_workspace_member(scan_jobs.workspace_id))
+);
+
+alter table grid_point_results enable row level security;
+drop policy if exists "Workspace members" on grid_point_results;
+create policy "Workspace members" on grid_point_results for all using (
+  exists (select 1 from scan_jobs where scan_jobs.id = grid_point_results.scan_job_id and is_workspace_member(scan_jobs.workspace_id))
+  or exists (select 1 from grid_results where grid_results.id = grid_point_results.grid_result_id and is_workspace_member(grid_results.workspace_id))
+);
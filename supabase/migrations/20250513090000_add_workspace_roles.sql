@@ -0,0 +1,128 @@
+-- What each member may do in a workspace: owners and admins manage the
+-- workspace, analysts run scans and share results, viewers only look.
+-- Everyone who joined before roles existed keeps full control as an owner.
+
+alter table workspace_members add column if not exists role text not null default 'owner';
+alter table workspace_members alter column role set default 'viewer';
+alter table workspace_members drop constraint if exists workspace_members_role_check;
+alter table workspace_members add constraint workspace_members_role_check
+  check (role in ('owner', 'admin', 'analyst', 'viewer'));
+
+-- The role someone gets when their invitation is accepted
+alter table workspace_invitations add column if not exists role text not null default 'viewer';
+alter table workspace_invitations drop constraint if exists workspace_invitations_role_check;
+alter table workspace_invitations add constraint workspace_invitations_role_check
+  check (role in ('owner', 'admin', 'analyst', 'viewer'));
+
+-- Row-level security: viewers keep read access but can no longer write
+create or replace function workspace_role(target uuid) returns text
+language sql stable security definer set search_path = public as $$
+  select role from workspace_members where workspace_id = target and user_id = auth.uid()
+$$;
+
+-- Writes follow hasPermission in lib/workspace-roles.ts: analysts and up run
+-- scans and share them, while deleting scans and changing saved configurations
+-- and branding is for owners and admins
+do $$
+declare
+  scoped_table text;
+begin
+  foreach scoped_table in array array[
+    'businesses', 'grid_results', 'competitors', 'scan_jobs', 'scan_schedules',
+    'grid_configs', 'scan_sets', 'grid_shares', 'branding_settings'
+  ] loop
+    execute format('drop policy if exists "Workspace members" on %I', scoped_table);
+    execute format('drop policy if exists "Workspace members read" on %I', scoped_table);
+    execute format('drop policy if exists "Workspace editors write" on %I', scoped_table);
+    execute format('drop policy if exists "Workspace admins write" on %I', scoped_table);
+    execute format(
+      'create policy "Workspace members read" on %I for select using (is_workspace_member(workspace_id))',
+      scoped_table
+    );
+  end loop;
+
+  foreach scoped_table in array array[
+    'businesses', 'competitors', 'scan_jobs', 'scan_schedules', 'scan_sets', 'grid_shares'
+  ] loop
+    execute format(
+      'create policy "Workspace editors write" on %I for all using (workspace_role(workspace_id) in (''owner'', ''admin'', ''analyst'')) with check (workspace_role(workspace_id) in (''owner'', ''admin'', ''analyst''))',
+      scoped_table
+    );
+  end loop;
+
+  foreach scoped_table in array array['grid_configs', 'branding_settings'] loop
+    execute format(
+      'create policy "Workspace admins write" on %I for all using (workspace_role(workspace_id) in (''owner'', ''admin'')) with check (workspace_role(workspace_id) in (''owner'', ''admin''))',
+      scoped_table
+    );
+  end loop;
+end $$;
+
+-- Scans save their results as analysts, but only owners and admins delete them
+drop policy if exists "Workspace editors insert" on grid_results;
+create policy "Workspace editors insert" on grid_results for insert
+  with check (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'));
+
+drop policy if exists "Workspace editors update" on grid_results;
+create policy "Workspace editors update" on grid_results for update
+  using (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'))
+  with check (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'));
+
+drop policy if exists "Workspace admins delete" on grid_results;
+create policy "Workspace admins delete" on grid_results for delete
+  using (workspace_role(workspace_id) in ('owner', 'admin'));
+
+-- Rows that hang off a scan job or grid result are read by every member of the
+-- parent's workspace and written by those who run scans in it
+drop policy if exists "Workspace members" on scan_job_points;
+drop policy if exists "Workspace members read" on scan_job_points;
+create policy "Workspace members read" on scan_job_points for select using (
+  exists (select 1 from scan_jobs where scan_jobs.id = scan_job_points.job_id and is_workspace_member(scan_jobs.workspace_id))
+);
+
+drop policy if exists "Workspace editors write" on scan_job_points;
+create policy "Workspace editors write" on scan_job_points for all using (
+  exists (
+    select 1 from scan_jobs
+    where scan_jobs.id = scan_job_points.job_id
+      and workspace_role(scan_jobs.workspace_id) in ('owner', 'admin', 'analyst')
+  )
+) with check (
+  exists (
+    select 1 from scan_jobs
+    where scan_jobs.id = scan_job_points.job_id
+      and workspace_role(scan_jobs.workspace_id) in ('owner', 'admin', 'analyst')
+  )
+);
+
+drop policy if exists "Workspace members" on grid_point_results;
+drop policy if exists "Workspace members read" on grid_point_results;
+create policy "Workspace members read" on grid_point_results for select using (
+  exists (select 1 from scan_jobs where scan_jobs.id = grid_point_results.scan_job_id and is_workspace_member(scan_jobs.workspace_id))
+  or exists (select 1 from grid_results where grid_results.id = grid_point_results.grid_result_id and is_workspace_member(grid_results.workspace_id))
+);
+
+drop policy if exists "Workspace editors write" on grid_point_results;
+create policy "Workspace editors write" on grid_point_results for all using (
+  exists (
+    select 1 from scan_jobs
+    where scan_jobs.id = grid_point_results.scan_job_id
+      and workspace_role(scan_jobs.workspace_id) in ('owner', 'admin', 'analyst')
+  )
+  or exists (
+    select 1 from grid_results
+    where grid_results.id = grid_point_results.grid_result_id
+      and workspace_role(grid_results.workspace_id) in ('owner', 'admin', 'analyst')
+  )
+) with check (
+  exists (
+    select 1 from scan_jobs
+    where scan_jobs.id = grid_point_results.scan_job_id
+      and workspace_role(scan_jobs.workspace_id) in ('owner', 'admin', 'analyst')
+  )
+  or exists (
+    select 1 from grid_results
+    where grid_results.id = grid_point_results.grid_result_id
+      and workspace_role(grid_results.workspace_id) in ('owner', 'admin', 'analyst')
+  )
+);
@@ -0,0 +1,49 @@
+-- Agencies organize their work as clients, each with projects, each with the
+-- businesses tracked for it. Scans, schedules and reports belong to a project
+-- through their business.
+
+create table if not exists clients (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists clients_workspace_idx on clients (workspace_id);
+
+create table if not exists projects (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  client_id uuid not null references clients (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists projects_client_idx on projects (client_id);
+create index if not exists projects_workspace_idx on projects (workspace_id);
+
+-- Businesses outside any project stay unassigned
+alter table businesses add column if not exists project_id uuid references projects (id) on delete set null;
+
+create index if not exists businesses_project_idx on businesses (project_id);
+create index if not exists businesses_place_idx on businesses (workspace_id, place_id);
+
+-- Row-level security, the same as the other workspace tables
+alter table clients enable row level security;
+alter table projects enable row level security;
+
+drop policy if exists "Workspace members read" on clients;
+create policy "Workspace members read" on clients
+  for select using (is_workspace_member(workspace_id));
+drop policy if exists "Workspace editors write" on clients;
+create policy "Workspace editors write" on clients for all
+  using (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'))
+  with check (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'));
+
+drop policy if exists "Workspace members read" on projects;
+create policy "Workspace members read" on projects
+  for select using (is_workspace_member(workspace_id));
+drop policy if exists "Workspace editors write" on projects;
+create policy "Workspace editors write" on projects for all
+  using (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'))
+  with check (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'));
@@ -0,0 +1,93 @@
+-- A workspace's own business locations, geocoded when they are saved. Each one
+-- points at the businesses row its scans are saved under.
+--
+-- A workspace with locations always has exactly one primary location: the
+-- first location becomes primary, making another location primary demotes the
+-- old one, and deleting the primary promotes the oldest remaining location.
+-- The triggers below apply these rules inside the statement that changes the
+-- locations, so concurrent requests can't leave two primaries or none.
+
+create table if not exists locations (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  business_id uuid references businesses (id) on delete set null,
+  name text not null,
+  address text not null,
+  city text not null,
+  state text not null,
+  zip_code text not null,
+  latitude double precision not null,
+  longitude double precision not null,
+  is_primary boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists locations_workspace_idx on locations (workspace_id);
+create index if not exists locations_business_idx on locations (business_id);
+create unique index if not exists locations_one_primary_idx on locations (workspace_id) where is_primary;
+
+create or replace function apply_primary_location_rules() returns trigger
+language plpgsql set search_path = public as $$
+begin
+  -- Demotions made by this trigger itself pass straight through
+  if pg_trigger_depth() > 1 then
+    return new;
+  end if;
+
+  -- Only one workspace's primary flags change at a time
+  perform pg_advisory_xact_lock(hashtext(new.workspace_id::text));
+
+  if tg_op = 'UPDATE' and old.is_primary and not new.is_primary then
+    raise exception 'Make another location primary instead of unsetting the primary location'
+      using errcode = 'check_violation';
+  end if;
+
+  if not new.is_primary and not exists (
+    select 1 from locations where workspace_id = new.workspace_id and is_primary and id <> new.id
+  ) then
+    new.is_primary := true;
+  end if;
+
+  if new.is_primary then
+    update locations set is_primary = false
+    where workspace_id = new.workspace_id and is_primary and id <> new.id;
+  end if;
+
+  new.updated_at := now();
+  return new;
+end $$;
+
+drop trigger if exists locations_primary_rules on locations;
+create trigger locations_primary_rules before insert or update on locations
+  for each row execute function apply_primary_location_rules();
+
+create or replace function promote_primary_location() returns trigger
+language plpgsql set search_path = public as $$
+begin
+  if old.is_primary then
+    perform pg_advisory_xact_lock(hashtext(old.workspace_id::text));
+    update locations set is_primary = true
+    where id = (
+      select id from locations where workspace_id = old.workspace_id order by created_at, id limit 1
+    );
+  end if;
+  return old;
+end $$;
+
+drop trigger if exists locations_promote_primary on locations;
+create trigger locations_promote_primary after delete on locations
+  for each row execute function promote_primary_location();
+
+-- Row-level security: every member reads locations, and like the
+-- manageLocations permission only owners and admins change them
+alter table locations enable row level security;
+
+drop policy if exists "Workspace members read" on locations;
+create policy "Workspace members read" on locations
+  for select using (is_workspace_member(workspace_id));
+drop policy if exists "Workspace editors write" on locations;
+drop policy if exists "Workspace admins write" on locations;
+create policy "Workspace admins write" on locations for all
+  using (workspace_role(workspace_id) in ('owner', 'admin'))
+  with check (workspace_role(workspace_id) in ('owner', 'admin'));
@@ -0,0 +1,27 @@
+-- A scan import launches the scans of a whole spreadsheet of businesses at
+-- once: one scan set per row, grouped under the import so their progress can
+-- be followed together.
+
+create table if not exists scan_imports (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  file_name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists scan_imports_workspace_idx on scan_imports (workspace_id, created_at desc);
+
+alter table scan_sets add column if not exists import_id uuid references scan_imports (id) on delete set null;
+
+create index if not exists scan_sets_import_idx on scan_sets (import_id);
+
+-- Row-level security, the same as the other workspace tables
+alter table scan_imports enable row level security;
+
+drop policy if exists "Workspace members read" on scan_imports;
+create policy "Workspace members read" on scan_imports
+  for select using (is_workspace_member(workspace_id));
+drop policy if exists "Workspace editors write" on scan_imports;
+create policy "Workspace editors write" on scan_imports for all
+  using (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'))
+  with check (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'));
@@ -0,0 +1,56 @@
+-- Business Profile posts drafted for many locations at once and published at
+-- their scheduled time. A post is written once as a template, e.g. "Best
+-- {{keyword}} in {{city}}", and saved per location with the location's values
+-- filled in.
+
+-- What a location's posts fill in, and the Business Profile they go to
+alter table locations add column if not exists neighborhood text;
+alter table locations add column if not exists keyword text;
+-- Business Profile API resource name, e.g. accounts/123/locations/456
+alter table locations add column if not exists profile_name text;
+
+create table if not exists business_posts (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  location_id uuid not null references locations (id) on delete cascade,
+  -- Posts composed together share a batch
+  batch_id uuid not null,
+  type text not null check (type in ('update', 'offer', 'event')),
+  title text,
+  summary text not null,
+  call_to_action jsonb,
+  -- Offers and events run from start to end
+  starts_at timestamptz,
+  ends_at timestamptz,
+  -- Time zone the start and end were entered in; the profile shows them as
+  -- wall-clock times there
+  time_zone text not null default 'UTC',
+  coupon_code text,
+  redeem_url text,
+  terms text,
+  status text not null default 'scheduled' check (status in ('scheduled', 'publishing', 'published', 'failed')),
+  scheduled_at timestamptz not null,
+  published_at timestamptz,
+  -- When a run started publishing the post; runs that stop leave it publishing
+  claimed_at timestamptz,
+  -- Resource name of the published post, returned by the Business Profile API
+  external_name text,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists business_posts_workspace_idx on business_posts (workspace_id, scheduled_at);
+create index if not exists business_posts_due_idx on business_posts (scheduled_at) where status = 'scheduled';
+create index if not exists business_posts_location_idx on business_posts (location_id);
+create index if not exists business_posts_publishing_idx on business_posts (claimed_at) where status = 'publishing';
+
+-- Row-level security, the same as the other workspace tables
+alter table business_posts enable row level security;
+
+drop policy if exists "Workspace members read" on business_posts;
+create policy "Workspace members read" on business_posts
+  for select using (is_workspace_member(workspace_id));
+drop policy if exists "Workspace editors write" on business_posts;
+create policy "Workspace editors write" on business_posts for all
+  using (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'))
+  with check (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'));
@@ -0,0 +1,80 @@
+-- Reports that cover several scans at once. A template saves what a report
+-- covers (businesses, keywords, a date range and sections) so it can be
+-- generated again; each generation is archived as a numbered version with the
+-- parameters it was run with, the scans it picked and the files it rendered to,
+-- so an old version downloads as it was even after its scans or the branding
+-- changed.
+
+create table if not exists report_templates (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  name text not null,
+  parameters jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists report_templates_workspace_idx on report_templates (workspace_id, name);
+
+create table if not exists generated_reports (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references workspaces (id) on delete cascade,
+  -- Null for reports built without saving a template, or whose template was deleted
+  template_id uuid references report_templates (id) on delete set null,
+  -- 1, 2, 3... per template; set by the trigger below
+  version integer not null default 1,
+  name text not null,
+  parameters jsonb not null,
+  -- Absolute bounds the date range resolved to when the report was generated
+  range_from timestamptz,
+  range_to timestamptz not null,
+  grid_result_ids uuid[] not null,
+  -- The report as rendered when it was generated
+  pdf bytea not null,
+  csv text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists generated_reports_workspace_idx on generated_reports (workspace_id, created_at desc);
+create index if not exists generated_reports_template_idx on generated_reports (template_id, version desc);
+
+-- Number each template's reports in the order they were generated. The lock
+-- keeps two reports generated at the same moment from getting the same number.
+create or replace function number_generated_report() returns trigger
+language plpgsql set search_path = public as $$
+begin
+  if new.template_id is null then
+    new.version := 1;
+    return new;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(new.template_id::text));
+  select coalesce(max(version), 0) + 1 into new.version
+    from generated_reports
+    where template_id = new.template_id;
+  return new;
+end $$;
+
+drop trigger if exists number_generated_report on generated_reports;
+create trigger number_generated_report before insert on generated_reports
+  for each row execute function number_generated_report();
+
+-- Row-level security, the same as the other workspace tables
+alter table report_templates enable row level security;
+alter table generated_reports enable row level security;
+
+drop policy if exists "Workspace members read" on report_templates;
+create policy "Workspace members read" on report_templates
+  for select using (is_workspace_member(workspace_id));
+drop policy if exists "Workspace editors write" on report_templates;
+create policy "Workspace editors write" on report_templates for all
+  using (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'))
+  with check (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'));
+
+drop policy if exists "Workspace members read" on generated_reports;
+create policy "Workspace members read" on generated_reports
+  for select using (is_workspace_member(workspace_id));
+drop policy if exists "Workspace editors write" on generated_reports;
+create policy "Workspace editors write" on generated_reports for all
+  using (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'))
+  with check (workspace_role(workspace_id) in ('owner', 'admin', 'analyst'));